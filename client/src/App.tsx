@@ -5,6 +5,10 @@ import { queryClient } from "./lib/queryClient";
 import Home from "./pages/home";
 import NotFound from "./pages/not-found";
 import ReportBuilder from "./pages/report-builder";
+import Tanks from "./pages/tanks";
+import TankDetail from "./pages/tank-detail";
+import Organizations from "./pages/organizations";
+import ReportTemplates from "./pages/report-templates";
 import Landing from "./pages/landing";
 import { useAuth } from "./hooks/useAuth";
 
@@ -30,7 +34,12 @@ function App() {
     <div className="min-h-screen bg-gray-50">
       <Switch>
         <Route path="/" component={Home} />
+        <Route path="/report-builder" component={ReportBuilder} />
         <Route path="/report/:id" component={ReportBuilder} />
+        <Route path="/tanks" component={Tanks} />
+        <Route path="/tanks/:id" component={TankDetail} />
+        <Route path="/organizations" component={Organizations} />
+        <Route path="/organizations/:id/templates" component={ReportTemplates} />
         <Route component={NotFound} />
       </Switch>
     </div>
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+
+export type PasswordSignInMode = 'signIn' | 'register' | 'forgot' | 'reset';
+
+interface PasswordSignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: PasswordSignInMode;
+  onModeChange: (mode: PasswordSignInMode) => void;
+  allowSignup: boolean;
+  resetToken?: string;
+}
+
+const titles: Record<PasswordSignInMode, string> = {
+  signIn: "Sign In",
+  register: "Create Account",
+  forgot: "Forgot Password",
+  reset: "Choose a New Password",
+};
+
+const errorMessages: Record<PasswordSignInMode, Record<number, string>> = {
+  signIn: { 401: "Incorrect email or password" },
+  register: { 400: "Enter a valid email and a password of at least 8 characters", 409: "An account with that email already exists" },
+  forgot: { 400: "Enter a valid email" },
+  reset: { 400: "The reset link is invalid or has expired, or the password is shorter than 8 characters" },
+};
+
+export function PasswordSignInDialog({
+  open, onOpenChange, mode, onModeChange, allowSignup, resetToken
+}: PasswordSignInDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ email: '', password: '', firstName: '', lastName: '' });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      switch (mode) {
+        case 'signIn':
+          return apiRequest("POST", "/api/auth/local/login", { email: form.email, password: form.password });
+        case 'register':
+          return apiRequest("POST", "/api/auth/local/register", form);
+        case 'forgot':
+          return apiRequest("POST", "/api/auth/local/forgot", { email: form.email });
+        case 'reset':
+          return apiRequest("POST", "/api/auth/local/reset", { token: resetToken, password: form.password });
+      }
+    },
+    onSuccess: () => {
+      setForm({ ...form, password: '' });
+      if (mode === 'forgot') {
+        toast({ title: "Reset requested", description: "If that email has an account, a reset link is on its way" });
+        onModeChange('signIn');
+      } else if (mode === 'reset') {
+        toast({ title: "Password changed", description: "Sign in with your new password" });
+        window.history.replaceState(null, '', '/');
+        onModeChange('signIn');
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: `${titles[mode]} failed`,
+        description: errorMessages[mode][error.status] || error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{titles[mode]}</DialogTitle>
+          <DialogDescription>
+            {mode === 'forgot'
+              ? "Enter the email you sign in with to request a password reset link"
+              : "API 653 Report Builder account"}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="firstName">First Name</Label>
+                <Input
+                  id="firstName"
+                  value={form.firstName}
+                  onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="lastName">Last Name</Label>
+                <Input
+                  id="lastName"
+                  value={form.lastName}
+                  onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          {mode !== 'reset' && (
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+          )}
+          {mode !== 'forgot' && (
+            <div>
+              <Label htmlFor="password">{mode === 'reset' ? "New Password" : "Password"}</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === 'signIn' ? "current-password" : "new-password"}
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div className="space-x-3 text-sm">
+              {mode === 'signIn' && (
+                <>
+                  <button type="button" className="text-blue-600 hover:underline" onClick={() => onModeChange('forgot')}>
+                    Forgot password?
+                  </button>
+                  {allowSignup && (
+                    <button type="button" className="text-blue-600 hover:underline" onClick={() => onModeChange('register')}>
+                      Create an account
+                    </button>
+                  )}
+                </>
+              )}
+              {mode !== 'signIn' && (
+                <button type="button" className="text-blue-600 hover:underline" onClick={() => onModeChange('signIn')}>
+                  Back to sign in
+                </button>
+              )}
+            </div>
+            <Button type="submit" disabled={submitMutation.isPending}>
+              {submitMutation.isPending ? "Please wait..." : titles[mode]}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  availableTransitions, reportStatus, reportStatusLabels, reportTransitions, type TransitionAction
+} from "@shared/workflow";
+import { userRoleLabels } from "@shared/access";
+import { ReportAccess, ReportStatusChange } from "@/types/report";
+
+interface ApprovalWorkflowProps {
+  reportId?: string;
+}
+
+export function ApprovalWorkflow({ reportId }: ApprovalWorkflowProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingAction, setPendingAction] = useState<TransitionAction | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: report, isLoading } = useQuery<any>({
+    queryKey: [`/api/reports/${reportId}`],
+    enabled: !!reportId,
+  });
+
+  const { data: access } = useQuery<ReportAccess>({
+    queryKey: [`/api/reports/${reportId}/access`],
+    enabled: !!reportId,
+  });
+
+  const { data: statusChanges = [] } = useQuery<ReportStatusChange[]>({
+    queryKey: [`/api/reports/${reportId}/transitions`],
+    enabled: !!reportId,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (data: { action: TransitionAction; comment: string }) => {
+      return apiRequest("POST", `/api/reports/${reportId}/transitions`, data);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/transitions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/access`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      setPendingAction(null);
+      setComment("");
+      toast({ title: `${reportTransitions[action].label}: done` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error changing report status",
+        description: error.status === 403
+          ? "Your role does not allow this step, or you cannot review your own report"
+          : error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading || !report) {
+    return <div className="animate-pulse bg-gray-200 h-96 rounded-lg"></div>;
+  }
+
+  const role = access?.role;
+  const status = reportStatus(report.status);
+  const actions = availableTransitions(status, role);
+
+  const handleSubmit = () => {
+    if (!pendingAction) return;
+    if (!comment.trim()) {
+      toast({
+        title: "Missing required fields",
+        description: "A comment is required for every status change",
+        variant: "destructive"
+      });
+      return;
+    }
+    transitionMutation.mutate({ action: pendingAction, comment });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-900">Review &amp; Approval</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Draft → Ready for Review → Reviewed → Approved → Issued. Issued reports are read-only until reissued.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-3">
+            <Badge variant={status === 'issued' ? 'default' : 'secondary'}>{reportStatusLabels[status]}</Badge>
+            <span className="text-sm text-gray-700">Revision {report.revisionLetter}</span>
+            {role && <span className="text-sm text-gray-500">Your role: {userRoleLabels[role]}</span>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <strong>Reviewed:</strong> {report.reviewedAt ? new Date(report.reviewedAt).toLocaleDateString() : "-"}
+            </div>
+            <div>
+              <strong>Approved:</strong> {report.approvedAt ? new Date(report.approvedAt).toLocaleDateString() : "-"}
+            </div>
+            <div>
+              <strong>Issued:</strong> {report.issuedAt ? new Date(report.issuedAt).toLocaleDateString() : "-"}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {actions.length === 0 ? (
+              <p className="text-sm text-gray-600">No status changes are available to your role at this stage.</p>
+            ) : (
+              actions.map((action) => (
+                <Button
+                  key={action}
+                  variant={action === 'return' ? 'outline' : 'default'}
+                  onClick={() => setPendingAction(action)}
+                >
+                  {reportTransitions[action].label}
+                </Button>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-900">Status History</h2>
+        </CardHeader>
+        <CardContent>
+          {statusChanges.length === 0 ? (
+            <p className="text-sm text-gray-600">This report has not changed status yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Rev</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Comment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statusChanges.map((change) => (
+                  <TableRow key={change.id}>
+                    <TableCell>{new Date(change.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{change.revisionLetter}</TableCell>
+                    <TableCell>{reportTransitions[change.action as TransitionAction]?.label || change.action}</TableCell>
+                    <TableCell>
+                      {reportStatusLabels[reportStatus(change.fromStatus)]} → {reportStatusLabels[reportStatus(change.toStatus)]}
+                    </TableCell>
+                    <TableCell>{change.changedByName || "-"}</TableCell>
+                    <TableCell className="whitespace-pre-wrap">{change.comment}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction ? reportTransitions[pendingAction].label : ""}</DialogTitle>
+            <DialogDescription>
+              {pendingAction === 'reissue'
+                ? "The report reopens as a draft under the next revision letter"
+                : "Record why the report is moving to the next stage"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="transitionComment">Comment <span className="text-red-500">*</span></Label>
+              <Textarea
+                id="transitionComment"
+                rows={4}
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPendingAction(null)}>Cancel</Button>
+              <Button onClick={handleSubmit} disabled={transitionMutation.isPending}>
+                {transitionMutation.isPending ? "Saving..." : "Confirm"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, ExternalLink, MapPin, PenLine, Save, Trash2, Upload } from "lucide-react";
+import {
+  attachmentKinds, attachmentKindLabels, attachmentLinkTypes, attachmentLinkLabels, PHOTO_APPENDIX,
+  type AttachmentKind, type AttachmentLinkType, type PhotoAnnotation
+} from "@shared/attachments";
+import type { NozzleCMLData, ShellCalculationData } from "@shared/calculations";
+import { CMLRecord, ReportAttachment } from "@/types/report";
+import { AnnotationOverlay, PhotoAnnotator } from "./photo-annotator";
+
+interface AttachmentsFormProps {
+  reportId?: string;
+}
+
+type AttachmentDetails = Pick<ReportAttachment, "kind" | "caption" | "photoNumber" | "linkType" | "linkRef" | "annotations">;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface PhotoCardProps {
+  reportId: string;
+  photo: ReportAttachment;
+  linkOptions: Record<AttachmentLinkType, string[]>;
+  saving: boolean;
+  onSave: (details: Partial<AttachmentDetails>) => void;
+  onAnnotate: () => void;
+  onDelete: () => void;
+}
+
+function PhotoCard({ reportId, photo, linkOptions, saving, onSave, onAnnotate, onDelete }: PhotoCardProps) {
+  const [caption, setCaption] = useState(photo.caption ?? "");
+  const [photoNumber, setPhotoNumber] = useState(photo.photoNumber?.toString() ?? "");
+  const [linkType, setLinkType] = useState<AttachmentLinkType | "none">(photo.linkType ?? "none");
+  const [linkRef, setLinkRef] = useState(photo.linkRef ?? "");
+
+  useEffect(() => {
+    setCaption(photo.caption ?? "");
+    setPhotoNumber(photo.photoNumber?.toString() ?? "");
+    setLinkType(photo.linkType ?? "none");
+    setLinkRef(photo.linkRef ?? "");
+  }, [photo]);
+
+  const changed = caption !== (photo.caption ?? "")
+    || photoNumber !== (photo.photoNumber?.toString() ?? "")
+    || linkType !== (photo.linkType ?? "none")
+    || linkRef !== (photo.linkRef ?? "");
+
+  const handleSave = () => {
+    onSave({
+      caption: caption.trim() || null,
+      photoNumber: photoNumber ? parseInt(photoNumber) : null,
+      linkType: linkType === "none" ? null : linkType,
+      linkRef: linkType === "none" ? null : linkRef.trim() || null,
+    });
+  };
+
+  const listId = `photo-links-${photo.id}`;
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div
+        className="relative bg-gray-100"
+        style={{ aspectRatio: photo.width && photo.height ? `${photo.width} / ${photo.height}` : "4 / 3" }}
+      >
+        {photo.thumbnailKey ? (
+          <>
+            <img
+              src={`/api/reports/${reportId}/attachments/${photo.id}/thumbnail`}
+              alt={photo.caption || photo.fileName}
+              className="w-full h-full"
+              loading="lazy"
+            />
+            {photo.width && photo.height && (
+              <AnnotationOverlay annotations={photo.annotations} width={photo.width} height={photo.height} />
+            )}
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-full text-sm text-gray-500">No preview</div>
+        )}
+      </div>
+
+      <div className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-900 truncate" title={photo.fileName}>{photo.fileName}</span>
+          {photo.annotations.length > 0 && (
+            <Badge variant="secondary">{photo.annotations.length} annotation{photo.annotations.length === 1 ? "" : "s"}</Badge>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          <div>
+            <Label className="text-xs text-gray-600">Photo No.</Label>
+            <Input type="number" min={1} value={photoNumber} onChange={(e) => setPhotoNumber(e.target.value)} />
+          </div>
+          <div className="col-span-3">
+            <Label className="text-xs text-gray-600">Caption</Label>
+            <Input value={caption} onChange={(e) => setCaption(e.target.value)} placeholder="What the photo shows" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs text-gray-600">Shows</Label>
+            <Select value={linkType} onValueChange={(value) => setLinkType(value as AttachmentLinkType | "none")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">General view</SelectItem>
+                {attachmentLinkTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{attachmentLinkLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-gray-600">Reference</Label>
+            <Input
+              value={linkRef}
+              onChange={(e) => setLinkRef(e.target.value)}
+              disabled={linkType === "none"}
+              list={listId}
+              placeholder={linkType === "finding" ? "Finding" : "ID"}
+            />
+            {linkType !== "none" && (
+              <datalist id={listId}>
+                {linkOptions[linkType].map((option) => <option key={option} value={option} />)}
+              </datalist>
+            )}
+          </div>
+        </div>
+
+        {(photo.takenAt || photo.latitude !== null) && (
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{photo.takenAt ? `Taken ${new Date(photo.takenAt).toLocaleString()}` : ""}</span>
+            {photo.latitude !== null && photo.longitude !== null && (
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${photo.latitude}&mlon=${photo.longitude}#map=18/${photo.latitude}/${photo.longitude}`}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center text-primary hover:underline"
+              >
+                <MapPin className="h-3 w-3 mr-1" />
+                {photo.latitude.toFixed(5)}, {photo.longitude.toFixed(5)}
+              </a>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-1">
+            <Button variant="outline" size="sm" onClick={onAnnotate} disabled={!photo.thumbnailKey}>
+              <PenLine className="h-4 w-4 mr-1" />
+              Annotate
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/reports/${reportId}/attachments/${photo.id}/file`} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onDelete}>
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+          <Button size="sm" onClick={handleSave} disabled={!changed || saving}>
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AttachmentsForm({ reportId }: AttachmentsFormProps) {
+  const [uploadKind, setUploadKind] = useState<AttachmentKind>("photo");
+  const [uploading, setUploading] = useState(false);
+  const [annotating, setAnnotating] = useState<ReportAttachment>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: attachments = [], isLoading } = useQuery<ReportAttachment[]>({
+    queryKey: [`/api/reports/${reportId}/attachments`],
+    enabled: !!reportId,
+  });
+
+  // Suggestions for what a photo shows, from the report's own CMLs, nozzles and courses
+  const { data: cmlRecords = [] } = useQuery<CMLRecord[]>({
+    queryKey: [`/api/reports/${reportId}/cml-records`],
+    enabled: !!reportId,
+  });
+  const { data: nozzleCml } = useQuery<NozzleCMLData>({
+    queryKey: [`/api/nozzle-cml/${reportId}`],
+    enabled: !!reportId,
+  });
+  const { data: shellCalcs } = useQuery<Partial<ShellCalculationData>>({
+    queryKey: [`/api/reports/${reportId}/shell-calculations`],
+    enabled: !!reportId,
+  });
+
+  const linkOptions: Record<AttachmentLinkType, string[]> = {
+    cml: cmlRecords.map((record) => record.cmlId).filter(Boolean),
+    nozzle: (nozzleCml?.records || []).map((record) => record.nozzleId).filter(Boolean),
+    course: (shellCalcs?.courses || []).map((course) => String(course.courseNumber)),
+    finding: [],
+  };
+
+  const photos = attachments.filter((attachment) => attachment.kind === "photo");
+  const files = attachments.filter((attachment) => attachment.kind !== "photo");
+
+  const invalidateAttachments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/attachments`] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  // Files go up one at a time so a failed one does not stop the rest
+  const handleUpload = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setUploading(true);
+    let failed = 0;
+    for (const file of Array.from(fileList)) {
+      const body = new FormData();
+      body.append("kind", uploadKind);
+      body.append("file", file);
+      const response = await fetch(`/api/reports/${reportId}/attachments`, { method: "POST", body });
+      if (!response.ok) {
+        failed++;
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        toast({ title: `Could not upload ${file.name}`, description: error, variant: "destructive" });
+      }
+    }
+    setUploading(false);
+    invalidateAttachments();
+    if (failed < fileList.length) {
+      toast({ title: "Upload complete", description: `${fileList.length - failed} file(s) uploaded` });
+    }
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, details }: { id: string; details: Partial<AttachmentDetails> }) => {
+      return apiRequest("PUT", `/api/reports/${reportId}/attachments/${id}`, details);
+    },
+    onSuccess: () => {
+      invalidateAttachments();
+      setAnnotating(undefined);
+    },
+    onError: showError("Error saving attachment"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/reports/${reportId}/attachments/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    },
+    onSuccess: invalidateAttachments,
+    onError: showError("Error deleting attachment"),
+  });
+
+  const saveAnnotations = (annotations: PhotoAnnotation[]) => {
+    if (annotating) updateMutation.mutate({ id: annotating.id, details: { annotations } });
+  };
+
+  if (!reportId) return null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-900">Photos &amp; Attachments</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Photos print in Appendix {PHOTO_APPENDIX} in photo number order, with their caption and what they show.
+            An uploaded logo or signature replaces the report's logo or signature link in the exports.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-48">
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Upload as</Label>
+              <Select value={uploadKind} onValueChange={(value) => setUploadKind(value as AttachmentKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {attachmentKinds.map((kind) => (
+                    <SelectItem key={kind} value={kind}>{attachmentKindLabels[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button asChild disabled={uploading}>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                {uploading ? "Uploading..." : "Choose Files"}
+                <input
+                  type="file"
+                  className="hidden"
+                  multiple={uploadKind === "photo" || uploadKind === "document"}
+                  accept={uploadKind === "document" ? undefined : "image/png,image/jpeg,image/webp,image/tiff"}
+                  disabled={uploading}
+                  onChange={(e) => {
+                    handleUpload(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-md font-semibold text-gray-900">Photographs ({photos.length})</h3>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse bg-gray-200 h-48 rounded-lg"></div>
+          ) : photos.length === 0 ? (
+            <div className="text-center py-8 text-gray-600">
+              <Camera className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+              No photos yet. Upload inspection photos to include them in Appendix {PHOTO_APPENDIX}.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {photos.map((photo) => (
+                <PhotoCard
+                  key={photo.id}
+                  reportId={reportId}
+                  photo={photo}
+                  linkOptions={linkOptions}
+                  saving={updateMutation.isPending}
+                  onSave={(details) => updateMutation.mutate({ id: photo.id, details })}
+                  onAnnotate={() => setAnnotating(photo)}
+                  onDelete={() => deleteMutation.mutate(photo.id)}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {files.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-md font-semibold text-gray-900">Other Files</h3>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Use</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {files.map((file) => (
+                  <TableRow key={file.id}>
+                    <TableCell>
+                      <a
+                        href={`/api/reports/${reportId}/attachments/${file.id}/file`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {file.fileName}
+                      </a>
+                    </TableCell>
+                    <TableCell className="w-48">
+                      <Select
+                        value={file.kind}
+                        onValueChange={(kind) => updateMutation.mutate({ id: file.id, details: { kind: kind as AttachmentKind } })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {attachmentKinds
+                            .filter((kind) => kind === "document" || file.thumbnailKey)
+                            .map((kind) => (
+                              <SelectItem key={kind} value={kind}>{attachmentKindLabels[kind]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{formatSize(file.size)}</TableCell>
+                    <TableCell>{new Date(file.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(file.id)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PhotoAnnotator
+        reportId={reportId}
+        photo={annotating}
+        saving={updateMutation.isPending}
+        onSave={saveAnnotations}
+        onClose={() => setAnnotating(undefined)}
+      />
+    </div>
+  );
+}
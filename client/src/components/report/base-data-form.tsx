@@ -80,7 +80,10 @@ export function BaseDataForm({ reportId, unitSet }: BaseDataFormProps) {
         inspectorRecord: report.inspectorRecord || "",
         inspectorCertification: report.inspectorCertification || "",
         coverText: report.coverText || "",
-        customFields: report.customFields || {},
+        // Calculated sections live in customFields too but are saved by their own tabs
+        customFields: Object.fromEntries(
+          Object.entries(report.customFields || {}).filter(([, value]) => typeof value === "string")
+        ) as Record<string, string>,
       });
     }
   }, [report, form]);
@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { BrittleFractureAssessment as Assessment } from "@shared/calculations";
+
+interface BrittleFractureAssessmentProps {
+  reportId: string;
+}
+
+export function BrittleFractureAssessment({ reportId }: BrittleFractureAssessmentProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: assessment } = useQuery<Partial<Assessment>>({
+    queryKey: [`/api/reports/${reportId}/brittle-fracture`],
+    enabled: !!reportId,
+  });
+
+  const assessMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/reports/${reportId}/brittle-fracture`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/brittle-fracture`] });
+      toast({
+        title: "Assessment Complete",
+        description: "Brittle fracture assessment has been updated",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to run brittle fracture assessment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Brittle Fracture Assessment (API 653 Section 5)</span>
+          <Button onClick={() => assessMutation.mutate()} disabled={assessMutation.isPending} variant="outline">
+            <ShieldAlert className="mr-2 h-4 w-4" />
+            Run Assessment
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Uses construction standard, design metal temperature and hydrotest history from the tank history,
+          and shell thickness and fill height from the shell calculations.
+        </p>
+
+        {assessment?.steps ? (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">Risk of failure:</span>
+              <Badge variant={assessment.risk === "low" ? "default" : "destructive"}>
+                {assessment.risk === "low" ? "Low" : "Requires evaluation"}
+              </Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Question (Figure 5-1)</TableHead>
+                  <TableHead>Answer</TableHead>
+                  <TableHead>Detail</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assessment.steps.map((step) => (
+                  <TableRow key={step.step}>
+                    <TableCell>{step.step}</TableCell>
+                    <TableCell>{step.question}</TableCell>
+                    <TableCell className="uppercase">{step.answer}</TableCell>
+                    <TableCell>{step.detail || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm">{assessment.conclusion}</p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">No assessment has been run for this report.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,18 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { TrendingUp, Clock, Shield, Calculator } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { calculateStatistics } from "@/lib/calculations";
+import { apiRequest } from "@/lib/queryClient";
+import type { InspectionIntervals } from "@shared/calculations";
 
 interface CalculationsFormProps {
   reportId?: string;
 }
 
 export function CalculationsForm({ reportId }: CalculationsFormProps) {
+  const queryClient = useQueryClient();
+
   const { data: cmlRecords = [] } = useQuery({
     queryKey: ["/api/reports", reportId, "cml-records"],
     enabled: !!reportId,
@@ -19,6 +23,25 @@ export function CalculationsForm({ reportId }: CalculationsFormProps) {
     enabled: !!reportId,
   });
 
+  const { data: intervals } = useQuery<Partial<InspectionIntervals>>({
+    queryKey: [`/api/reports/${reportId}/inspection-intervals`],
+    enabled: !!reportId,
+  });
+
+  const recalculateIntervals = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/reports/${reportId}/inspection-intervals`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/inspection-intervals`] });
+    },
+  });
+
+  const nextInspection = [intervals?.external, intervals?.ut, intervals?.internal]
+    .filter((interval) => interval?.dueDate)
+    .map((interval) => interval!.dueDate)
+    .sort()[0];
+
   // Calculate statistics from CML data
   const corrosionRates = cmlRecords
     .filter((cml: any) => cml.corrosionRate)
@@ -75,7 +98,7 @@ export function CalculationsForm({ reportId }: CalculationsFormProps) {
       metrics: [
         { label: "Status:", value: "Acceptable", color: "text-green-600", badge: true },
         { label: "Safety Factor:", value: "2.8", color: "text-gray-900" },
-        { label: "Next Inspection:", value: "2029", color: "text-gray-900" },
+        { label: "Next Inspection:", value: nextInspection || "Not calculated", color: "text-gray-900" },
       ]
     }
   ];
@@ -126,6 +149,36 @@ export function CalculationsForm({ reportId }: CalculationsFormProps) {
           ))}
         </div>
 
+        {/* Inspection Intervals */}
+        <div>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-md font-semibold text-gray-900">Inspection Intervals (API 653 Sections 6.3 and 6.4)</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => recalculateIntervals.mutate()}
+              disabled={!reportId || recalculateIntervals.isPending}
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              Recalculate
+            </Button>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-6 space-y-3 text-sm">
+            {[
+              { label: "External (in-service)", interval: intervals?.external },
+              { label: "UT Thickness", interval: intervals?.ut },
+              { label: "Internal", interval: intervals?.internal },
+            ].map(({ label, interval }) => (
+              <div key={label} className="grid grid-cols-4 gap-4">
+                <span className="text-gray-600">{label}:</span>
+                <span className="font-medium">{interval ? `${interval.years} years` : "-"}</span>
+                <span className="font-medium">{interval?.dueDate || "-"}</span>
+                <span className="text-gray-600">{interval?.reason || ""}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Calculation Details */}
         <div>
           <h3 className="text-md font-semibold text-gray-900 mb-4">Calculation Details</h3>
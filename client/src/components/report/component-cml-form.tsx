@@ -4,14 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, Save, Copy, FileDown, Printer, Upload, Download } from "lucide-react";
+import { Plus, Trash2, Save, Copy, FileDown, Printer, Upload, Download, History } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { COMPONENT_OPTIONS, CMLRecord } from "@/types/report";
-import { calculateCorrosionRate, formatThickness, formatCorrosionRate, formatRemainingLife, getRemainingLifeBadgeColor } from "@/lib/calculations";
+import { COMPONENT_OPTIONS, CMLRecord, CMLReading } from "@/types/report";
+import { formatThickness, formatCorrosionRate, formatRemainingLife, getRemainingLifeBadgeColor } from "@/lib/calculations";
 import * as XLSX from 'xlsx';
 
 interface ComponentCMLFormProps {
@@ -25,17 +26,20 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
     cmlId: '',
   });
   
+  const [historyCml, setHistoryCml] = useState<any>(null);
+  const [newReading, setNewReading] = useState({ readingDate: '', thickness: '', source: '' });
+  
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: report } = useQuery<any>({
-    queryKey: ["/api/reports", reportId],
+  const { data: cmlRecords = [] } = useQuery<any[]>({
+    queryKey: [`/api/reports/${reportId}/cml-records`],
     enabled: !!reportId,
   });
 
-  const { data: cmlRecords = [] } = useQuery<any[]>({
-    queryKey: ["/api/reports", reportId, "cml-records"],
-    enabled: !!reportId,
+  const { data: readings = [] } = useQuery<any[]>({
+    queryKey: [`/api/cml-records/${historyCml?.id}/readings`],
+    enabled: !!historyCml,
   });
 
   const createCmlMutation = useMutation({
@@ -44,7 +48,7 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
       return apiRequest("POST", `/api/reports/${reportId}/cml-records`, data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "cml-records"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/cml-records`] });
       toast({ title: "CML record created successfully" });
       setNewCml({ component: '', location: '', cmlId: '' });
     },
@@ -55,7 +59,7 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
       return apiRequest("PUT", `/api/cml-records/${id}`, data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "cml-records"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/cml-records`] });
       toast({ title: "CML record updated successfully" });
     },
   });
@@ -65,7 +69,7 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
       return apiRequest("DELETE", `/api/cml-records/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "cml-records"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/cml-records`] });
       toast({ title: "CML record deleted successfully" });
     },
   });
@@ -89,28 +93,51 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
     });
   };
 
+  const createReadingMutation = useMutation({
+    mutationFn: async (data: Omit<CMLReading, 'cmlRecordId'>) => {
+      return apiRequest("POST", `/api/cml-records/${historyCml.id}/readings`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cml-records/${historyCml.id}/readings`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/cml-records`] });
+      setNewReading({ readingDate: '', thickness: '', source: '' });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error adding reading",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deleteReadingMutation = useMutation({
+    mutationFn: async (readingId: string) => {
+      const response = await fetch(`/api/cml-records/${historyCml.id}/readings/${readingId}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cml-records/${historyCml.id}/readings`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/cml-records`] });
+    },
+  });
+
+  // Rates and remaining life are recalculated by the server from the reading history
   const handleUpdateReading = (id: string, field: string, value: string) => {
-    const numValue = value ? parseFloat(value) : undefined;
-    const cml = cmlRecords.find((c: any) => c.id === id);
-    
-    if (!cml) return;
+    const numValue = value ? parseFloat(value) : null;
+    updateCmlMutation.mutate({ id, [field]: numValue } as any);
+  };
 
-    // Calculate corrosion rate and remaining life if we have enough data
-    let updates: any = { [field]: numValue };
-    
-    if (field === 'currentReading' && numValue && report?.originalThickness && report?.age) {
-      const calculation = calculateCorrosionRate({
-        originalThickness: parseFloat(report.originalThickness),
-        currentThickness: numValue,
-        serviceYears: report.age,
-        practicalTmin: 0.125, // Default practical tmin - should be configurable
+  const handleAddReading = () => {
+    if (!newReading.readingDate || !newReading.thickness) {
+      toast({
+        title: "Missing required fields",
+        description: "Reading date and thickness are required",
+        variant: "destructive"
       });
-      
-      updates.corrosionRate = calculation.corrosionRate;
-      updates.remainingLife = calculation.remainingLife;
+      return;
     }
-
-    updateCmlMutation.mutate({ id, ...updates });
+    createReadingMutation.mutate(newReading);
   };
 
   const generateAutoId = () => {
@@ -140,9 +167,7 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
             location: row['Location'] || '',
             previousReading: parseFloat(row['Previous Reading'] || 0),
             currentReading: parseFloat(row['Current Reading'] || 0),
-            practicalTmin: parseFloat(row['Practical tMin'] || 0.125),
-            corrosionRate: parseFloat(row['Corrosion Rate'] || 0),
-            remainingLife: parseFloat(row['Remaining Life'] || 0),
+            tMin: row['Practical tMin'] ? parseFloat(row['Practical tMin']) : undefined,
             notes: row['Notes'] || '',
           };
           
@@ -174,8 +199,12 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
       'Location': record.location,
       'Previous Reading': record.previousReading || '',
       'Current Reading': record.currentReading || '',
-      'Practical tMin': record.practicalTmin || 0.125,
+      'Practical tMin': record.tMin || '',
+      'Long-Term Rate': record.longTermRate || '',
+      'Short-Term Rate': record.shortTermRate || '',
+      'Regression Rate': record.regressionRate || '',
       'Corrosion Rate': record.corrosionRate || '',
+      'Rate Basis': record.rateBasis || '',
       'Remaining Life': record.remainingLife || '',
       'Notes': record.notes || '',
     }));
@@ -277,9 +306,12 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
                 <TableHead>CML ID</TableHead>
                 <TableHead>Component</TableHead>
                 <TableHead>Location</TableHead>
+                <TableHead>tMin (in)</TableHead>
                 <TableHead>Current Reading (in)</TableHead>
                 <TableHead>Previous Reading (in)</TableHead>
-                <TableHead>Corrosion Rate (mpy)</TableHead>
+                <TableHead>LT Rate (mpy)</TableHead>
+                <TableHead>ST Rate (mpy)</TableHead>
+                <TableHead>Regression (mpy)</TableHead>
                 <TableHead>Remaining Life (yrs)</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -290,6 +322,16 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
                   <TableCell className="font-mono text-sm">{cml.cmlId}</TableCell>
                   <TableCell>{cml.component}</TableCell>
                   <TableCell>{cml.location}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.001"
+                      className="w-24"
+                      placeholder="Practical"
+                      defaultValue={cml.tMin ? formatThickness(parseFloat(cml.tMin)) : ""}
+                      onBlur={(e) => handleUpdateReading(cml.id, 'tMin', e.target.value)}
+                    />
+                  </TableCell>
                   <TableCell>
                     <Input
                       type="number"
@@ -302,9 +344,18 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
                   <TableCell className="text-sm">
                     {cml.previousReading ? formatThickness(parseFloat(cml.previousReading)) : "-"}
                   </TableCell>
-                  <TableCell className="text-sm font-medium">
-                    {cml.corrosionRate ? formatCorrosionRate(parseFloat(cml.corrosionRate)) : "-"}
-                  </TableCell>
+                  {(['long-term', 'short-term', 'regression'] as const).map((basis) => {
+                    const rate = cml[{ 'long-term': 'longTermRate', 'short-term': 'shortTermRate', 'regression': 'regressionRate' }[basis]];
+                    return (
+                      <TableCell
+                        key={basis}
+                        className={`text-sm ${cml.rateBasis === basis ? 'font-semibold text-gray-900' : 'text-gray-600'}`}
+                        title={cml.rateBasis === basis ? 'Governing rate' : undefined}
+                      >
+                        {rate ? formatCorrosionRate(parseFloat(rate)) : "-"}
+                      </TableCell>
+                    );
+                  })}
                   <TableCell>
                     {cml.remainingLife ? (
                       <Badge className={getRemainingLifeBadgeColor(parseFloat(cml.remainingLife))}>
@@ -316,8 +367,14 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center space-x-2">
-                      <Button variant="ghost" size="sm" className="text-primary hover:text-primary/80">
-                        <Edit className="h-4 w-4" />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-primary hover:text-primary/80"
+                        title="Reading history"
+                        onClick={() => setHistoryCml(cml)}
+                      >
+                        <History className="h-4 w-4" />
                       </Button>
                       <Button 
                         variant="ghost" 
@@ -359,6 +416,87 @@ export function ComponentCMLForm({ reportId }: ComponentCMLFormProps) {
           </div>
         </div>
       </CardContent>
+
+      <Dialog open={!!historyCml} onOpenChange={(open) => !open && setHistoryCml(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reading History - {historyCml?.cmlId}</DialogTitle>
+            <DialogDescription>
+              Nominal baseline and earlier survey readings. The current reading is dated by the report's inspection date.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Thickness (in)</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {readings.map((reading: any) => (
+                <TableRow key={reading.id}>
+                  <TableCell>{new Date(reading.readingDate).toLocaleDateString()}</TableCell>
+                  <TableCell>{formatThickness(parseFloat(reading.thickness))}</TableCell>
+                  <TableCell>{reading.source || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-600"
+                      onClick={() => deleteReadingMutation.mutate(reading.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {historyCml?.currentReading && (
+                <TableRow className="bg-gray-50">
+                  <TableCell>Current</TableCell>
+                  <TableCell>{formatThickness(parseFloat(historyCml.currentReading))}</TableCell>
+                  <TableCell>This inspection</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Date</Label>
+              <Input
+                type="date"
+                value={newReading.readingDate}
+                onChange={(e) => setNewReading({ ...newReading, readingDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Thickness (in)</Label>
+              <Input
+                type="number"
+                step="0.001"
+                value={newReading.thickness}
+                onChange={(e) => setNewReading({ ...newReading, thickness: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Source</Label>
+              <Input
+                placeholder="Nominal, RPT-2019-004"
+                value={newReading.source}
+                onChange={(e) => setNewReading({ ...newReading, source: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleAddReading} disabled={createReadingMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Reading
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
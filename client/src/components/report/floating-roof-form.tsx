@@ -0,0 +1,541 @@
+import { useState, useEffect } from "react";
+import { useForm, type PathValue } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Save, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  floatingRoofSchema,
+  calculateFloatingRoof,
+  sealTypes,
+  componentConditions,
+  sealPositions,
+  sealGapLimits,
+  DEFAULT_TANK_DIAMETER,
+  type FloatingRoofData,
+  type PontoonData,
+  type SealGapData,
+  type RoofLegData,
+  type RoofDrainData,
+  type SealCompliance,
+} from "@shared/calculations";
+
+// The sections of the form that are edited as tables of rows
+type RowSection = keyof Pick<FloatingRoofData, "pontoons" | "sealGaps" | "legs" | "drains">;
+
+interface FloatingRoofFormProps {
+  reportId: string;
+}
+
+const sealTypeLabels: Record<(typeof sealTypes)[number], string> = {
+  "mechanical-shoe": "Mechanical Shoe",
+  "liquid-mounted": "Liquid-Mounted",
+  "vapor-mounted": "Vapor-Mounted",
+  wiper: "Wiper",
+  none: "None",
+};
+
+function PassFail({ value }: { value?: boolean }) {
+  if (value === undefined) return <span>-</span>;
+  return <Badge variant={value ? "default" : "destructive"}>{value ? "Pass" : "Fail"}</Badge>;
+}
+
+function ConditionSelect({ value, onChange }: { value?: string; onChange: (value: any) => void }) {
+  return (
+    <Select value={value || ""} onValueChange={onChange}>
+      <SelectTrigger className="w-28">
+        <SelectValue placeholder="-" />
+      </SelectTrigger>
+      <SelectContent>
+        {componentConditions.map((condition) => (
+          <SelectItem key={condition} value={condition} className="capitalize">
+            {condition}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function FloatingRoofForm({ reportId }: FloatingRoofFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const form = useForm<FloatingRoofData>({
+    resolver: zodResolver(floatingRoofSchema),
+    defaultValues: {
+      roofType: "",
+      primarySealType: "mechanical-shoe",
+      secondarySealType: "none",
+      pontoons: [],
+      sealGaps: [],
+      legs: [],
+      drains: [],
+      notes: "",
+    },
+  });
+
+  // Load report base data to get tank diameter
+  const { data: reportData } = useQuery<any>({
+    queryKey: [`/api/reports/${reportId}`],
+    enabled: !!reportId,
+  });
+
+  const { data: savedData } = useQuery<FloatingRoofData>({
+    queryKey: [`/api/reports/${reportId}/floating-roof`],
+    enabled: !!reportId,
+  });
+
+  useEffect(() => {
+    if (savedData?.pontoons) {
+      form.reset(savedData);
+    }
+  }, [savedData, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FloatingRoofData) => {
+      return apiRequest("PUT", `/api/reports/${reportId}/floating-roof`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/floating-roof`] });
+      toast({
+        title: "Success",
+        description: "Floating roof saved successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save floating roof",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const tankDiameter = reportData?.nominalDiameter ? parseFloat(reportData.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+
+  const calculate = () => {
+    setIsCalculating(true);
+    const results = calculateFloatingRoof(form.getValues(), tankDiameter);
+    form.reset(results);
+    setIsCalculating(false);
+    toast({
+      title: "Calculations Complete",
+      description: "Seal gaps have been checked against the allowable limits",
+    });
+  };
+
+  const updateRow = <K extends RowSection>(key: K, index: number, changes: Partial<FloatingRoofData[K][number]>) => {
+    const rows = [...form.getValues()[key]];
+    rows[index] = { ...rows[index], ...changes };
+    form.setValue(key, rows as PathValue<FloatingRoofData, K>);
+  };
+
+  const removeRow = <K extends RowSection>(key: K, index: number) => {
+    const rows = form.getValues()[key].filter((_, i) => i !== index);
+    form.setValue(key, rows as PathValue<FloatingRoofData, K>);
+  };
+
+  const addPontoon = () => {
+    const pontoons = form.getValues("pontoons");
+    const pontoon: PontoonData = { compartmentId: `P-${pontoons.length + 1}`, inspected: true, liquidPresent: false, leakDetected: false, coverSecure: true, notes: "" };
+    form.setValue("pontoons", [...pontoons, pontoon]);
+  };
+
+  const addSealGap = () => {
+    const sealGaps = form.getValues("sealGaps");
+    const gap: SealGapData = { gapId: `G-${sealGaps.length + 1}`, seal: "primary", position: "", width: "", length: "" };
+    form.setValue("sealGaps", [...sealGaps, gap]);
+  };
+
+  const addLeg = () => {
+    const legs = form.getValues("legs");
+    const leg: RoofLegData = { legId: `L-${legs.length + 1}`, lowSetting: "", highSetting: "", notes: "" };
+    form.setValue("legs", [...legs, leg]);
+  };
+
+  const addDrain = () => {
+    const drains = form.getValues("drains");
+    const drain: RoofDrainData = { drainId: `D-${drains.length + 1}`, drainType: "", testPressure: "50", testDuration: "60", result: "not-tested", notes: "" };
+    form.setValue("drains", [...drains, drain]);
+  };
+
+  const onSubmit = (data: FloatingRoofData) => {
+    saveMutation.mutate(data);
+  };
+
+  const sealRow = (label: string, compliance?: SealCompliance) => (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      <TableCell>{compliance?.totalArea || "-"}</TableCell>
+      <TableCell>{compliance?.allowableArea || "-"}</TableCell>
+      <TableCell>{compliance?.maxWidth || "-"}</TableCell>
+      <TableCell>{compliance?.allowableWidth || "-"}</TableCell>
+      <TableCell><PassFail value={compliance?.compliant} /></TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Floating Roof Inspection</span>
+          <div className="flex gap-2">
+            <Button onClick={calculate} disabled={isCalculating} variant="outline">
+              <Calculator className="mr-2 h-4 w-4" />
+              Calculate
+            </Button>
+            <Button onClick={() => onSubmit(form.getValues())} disabled={saveMutation.isPending}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-5 gap-4">
+              <FormField
+                control={form.control}
+                name="roofType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Roof Type</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Pontoon" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div>
+                <Label>Primary Seal</Label>
+                <Select value={form.watch("primarySealType") || ""} onValueChange={(value: any) => form.setValue("primarySealType", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sealTypes.filter((type) => type !== "none").map((type) => (
+                      <SelectItem key={type} value={type}>{sealTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Primary Seal Condition</Label>
+                <ConditionSelect value={form.watch("primarySealCondition")} onChange={(value) => form.setValue("primarySealCondition", value)} />
+              </div>
+              <div>
+                <Label>Secondary Seal</Label>
+                <Select value={form.watch("secondarySealType") || ""} onValueChange={(value: any) => form.setValue("secondarySealType", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sealTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{sealTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Secondary Seal Condition</Label>
+                <ConditionSelect value={form.watch("secondarySealCondition")} onChange={(value) => form.setValue("secondarySealCondition", value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Rim Seal Gaps</h3>
+                <Button type="button" onClick={addSealGap} size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Gap
+                </Button>
+              </div>
+              {form.watch("sealGaps").length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Gap</TableHead>
+                      <TableHead>Seal</TableHead>
+                      <TableHead>Position (°)</TableHead>
+                      <TableHead>Width (in)</TableHead>
+                      <TableHead>Length (in)</TableHead>
+                      <TableHead>Area (in²)</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {form.watch("sealGaps").map((gap, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{gap.gapId}</TableCell>
+                        <TableCell>
+                          <Select value={gap.seal} onValueChange={(value) => updateRow("sealGaps", index, { seal: value as SealGapData["seal"] })}>
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {sealPositions.map((position) => (
+                                <SelectItem key={position} value={position} className="capitalize">{position}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input value={gap.position || ""} onChange={(e) => updateRow("sealGaps", index, { position: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={gap.width || ""} onChange={(e) => updateRow("sealGaps", index, { width: e.target.value, area: undefined })} placeholder="0.25" className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={gap.length || ""} onChange={(e) => updateRow("sealGaps", index, { length: e.target.value, area: undefined })} placeholder="12" className="w-20" />
+                        </TableCell>
+                        <TableCell>{gap.area || "-"}</TableCell>
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeRow("sealGaps", index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Seal</TableHead>
+                    <TableHead>Gap Area (in²)</TableHead>
+                    <TableHead>Allowable (in²)</TableHead>
+                    <TableHead>Max Width (in)</TableHead>
+                    <TableHead>Allowable (in)</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sealRow("Primary", form.watch("primarySeal"))}
+                  {form.watch("secondarySealType") !== "none" && sealRow("Secondary", form.watch("secondarySeal"))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">
+                  Pontoons <PassFail value={form.watch("pontoonsAcceptable")} />
+                </h3>
+                <Button type="button" onClick={addPontoon} size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Pontoon
+                </Button>
+              </div>
+              {form.watch("pontoons").length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Compartment</TableHead>
+                      <TableHead>Inspected</TableHead>
+                      <TableHead>Liquid Present</TableHead>
+                      <TableHead>Leak</TableHead>
+                      <TableHead>Cover Secure</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {form.watch("pontoons").map((pontoon, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input value={pontoon.compartmentId} onChange={(e) => updateRow("pontoons", index, { compartmentId: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox checked={!!pontoon.inspected} onCheckedChange={(checked) => updateRow("pontoons", index, { inspected: !!checked })} />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox checked={!!pontoon.liquidPresent} onCheckedChange={(checked) => updateRow("pontoons", index, { liquidPresent: !!checked })} />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox checked={!!pontoon.leakDetected} onCheckedChange={(checked) => updateRow("pontoons", index, { leakDetected: !!checked })} />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox checked={!!pontoon.coverSecure} onCheckedChange={(checked) => updateRow("pontoons", index, { coverSecure: !!checked })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={pontoon.notes || ""} onChange={(e) => updateRow("pontoons", index, { notes: e.target.value })} className="w-40" />
+                        </TableCell>
+                        <TableCell><PassFail value={pontoon.acceptable} /></TableCell>
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeRow("pontoons", index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Roof Legs</h3>
+                <Button type="button" onClick={addLeg} size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Leg
+                </Button>
+              </div>
+              {form.watch("legs").length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Leg</TableHead>
+                      <TableHead>Leg Condition</TableHead>
+                      <TableHead>Sleeve Condition</TableHead>
+                      <TableHead>Low Setting (ft)</TableHead>
+                      <TableHead>High Setting (ft)</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {form.watch("legs").map((leg, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input value={leg.legId} onChange={(e) => updateRow("legs", index, { legId: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <ConditionSelect value={leg.legCondition} onChange={(value) => updateRow("legs", index, { legCondition: value })} />
+                        </TableCell>
+                        <TableCell>
+                          <ConditionSelect value={leg.sleeveCondition} onChange={(value) => updateRow("legs", index, { sleeveCondition: value })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={leg.lowSetting || ""} onChange={(e) => updateRow("legs", index, { lowSetting: e.target.value })} placeholder="3.0" className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={leg.highSetting || ""} onChange={(e) => updateRow("legs", index, { highSetting: e.target.value })} placeholder="6.5" className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={leg.notes || ""} onChange={(e) => updateRow("legs", index, { notes: e.target.value })} className="w-40" />
+                        </TableCell>
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeRow("legs", index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">
+                  Roof Drains <PassFail value={form.watch("drainsAcceptable")} />
+                </h3>
+                <Button type="button" onClick={addDrain} size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Drain
+                </Button>
+              </div>
+              {form.watch("drains").length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Drain</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Test Pressure (psig)</TableHead>
+                      <TableHead>Duration (min)</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {form.watch("drains").map((drain, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input value={drain.drainId} onChange={(e) => updateRow("drains", index, { drainId: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={drain.drainType || ""} onChange={(e) => updateRow("drains", index, { drainType: e.target.value })} placeholder="Articulated" className="w-32" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={drain.testPressure || ""} onChange={(e) => updateRow("drains", index, { testPressure: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={drain.testDuration || ""} onChange={(e) => updateRow("drains", index, { testDuration: e.target.value })} className="w-20" />
+                        </TableCell>
+                        <TableCell>
+                          <Select value={drain.result || "not-tested"} onValueChange={(value) => updateRow("drains", index, { result: value as RoofDrainData["result"] })}>
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="pass">Pass</SelectItem>
+                              <SelectItem value="fail">Fail</SelectItem>
+                              <SelectItem value="not-tested">Not Tested</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input value={drain.notes || ""} onChange={(e) => updateRow("drains", index, { notes: e.target.value })} className="w-40" />
+                        </TableCell>
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeRow("drains", index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Enter any additional notes or observations..."
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <p className="text-xs text-muted-foreground">
+              Accumulated gap area may not exceed {sealGapLimits.primary.areaPerFoot} in²/ft of tank diameter for the primary seal
+              (single gap ≤ {sealGapLimits.primary.maxWidth} in) and {sealGapLimits.secondary.areaPerFoot} in²/ft for the secondary seal
+              (single gap ≤ {sealGapLimits.secondary.maxWidth} in). A pontoon with liquid or a leak fails.
+            </p>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,46 +8,17 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Calculator, Save, Printer, Plus, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-
-const floorScanSchema = z.object({
-  scanId: z.string(),
-  component: z.string(),
-  location: z.string(),
-  scanType: z.string(),
-  thickness: z.string(),
-  topSide: z.string().optional(),
-  underside: z.string().optional(),
-  corrosionRate: z.string().optional(),
-  remainingLife: z.string().optional(),
-});
-
-const floorMRTCalculationSchema = z.object({
-  floorType: z.string().optional(),
-  originalThickness: z.string().optional(),
-  minimumThickness: z.string().optional(),
-  corrosionAllowance: z.string().optional(),
-  age: z.string().optional(),
-  examMethod: z.string().optional(),
-  threshold: z.string().optional(),
-  scanCoverage: z.string().optional(),
-  soilSide: z.string().optional(),
-  productSide: z.string().optional(),
-  criticalZone: z.string().optional(),
-  scans: z.array(floorScanSchema),
-  averageThickness: z.string().optional(),
-  minimumRecorded: z.string().optional(),
-  averageCorrosionRate: z.string().optional(),
-  maximumCorrosionRate: z.string().optional(),
-  averageRemainingLife: z.string().optional(),
-  minimumRemainingLife: z.string().optional(),
-  notes: z.string().optional(),
-});
-
-type FloorMRTCalculationData = z.infer<typeof floorMRTCalculationSchema>;
+import {
+  floorMRTCalculationSchema,
+  calculateFloorMRT as runFloorMRTCalculations,
+  type FloorMRTCalculationData,
+} from "@shared/calculations";
 
 interface FloorMRTCalculationsFormProps {
   reportId: string;
@@ -67,6 +37,19 @@ const floorTypes = [
   { value: "double-bottom", label: "Double Bottom" },
 ];
 
+type BottomFeature = keyof Pick<
+  FloorMRTCalculationData,
+  "hasLeakDetection" | "hasReleasePreventionBarrier" | "hasReinforcedLining" | "productSideCoated" | "hasAnnularRing"
+>;
+
+const bottomFeatures: { field: BottomFeature; label: string }[] = [
+  { field: "hasLeakDetection", label: "Leak detection installed" },
+  { field: "hasReleasePreventionBarrier", label: "Release prevention barrier (RPB)" },
+  { field: "hasReinforcedLining", label: "Fiberglass-reinforced lining" },
+  { field: "productSideCoated", label: "Product side coated (StPr = 0)" },
+  { field: "hasAnnularRing", label: "Annular ring present" },
+];
+
 export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -86,6 +69,15 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
       soilSide: "0.020",
       productSide: "0.010",
       criticalZone: "6",
+      nextInternalInterval: "10",
+      hasLeakDetection: false,
+      hasReleasePreventionBarrier: false,
+      hasReinforcedLining: false,
+      productSideCoated: false,
+      hasAnnularRing: false,
+      annularThickness: "",
+      firstCourseThickness: "",
+      firstCourseStress: "",
       scans: [],
       averageThickness: "",
       minimumRecorded: "",
@@ -134,47 +126,8 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
     setIsCalculating(true);
     const values = form.getValues();
     
-    // Parse input values
-    const originalThickness = parseFloat(values.originalThickness || "0.250");
-    const minimumThickness = parseFloat(values.minimumThickness || "0.100");
-    const age = parseFloat(values.age || "20");
-    const soilSide = parseFloat(values.soilSide || "0.020");
-    const productSide = parseFloat(values.productSide || "0.010");
-    
-    // Calculate average and minimum thickness from scans
-    const scans = values.scans || [];
-    let totalThickness = 0;
-    let minThickness = 999;
-    let maxCorrosionRate = 0;
-    
-    if (scans.length > 0) {
-      scans.forEach(scan => {
-        const thickness = parseFloat(scan.thickness || "0");
-        totalThickness += thickness;
-        if (thickness < minThickness) minThickness = thickness;
-        
-        // Calculate corrosion rate for each scan
-        const corrosionRate = age > 0 ? ((originalThickness - thickness) / age) * 1000 : 0;
-        if (corrosionRate > maxCorrosionRate) maxCorrosionRate = corrosionRate;
-        
-        // Update scan with calculated values
-        scan.corrosionRate = (Math.round(corrosionRate * 100) / 100).toFixed(2);
-        const remainingLife = corrosionRate > 0 ? (thickness - minimumThickness) / (corrosionRate / 1000) : 999;
-        scan.remainingLife = Math.min(999, Math.round(remainingLife)).toString();
-      });
-      
-      const averageThickness = totalThickness / scans.length;
-      const avgCorrosionRate = age > 0 ? ((originalThickness - averageThickness) / age) * 1000 : 0;
-      const avgRemainingLife = avgCorrosionRate > 0 ? (averageThickness - minimumThickness) / (avgCorrosionRate / 1000) : 999;
-      const minRemainingLife = maxCorrosionRate > 0 ? (minThickness - minimumThickness) / (maxCorrosionRate / 1000) : 999;
-      
-      form.setValue("averageThickness", averageThickness.toFixed(3));
-      form.setValue("minimumRecorded", minThickness.toFixed(3));
-      form.setValue("averageCorrosionRate", (Math.round(avgCorrosionRate * 100) / 100).toFixed(2));
-      form.setValue("maximumCorrosionRate", (Math.round(maxCorrosionRate * 100) / 100).toFixed(2));
-      form.setValue("averageRemainingLife", Math.min(999, Math.round(avgRemainingLife)).toString());
-      form.setValue("minimumRemainingLife", Math.min(999, Math.round(minRemainingLife)).toString());
-      form.setValue("scans", scans);
+    if ((values.scans || []).length > 0) {
+      form.reset(runFloorMRTCalculations(values));
     }
     
     setIsCalculating(false);
@@ -395,6 +348,81 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
               </div>
             </div>
 
+            {/* Release Prevention & Annular Ring */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Release Prevention & Annular Ring</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {bottomFeatures.map(({ field, label }) => (
+                  <div key={field} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={field}
+                      checked={!!form.watch(field)}
+                      onCheckedChange={(checked) => form.setValue(field, checked === true)}
+                    />
+                    <label htmlFor={field} className="text-sm">{label}</label>
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="nextInternalInterval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Next Internal Interval, Or (yrs)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {form.watch("hasAnnularRing") && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="annularThickness"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Annular Min Remaining (in)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="0.250" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="firstCourseThickness"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First Course Thickness (in)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Blank uses the thickest row" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="firstCourseStress"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First Course Stress (psi)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Blank uses the highest stress" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
             {/* Scan Data */}
             <div className="space-y-4">
               <div className="flex justify-between items-center">
@@ -415,6 +443,8 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
                         <TableHead>Location</TableHead>
                         <TableHead>Type</TableHead>
                         <TableHead>Thickness (in)</TableHead>
+                        <TableHead>RTip (in)</TableHead>
+                        <TableHead>RTbc (in)</TableHead>
                         <TableHead>CR (mpy)</TableHead>
                         <TableHead>RL (yrs)</TableHead>
                         <TableHead>Actions</TableHead>
@@ -477,6 +507,28 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
                               className="w-20"
                             />
                           </TableCell>
+                          <TableCell>
+                            <Input
+                              value={scan.topSide}
+                              onChange={(e) => {
+                                const scans = form.getValues("scans");
+                                scans[index].topSide = e.target.value;
+                                form.setValue("scans", scans);
+                              }}
+                              className="w-20"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={scan.underside}
+                              onChange={(e) => {
+                                const scans = form.getValues("scans");
+                                scans[index].underside = e.target.value;
+                                form.setValue("scans", scans);
+                              }}
+                              className="w-20"
+                            />
+                          </TableCell>
                           <TableCell>{scan.corrosionRate || "-"}</TableCell>
                           <TableCell>{scan.remainingLife || "-"}</TableCell>
                           <TableCell>
@@ -541,6 +593,48 @@ export function FloorMRTCalculationsForm({ reportId }: FloorMRTCalculationsFormP
                   </CardContent>
                 </Card>
               </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Bottom MRT (API 653 Section 4.4.5)</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>RTip / RTbc:</span>
+                    <span className="font-mono">{form.watch("rtip") || "-"} / {form.watch("rtbc") || "-"} in</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>MRT = min(RTbc, RTip) − Or (StPr + UPr):</span>
+                    <span className="font-mono">{form.watch("mrt") || "-"} in</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span>Required Minimum:</span>
+                    <span className="flex items-center gap-2">
+                      <span className="font-mono">{form.watch("mrtMinimum") || "-"} in</span>
+                      {form.watch("mrtAcceptable") !== undefined && (
+                        <Badge variant={form.watch("mrtAcceptable") ? "default" : "destructive"}>
+                          {form.watch("mrtAcceptable") ? "Pass" : "Fail"}
+                        </Badge>
+                      )}
+                    </span>
+                  </div>
+                  {form.watch("annularMrt") && (
+                    <div className="flex justify-between items-center">
+                      <span>Annular MRT / Table 4.5 Minimum:</span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-mono">{form.watch("annularMrt")} / {form.watch("annularMinimum")} in</span>
+                        <Badge variant={form.watch("annularAcceptable") ? "default" : "destructive"}>
+                          {form.watch("annularAcceptable") ? "Pass" : "Fail"}
+                        </Badge>
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Max Next Internal Interval:</span>
+                    <span className="font-mono">{form.watch("maxInternalInterval") || "-"} yrs</span>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
 
             {/* Notes */}
@@ -0,0 +1,379 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Save, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  localizedCorrosionSchema,
+  calculateLocalizedCorrosion,
+  DEFAULT_TANK_DIAMETER,
+  MAX_PIT_LENGTH_SUM,
+  type LocalizedCorrosionData,
+  type CorrodedAreaData,
+  type ShellCalculationData,
+} from "@shared/calculations";
+
+interface LocalizedCorrosionFormProps {
+  reportId: string;
+}
+
+function PassFail({ value }: { value?: boolean }) {
+  if (value === undefined) return <span>-</span>;
+  return <Badge variant={value ? "default" : "destructive"}>{value ? "Pass" : "Fail"}</Badge>;
+}
+
+export function LocalizedCorrosionForm({ reportId }: LocalizedCorrosionFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const form = useForm<LocalizedCorrosionData>({
+    resolver: zodResolver(localizedCorrosionSchema),
+    defaultValues: {
+      nextInspectionInterval: "5",
+      areas: [],
+      governingRemainingLife: "",
+      notes: "",
+    },
+  });
+
+  // Load report base data to get tank diameter
+  const { data: reportData } = useQuery<any>({
+    queryKey: [`/api/reports/${reportId}`],
+    enabled: !!reportId,
+  });
+
+  // Each area is evaluated against its course's tMin and corrosion rate
+  const { data: shellCalculations } = useQuery<ShellCalculationData>({
+    queryKey: [`/api/reports/${reportId}/shell-calculations`],
+    enabled: !!reportId,
+  });
+
+  const { data: savedData } = useQuery<LocalizedCorrosionData>({
+    queryKey: [`/api/reports/${reportId}/localized-corrosion`],
+    enabled: !!reportId,
+  });
+
+  useEffect(() => {
+    if (savedData?.areas) {
+      form.reset(savedData);
+    }
+  }, [savedData, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: LocalizedCorrosionData) => {
+      return apiRequest("PUT", `/api/reports/${reportId}/localized-corrosion`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/localized-corrosion`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/shell-calculations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/inspection-intervals`] });
+      toast({
+        title: "Success",
+        description: "Localized corrosion saved successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save localized corrosion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const courses = shellCalculations?.courses || [];
+  const tankDiameter = reportData?.nominalDiameter ? parseFloat(reportData.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+
+  const calculate = () => {
+    setIsCalculating(true);
+    const results = calculateLocalizedCorrosion(form.getValues(), courses, tankDiameter);
+    form.setValue("areas", results.areas);
+    form.setValue("governingRemainingLife", results.governingRemainingLife);
+    setIsCalculating(false);
+    toast({
+      title: "Calculations Complete",
+      description: "Localized corrosion has been evaluated",
+    });
+  };
+
+  const updateArea = (index: number, changes: Partial<CorrodedAreaData>) => {
+    const areas = form.getValues("areas");
+    areas[index] = { ...areas[index], ...changes };
+    form.setValue("areas", areas);
+  };
+
+  const addArea = () => {
+    const areas = form.getValues("areas");
+    form.setValue("areas", [
+      ...areas,
+      {
+        areaId: `LC-${areas.length + 1}`,
+        courseNumber: courses[0]?.courseNumber.toString() || "1",
+        location: "",
+        t2: "",
+        readings: "",
+        pits: [],
+        pitLengthSum: "",
+      },
+    ]);
+  };
+
+  const removeArea = (index: number) => {
+    const areas = form.getValues("areas");
+    form.setValue("areas", areas.filter((_, i) => i !== index));
+  };
+
+  const addPit = (areaIndex: number) => {
+    const pits = form.getValues("areas")[areaIndex].pits;
+    updateArea(areaIndex, { pits: [...pits, { pitId: `P${pits.length + 1}`, location: "", depth: "" }] });
+  };
+
+  const updatePit = (areaIndex: number, pitIndex: number, field: "location" | "depth", value: string) => {
+    const pits = [...form.getValues("areas")[areaIndex].pits];
+    pits[pitIndex] = { ...pits[pitIndex], [field]: value };
+    updateArea(areaIndex, { pits });
+  };
+
+  const removePit = (areaIndex: number, pitIndex: number) => {
+    const pits = form.getValues("areas")[areaIndex].pits;
+    updateArea(areaIndex, { pits: pits.filter((_, i) => i !== pitIndex) });
+  };
+
+  const onSubmit = (data: LocalizedCorrosionData) => {
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Localized Corrosion & Pitting (API 653 Section 4.3.2)</span>
+          <div className="flex gap-2">
+            <Button onClick={calculate} disabled={isCalculating} variant="outline">
+              <Calculator className="mr-2 h-4 w-4" />
+              Calculate
+            </Button>
+            <Button onClick={() => onSubmit(form.getValues())} disabled={saveMutation.isPending}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="nextInspectionInterval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Next Inspection Interval (yrs)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div>
+                <Label>Governing Remaining Life (yrs)</Label>
+                <p className="mt-2 text-lg font-semibold">{form.watch("governingRemainingLife") || "-"}</p>
+              </div>
+            </div>
+
+            {courses.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Save the shell calculations first; each area uses its course's tMin and corrosion rate.
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Corroded Areas</h3>
+                <Button type="button" onClick={addArea} size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Area
+                </Button>
+              </div>
+
+              {form.watch("areas").map((area, index) => (
+                <Card key={index}>
+                  <CardHeader>
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      <span>{area.areaId}</span>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeArea(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-4 gap-4">
+                      <div>
+                        <Label>Shell Course</Label>
+                        <Select value={area.courseNumber} onValueChange={(value) => updateArea(index, { courseNumber: value })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {courses.map((course) => (
+                              <SelectItem key={course.courseNumber} value={course.courseNumber.toString()}>
+                                Course {course.courseNumber}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label>Location</Label>
+                        <Input value={area.location} onChange={(e) => updateArea(index, { location: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>t2 Minimum (in)</Label>
+                        <Input
+                          value={area.t2}
+                          onChange={(e) => updateArea(index, { t2: e.target.value })}
+                          placeholder="0.180"
+                        />
+                      </div>
+                      <div>
+                        <Label>Pit Length Sum in 8 in (in)</Label>
+                        <Input
+                          value={area.pitLengthSum}
+                          onChange={(e) => updateArea(index, { pitLengthSum: e.target.value })}
+                          placeholder="0.0"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label>Readings Along L (in, comma separated)</Label>
+                      <Input
+                        value={area.readings}
+                        onChange={(e) => updateArea(index, { readings: e.target.value })}
+                        placeholder="0.215, 0.208, 0.199, 0.204"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <Label>Widely Scattered Pits</Label>
+                        <Button type="button" variant="outline" size="sm" onClick={() => addPit(index)}>
+                          <Plus className="mr-2 h-4 w-4" />
+                          Add Pit
+                        </Button>
+                      </div>
+                      {area.pits.length > 0 && (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Pit</TableHead>
+                              <TableHead>Location</TableHead>
+                              <TableHead>Depth (in)</TableHead>
+                              <TableHead>Actions</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {area.pits.map((pit, pitIndex) => (
+                              <TableRow key={pitIndex}>
+                                <TableCell>{pit.pitId}</TableCell>
+                                <TableCell>
+                                  <Input
+                                    value={pit.location}
+                                    onChange={(e) => updatePit(index, pitIndex, "location", e.target.value)}
+                                    className="w-32"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    value={pit.depth}
+                                    onChange={(e) => updatePit(index, pitIndex, "depth", e.target.value)}
+                                    placeholder="0.050"
+                                    className="w-24"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Button type="button" variant="ghost" size="sm" onClick={() => removePit(index, pitIndex)}>
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+                    </div>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>L (in)</TableHead>
+                          <TableHead>t1 (in)</TableHead>
+                          <TableHead>t Min (in)</TableHead>
+                          <TableHead>t1 ≥ tmin</TableHead>
+                          <TableHead>t2 ≥ 0.6 tmin</TableHead>
+                          <TableHead>Pits</TableHead>
+                          <TableHead>Governs</TableHead>
+                          <TableHead>RL (yrs)</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell>{area.criticalLength || "-"}</TableCell>
+                          <TableCell>{area.t1 || "-"}</TableCell>
+                          <TableCell>{area.tMin || "-"}</TableCell>
+                          <TableCell><PassFail value={area.t1Acceptable} /></TableCell>
+                          <TableCell><PassFail value={area.t2Acceptable} /></TableCell>
+                          <TableCell><PassFail value={area.pitsAcceptable} /></TableCell>
+                          <TableCell>{area.governingThickness || "-"}</TableCell>
+                          <TableCell>{area.remainingLife || "-"}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Enter any additional notes or observations..."
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <p className="text-xs text-muted-foreground">
+              L = 3.7√(D t2), max 40 in. Widely scattered pits are acceptable when the remaining thickness
+              is at least tmin/2 and pit lengths total no more than {MAX_PIT_LENGTH_SUM} in over any 8 in vertical line.
+              The corrosion allowance to the next inspection is added to each limit.
+            </p>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,8 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
-import { Home, FolderOpen, Table, Calculator, Edit, Save, Eye, Printer, FileText, Layers, CircleCheck } from "lucide-react";
+import { Home, FolderOpen, Table, Calculator, Edit, Save, Eye, Printer, FileText, Layers, CircleCheck, History, ShieldCheck, Camera } from "lucide-react";
 
-export type TabType = 'base-data' | 'tank-history' | 'appendices' | 'report-content' | 'component-cml' | 'nozzle-cml' | 'shell-calculations' | 'roof-calculations' | 'floor-calculations' | 'settlement-survey' | 'shell-inspection' | 'bottom-inspection' | 'calculations' | 'writeup' | 'report-generation';
+export type TabType = 'base-data' | 'tank-history' | 'appendices' | 'photos' | 'report-content' | 'component-cml' | 'nozzle-cml' | 'shell-calculations' | 'roof-calculations' | 'floating-roof' | 'floor-calculations' | 'settlement-survey' | 'shell-inspection' | 'bottom-inspection' | 'calculations' | 'writeup' | 'revisions' | 'approval' | 'report-generation';
 
 interface NavigationSidebarProps {
   activeTab: TabType;
@@ -23,17 +23,21 @@ export function NavigationSidebar({
     { id: 'base-data' as TabType, label: 'Base Data', icon: Home },
     { id: 'tank-history' as TabType, label: 'Tank History', icon: FileText },
     { id: 'appendices' as TabType, label: 'Appendices', icon: FolderOpen },
+    { id: 'photos' as TabType, label: 'Photos & Files', icon: Camera },
     { id: 'report-content' as TabType, label: 'Report Content', icon: FileText },
     { id: 'component-cml' as TabType, label: 'Component CML', icon: Table },
     { id: 'nozzle-cml' as TabType, label: 'Nozzle CML', icon: CircleCheck },
     { id: 'shell-calculations' as TabType, label: 'Shell Calc', icon: Calculator },
     { id: 'roof-calculations' as TabType, label: 'Roof Calc', icon: Layers },
+    { id: 'floating-roof' as TabType, label: 'Floating Roof', icon: Layers },
     { id: 'floor-calculations' as TabType, label: 'Floor MRT', icon: Layers },
     { id: 'settlement-survey' as TabType, label: 'Settlement', icon: CircleCheck },
     { id: 'shell-inspection' as TabType, label: 'Shell Insp', icon: Layers },
     { id: 'bottom-inspection' as TabType, label: 'Bottom Insp', icon: CircleCheck },
     { id: 'calculations' as TabType, label: 'Other Calc', icon: Calculator },
     { id: 'writeup' as TabType, label: 'Write-up', icon: Edit },
+    { id: 'revisions' as TabType, label: 'Revisions', icon: History },
+    { id: 'approval' as TabType, label: 'Approval', icon: ShieldCheck },
     { id: 'report-generation' as TabType, label: 'Generate Reports', icon: FileText },
   ];
 
@@ -11,36 +11,17 @@ import { apiRequest } from "@/lib/queryClient";
 import { Plus, Trash2, Save, Calculator, Upload, Download } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import * as XLSX from 'xlsx';
-
-interface NozzleCMLRecord {
-  id: string;
-  nozzleId: string;
-  nozzleDescription: string;
-  nozzleSize: string;
-  nozzleSchedule: string;
-  service: string;
-  orientation: number; // degrees from North
-  elevation: number; // feet from bottom
-  previousThickness: number;
-  currentThickness: number;
-  nominalThickness: number;
-  tMin: number; // minimum required thickness
-  corrosionRate: number; // calculated mpy
-  remainingLife: number; // calculated years
-  nextInspectionDate: string;
-  inspectionMethod: string;
-  notes: string;
-}
-
-interface NozzleCMLData {
-  id?: string;
-  reportId: string;
-  records: NozzleCMLRecord[];
-  inspectionDate: string;
-  previousInspectionDate: string;
-  inspectorName: string;
-  ndeCompany: string;
-}
+import type { PracticalTmin } from "@shared/schema";
+import {
+  calculateNozzleMetrics as runNozzleCalculations,
+  nozzleTminContext,
+  nozzleCmlDataSchema,
+  pipeSchedules,
+  pipeSizes,
+  type NozzleCMLRecord,
+  type NozzleCMLData,
+  type ShellCalculationData,
+} from "@shared/calculations";
 
 interface NozzleCMLFormProps {
   reportId: string;
@@ -61,13 +42,30 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
 
   // Query to fetch existing data
   const { data: existingData } = useQuery<NozzleCMLData>({
-    queryKey: ['/api/nozzle-cml', reportId],
+    queryKey: [`/api/nozzle-cml/${reportId}`],
+    enabled: !!reportId,
+  });
+
+  // Fill height and specific gravity set the hydrostatic head at each nozzle
+  const { data: shellCalcs } = useQuery<Partial<ShellCalculationData>>({
+    queryKey: [`/api/reports/${reportId}/shell-calculations`],
+    enabled: !!reportId,
+  });
+
+  const { data: tankHistory } = useQuery<{ maxLiquidLevel?: string; specificGravity?: string }>({
+    queryKey: [`/api/reports/${reportId}/tank-history`],
+    enabled: !!reportId,
+  });
+
+  const { data: practicalTmins = [] } = useQuery<PracticalTmin[]>({
+    queryKey: [`/api/reports/${reportId}/practical-tmins`],
     enabled: !!reportId,
   });
 
   useEffect(() => {
     if (existingData) {
-      setFormData(existingData);
+      // Records saved before the tMin breakdown existed pick up its defaults here
+      setFormData(nozzleCmlDataSchema.parse(existingData));
     }
   }, [existingData]);
 
@@ -85,6 +83,9 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
       currentThickness: 0,
       nominalThickness: 0,
       tMin: 0,
+      millTolerance: 0,
+      structuralTmin: 0,
+      pressureTmin: 0,
       corrosionRate: 0,
       remainingLife: 0,
       nextInspectionDate: '',
@@ -122,36 +123,10 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
       return;
     }
 
-    const yearsBetween = (new Date(formData.inspectionDate).getTime() - 
-                          new Date(formData.previousInspectionDate).getTime()) / 
-                         (365.25 * 24 * 60 * 60 * 1000);
-
-    const updatedRecords = formData.records.map(record => {
-      // Calculate corrosion rate (mpy - mils per year)
-      const thicknessLoss = (record.previousThickness - record.currentThickness) * 1000; // convert to mils
-      const corrosionRate = yearsBetween > 0 ? thicknessLoss / yearsBetween : 0;
-      
-      // Calculate minimum thickness based on nozzle size and schedule
-      const tMin = calculateNozzleTmin(record.nozzleSize, record.nozzleSchedule);
-      
-      // Calculate remaining life
-      const remainingThickness = record.currentThickness - tMin;
-      const remainingLife = corrosionRate > 0 ? remainingThickness * 1000 / corrosionRate : 999;
-      
-      // Calculate next inspection date
-      const halfLife = remainingLife / 2;
-      const nextInspectionYears = Math.min(halfLife, 10); // API 653 max interval
-      const nextDate = new Date(formData.inspectionDate);
-      nextDate.setFullYear(nextDate.getFullYear() + Math.floor(nextInspectionYears));
-      
-      return {
-        ...record,
-        tMin,
-        corrosionRate: Math.round(corrosionRate * 100) / 100,
-        remainingLife: Math.round(remainingLife * 10) / 10,
-        nextInspectionDate: nextDate.toISOString().split('T')[0],
-      };
-    });
+    const { records: updatedRecords } = runNozzleCalculations(
+      formData,
+      nozzleTminContext(shellCalcs, tankHistory, practicalTmins)
+    );
 
     setFormData(prev => ({ ...prev, records: updatedRecords }));
     
@@ -161,29 +136,6 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
     });
   };
 
-  const calculateNozzleTmin = (size: string, schedule: string): number => {
-    // Simplified tMin calculation based on nozzle size and schedule
-    // In a real implementation, this would use ASME B31.3 or similar standards
-    const sizeInches = parseFloat(size) || 0;
-    
-    const scheduleFactors: { [key: string]: number } = {
-      '10': 0.065,
-      '20': 0.075,
-      '30': 0.085,
-      '40': 0.095,
-      'STD': 0.095,
-      '60': 0.110,
-      '80': 0.125,
-      'XS': 0.125,
-      '120': 0.150,
-      '160': 0.175,
-      'XXS': 0.200,
-    };
-    
-    const factor = scheduleFactors[schedule] || 0.095;
-    return Math.round(sizeInches * factor * 1000) / 1000;
-  };
-
   // Excel import function
   const handleExcelImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -211,6 +163,9 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
           currentThickness: parseFloat(row['Current Thickness'] || 0),
           nominalThickness: parseFloat(row['Nominal Thickness'] || 0),
           tMin: parseFloat(row['tMin'] || 0),
+          millTolerance: 0,
+          structuralTmin: 0,
+          pressureTmin: 0,
           corrosionRate: parseFloat(row['Corrosion Rate'] || 0),
           remainingLife: parseFloat(row['Remaining Life'] || 0),
           nextInspectionDate: row['Next Inspection'] || '',
@@ -251,7 +206,11 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
       'Previous Thickness': record.previousThickness,
       'Current Thickness': record.currentThickness,
       'Nominal Thickness': record.nominalThickness,
+      '87.5% Nominal': record.millTolerance,
+      'Structural tMin': record.structuralTmin,
+      'Pressure tMin': record.pressureTmin,
       'tMin': record.tMin,
+      'tMin Basis': record.tMinBasis || '',
       'Corrosion Rate (mpy)': record.corrosionRate,
       'Remaining Life (years)': record.remainingLife,
       'Next Inspection': record.nextInspectionDate,
@@ -283,7 +242,7 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/nozzle-cml', reportId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/nozzle-cml/${reportId}`] });
       toast({ title: "Nozzle CML data saved successfully" });
     },
     onError: (error) => {
@@ -426,6 +385,9 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
                       <TableHead>Previous (in)</TableHead>
                       <TableHead>Current (in)</TableHead>
                       <TableHead>Nominal (in)</TableHead>
+                      <TableHead>87.5% Nom. (in)</TableHead>
+                      <TableHead>Structural (in)</TableHead>
+                      <TableHead>Pressure (in)</TableHead>
                       <TableHead>tMin (in)</TableHead>
                       <TableHead>CR (mpy)</TableHead>
                       <TableHead>RL (years)</TableHead>
@@ -454,13 +416,19 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
                           />
                         </TableCell>
                         <TableCell>
-                          <Input
-                            type="number"
+                          <Select
                             value={record.nozzleSize}
-                            onChange={(e) => updateRecord(index, 'nozzleSize', e.target.value)}
-                            className="w-16"
-                            placeholder="6"
-                          />
+                            onValueChange={(value) => updateRecord(index, 'nozzleSize', value)}
+                          >
+                            <SelectTrigger className="w-20">
+                              <SelectValue placeholder="NPS" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {pipeSizes.map((pipe) => (
+                                <SelectItem key={pipe.nps} value={String(pipe.nps)}>{pipe.label}"</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </TableCell>
                         <TableCell>
                           <Select
@@ -471,12 +439,9 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="10">10</SelectItem>
-                              <SelectItem value="20">20</SelectItem>
-                              <SelectItem value="30">30</SelectItem>
-                              <SelectItem value="40">40/STD</SelectItem>
-                              <SelectItem value="80">80/XS</SelectItem>
-                              <SelectItem value="160">160/XXS</SelectItem>
+                              {pipeSchedules.map((schedule) => (
+                                <SelectItem key={schedule} value={schedule}>{schedule}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </TableCell>
@@ -533,8 +498,20 @@ export function NozzleCMLForm({ reportId }: NozzleCMLFormProps) {
                             className="w-20"
                           />
                         </TableCell>
+                        <TableCell>
+                          <span className="text-sm">{record.millTolerance.toFixed(3)}</span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm">{record.structuralTmin.toFixed(3)}</span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm">{record.pressureTmin.toFixed(3)}</span>
+                        </TableCell>
                         <TableCell>
                           <span className="font-medium">{record.tMin.toFixed(3)}</span>
+                          {record.tMinBasis && (
+                            <span className="block text-xs text-muted-foreground">{record.tMinBasis}</span>
+                          )}
                         </TableCell>
                         <TableCell>
                           <span className={`font-medium ${record.corrosionRate > 5 ? 'text-red-600' : ''}`}>
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowUpRight, Circle, Undo2, Trash2 } from "lucide-react";
+import { type AnnotationShape, type PhotoAnnotation } from "@shared/attachments";
+import { ReportAttachment } from "@/types/report";
+
+const annotationColors = ["#ef4444", "#facc15", "#22c55e", "#ffffff"];
+
+interface AnnotationOverlayProps {
+  annotations: PhotoAnnotation[];
+  width: number;
+  height: number;
+}
+
+// Annotations are stored as fractions of the image, so the overlay is drawn in the image's
+// own pixel size and scaled with it. Matches the server's drawing in the exports.
+export function AnnotationOverlay({ annotations, width, height }: AnnotationOverlayProps) {
+  const stroke = Math.max(3, Math.round(Math.min(width, height) / 100));
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+    >
+      {annotations.map(({ shape, x1, y1, x2, y2, color }, index) => {
+        const [ax, ay, bx, by] = [x1 * width, y1 * height, x2 * width, y2 * height];
+        if (shape === "circle") {
+          return (
+            <ellipse
+              key={index}
+              cx={(ax + bx) / 2}
+              cy={(ay + by) / 2}
+              rx={Math.abs(bx - ax) / 2}
+              ry={Math.abs(by - ay) / 2}
+              fill="none"
+              stroke={color}
+              strokeWidth={stroke}
+            />
+          );
+        }
+        const angle = Math.atan2(by - ay, bx - ax);
+        const head = stroke * 5;
+        const left = [bx - head * Math.cos(angle - Math.PI / 7), by - head * Math.sin(angle - Math.PI / 7)];
+        const right = [bx - head * Math.cos(angle + Math.PI / 7), by - head * Math.sin(angle + Math.PI / 7)];
+        return (
+          <g key={index}>
+            <line x1={ax} y1={ay} x2={bx} y2={by} stroke={color} strokeWidth={stroke} strokeLinecap="round" />
+            <polygon points={`${bx},${by} ${left.join(",")} ${right.join(",")}`} fill={color} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface PhotoAnnotatorProps {
+  reportId: string;
+  photo?: ReportAttachment;
+  saving: boolean;
+  onSave: (annotations: PhotoAnnotation[]) => void;
+  onClose: () => void;
+}
+
+// Drag on the photo to draw an arrow (pointing where the drag ends) or a circle
+export function PhotoAnnotator({ reportId, photo, saving, onSave, onClose }: PhotoAnnotatorProps) {
+  const [annotations, setAnnotations] = useState<PhotoAnnotation[]>([]);
+  const [drawing, setDrawing] = useState<PhotoAnnotation>();
+  const [shape, setShape] = useState<AnnotationShape>("arrow");
+  const [color, setColor] = useState(annotationColors[0]);
+  const imageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setAnnotations(photo?.annotations ?? []);
+    setDrawing(undefined);
+  }, [photo]);
+
+  const pointAt = (event: React.PointerEvent) => {
+    const box = imageRef.current!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return { x: clamp((event.clientX - box.left) / box.width), y: clamp((event.clientY - box.top) / box.height) };
+  };
+
+  const startDrawing = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = pointAt(event);
+    setDrawing({ shape, x1: x, y1: y, x2: x, y2: y, color });
+  };
+
+  const continueDrawing = (event: React.PointerEvent) => {
+    if (!drawing) return;
+    const { x, y } = pointAt(event);
+    setDrawing({ ...drawing, x2: x, y2: y });
+  };
+
+  // A click without a drag draws nothing
+  const finishDrawing = () => {
+    if (drawing && Math.hypot(drawing.x2 - drawing.x1, drawing.y2 - drawing.y1) > 0.01) {
+      setAnnotations([...annotations, drawing]);
+    }
+    setDrawing(undefined);
+  };
+
+  const width = photo?.width || 1000;
+  const height = photo?.height || 750;
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Annotate {photo?.photoNumber ? `Photo ${photo.photoNumber}` : photo?.fileName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant={shape === "arrow" ? "default" : "outline"} size="sm" onClick={() => setShape("arrow")}>
+            <ArrowUpRight className="h-4 w-4 mr-1" />
+            Arrow
+          </Button>
+          <Button variant={shape === "circle" ? "default" : "outline"} size="sm" onClick={() => setShape("circle")}>
+            <Circle className="h-4 w-4 mr-1" />
+            Circle
+          </Button>
+          <div className="flex items-center gap-1 mx-2">
+            {annotationColors.map((option) => (
+              <button
+                key={option}
+                type="button"
+                aria-label={`Colour ${option}`}
+                className={`h-6 w-6 rounded-full border-2 ${color === option ? "border-gray-900" : "border-gray-300"}`}
+                style={{ backgroundColor: option }}
+                onClick={() => setColor(option)}
+              />
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setAnnotations(annotations.slice(0, -1))} disabled={annotations.length === 0}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnnotations([])} disabled={annotations.length === 0}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        {photo && (
+          <div
+            ref={imageRef}
+            className="relative mx-auto cursor-crosshair select-none touch-none"
+            style={{ aspectRatio: `${width} / ${height}`, width: `min(100%, calc(65vh * ${width / height}))` }}
+            onPointerDown={startDrawing}
+            onPointerMove={continueDrawing}
+            onPointerUp={finishDrawing}
+          >
+            <img
+              src={`/api/reports/${reportId}/attachments/${photo.id}/file`}
+              alt={photo.caption || photo.fileName}
+              className="w-full h-full"
+              draggable={false}
+            />
+            <AnnotationOverlay annotations={drawing ? [...annotations, drawing] : annotations} width={width} height={height} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onSave(annotations)} disabled={saving}>
+            {saving ? "Saving..." : "Save Annotations"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
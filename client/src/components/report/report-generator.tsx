@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery } from "@tanstack/react-query";
-import { FileText, Download, Loader2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { FileText, Download, Loader2, Eye } from "lucide-react";
+import { ReportTemplate } from "@/types/report";
+
+const ORGANIZATION_DEFAULT = "default";
 
 interface ReportGeneratorProps {
   reportId: string;
@@ -13,13 +19,47 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
   const { toast } = useToast();
   const [generating, setGenerating] = useState(false);
   const [generatingWord, setGeneratingWord] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string>();
+  const queryClient = useQueryClient();
 
   // Fetch report data
-  const { data: report } = useQuery({
+  const { data: report } = useQuery<any>({
     queryKey: [`/api/reports/${reportId}`],
     enabled: !!reportId,
   });
 
+  const { data: templates = [] } = useQuery<ReportTemplate[]>({
+    queryKey: [`/api/reports/${reportId}/templates`],
+    enabled: !!reportId,
+  });
+
+  const templateId: string | undefined = report?.templateId || undefined;
+  const exportUrl = (format: 'pdf' | 'word', inline = false) => {
+    const params = new URLSearchParams();
+    if (templateId) params.set('templateId', templateId);
+    if (inline) params.set('inline', '1');
+    const query = params.toString();
+    return `/api/reports/${reportId}/export/${format}${query ? `?${query}` : ''}`;
+  };
+
+  // The chosen template is saved on the report so later exports use it too
+  const templateMutation = useMutation({
+    mutationFn: async (templateId: string | null) => {
+      return apiRequest("PUT", `/api/reports/${reportId}`, { templateId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
+      setPreviewUrl(undefined);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error changing template",
+        description: error.status === 403 ? "This report is locked or you cannot edit it" : error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
   const generatePDF = async () => {
     if (!report) {
       toast({ 
@@ -34,7 +74,7 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
     
     try {
       // Use server-side PDF generation
-      const response = await fetch(`/api/reports/${reportId}/export/pdf`, {
+      const response = await fetch(exportUrl('pdf'), {
         method: 'GET',
         credentials: 'include',
         headers: {
@@ -53,7 +93,7 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      const filename = `API653-Report-${(report as any).reportNumber || reportId}-${new Date().toISOString().split('T')[0]}.pdf`;
+      const filename = `API653-Report-${report.reportNumber || reportId}-${new Date().toISOString().split('T')[0]}.pdf`;
       link.download = filename;
       document.body.appendChild(link);
       link.click();
@@ -90,7 +130,7 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
     
     try {
       // Use server-side Word generation
-      const response = await fetch(`/api/reports/${reportId}/export/word`, {
+      const response = await fetch(exportUrl('word'), {
         method: 'GET',
         credentials: 'include',
         headers: {
@@ -109,7 +149,7 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      const filename = `API653-Report-${(report as any).reportNumber || reportId}-${new Date().toISOString().split('T')[0]}.docx`;
+      const filename = `API653-Report-${report.reportNumber || reportId}-${new Date().toISOString().split('T')[0]}.docx`;
       link.download = filename;
       document.body.appendChild(link);
       link.click();
@@ -144,6 +184,29 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
           inspection data, calculations, and recommendations.
         </p>
         
+        {templates.length > 0 && (
+          <div className="max-w-md">
+            <Label>Report Template</Label>
+            <Select
+              value={templateId ?? ORGANIZATION_DEFAULT}
+              onValueChange={(value) => templateMutation.mutate(value === ORGANIZATION_DEFAULT ? null : value)}
+              disabled={templateMutation.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORGANIZATION_DEFAULT}>Organization default</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}{template.isDefault ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
         <div className="flex gap-4">
           <Button 
             onClick={generatePDF} 
@@ -180,8 +243,25 @@ export function ReportGenerator({ reportId }: ReportGeneratorProps) {
               </>
             )}
           </Button>
+          
+          <Button
+            variant="outline"
+            onClick={() => setPreviewUrl(`${exportUrl('pdf', true)}&t=${Date.now()}`)}
+            disabled={!report}
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewUrl ? "Refresh Preview" : "Preview"}
+          </Button>
         </div>
         
+        {previewUrl && (
+          <iframe
+            src={previewUrl}
+            title="Report preview"
+            className="w-full h-[800px] border rounded-lg"
+          />
+        )}
+        
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h4 className="font-semibold text-blue-900 mb-2">Report Contents</h4>
           <ul className="text-sm text-blue-800 space-y-1">
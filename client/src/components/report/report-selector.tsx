@@ -4,6 +4,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Plus, Copy, Users, Download, Upload, ListChecks } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { ShareReportDialog } from "./share-report-dialog";
+import { ReportAccess } from "@/types/report";
 
 interface ReportSelectorProps {
   selectedReportId?: string;
@@ -12,10 +14,16 @@ interface ReportSelectorProps {
 }
 
 export function ReportSelector({ selectedReportId, onSelectReport, onCreateReport }: ReportSelectorProps) {
+  const [showShareDialog, setShowShareDialog] = useState(false);
   const { data: reports = [] } = useQuery({
     queryKey: ["/api/reports"],
   });
 
+  const { data: access } = useQuery<ReportAccess>({
+    queryKey: [`/api/reports/${selectedReportId}/access`],
+    enabled: !!selectedReportId,
+  });
+
   const selectedReport = reports.find((r: any) => r.id === selectedReportId);
 
   return (
@@ -68,7 +76,12 @@ export function ReportSelector({ selectedReportId, onSelectReport, onCreateRepor
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Share Report</label>
-            <Button variant="outline" className="w-full sm:w-auto">
+            <Button
+              variant="outline"
+              className="w-full sm:w-auto"
+              onClick={() => setShowShareDialog(true)}
+              disabled={!access?.permissions.includes('share')}
+            >
               <Users className="h-4 w-4 mr-2" />
               Share Access
             </Button>
@@ -90,6 +103,10 @@ export function ReportSelector({ selectedReportId, onSelectReport, onCreateRepor
           </Button>
         </div>
       </CardContent>
+
+      {selectedReportId && (
+        <ShareReportDialog reportId={selectedReportId} open={showShareDialog} onOpenChange={setShowShareDialog} />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw } from "lucide-react";
+import { ReportRevision, RevisionChange } from "@/types/report";
+
+interface RevisionHistoryProps {
+  reportId?: string;
+}
+
+const sectionLabels: Record<string, string> = {
+  report: "Base Data",
+  tankHistory: "Tank History",
+  shellCalculations: "Shell Calc",
+  localizedCorrosion: "Shell Insp",
+  roofCalculations: "Roof Calc",
+  floatingRoof: "Floating Roof",
+  floorMRTCalculations: "Floor MRT",
+  settlementSurvey: "Settlement",
+  nozzleCML: "Nozzle CML",
+  nozzleCmlRecords: "Nozzle CML Rows",
+  cmlRecords: "Component CML",
+  practicalTmins: "Practical Tmin",
+  appendices: "Appendices",
+  writeup: "Write-up",
+  inspectionIntervals: "Inspection Intervals",
+  brittleFracture: "Brittle Fracture",
+  attachments: "Photos & Files",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  return String(value);
+}
+
+export function RevisionHistory({ reportId }: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+
+  const { data: revisions = [], isLoading } = useQuery<ReportRevision[]>({
+    queryKey: [`/api/reports/${reportId}/revisions`],
+    enabled: !!reportId,
+  });
+
+  // Default to the changes made by the latest revision
+  useEffect(() => {
+    if (revisions.length > 0) {
+      setTo(String(revisions[0].revision));
+      setFrom(String(revisions[0].revision - 1));
+    }
+  }, [revisions]);
+
+  const { data: changes = [], isFetching: isDiffing } = useQuery<RevisionChange[]>({
+    queryKey: [`/api/reports/${reportId}/revisions/diff?from=${from}&to=${to}`],
+    enabled: !!reportId && from !== "" && to !== "",
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      return apiRequest("POST", `/api/reports/${reportId}/revisions/${revision}/restore`);
+    },
+    onSuccess: (_, revision) => {
+      // A restore can touch any section of the report
+      queryClient.invalidateQueries();
+      toast({ title: `Report restored to revision ${revision}` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error restoring revision",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse bg-gray-200 h-96 rounded-lg"></div>;
+  }
+
+  const revisionOptions = [
+    { value: "0", label: "Original" },
+    ...revisions.map((revision) => ({ value: String(revision.revision), label: `Revision ${revision.revision}` })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+          <p className="text-sm text-gray-600 mt-1">Every saved change to this report, newest first</p>
+        </CardHeader>
+        <CardContent>
+          {revisions.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4">
+                <History className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No revisions yet</h3>
+              <p className="text-gray-600">Changes are recorded here as sections of the report are saved.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rev</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Changed By</TableHead>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revisions.map((revision) => (
+                  <TableRow key={revision.id}>
+                    <TableCell className="font-medium">{revision.revision}</TableCell>
+                    <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{revision.changedByName || "-"}</TableCell>
+                    <TableCell>{sectionLabels[revision.section] || revision.section}</TableCell>
+                    <TableCell>
+                      {revision.action === "restore" ? (
+                        <Badge variant="secondary">{revision.note}</Badge>
+                      ) : (
+                        revision.note || ""
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(revision.revision)}
+                        disabled={restoreMutation.isPending || revision.revision === revisions[0].revision}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {revisions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-900">Compare Revisions</h2>
+            <p className="text-sm text-gray-600 mt-1">Field-level changes between two revisions of the report</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <div>
+                <Label>From</Label>
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisionOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisionOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isDiffing ? (
+              <div className="animate-pulse bg-gray-200 h-32 rounded-lg"></div>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-600">No differences between these revisions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={`${change.section}:${change.path}`}>
+                      <TableCell>{sectionLabels[change.section] || change.section}</TableCell>
+                      <TableCell className="font-mono text-xs">{change.path}</TableCell>
+                      <TableCell className="text-red-700">{formatValue(change.before)}</TableCell>
+                      <TableCell className="text-green-700">{formatValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,47 +12,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Calculator, Save, Printer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-
-const roofCalculationSchema = z.object({
-  roofType: z.string().optional(),
-  roofPlateThickness: z.string().optional(),
-  roofPlateActual: z.string().optional(),
-  roofAge: z.string().optional(),
-  roofCorrosionAllowance: z.string().optional(),
-  deckPlateThickness: z.string().optional(),
-  deckPlateActual: z.string().optional(),
-  supportedByRafters: z.string().optional(),
-  rafterSpacing: z.string().optional(),
-  supportedByColumns: z.string().optional(),
-  columnSpacing: z.string().optional(),
-  liveLoad: z.string().optional(),
-  snowLoad: z.string().optional(),
-  attachmentLoad: z.string().optional(),
-  designPressure: z.string().optional(),
-  designVacuum: z.string().optional(),
-  tMinDeck: z.string().optional(),
-  tMinRoof: z.string().optional(),
-  corrosionRateDeck: z.string().optional(),
-  corrosionRateRoof: z.string().optional(),
-  remainingLifeDeck: z.string().optional(),
-  remainingLifeRoof: z.string().optional(),
-  notes: z.string().optional(),
-});
-
-type RoofCalculationData = z.infer<typeof roofCalculationSchema>;
+import type { Report } from "@shared/schema";
+import {
+  roofCalculationSchema,
+  calculateRoof as runRoofCalculations,
+  roofTypes,
+  DEFAULT_TANK_DIAMETER,
+  type RoofCalculationData,
+} from "@shared/calculations";
 
 interface RoofCalculationsFormProps {
   reportId: string;
 }
 
-const roofTypes = [
-  { value: "cone", label: "Cone Roof" },
-  { value: "dome", label: "Dome Roof" },
-  { value: "umbrella", label: "Umbrella Roof" },
-  { value: "floating", label: "Floating Roof" },
-  { value: "open", label: "Open Top" },
-];
-
 export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -71,8 +42,15 @@ export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
       deckPlateActual: "",
       supportedByRafters: "yes",
       rafterSpacing: "5",
+      rafterSpan: "",
+      rafterSectionModulus: "",
       supportedByColumns: "no",
       columnSpacing: "",
+      roofSlope: "0.75",
+      roofRadius: "",
+      roofYieldStrength: "30000",
+      shellFramingWeight: "",
+      junctionArea: "",
       liveLoad: "25",
       snowLoad: "0",
       attachmentLoad: "0",
@@ -100,6 +78,13 @@ export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
     }
   }, [savedData, form]);
 
+  // Self-supporting roof and frangibility checks need the tank diameter
+  const { data: report } = useQuery<Report>({
+    queryKey: [`/api/reports/${reportId}`],
+    enabled: !!reportId,
+  });
+  const tankDiameter = report?.nominalDiameter ? parseFloat(report.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+
   // Save mutation
   const saveMutation = useMutation({
     mutationFn: async (data: RoofCalculationData) => {
@@ -123,45 +108,19 @@ export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
 
   const calculateRoof = () => {
     setIsCalculating(true);
-    const values = form.getValues();
-    
-    // Parse input values
-    const roofPlateThickness = parseFloat(values.roofPlateThickness || "0.250");
-    const roofPlateActual = parseFloat(values.roofPlateActual || "0.225");
-    const deckPlateThickness = parseFloat(values.deckPlateThickness || "0.437");
-    const deckPlateActual = parseFloat(values.deckPlateActual || "0.400");
-    const roofAge = parseFloat(values.roofAge || "20");
-    const liveLoad = parseFloat(values.liveLoad || "25");
-    const snowLoad = parseFloat(values.snowLoad || "0");
-    const rafterSpacing = parseFloat(values.rafterSpacing || "5");
-    
-    // Calculate minimum thickness for deck plates per API 653
-    let tMinDeck = 0.094; // Default minimum for deck plates
-    if (values.supportedByRafters === "yes") {
-      // For raftered roofs, tMin depends on rafter spacing and loading
-      const totalLoad = liveLoad + snowLoad;
-      tMinDeck = Math.sqrt((totalLoad * Math.pow(rafterSpacing * 12, 2)) / (30000 * 4.8));
-    }
-    tMinDeck = Math.max(0.094, Math.round(tMinDeck * 1000) / 1000);
-    
-    // Calculate minimum thickness for roof plates
-    const tMinRoof = 0.094; // API 653 minimum for roof plates
-    
-    // Calculate corrosion rates
-    const corrosionRateDeck = roofAge > 0 ? ((deckPlateThickness - deckPlateActual) / roofAge) * 1000 : 0;
-    const corrosionRateRoof = roofAge > 0 ? ((roofPlateThickness - roofPlateActual) / roofAge) * 1000 : 0;
-    
-    // Calculate remaining life
-    const remainingLifeDeck = corrosionRateDeck > 0 ? (deckPlateActual - tMinDeck) / (corrosionRateDeck / 1000) : 999;
-    const remainingLifeRoof = corrosionRateRoof > 0 ? (roofPlateActual - tMinRoof) / (corrosionRateRoof / 1000) : 999;
+    const results = runRoofCalculations(form.getValues(), tankDiameter);
     
     // Update form with calculated values
-    form.setValue("tMinDeck", tMinDeck.toFixed(3));
-    form.setValue("tMinRoof", tMinRoof.toFixed(3));
-    form.setValue("corrosionRateDeck", (Math.round(corrosionRateDeck * 100) / 100).toFixed(2));
-    form.setValue("corrosionRateRoof", (Math.round(corrosionRateRoof * 100) / 100).toFixed(2));
-    form.setValue("remainingLifeDeck", Math.min(999, Math.round(remainingLifeDeck)).toString());
-    form.setValue("remainingLifeRoof", Math.min(999, Math.round(remainingLifeRoof)).toString());
+    form.setValue("tMinDeck", results.tMinDeck);
+    form.setValue("tMinRoof", results.tMinRoof);
+    form.setValue("designLoad", results.designLoad);
+    form.setValue("roofChecks", results.roofChecks);
+    form.setValue("governingCheck", results.governingCheck);
+    form.setValue("frangible", results.frangible);
+    form.setValue("corrosionRateDeck", results.corrosionRateDeck);
+    form.setValue("corrosionRateRoof", results.corrosionRateRoof);
+    form.setValue("remainingLifeDeck", results.remainingLifeDeck);
+    form.setValue("remainingLifeRoof", results.remainingLifeRoof);
     
     setIsCalculating(false);
     toast({
@@ -263,6 +222,104 @@ export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
               </div>
             </div>
 
+            {/* Structural Data (API 650 §5.10) */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Structural Data (API 650 §5.10)</h3>
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="roofSlope"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cone Slope (in per 12)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0.75" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="roofRadius"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dome/Umbrella Radius (ft)</FormLabel>
+                      <FormControl>
+                        <Input placeholder={`${tankDiameter}`} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="roofYieldStrength"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Plate & Rafter Yield Fy (psi)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="30000" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rafterSpan"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rafter Span (ft)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rafterSectionModulus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rafter Section Modulus (in³)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="shellFramingWeight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shell + Framing Weight DLS (lbf)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="junctionArea"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Roof-to-Shell Junction Area (in²)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             {/* Thickness Data */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Thickness Data</h3>
@@ -412,6 +469,41 @@ export function RoofCalculationsForm({ reportId }: RoofCalculationsFormProps) {
               </Table>
             </div>
 
+            {/* Roof Checks */}
+            {(form.watch("roofChecks") || []).length > 0 && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Roof Checks</h3>
+                <p className="text-sm text-muted-foreground">
+                  Design load T = {form.watch("designLoad") || "-"} psf. Governing check: {form.watch("governingCheck") || "-"}.
+                  {form.watch("frangible") !== undefined && (form.watch("frangible") ? " Roof-to-shell joint is frangible." : " Roof-to-shell joint is not frangible.")}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Check</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Required</TableHead>
+                      <TableHead>Actual</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(form.watch("roofChecks") || []).map((check) => (
+                      <TableRow key={check.check}>
+                        <TableCell>{check.check}</TableCell>
+                        <TableCell>{check.reference}</TableCell>
+                        <TableCell>{check.required || "-"}</TableCell>
+                        <TableCell>{check.actual || "-"}</TableCell>
+                        <TableCell className={check.acceptable === false ? "text-red-600 font-semibold" : ""}>
+                          {check.acceptable === undefined ? "-" : check.acceptable ? "PASS" : "FAIL"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             {/* Notes */}
             <FormField
               control={form.control}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,44 +8,55 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Calculator, Plus, Trash2, Save, ChartBar } from "lucide-react";
+import { Calculator, Plus, Trash2, Save } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from "recharts";
+import type { Report } from "@shared/schema";
+import {
+  calculateSettlementSurvey,
+  cosineCurvePoints,
+  settlementTankParams,
+  type ElevationPointData as ElevationPoint,
+  type EdgeSettlementData,
+  type SettlementSurveyData,
+  type ShellCalculationData,
+} from "@shared/calculations";
 
-interface ElevationPoint {
-  id: string;
-  position: number; // 0, 45, 90, 135, 180, 225, 270, 315 degrees or custom
-  previousElevation: number;
-  currentElevation: number;
-  settlement: number; // calculated: previous - current
-  distance?: number; // distance from reference point
-}
-
-interface SettlementSurveyData {
-  id?: string;
+interface SettlementSurveyFormProps {
   reportId: string;
-  surveyDate: string;
-  previousSurveyDate: string;
-  datum: string; // reference datum
-  numberOfPoints: number; // 8, 12, 16, or custom
-  elevationPoints: ElevationPoint[];
-  maxSettlement: number;
-  minSettlement: number;
-  differentialSettlement: number;
-  tiltPercentage: number;
-  planarTilt: number;
-  uniformSettlement: number;
-  outOfPlaneSettlement: number;
-  notes: string;
 }
 
-interface SettlementSurveyFormProps {
-  reportId: string;
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 400;
+
+// Rasterize the offscreen cosine fit chart so the exported report can embed it
+function chartToPngDataUrl(container: HTMLElement | null): Promise<string | undefined> {
+  const svg = container?.querySelector("svg");
+  if (!svg) return Promise.resolve(undefined);
+
+  const source = new XMLSerializer().serializeToString(svg);
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = CHART_WIDTH;
+      canvas.height = CHART_HEIGHT;
+      const context = canvas.getContext("2d");
+      if (!context) return resolve(undefined);
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+      context.drawImage(image, 0, 0);
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = () => resolve(undefined);
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+  });
 }
 
 export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const chartRef = useRef<HTMLDivElement>(null);
 
   const [formData, setFormData] = useState<SettlementSurveyData>({
     reportId,
@@ -54,6 +65,7 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
     datum: 'MSL', // Mean Sea Level
     numberOfPoints: 8,
     elevationPoints: [],
+    edgeSettlements: [],
     maxSettlement: 0,
     minSettlement: 0,
     differentialSettlement: 0,
@@ -66,10 +78,23 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
 
   // Query to fetch existing data
   const { data: existingData } = useQuery<SettlementSurveyData>({
-    queryKey: ['/api/settlement-survey', reportId],
+    queryKey: [`/api/settlement-survey/${reportId}`],
     enabled: !!reportId,
   });
 
+  // Diameter, height and shell material for the Annex B allowables
+  const { data: report } = useQuery<Report>({
+    queryKey: [`/api/reports/${reportId}`],
+    enabled: !!reportId,
+  });
+
+  const { data: shellCalcs } = useQuery<Partial<ShellCalculationData>>({
+    queryKey: [`/api/reports/${reportId}/shell-calculations`],
+    enabled: !!reportId,
+  });
+
+  const tank = settlementTankParams(report || {}, shellCalcs?.courses || []);
+
   useEffect(() => {
     if (existingData) {
       setFormData(existingData);
@@ -134,94 +159,46 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
     setFormData(prev => ({ ...prev, elevationPoints: updatedPoints }));
   };
 
-  const calculateSettlementMetrics = () => {
-    if (formData.elevationPoints.length === 0) return;
+  const edgeSettlements = formData.edgeSettlements || [];
 
-    const settlements = formData.elevationPoints.map(p => p.settlement);
-    const maxSettlement = Math.max(...settlements);
-    const minSettlement = Math.min(...settlements);
-    const differentialSettlement = maxSettlement - minSettlement;
-    
-    // Calculate uniform settlement (average)
-    const uniformSettlement = settlements.reduce((a, b) => a + b, 0) / settlements.length;
-    
-    // Calculate tilt - maximum differential settlement divided by tank diameter
-    // Assuming tank diameter is available from base data
-    const tankDiameter = 100; // This should come from base data
-    const tiltPercentage = (differentialSettlement / tankDiameter) * 100;
-    
-    // Calculate planar tilt using least squares fit
-    const planarTilt = calculatePlanarTilt(formData.elevationPoints);
-    
-    // Calculate out-of-plane settlement (deviation from planar fit)
-    const outOfPlaneSettlement = calculateOutOfPlaneSettlement(formData.elevationPoints, planarTilt);
-    
+  const addEdgeSettlement = () => {
+    const area: EdgeSettlementData = {
+      areaId: `E-${edgeSettlements.length + 1}`,
+      radialWidth: 0,
+      measuredSettlement: 0,
+      weldOrientation: 'parallel',
+    };
+    setFormData(prev => ({ ...prev, edgeSettlements: [...(prev.edgeSettlements || []), area] }));
+  };
+
+  const updateEdgeSettlement = (index: number, changes: Partial<EdgeSettlementData>) => {
     setFormData(prev => ({
       ...prev,
-      maxSettlement,
-      minSettlement,
-      differentialSettlement,
-      tiltPercentage,
-      planarTilt,
-      uniformSettlement,
-      outOfPlaneSettlement,
+      edgeSettlements: (prev.edgeSettlements || []).map((area, i) => (i === index ? { ...area, ...changes } : area)),
     }));
-    
-    toast({
-      title: "Calculations Complete",
-      description: `Differential Settlement: ${differentialSettlement.toFixed(3)} inches`,
-    });
   };
 
-  const calculatePlanarTilt = (points: ElevationPoint[]): number => {
-    // Simplified planar tilt calculation
-    // In a real implementation, this would use least squares fitting
-    const n = points.length;
-    if (n < 3) return 0;
-    
-    // Calculate the best-fit plane using least squares
-    let sumX = 0, sumY = 0, sumZ = 0;
-    let sumXX = 0, sumYY = 0, sumXY = 0;
-    let sumXZ = 0, sumYZ = 0;
+  const removeEdgeSettlement = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      edgeSettlements: (prev.edgeSettlements || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const calculateSettlementMetrics = () => {
+    if (formData.elevationPoints.length === 0) return;
+
+    const result = calculateSettlementSurvey(formData, tank);
+    setFormData(result);
     
-    points.forEach(point => {
-      const angle = (point.position * Math.PI) / 180;
-      const x = Math.cos(angle);
-      const y = Math.sin(angle);
-      const z = point.settlement;
-      
-      sumX += x;
-      sumY += y;
-      sumZ += z;
-      sumXX += x * x;
-      sumYY += y * y;
-      sumXY += x * y;
-      sumXZ += x * z;
-      sumYZ += y * z;
+    toast({
+      title: "Calculations Complete",
+      description: `Max out-of-plane settlement: ${(result.outOfPlaneSettlement * 12).toFixed(3)} inches`,
     });
-    
-    // Solve for plane coefficients
-    const denominator = n * (sumXX * sumYY - sumXY * sumXY) - sumX * (sumX * sumYY - sumY * sumXY) + sumY * (sumX * sumXY - sumY * sumXX);
-    
-    if (denominator === 0) return 0;
-    
-    const a = (sumXZ * (n * sumYY - sumY * sumY) - sumYZ * (n * sumXY - sumX * sumY) + sumZ * (sumX * sumY - sumY * sumXY)) / denominator;
-    const b = (sumYZ * (n * sumXX - sumX * sumX) - sumXZ * (n * sumXY - sumX * sumY) + sumZ * (sumX * sumY - sumX * sumXY)) / denominator;
-    
-    // Calculate tilt angle in degrees
-    const tiltAngle = Math.atan(Math.sqrt(a * a + b * b)) * (180 / Math.PI);
-    
-    return tiltAngle;
   };
 
-  const calculateOutOfPlaneSettlement = (points: ElevationPoint[], planarTilt: number): number => {
-    // Calculate deviation from the best-fit plane
-    // Simplified calculation for demonstration
-    const settlements = points.map(p => p.settlement);
-    const mean = settlements.reduce((a, b) => a + b, 0) / settlements.length;
-    const variance = settlements.reduce((sum, s) => sum + Math.pow(s - mean, 2), 0) / settlements.length;
-    return Math.sqrt(variance);
-  };
+  const formatResult = (acceptable: boolean | undefined) =>
+    acceptable === undefined ? '-' : acceptable ? 'PASS ✓' : 'FAIL ✗';
 
   // Prepare data for charts
   const getChartData = () => {
@@ -241,17 +218,40 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
     }));
   };
 
+  // Measured elevations plotted over the optimum cosine curve
+  const getCosineData = () => {
+    const rows: { position: number; fit?: number; measured?: number }[] = cosineCurvePoints(formData)
+      .map(point => ({ position: point.position, fit: point.elevation }));
+    formData.elevationPoints.forEach(point => {
+      rows.push({ position: point.position, measured: point.currentElevation });
+    });
+    return rows.sort((a, b) => a.position - b.position);
+  };
+
+  const renderCosineChart = (width?: number, height?: number) => (
+    <LineChart data={getCosineData()} width={width} height={height}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey="position" type="number" domain={[0, 360]} ticks={[0, 45, 90, 135, 180, 225, 270, 315, 360]} unit="°" />
+      <YAxis domain={['auto', 'auto']} label={{ value: 'Elevation (ft)', angle: -90, position: 'insideLeft' }} />
+      <Tooltip />
+      <Legend />
+      <Line type="monotone" dataKey="fit" stroke="#2563eb" name="Optimum Cosine Curve" dot={false} strokeWidth={2} connectNulls isAnimationActive={false} />
+      <Line type="linear" dataKey="measured" stroke="#dc2626" name="Measured Elevation" strokeWidth={1} connectNulls isAnimationActive={false} />
+    </LineChart>
+  );
+
   // Save mutation
   const saveMutation = useMutation({
     mutationFn: async (data: SettlementSurveyData) => {
+      const payload = { ...data, chartImage: await chartToPngDataUrl(chartRef.current) };
       if (data.id) {
-        return apiRequest("PATCH", `/api/settlement-survey/${data.id}`, data);
+        return apiRequest("PATCH", `/api/settlement-survey/${data.id}`, payload);
       } else {
-        return apiRequest("POST", "/api/settlement-survey", data);
+        return apiRequest("POST", "/api/settlement-survey", payload);
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settlement-survey', reportId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/settlement-survey/${reportId}`] });
       toast({ title: "Settlement survey data saved successfully" });
     },
     onError: (error) => {
@@ -344,80 +344,177 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
         </TabsList>
 
         <TabsContent value="data">
-          <Card>
-            <CardHeader>
-              <CardTitle>Elevation Points</CardTitle>
-              <div className="flex gap-2">
-                <Button onClick={addCustomPoint} size="sm">
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Point
-                </Button>
-                <Button onClick={calculateSettlementMetrics} variant="secondary" size="sm">
-                  <Calculator className="h-4 w-4 mr-1" />
-                  Calculate
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Position (°)</TableHead>
-                    <TableHead>Previous Elev. (ft)</TableHead>
-                    <TableHead>Current Elev. (ft)</TableHead>
-                    <TableHead>Settlement (in)</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {formData.elevationPoints.map((point, index) => (
-                    <TableRow key={point.id}>
-                      <TableCell>
-                        <Input
-                          type="number"
-                          value={point.position}
-                          onChange={(e) => updateElevationPoint(index, 'position', parseFloat(e.target.value) || 0)}
-                          className="w-20"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <Input
-                          type="number"
-                          step="0.001"
-                          value={point.previousElevation}
-                          onChange={(e) => updateElevationPoint(index, 'previousElevation', parseFloat(e.target.value) || 0)}
-                          className="w-24"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <Input
-                          type="number"
-                          step="0.001"
-                          value={point.currentElevation}
-                          onChange={(e) => updateElevationPoint(index, 'currentElevation', parseFloat(e.target.value) || 0)}
-                          className="w-24"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <span className={`font-semibold ${point.settlement > 0 ? 'text-red-600' : point.settlement < 0 ? 'text-green-600' : ''}`}>
-                          {(point.settlement * 12).toFixed(3)}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <Button
-                          onClick={() => removePoint(index)}
-                          size="sm"
-                          variant="ghost"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </TableCell>
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Elevation Points</CardTitle>
+                <div className="flex gap-2">
+                  <Button onClick={addCustomPoint} size="sm">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Point
+                  </Button>
+                  <Button onClick={calculateSettlementMetrics} variant="secondary" size="sm">
+                    <Calculator className="h-4 w-4 mr-1" />
+                    Calculate
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Position (°)</TableHead>
+                      <TableHead>Previous Elev. (ft)</TableHead>
+                      <TableHead>Current Elev. (ft)</TableHead>
+                      <TableHead>Settlement (in)</TableHead>
+                      <TableHead>Actions</TableHead>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+                  </TableHeader>
+                  <TableBody>
+                    {formData.elevationPoints.map((point, index) => (
+                      <TableRow key={point.id}>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            value={point.position}
+                            onChange={(e) => updateElevationPoint(index, 'position', parseFloat(e.target.value) || 0)}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.001"
+                            value={point.previousElevation}
+                            onChange={(e) => updateElevationPoint(index, 'previousElevation', parseFloat(e.target.value) || 0)}
+                            className="w-24"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.001"
+                            value={point.currentElevation}
+                            onChange={(e) => updateElevationPoint(index, 'currentElevation', parseFloat(e.target.value) || 0)}
+                            className="w-24"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <span className={`font-semibold ${point.settlement > 0 ? 'text-red-600' : point.settlement < 0 ? 'text-green-600' : ''}`}>
+                            {(point.settlement * 12).toFixed(3)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            onClick={() => removePoint(index)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Edge Settlement (Annex B.3.4)</CardTitle>
+                <div className="flex gap-2">
+                  <Button onClick={addEdgeSettlement} size="sm">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Area
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Bottom settlement near the shell: R is the radial width of the settled area from the shell,
+                  B the settlement at its deepest point.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Area</TableHead>
+                      <TableHead>Position (°)</TableHead>
+                      <TableHead>R (ft)</TableHead>
+                      <TableHead>B (in)</TableHead>
+                      <TableHead>Bottom Lap Welds</TableHead>
+                      <TableHead>Allowable (in)</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {edgeSettlements.map((area, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            value={area.areaId}
+                            onChange={(e) => updateEdgeSettlement(index, { areaId: e.target.value })}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            value={area.position ?? ''}
+                            onChange={(e) => updateEdgeSettlement(index, { position: parseFloat(e.target.value) || 0 })}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            value={area.radialWidth}
+                            onChange={(e) => updateEdgeSettlement(index, { radialWidth: parseFloat(e.target.value) || 0 })}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={area.measuredSettlement}
+                            onChange={(e) => updateEdgeSettlement(index, { measuredSettlement: parseFloat(e.target.value) || 0 })}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={area.weldOrientation}
+                            onValueChange={(value) => updateEdgeSettlement(index, { weldOrientation: value as EdgeSettlementData['weldOrientation'] })}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="parallel">Parallel to shell</SelectItem>
+                              <SelectItem value="perpendicular">Perpendicular to shell</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>{area.allowableSettlement?.toFixed(2) ?? '-'}</TableCell>
+                        <TableCell>{formatResult(area.acceptable)}</TableCell>
+                        <TableCell>
+                          <Button
+                            onClick={() => removeEdgeSettlement(index)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
 
         <TabsContent value="results">
@@ -468,11 +565,35 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
                     </span>
                   </div>
                   <div className="flex justify-between p-3 bg-gray-50 rounded">
-                    <span className="font-medium">Out-of-Plane Settlement:</span>
+                    <span className="font-medium">Tilt Low Side:</span>
+                    <span className="font-bold">
+                      {formData.tiltDirection !== undefined ? `${formData.tiltDirection.toFixed(1)}°` : '-'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between p-3 bg-gray-50 rounded">
+                    <span className="font-medium">Max Out-of-Plane Settlement (Si):</span>
                     <span className="font-bold">
                       {(formData.outOfPlaneSettlement * 12).toFixed(3)} inches
                     </span>
                   </div>
+                  <div className="flex justify-between p-3 bg-gray-50 rounded">
+                    <span className="font-medium">Allowable S_max:</span>
+                    <span className="font-bold">
+                      {formData.allowableOutOfPlane !== undefined ? `${(formData.allowableOutOfPlane * 12).toFixed(3)} inches` : '-'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between p-3 bg-blue-50 rounded">
+                    <span className="font-medium">Out-of-Plane (Annex B.3.2):</span>
+                    <span className="font-bold text-blue-600">
+                      {formatResult(formData.outOfPlaneAcceptable)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between p-3 bg-blue-50 rounded">
+                    <span className="font-medium">Edge Settlement (Annex B.3.4):</span>
+                    <span className="font-bold text-blue-600">
+                      {formatResult(formData.edgeSettlementAcceptable)}
+                    </span>
+                  </div>
                   <div className="flex justify-between p-3 bg-blue-50 rounded">
                     <span className="font-medium">API 653 Limit (1%):</span>
                     <span className="font-bold text-blue-600">
@@ -482,6 +603,42 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
                 </div>
               </div>
 
+              <p className="mt-6 text-sm text-muted-foreground">
+                D = {tank.tankDiameter} ft, H = {tank.shellHeight} ft, Y = {tank.yieldStrength} psi,
+                L = {((Math.PI * tank.tankDiameter) / Math.max(1, formData.elevationPoints.length)).toFixed(1)} ft between points.
+                Annex B calls for at least {formData.requiredPoints ?? '-'} points around this shell.
+              </p>
+              {formData.requiredPoints !== undefined && formData.elevationPoints.length < formData.requiredPoints && (
+                <p className="text-sm text-red-600">
+                  Fewer measurement points than Annex B requires; spacing exceeds 32 ft.
+                </p>
+              )}
+
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Position (°)</TableHead>
+                    <TableHead>Measured (ft)</TableHead>
+                    <TableHead>Cosine Fit (ft)</TableHead>
+                    <TableHead>Si (in)</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {formData.elevationPoints.map((point) => (
+                    <TableRow key={point.id}>
+                      <TableCell>{point.position}</TableCell>
+                      <TableCell>{point.currentElevation.toFixed(3)}</TableCell>
+                      <TableCell>{point.cosineElevation?.toFixed(3) ?? '-'}</TableCell>
+                      <TableCell>{point.outOfPlane !== undefined ? (point.outOfPlane * 12).toFixed(3) : '-'}</TableCell>
+                      <TableCell className={point.acceptable === false ? 'text-red-600 font-semibold' : ''}>
+                        {formatResult(point.acceptable)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
               <div className="mt-6">
                 <Label htmlFor="notes">Notes / Observations</Label>
                 <textarea
@@ -499,6 +656,17 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
 
         <TabsContent value="charts">
           <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Optimum Cosine Fit (Annex B)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  {renderCosineChart()}
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Settlement Profile</CardTitle>
@@ -557,6 +725,11 @@ export function SettlementSurveyForm({ reportId }: SettlementSurveyFormProps) {
         </TabsContent>
       </Tabs>
 
+      {/* Fixed-size copy of the cosine chart, rasterized into the saved survey for the report */}
+      <div ref={chartRef} className="fixed -left-[9999px] top-0" aria-hidden="true">
+        {renderCosineChart(CHART_WIDTH, CHART_HEIGHT)}
+      </div>
+
       <div className="flex justify-end">
         <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700">
           <Save className="h-4 w-4 mr-2" />
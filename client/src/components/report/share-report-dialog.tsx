@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { grantableRoles, userRoleLabels, type GrantableRole } from "@shared/access";
+import { Organization, ReportGrant } from "@/types/report";
+
+interface ShareReportDialogProps {
+  reportId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ReportSharing {
+  organizationId: string | null;
+  clientOrganizationId: string | null;
+  grants: ReportGrant[];
+}
+
+const NONE = "none";
+
+export function ShareReportDialog({ reportId, open, onOpenChange }: ShareReportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [organizationId, setOrganizationId] = useState(NONE);
+  const [clientOrganizationId, setClientOrganizationId] = useState(NONE);
+  const [newGrant, setNewGrant] = useState<{ email: string; role: GrantableRole }>({ email: '', role: 'client_viewer' });
+
+  const { data: sharing } = useQuery<ReportSharing>({
+    queryKey: [`/api/reports/${reportId}/sharing`],
+    enabled: open,
+  });
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (sharing) {
+      setOrganizationId(sharing.organizationId || NONE);
+      setClientOrganizationId(sharing.clientOrganizationId || NONE);
+    }
+  }, [sharing]);
+
+  const invalidateSharing = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/sharing`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.status === 404 ? "That user has not signed in yet" : error.message,
+      variant: "destructive"
+    });
+  };
+
+  const saveOrganizationsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/reports/${reportId}/sharing`, {
+        organizationId: organizationId === NONE ? null : organizationId,
+        clientOrganizationId: clientOrganizationId === NONE ? null : clientOrganizationId,
+      });
+    },
+    onSuccess: () => {
+      invalidateSharing();
+      toast({ title: "Report organizations saved" });
+    },
+    onError: showError("Error saving report organizations"),
+  });
+
+  const addGrantMutation = useMutation({
+    mutationFn: async (data: typeof newGrant) => {
+      return apiRequest("POST", `/api/reports/${reportId}/grants`, data);
+    },
+    onSuccess: () => {
+      invalidateSharing();
+      setNewGrant({ email: '', role: 'client_viewer' });
+      toast({ title: "Report shared" });
+    },
+    onError: showError("Error sharing report"),
+  });
+
+  const removeGrantMutation = useMutation({
+    mutationFn: async (grantId: string) => {
+      const response = await fetch(`/api/reports/${reportId}/grants/${grantId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    },
+    onSuccess: invalidateSharing,
+    onError: showError("Error removing access"),
+  });
+
+  const handleAddGrant = () => {
+    if (!newGrant.email) {
+      toast({
+        title: "Missing required fields",
+        description: "Email is required",
+        variant: "destructive"
+      });
+      return;
+    }
+    addGrantMutation.mutate(newGrant);
+  };
+
+  const companies = organizations.filter((org) => org.type === 'inspection_company' && org.role !== 'client_viewer');
+  const clients = organizations.filter((org) => org.type === 'client');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share Report</DialogTitle>
+          <DialogDescription>
+            Members of the inspection company work on the report by their role; client members see it once it is issued
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Inspection Company</Label>
+              <Select value={organizationId} onValueChange={setOrganizationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {companies.map((org) => (
+                    <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Client</Label>
+              <Select value={clientOrganizationId} onValueChange={setClientOrganizationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {clients.map((org) => (
+                    <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => saveOrganizationsMutation.mutate()} disabled={saveOrganizationsMutation.isPending}>
+              {saveOrganizationsMutation.isPending ? "Saving..." : "Save Organizations"}
+            </Button>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">People with access to this report</h3>
+            {sharing?.grants.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sharing.grants.map((grant) => (
+                    <TableRow key={grant.id}>
+                      <TableCell>{grant.name || grant.email || grant.userId}</TableCell>
+                      <TableCell>{userRoleLabels[grant.role] || grant.role}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeGrantMutation.mutate(grant.id)}
+                          disabled={removeGrantMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-600">The report has not been shared with anyone outside its organizations.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="col-span-2">
+              <Label htmlFor="grantEmail">Email</Label>
+              <Input
+                id="grantEmail"
+                type="email"
+                value={newGrant.email}
+                onChange={(e) => setNewGrant({ ...newGrant, email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={newGrant.role} onValueChange={(role) => setNewGrant({ ...newGrant, role: role as GrantableRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grantableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+            <Button onClick={handleAddGrant} disabled={addGrantMutation.isPending}>
+              {addGrantMutation.isPending ? "Sharing..." : "Share"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,49 +12,51 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Calculator, Save, Printer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-
-const shellCalculationSchema = z.object({
-  fillHeight: z.string().optional(),
-  specificGravity: z.string().optional(),
-  jointEfficiency: z.string().optional(),
-  courses: z.array(z.object({
-    courseNumber: z.number(),
-    courseHeight: z.string().optional(),
-    material: z.string().optional(),
-    stressValue: z.string().optional(),
-    alternateStress: z.string().optional(),
-    originalThickness: z.string().optional(),
-    actualThickness: z.string().optional(),
-    alternateTmin: z.string().optional(),
-    age: z.string().optional(),
-    tMin: z.string().optional(),
-    corrosionRate: z.string().optional(),
-    remainingLife: z.string().optional(),
-    H: z.string().optional(),
-  })),
-  notes: z.string().optional(),
-});
-
-type ShellCalculationData = z.infer<typeof shellCalculationSchema>;
+import {
+  shellCalculationSchema,
+  calculateShellCourses,
+  DEFAULT_TANK_DIAMETER,
+  VARIABLE_DESIGN_POINT_MIN_DIAMETER,
+  shellMaterials,
+  findShellMaterial,
+  allowableStresses,
+  constructionStandards,
+  jointEfficienciesFor,
+  jointEfficiencyTable,
+  OTHER_MATERIAL,
+  UNKNOWN_MATERIAL,
+  type ShellCalculationData,
+  type ShellCourseData,
+} from "@shared/calculations";
 
 interface ShellCalculationsFormProps {
   reportId: string;
 }
 
 const materials = [
-  { value: "A283-C", label: "A283 Grade C", stress: "23600" },
-  { value: "A285-C", label: "A285 Grade C", stress: "24900" },
-  { value: "A36", label: "A36", stress: "26700" },
-  { value: "A516-60", label: "A516 Grade 60", stress: "26700" },
-  { value: "A516-70", label: "A516 Grade 70", stress: "30000" },
-  { value: "A537-1", label: "A537 Class 1", stress: "35000" },
-  { value: "OTHER", label: "Other (Enter Stress Value)", stress: "" },
+  ...shellMaterials.map((material) => ({ value: material.value, label: material.label })),
+  { value: OTHER_MATERIAL, label: "Other (Enter Stress Value)" },
 ];
 
-const jointEfficiencies = [
-  { value: "1.0", label: "1.00 - Fully Radiographed" },
-  { value: "0.85", label: "0.85 - Spot Radiographed" },
-  { value: "0.7", label: "0.70 - No Radiography" },
+// Fill S and St from API 653 Table 4.1 for the course's position in the shell
+const withTableStresses = (course: ShellCourseData): ShellCourseData => {
+  const material = findShellMaterial(course.material);
+  if (!material) return course;
+  const stresses = allowableStresses(material, course.courseNumber);
+  return { ...course, stressValue: stresses.product.toString(), hydrotestStress: stresses.hydrotest.toString() };
+};
+
+const newCourse = (courseNumber: number): ShellCourseData =>
+  withTableStresses({ courseNumber, courseHeight: "8", material: "A36", age: "10" });
+
+const calculationModes = [
+  { value: "tmin", label: "Minimum Thickness" },
+  { value: "rerate", label: "Rerate (Max Fill Height)" },
+];
+
+const designMethods = [
+  { value: "one-foot", label: "One-Foot Method" },
+  { value: "variable-design-point", label: "Variable Design Point" },
 ];
 
 export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps) {
@@ -69,20 +70,19 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
       fillHeight: "",
       specificGravity: "1.0",
       jointEfficiency: "0.85",
-      courses: [
-        { courseNumber: 1, courseHeight: "8", material: "A36", stressValue: "26700", age: "10" },
-        { courseNumber: 2, courseHeight: "8", material: "A36", stressValue: "26700", age: "10" },
-        { courseNumber: 3, courseHeight: "8", material: "A36", stressValue: "26700", age: "10" },
-        { courseNumber: 4, courseHeight: "8", material: "A36", stressValue: "26700", age: "10" },
-        { courseNumber: 5, courseHeight: "8", material: "A36", stressValue: "26700", age: "10" },
-      ],
+      constructionStandard: "",
+      weldType: "",
+      designMethod: "one-foot",
+      mode: "tmin",
+      nextInspectionInterval: "",
+      courses: [1, 2, 3, 4, 5].map(newCourse),
       notes: "",
     },
   });
 
   // Load report base data to get tank diameter
   const { data: reportData } = useQuery<any>({
-    queryKey: ["/api/reports", reportId],
+    queryKey: [`/api/reports/${reportId}`],
     enabled: !!reportId,
   });
 
@@ -105,6 +105,8 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/shell-calculations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/localized-corrosion`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/inspection-intervals`] });
       toast({
         title: "Success",
         description: "Shell calculations saved successfully",
@@ -119,66 +121,18 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
     },
   });
 
+  // Get tank diameter from report base data
+  const tankDiameter = reportData?.nominalDiameter ? parseFloat(reportData.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+
   const calculateShell = () => {
     setIsCalculating(true);
-    const values = form.getValues();
-    const fillHeight = parseFloat(values.fillHeight || "0");
-    const specificGravity = parseFloat(values.specificGravity || "1.0");
-    const jointEfficiency = parseFloat(values.jointEfficiency || "0.85");
-    // Get tank diameter from report base data
-    const tankDiameter = reportData?.nominalDiameter ? parseFloat(reportData.nominalDiameter) : 120;
-
-    const updatedCourses = values.courses.map((course, index) => {
-      const courseHeight = parseFloat(course.courseHeight || "8");
-      const stressValue = parseFloat(course.stressValue || "26700");
-      const originalThickness = parseFloat(course.originalThickness || "0.5");
-      const actualThickness = parseFloat(course.actualThickness || "0.45");
-      const age = parseFloat(course.age || "10");
-
-      // Calculate H (distance from bottom of course to liquid level)
-      let H = fillHeight;
-      for (let i = 0; i < index; i++) {
-        H -= parseFloat(values.courses[i].courseHeight || "8");
-      }
-      H = Math.max(0, H);
-
-      // Calculate using CORRECT API 653 formula
-      // Step 1: Calculate hydrostatic pressure at bottom of course
-      const P = 0.433 * specificGravity * H; // Pressure in psi
-      
-      // Step 2: Calculate required thickness using API 653 formula
-      // t = (P * R) / (S * E - 0.6 * P)
-      const radiusInches = (tankDiameter * 12) / 2; // Convert diameter to radius in inches
-      
-      // Ensure denominator is not negative or zero
-      const denominator = stressValue * jointEfficiency - 0.6 * P;
-      const requiredThickness = denominator > 0 ? (P * radiusInches) / denominator : 0;
-      
-      // Step 3: For API 653, minimum thickness should not include future corrosion allowance
-      // The calculated thickness IS the minimum required thickness
-      const tMin = requiredThickness;
-      const tMinRounded = Math.max(0.050, Math.round(tMin * 1000) / 1000);
-
-      // Calculate corrosion rate (in mils per year)
-      const thicknessLoss = originalThickness - actualThickness;
-      const corrosionRate = age > 0 ? (thicknessLoss / age) * 1000 : 0;
-      const corrosionRateRounded = Math.round(corrosionRate * 100) / 100;
-
-      // Calculate remaining life
-      const remainingThickness = actualThickness - tMinRounded;
-      const remainingLife = corrosionRate > 0 ? (remainingThickness / (corrosionRate / 1000)) : 999;
-      const remainingLifeRounded = Math.max(0, Math.min(999, Math.round(remainingLife)));
-
-      return {
-        ...course,
-        H: H.toFixed(1),
-        tMin: tMinRounded.toFixed(3),
-        corrosionRate: corrosionRateRounded.toFixed(2),
-        remainingLife: remainingLifeRounded.toString(),
-      };
-    });
+    const results = calculateShellCourses(form.getValues(), tankDiameter);
 
-    form.setValue("courses", updatedCourses);
+    form.setValue("courses", results.courses);
+    form.setValue("appliedDesignMethod", results.appliedDesignMethod);
+    form.setValue("maxFillHeight", results.maxFillHeight);
+    form.setValue("maxHydrotestHeight", results.maxHydrotestHeight);
+    form.setValue("governingCourse", results.governingCourse);
     setIsCalculating(false);
     toast({
       title: "Calculations Complete",
@@ -192,15 +146,7 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
 
   const addCourse = () => {
     const courses = form.getValues("courses");
-    form.setValue("courses", [
-      ...courses,
-      { 
-        courseNumber: courses.length + 1, 
-        courseHeight: "8", 
-        material: "A36", 
-        stressValue: "26700" 
-      },
-    ]);
+    form.setValue("courses", [...courses, newCourse(courses.length + 1)]);
   };
 
   const removeCourse = (index: number) => {
@@ -262,22 +208,133 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="constructionStandard"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Construction Standard</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("weldType", "");
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select standard" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {constructionStandards.map((standard) => (
+                          <SelectItem key={standard.value} value={standard.value}>
+                            {standard.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weldType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weld Type</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        const entry = jointEfficienciesFor(form.getValues("constructionStandard"))
+                          .find((e) => e.weldType === value);
+                        if (entry) {
+                          form.setValue("jointEfficiency", entry.efficiency.toString());
+                        }
+                      }}
+                      value={field.value}
+                      disabled={!form.watch("constructionStandard")}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select weld type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {jointEfficienciesFor(form.watch("constructionStandard")).map((entry) => (
+                          <SelectItem key={entry.weldType} value={entry.weldType}>
+                            {entry.label} ({entry.efficiency.toFixed(2)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="jointEfficiency"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Joint Efficiency</FormLabel>
+                    <FormLabel>Joint Efficiency (E)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.85" {...field} disabled={!!form.watch("weldType")} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="designMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Design Method</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select method" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {designMethods.map((method) => (
+                          <SelectItem
+                            key={method.value}
+                            value={method.value}
+                            disabled={method.value === "variable-design-point" && tankDiameter <= VARIABLE_DESIGN_POINT_MIN_DIAMETER}
+                          >
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {tankDiameter <= VARIABLE_DESIGN_POINT_MIN_DIAMETER && (
+                      <p className="text-xs text-muted-foreground">
+                        Variable design point requires a diameter over {VARIABLE_DESIGN_POINT_MIN_DIAMETER} ft
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Calculation Mode</FormLabel>
                     <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select efficiency" />
+                          <SelectValue placeholder="Select mode" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {jointEfficiencies.map((eff) => (
-                          <SelectItem key={eff.value} value={eff.value}>
-                            {eff.label}
+                        {calculationModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -286,6 +343,21 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                   </FormItem>
                 )}
               />
+              {form.watch("mode") === "rerate" && (
+                <FormField
+                  control={form.control}
+                  name="nextInspectionInterval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Next Inspection Interval (yrs)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="5" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             {/* Course Data Table */}
@@ -297,6 +369,13 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                 </Button>
               </div>
               
+              {form.watch("courses").some((course) => course.material === UNKNOWN_MATERIAL) && (
+                <p className="text-sm text-muted-foreground">
+                  Unknown material: stresses use Y = 30,000 psi and T = 55,000 psi per Table 4.1.
+                  Select "Unknown" as the construction standard unless the weld details are documented.
+                </p>
+              )}
+
               <div className="overflow-x-auto">
                 <Table>
                   <TableHeader>
@@ -304,13 +383,23 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                       <TableHead>Course</TableHead>
                       <TableHead>Height (ft)</TableHead>
                       <TableHead>Material</TableHead>
-                      <TableHead>Stress (psi)</TableHead>
+                      <TableHead>S (psi)</TableHead>
+                      <TableHead>St (psi)</TableHead>
                       <TableHead>t Original</TableHead>
                       <TableHead>t Actual</TableHead>
                       <TableHead>Age (yrs)</TableHead>
+                      <TableHead>t Min Product</TableHead>
+                      <TableHead>t Min Hydrotest</TableHead>
+                      <TableHead>Governs</TableHead>
                       <TableHead>t Min</TableHead>
                       <TableHead>CR (mpy)</TableHead>
                       <TableHead>RL (yrs)</TableHead>
+                      {form.watch("mode") === "rerate" && (
+                        <>
+                          <TableHead>Max Fill (ft)</TableHead>
+                          <TableHead>Max Hydrotest (ft)</TableHead>
+                        </>
+                      )}
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -334,11 +423,7 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                             value={course.material}
                             onValueChange={(value) => {
                               const courses = form.getValues("courses");
-                              courses[index].material = value;
-                              const material = materials.find(m => m.value === value);
-                              if (material && material.stress) {
-                                courses[index].stressValue = material.stress;
-                              }
+                              courses[index] = withTableStresses({ ...courses[index], material: value });
                               form.setValue("courses", courses);
                             }}
                           >
@@ -365,6 +450,18 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                             className="w-24"
                           />
                         </TableCell>
+                        <TableCell>
+                          <Input
+                            value={course.hydrotestStress}
+                            onChange={(e) => {
+                              const courses = form.getValues("courses");
+                              courses[index].hydrotestStress = e.target.value;
+                              form.setValue("courses", courses);
+                            }}
+                            placeholder={course.stressValue}
+                            className="w-24"
+                          />
+                        </TableCell>
                         <TableCell>
                           <Input
                             value={course.originalThickness}
@@ -401,9 +498,18 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                             className="w-16"
                           />
                         </TableCell>
+                        <TableCell>{course.tMinProduct || "-"}</TableCell>
+                        <TableCell>{course.tMinHydrotest || "-"}</TableCell>
+                        <TableCell className="capitalize">{course.governingCase || "-"}</TableCell>
                         <TableCell>{course.tMin || "-"}</TableCell>
                         <TableCell>{course.corrosionRate || "-"}</TableCell>
                         <TableCell>{course.remainingLife || "-"}</TableCell>
+                        {form.watch("mode") === "rerate" && (
+                          <>
+                            <TableCell>{course.maxFillHeight || "-"}</TableCell>
+                            <TableCell>{course.maxHydrotestHeight || "-"}</TableCell>
+                          </>
+                        )}
                         <TableCell>
                           <Button
                             type="button"
@@ -420,6 +526,18 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
                   </TableBody>
                 </Table>
               </div>
+
+              {form.watch("mode") === "rerate" && form.watch("maxFillHeight") && (
+                <div className="rounded-md border p-4 text-sm">
+                  <p className="font-semibold">
+                    Maximum safe fill height: {form.watch("maxFillHeight")} ft
+                    {form.watch("governingCourse") ? ` (governed by course ${form.watch("governingCourse")})` : ""}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Maximum hydrotest height: {form.watch("maxHydrotestHeight")} ft
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Notes */}
@@ -444,29 +562,25 @@ export function ShellCalculationsForm({ reportId }: ShellCalculationsFormProps)
             {/* Reference Table */}
             <Card>
               <CardHeader>
-                <CardTitle className="text-sm">Joint Efficiency Reference (API 653 Table 4-2)</CardTitle>
+                <CardTitle className="text-sm">Joint Efficiency Reference (API 653 Table 4.2)</CardTitle>
               </CardHeader>
               <CardContent>
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead>Standard</TableHead>
                       <TableHead>Joint Type</TableHead>
                       <TableHead>Efficiency</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    <TableRow>
-                      <TableCell>Fully radiographed butt joints</TableCell>
-                      <TableCell>1.00</TableCell>
-                    </TableRow>
-                    <TableRow>
-                      <TableCell>Spot radiographed butt joints</TableCell>
-                      <TableCell>0.85</TableCell>
-                    </TableRow>
-                    <TableRow>
-                      <TableCell>Non-radiographed butt joints</TableCell>
-                      <TableCell>0.70</TableCell>
-                    </TableRow>
+                    {jointEfficiencyTable.map((entry) => (
+                      <TableRow key={`${entry.standard}-${entry.weldType}`}>
+                        <TableCell>{constructionStandards.find((s) => s.value === entry.standard)?.label}</TableCell>
+                        <TableCell>{entry.label}</TableCell>
+                        <TableCell>{entry.efficiency.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
                   </TableBody>
                 </Table>
               </CardContent>
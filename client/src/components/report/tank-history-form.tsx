@@ -2,7 +2,6 @@ import { useState, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -14,95 +13,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Save, Download, Upload } from "lucide-react";
+import { exceedsAllowedFillHeight, tankHistorySchema, type ShellCalculationData, type TankHistoryData } from "@shared/calculations";
 
-const tankHistorySchema = z.object({
-  // Section A - General Information
-  inspectionDate: z.string().optional(),
-  owner: z.string().optional(),
-  location: z.string().optional(),
-  contact: z.string().optional(),
-  tankNo: z.string().optional(),
-  oilProInspector: z.string().optional(),
-  region: z.string().optional(),
-  inspectionType: z.enum(['in-service-external', 'out-of-service-internal']).optional(),
-  hasMSDS: z.boolean().optional(),
-  canContactCustomer: z.boolean().optional(),
-  requiresFieldReport: z.boolean().optional(),
-  entryPermitRequired: z.boolean().optional(),
-  hotWorkPermitRequired: z.boolean().optional(),
-  photographsAllowed: z.boolean().optional(),
-  hasLeadPaint: z.boolean().optional(),
-  hasLeadDocumentation: z.boolean().optional(),
-  tankCleaned: z.boolean().optional(),
-  
-  // Section B - Tank History
-  namePlateInfo: z.string().optional(),
-  originalManufacturer: z.string().optional(),
-  yearOfConstruction: z.string().optional(),
-  currentProduct: z.string().optional(),
-  previousProducts: z.string().optional(),
-  hasPreviousInspections: z.string().optional(),
-  previousInspectionYear: z.string().optional(),
-  previousReportsAvailable: z.boolean().optional(),
-  unusualEvents: z.boolean().optional(),
-  unusualEventsDescription: z.string().optional(),
-  hasRepairs: z.boolean().optional(),
-  repairsDescription: z.string().optional(),
-  drawingsAvailable: z.boolean().optional(),
-  hasBeenRelocated: z.boolean().optional(),
-  relocationDetails: z.string().optional(),
-  hasMajorModifications: z.boolean().optional(),
-  elevationReadingsAvailable: z.boolean().optional(),
-  hasBeenHotTapped: z.boolean().optional(),
-  
-  // Section C - Design
-  tankDiameter: z.string().optional(),
-  tankHeight: z.string().optional(),
-  maxLiquidLevel: z.string().optional(),
-  specificGravity: z.string().optional(),
-  internalPressure: z.string().optional(),
-  operatingTemp: z.string().optional(),
-  designMetalTemp: z.string().optional(),
-  shellMaterialSpec: z.string().optional(),
-  isAnchored: z.boolean().optional(),
-  hasStiffeningRing: z.boolean().optional(),
-  constructionStandard: z.string().optional(),
-  requiresRerate: z.boolean().optional(),
-  rerateDetails: z.string().optional(),
-  shellType: z.enum(['butt-welded', 'lap-welded', 'riveted']).optional(),
-  rivetsSealed: z.boolean().optional(),
-  sealMethod: z.enum(['seal-welded', 'epoxy-sealed', 'none']).optional(),
-  
-  // Section D - Foundation
-  baseKeptDry: z.boolean().optional(),
-  foundationType: z.enum(['gravel-berm', 'ringwall', 'sand-berm', 'oiled-sand-pad', 'other']).optional(),
-  foundationOther: z.string().optional(),
-  unusualSettlement: z.boolean().optional(),
-  foundationProblems: z.boolean().optional(),
-  excessiveVegetation: z.boolean().optional(),
-  
-  // Section E - Details
-  cathodicallyProtected: z.boolean().optional(),
-  hasLeakDetection: z.boolean().optional(),
-  internallyLined: z.boolean().optional(),
-  externallyInsulated: z.boolean().optional(),
-  bottomType: z.enum(['welded', 'riveted', 'other']).optional(),
-  originalBottomThickness: z.string().optional(),
-  hasAnnularRing: z.boolean().optional(),
-  annularRingSize: z.string().optional(),
-  annularRingThickness: z.string().optional(),
-  bottomPlateSize: z.string().optional(),
-  bottomCoatingType: z.enum(['thin-film-epoxy', 'thick-film', 'none', 'other']).optional(),
-  bottomDesignType: z.enum(['cone-up', 'cone-down', 'shovel', 'flat', 'drain-dry', 'concrete']).optional(),
-  
-  // Roof Data
-  tankType: z.enum(['fixed-roof', 'open-top', 'floating-roof']).optional(),
-  fixedRoofType: z.string().optional(),
-  floatingRoofType: z.string().optional(),
-  roofMaterial: z.enum(['steel', 'aluminum', 'other']).optional(),
-});
-
-type TankHistoryFormData = z.infer<typeof tankHistorySchema>;
+type TankHistoryFormData = TankHistoryData;
 
 interface TankHistoryFormProps {
   reportId: string;
@@ -113,7 +26,13 @@ export function TankHistoryForm({ reportId }: TankHistoryFormProps) {
   const [isLoading, setIsLoading] = useState(false);
 
   const { data: tankHistory } = useQuery({
-    queryKey: ["/api/reports", reportId, "tank-history"],
+    queryKey: [`/api/reports/${reportId}/tank-history`],
+    enabled: !!reportId,
+  });
+
+  // Rerate results from the shell calculations decide whether the tank needs rerating
+  const { data: shellCalculations } = useQuery<ShellCalculationData>({
+    queryKey: [`/api/reports/${reportId}/shell-calculations`],
     enabled: !!reportId,
   });
 
@@ -128,12 +47,21 @@ export function TankHistoryForm({ reportId }: TankHistoryFormProps) {
     }
   }, [tankHistory, form]);
 
+  const maxLiquidLevel = form.watch("maxLiquidLevel");
+  const exceedsFillHeight = exceedsAllowedFillHeight(maxLiquidLevel, shellCalculations?.maxFillHeight);
+
+  useEffect(() => {
+    if (exceedsFillHeight && !form.getValues("requiresRerate")) {
+      form.setValue("requiresRerate", true);
+    }
+  }, [exceedsFillHeight, form]);
+
   const saveMutation = useMutation({
     mutationFn: async (data: TankHistoryFormData) => {
       return apiRequest("PUT", `/api/reports/${reportId}/tank-history`, data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "tank-history"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/tank-history`] });
       toast({ title: "Tank history saved successfully" });
     },
     onError: (error) => {
@@ -425,6 +353,46 @@ export function TankHistoryForm({ reportId }: TankHistoryFormProps) {
             </div>
           </div>
 
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="hasBeenHydrotested"
+                checked={form.watch("hasBeenHydrotested")}
+                onCheckedChange={(checked) => form.setValue("hasBeenHydrotested", checked as boolean)}
+              />
+              <Label htmlFor="hasBeenHydrotested">Has the tank been hydrotested?</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="hasChangeOfService"
+                checked={form.watch("hasChangeOfService")}
+                onCheckedChange={(checked) => form.setValue("hasChangeOfService", checked as boolean)}
+              />
+              <Label htmlFor="hasChangeOfService">Change of service (lower temperature or higher stress) since hydrotest?</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="requiresRerate"
+                checked={form.watch("requiresRerate")}
+                onCheckedChange={(checked) => form.setValue("requiresRerate", checked as boolean)}
+              />
+              <Label htmlFor="requiresRerate">Does tank require a rerate?</Label>
+            </div>
+            {exceedsFillHeight && (
+              <p className="text-sm text-destructive">
+                Max liquid level of {maxLiquidLevel} ft exceeds the allowed fill height of{" "}
+                {shellCalculations?.maxFillHeight} ft from the shell rerate calculation
+                {shellCalculations?.governingCourse ? ` (course ${shellCalculations.governingCourse} governs)` : ""}.
+              </p>
+            )}
+            {form.watch("requiresRerate") && (
+              <div>
+                <Label htmlFor="rerateDetails">Rerate Details</Label>
+                <Textarea id="rerateDetails" {...form.register("rerateDetails")} />
+              </div>
+            )}
+          </div>
+
           <div>
             <Label>Shell Type</Label>
             <RadioGroup
@@ -1,68 +1,9 @@
-export interface CorrosionCalculationParams {
-  originalThickness: number;
-  currentThickness: number;
-  serviceYears: number;
-  practicalTmin: number;
-}
-
-export interface CorrosionCalculationResult {
-  metalLoss: number;
-  corrosionRate: number; // mils per year
-  remainingMetal: number;
-  remainingLife: number; // years
-}
-
-export function calculateCorrosionRate(params: CorrosionCalculationParams): CorrosionCalculationResult {
-  const { originalThickness, currentThickness, serviceYears, practicalTmin } = params;
-  
-  // Convert inches to mils for calculation
-  const originalMils = originalThickness * 1000;
-  const currentMils = currentThickness * 1000;
-  const practicalTminMils = practicalTmin * 1000;
-  
-  // Calculate metal loss
-  const metalLoss = originalMils - currentMils;
-  
-  // Calculate corrosion rate in mils per year
-  const corrosionRate = serviceYears > 0 ? metalLoss / serviceYears : 0;
-  
-  // Calculate remaining metal above practical tmin
-  const remainingMetal = currentMils - practicalTminMils;
-  
-  // Calculate remaining life in years
-  const remainingLife = corrosionRate > 0 ? remainingMetal / corrosionRate : Infinity;
-  
-  return {
-    metalLoss: metalLoss / 1000, // Convert back to inches
-    corrosionRate,
-    remainingMetal: remainingMetal / 1000, // Convert back to inches
-    remainingLife: Math.max(0, remainingLife),
-  };
-}
-
-export function calculateStatistics(corrosionRates: number[]): {
-  average: number;
-  maximum: number;
-  percentile95: number;
-} {
-  if (corrosionRates.length === 0) {
-    return { average: 0, maximum: 0, percentile95: 0 };
-  }
-  
-  const sorted = [...corrosionRates].sort((a, b) => a - b);
-  const average = corrosionRates.reduce((sum, rate) => sum + rate, 0) / corrosionRates.length;
-  const maximum = Math.max(...corrosionRates);
-  
-  // Calculate 95th percentile
-  const index95 = Math.floor(0.95 * sorted.length);
-  const percentile95 = sorted[Math.min(index95, sorted.length - 1)];
-  
-  return {
-    average: Number(average.toFixed(2)),
-    maximum: Number(maximum.toFixed(2)),
-    percentile95: Number(percentile95.toFixed(2)),
-  };
-}
+export {
+  calculateCorrosionRate,
+  calculateStatistics,
+  type CorrosionCalculationParams,
+  type CorrosionCalculationResult,
+} from "@shared/calculations";
 
 export function generateAutoTminValue(component: string, size?: string): number {
   const defaultTmins: Record<string, number> = {
@@ -4,9 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { ClipboardCheck, Plus, FileText, Calendar, User, Check, LogOut } from "lucide-react";
+import { ClipboardCheck, Plus, FileText, Calendar, User, Check, LogOut, Database, Building2 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { reportStatus, reportStatusLabels } from "@shared/workflow";
 
 export default function Home() {
   const [location, setLocation] = useLocation();
@@ -139,6 +140,18 @@ export default function Home() {
               <FileText className="h-5 w-5 mr-2" />
               View Templates
             </Button>
+            <Link href="/tanks">
+              <Button size="lg" variant="outline">
+                <Database className="h-5 w-5 mr-2" />
+                Tank Registry
+              </Button>
+            </Link>
+            <Link href="/organizations">
+              <Button size="lg" variant="outline">
+                <Building2 className="h-5 w-5 mr-2" />
+                Organizations
+              </Button>
+            </Link>
           </div>
         </div>
 
@@ -245,8 +258,8 @@ export default function Home() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
-                      <Badge variant={report.status === 'draft' ? 'secondary' : 'default'}>
-                        {report.status || 'draft'}
+                      <Badge variant={reportStatus(report.status) === 'issued' ? 'default' : 'secondary'}>
+                        {reportStatusLabels[reportStatus(report.status)]} · Rev {report.revisionLetter || 'A'}
                       </Badge>
                       <Link href={`/report-builder?id=${report.id}`}>
                         <Button variant="outline" size="sm">
@@ -1,11 +1,34 @@
 
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckCircle, FileText, Calculator, BarChart3, Shield, Download } from "lucide-react";
+import { PasswordSignInDialog, type PasswordSignInMode } from "@/components/auth/password-sign-in-dialog";
+
+interface AuthConfig {
+  provider: string;
+  loginMethod: 'redirect' | 'password';
+  allowSignup: boolean;
+}
 
 export default function Landing() {
+  // Password reset links point at /?resetToken=...
+  const resetToken = new URLSearchParams(window.location.search).get("resetToken") ?? undefined;
+  const [signInMode, setSignInMode] = useState<PasswordSignInMode>(resetToken ? 'reset' : 'signIn');
+  const [showSignIn, setShowSignIn] = useState(!!resetToken);
+
+  const { data: authConfig } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+  });
+
   const handleSignIn = () => {
-    window.location.href = "/api/login";
+    if (authConfig?.loginMethod === 'password') {
+      setSignInMode('signIn');
+      setShowSignIn(true);
+    } else {
+      window.location.href = "/api/login";
+    }
   };
 
   return (
@@ -19,7 +42,7 @@ export default function Landing() {
               <h1 className="text-2xl font-bold text-gray-900">API 653 Report Builder</h1>
             </div>
             <Button onClick={handleSignIn} size="lg" className="bg-blue-600 hover:bg-blue-700">
-              Sign In with Replit
+              {authConfig?.provider === 'replit' ? "Sign In with Replit" : "Sign In"}
             </Button>
           </div>
         </div>
@@ -109,7 +132,7 @@ export default function Landing() {
             Ready to Create Professional Inspection Reports?
           </h3>
           <p className="text-gray-600 mb-6">
-            Sign in with your Replit account to start building comprehensive API 653 inspection reports
+            Sign in to start building comprehensive API 653 inspection reports
           </p>
           <Button onClick={handleSignIn} size="lg" className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3">
             Sign In to Get Started
@@ -123,6 +146,15 @@ export default function Landing() {
           <p>&copy; 2025 API 653 Report Builder. Built for professional tank inspectors.</p>
         </div>
       </footer>
+
+      <PasswordSignInDialog
+        open={showSignIn}
+        onOpenChange={setShowSignIn}
+        mode={signInMode}
+        onModeChange={setSignInMode}
+        allowSignup={!!authConfig?.allowSignup}
+        resetToken={resetToken}
+      />
     </div>
   );
 }
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ArrowLeft, Building2, FileText, Plus, Trash2 } from "lucide-react";
+import {
+  organizationTypes, organizationTypeLabels, userRoles, userRoleLabels, type OrganizationType, type UserRole
+} from "@shared/access";
+import { Organization, OrganizationMember } from "@/types/report";
+
+export default function Organizations() {
+  const [selectedId, setSelectedId] = useState<string>();
+  const [showNewOrganizationModal, setShowNewOrganizationModal] = useState(false);
+  const [newOrganization, setNewOrganization] = useState<{ name: string; type: OrganizationType }>({
+    name: '', type: 'inspection_company'
+  });
+  const [newMember, setNewMember] = useState<{ email: string; role: UserRole }>({ email: '', role: 'inspector' });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: organizations = [], isLoading } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const selected = organizations.find((org) => org.id === selectedId) ?? organizations[0];
+  const isAdmin = selected?.role === 'admin';
+
+  const { data: members = [] } = useQuery<OrganizationMember[]>({
+    queryKey: [`/api/organizations/${selected?.id}/members`],
+    enabled: !!selected,
+  });
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/organizations/${selected?.id}/members`] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.status === 404 ? "That user has not signed in yet" : error.message,
+      variant: "destructive"
+    });
+  };
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (data: typeof newOrganization) => {
+      return apiRequest("POST", "/api/organizations", data);
+    },
+    onSuccess: (organization: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      setShowNewOrganizationModal(false);
+      setNewOrganization({ name: '', type: 'inspection_company' });
+      setSelectedId(organization.id);
+    },
+    onError: showError("Error creating organization"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (data: typeof newMember) => {
+      return apiRequest("POST", `/api/organizations/${selected?.id}/members`, data);
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      setNewMember({ email: '', role: 'inspector' });
+    },
+    onError: showError("Error adding member"),
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) => {
+      return apiRequest("PUT", `/api/organizations/${selected?.id}/members/${userId}`, { role });
+    },
+    onSuccess: invalidateMembers,
+    onError: showError("Error changing role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await fetch(`/api/organizations/${selected?.id}/members/${userId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    },
+    onSuccess: invalidateMembers,
+    onError: showError("Error removing member"),
+  });
+
+  const handleSubmitNewOrganization = () => {
+    if (!newOrganization.name) {
+      toast({
+        title: "Missing required fields",
+        description: "Organization name is required",
+        variant: "destructive"
+      });
+      return;
+    }
+    createOrganizationMutation.mutate(newOrganization);
+  };
+
+  const handleAddMember = () => {
+    if (!newMember.email) {
+      toast({
+        title: "Missing required fields",
+        description: "Email is required",
+        variant: "destructive"
+      });
+      return;
+    }
+    addMemberMutation.mutate(newMember);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Organizations</h1>
+            <p className="text-sm text-gray-600">Inspection companies and clients, and the roles of their members</p>
+          </div>
+        </div>
+        <Button onClick={() => setShowNewOrganizationModal(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Organization
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse bg-gray-200 h-48 rounded-lg"></div>
+      ) : organizations.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4">
+              <Building2 className="h-8 w-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No organizations</h3>
+            <p className="text-gray-600">Create your inspection company, or ask its admin to add you.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">Your Organizations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {organizations.map((org) => (
+                <Button
+                  key={org.id}
+                  variant={org.id === selected?.id ? 'default' : 'outline'}
+                  className="w-full justify-between"
+                  onClick={() => setSelectedId(org.id)}
+                >
+                  <span>{org.name}</span>
+                  <span className="text-xs opacity-75">{organizationTypeLabels[org.type]}</span>
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg font-semibold text-gray-900">{selected.name}</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    {selected.type === 'inspection_company' && (
+                      <Link href={`/organizations/${selected.id}/templates`}>
+                        <Button variant="outline" size="sm">
+                          <FileText className="h-4 w-4 mr-2" />
+                          Report Templates
+                        </Button>
+                      </Link>
+                    )}
+                    <Badge variant="secondary">Your role: {userRoleLabels[selected.role]}</Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map((member) => (
+                      <TableRow key={member.id}>
+                        <TableCell>
+                          <div className="font-medium">{member.name || member.email}</div>
+                          {member.name && <div className="text-xs text-gray-500">{member.email}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {isAdmin ? (
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) => updateMemberMutation.mutate({ userId: member.userId, role: role as UserRole })}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {userRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            userRoleLabels[member.role] || member.role
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeMemberMutation.mutate(member.userId)}
+                              disabled={removeMemberMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {isAdmin && (
+                  <div className="grid grid-cols-4 gap-4 items-end">
+                    <div className="col-span-2">
+                      <Label htmlFor="memberEmail">Email</Label>
+                      <Input
+                        id="memberEmail"
+                        type="email"
+                        value={newMember.email}
+                        onChange={(e) => setNewMember({ ...newMember, email: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Role</Label>
+                      <Select value={newMember.role} onValueChange={(role) => setNewMember({ ...newMember, role: role as UserRole })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{userRoleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={handleAddMember} disabled={addMemberMutation.isPending}>
+                      {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <Dialog open={showNewOrganizationModal} onOpenChange={setShowNewOrganizationModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>You become the organization's admin</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="organizationName">Name <span className="text-red-500">*</span></Label>
+              <Input
+                id="organizationName"
+                value={newOrganization.name}
+                onChange={(e) => setNewOrganization({ ...newOrganization, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={newOrganization.type}
+                onValueChange={(type) => setNewOrganization({ ...newOrganization, type: type as OrganizationType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizationTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{organizationTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowNewOrganizationModal(false)}>Cancel</Button>
+              <Button onClick={handleSubmitNewOrganization} disabled={createOrganizationMutation.isPending}>
+                {createOrganizationMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
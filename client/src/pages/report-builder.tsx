@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -9,25 +9,33 @@ import { NavigationSidebar, TabType } from "@/components/report/navigation-sideb
 import { BaseDataForm } from "@/components/report/base-data-form";
 import { TankHistoryForm } from "@/components/report/tank-history-form";
 import { AppendicesForm } from "@/components/report/appendices-form";
+import { AttachmentsForm } from "@/components/report/attachments-form";
 import { ReportContentForm } from "@/components/report/report-content-form";
 import { ComponentCMLForm } from "@/components/report/component-cml-form";
 import { CalculationsForm } from "@/components/report/calculations-form";
+import { BrittleFractureAssessment } from "@/components/report/brittle-fracture-assessment";
 import { WriteupForm } from "@/components/report/writeup-form";
 import { ShellCalculationsForm } from "@/components/report/shell-calculations";
+import { LocalizedCorrosionForm } from "@/components/report/localized-corrosion-form";
 import { RoofCalculationsForm } from "@/components/report/roof-calculations";
+import { FloatingRoofForm } from "@/components/report/floating-roof-form";
 import { FloorMRTCalculationsForm } from "@/components/report/floor-mrt-calculations";
 import { SettlementSurveyForm } from "@/components/report/settlement-survey";
 import { NozzleCMLForm } from "@/components/report/nozzle-cml-form";
 import { ReportGenerator } from "@/components/report/report-generator";
+import { RevisionHistory } from "@/components/report/revision-history";
+import { ApprovalWorkflow } from "@/components/report/approval-workflow";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { FileText, X } from "lucide-react";
 
 export default function ReportBuilder() {
-  const [location, setLocation] = useLocation();
+  const [, setLocation] = useLocation();
+  const search = useSearch();
   const [selectedReportId, setSelectedReportId] = useState<string>("");
   const [activeTab, setActiveTab] = useState<TabType>('base-data');
   const [unitSet, setUnitSet] = useState('US');
@@ -37,13 +45,15 @@ export default function ReportBuilder() {
     reportNumber: '',
     tankId: '',
   });
+  const [fromPrevious, setFromPrevious] = useState(false);
+  const [nextInspectionDate, setNextInspectionDate] = useState('');
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Extract report ID or template from URL params if present
   useEffect(() => {
-    const urlParams = new URLSearchParams(location.split('?')[1] || '');
+    const urlParams = new URLSearchParams(search);
     const reportId = urlParams.get('id');
     const templateId = urlParams.get('template');
     
@@ -53,7 +63,7 @@ export default function ReportBuilder() {
       // Handle template selection
       handleTemplateSelect(templateId);
     }
-  }, [location]);
+  }, [search]);
 
   // Update URL when report is selected
   useEffect(() => {
@@ -87,7 +97,30 @@ export default function ReportBuilder() {
     },
   });
 
+  const nextInspectionMutation = useMutation({
+    mutationFn: async (data: { reportNumber: string; inspectionDate: string }) => {
+      return apiRequest("POST", `/api/reports/${selectedReportId}/next-inspection`, data);
+    },
+    onSuccess: (newReport: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
+      setSelectedReportId(newReport.id);
+      setShowNewReportModal(false);
+      setNewReportData({ reportNumber: '', tankId: '' });
+      setNextInspectionDate('');
+      toast({ title: "Next inspection created from previous report" });
+    },
+    onError: (error) => {
+      toast({ 
+        title: "Error creating report", 
+        description: error.message,
+        variant: "destructive" 
+      });
+    },
+  });
+
   const handleCreateReport = () => {
+    setFromPrevious(!!currentReport);
     setShowNewReportModal(true);
   };
 
@@ -141,11 +174,28 @@ export default function ReportBuilder() {
         reportNumber: template.reportNumber,
         tankId: template.tankId,
       });
+      setFromPrevious(false);
       setShowNewReportModal(true);
     }
   };
 
   const handleSubmitNewReport = () => {
+    if (fromPrevious) {
+      if (!newReportData.reportNumber) {
+        toast({
+          title: "Missing required fields",
+          description: "Report number is required",
+          variant: "destructive"
+        });
+        return;
+      }
+      nextInspectionMutation.mutate({
+        reportNumber: newReportData.reportNumber,
+        inspectionDate: nextInspectionDate,
+      });
+      return;
+    }
+
     if (!newReportData.reportNumber || !newReportData.tankId) {
       toast({
         title: "Missing required fields",
@@ -244,6 +294,8 @@ export default function ReportBuilder() {
         return <TankHistoryForm reportId={selectedReportId} />;
       case 'appendices':
         return <AppendicesForm reportId={selectedReportId} />;
+      case 'photos':
+        return <AttachmentsForm reportId={selectedReportId} />;
       case 'report-content':
         return <ReportContentForm reportId={selectedReportId} currentReport={currentReport} />;
       case 'component-cml':
@@ -254,19 +306,14 @@ export default function ReportBuilder() {
         return <ShellCalculationsForm reportId={selectedReportId} />;
       case 'roof-calculations':
         return <RoofCalculationsForm reportId={selectedReportId} />;
+      case 'floating-roof':
+        return <FloatingRoofForm reportId={selectedReportId} />;
       case 'floor-calculations':
         return <FloorMRTCalculationsForm reportId={selectedReportId} />;
       case 'settlement-survey':
         return <SettlementSurveyForm reportId={selectedReportId} />;
       case 'shell-inspection':
-        return (
-          <Card>
-            <CardContent className="p-6">
-              <h2 className="text-xl font-semibold mb-4">Shell Inspection</h2>
-              <p className="text-gray-600">Shell inspection data and thickness measurements will be available here.</p>
-            </CardContent>
-          </Card>
-        );
+        return <LocalizedCorrosionForm reportId={selectedReportId} />;
       case 'bottom-inspection':
         return (
           <Card>
@@ -277,9 +324,18 @@ export default function ReportBuilder() {
           </Card>
         );
       case 'calculations':
-        return <CalculationsForm reportId={selectedReportId} />;
+        return (
+          <div className="space-y-6">
+            <CalculationsForm reportId={selectedReportId} />
+            <BrittleFractureAssessment reportId={selectedReportId} />
+          </div>
+        );
       case 'writeup':
         return <WriteupForm reportId={selectedReportId} />;
+      case 'revisions':
+        return <RevisionHistory reportId={selectedReportId} />;
+      case 'approval':
+        return <ApprovalWorkflow reportId={selectedReportId} />;
       case 'report-generation':
         return <ReportGenerator reportId={selectedReportId} />;
       default:
@@ -340,15 +396,44 @@ export default function ReportBuilder() {
               />
             </div>
             
-            <div>
-              <Label htmlFor="tankId">Tank/Equipment ID *</Label>
-              <Input
-                id="tankId"
-                placeholder="AST-500"
-                value={newReportData.tankId}
-                onChange={(e) => setNewReportData({ ...newReportData, tankId: e.target.value })}
-              />
-            </div>
+            {currentReport && (
+              <div className="flex items-start space-x-2 p-3 bg-gray-50 rounded-lg">
+                <Checkbox
+                  id="fromPrevious"
+                  checked={fromPrevious}
+                  onCheckedChange={(checked) => setFromPrevious(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="fromPrevious">Next inspection of {currentReport.tankId}</Label>
+                  <p className="text-xs text-gray-600 mt-1">
+                    Copies base data, tank history, shell courses, CMLs, nozzles, settlement points and appendices
+                    from {currentReport.reportNumber}, with its current readings moved to previous readings
+                  </p>
+                </div>
+              </div>
+            )}
+            
+            {fromPrevious ? (
+              <div>
+                <Label htmlFor="nextInspectionDate">Inspection Date</Label>
+                <Input
+                  id="nextInspectionDate"
+                  type="date"
+                  value={nextInspectionDate}
+                  onChange={(e) => setNextInspectionDate(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="tankId">Tank/Equipment ID *</Label>
+                <Input
+                  id="tankId"
+                  placeholder="AST-500"
+                  value={newReportData.tankId}
+                  onChange={(e) => setNewReportData({ ...newReportData, tankId: e.target.value })}
+                />
+              </div>
+            )}
             
             <div className="flex justify-end space-x-3 pt-4">
               <Button variant="outline" onClick={() => setShowNewReportModal(false)}>
@@ -356,10 +441,10 @@ export default function ReportBuilder() {
               </Button>
               <Button 
                 onClick={handleSubmitNewReport}
-                disabled={createReportMutation.isPending}
+                disabled={createReportMutation.isPending || nextInspectionMutation.isPending}
                 className="bg-primary hover:bg-primary/90"
               >
-                {createReportMutation.isPending ? "Creating..." : "Create Report"}
+                {createReportMutation.isPending || nextInspectionMutation.isPending ? "Creating..." : "Create Report"}
               </Button>
             </div>
           </div>
@@ -0,0 +1,425 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, FileText, Plus, Save, Trash2, Upload } from "lucide-react";
+import { reportSectionIds, reportSectionTitles, type ReportSectionId } from "@shared/report-outline";
+import {
+  coverLayouts, coverLayoutLabels, templateFonts, templateFontLabels, templateMergeFields, defaultReportTemplate,
+  type CoverLayout, type TemplateFont, type TemplateMergeField
+} from "@shared/report-templates";
+import { Organization, ReportTemplate } from "@/types/report";
+
+type TemplateDraft = Omit<ReportTemplate, "id" | "organizationId">;
+
+const newTemplate: TemplateDraft = { ...defaultReportTemplate, name: "", isDefault: false };
+
+function draftFrom({ id, organizationId, ...template }: ReportTemplate): TemplateDraft {
+  return template;
+}
+
+export default function ReportTemplates() {
+  const { id: organizationId } = useParams<{ id: string }>();
+  const [selectedId, setSelectedId] = useState<string>();
+  const [draft, setDraft] = useState<TemplateDraft>(newTemplate);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+  const organization = organizations.find((org) => org.id === organizationId);
+  const isAdmin = organization?.role === 'admin';
+
+  const { data: templates = [], isLoading } = useQuery<ReportTemplate[]>({
+    queryKey: [`/api/organizations/${organizationId}/templates`],
+  });
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/organizations/${organizationId}/templates`] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.status === 400 ? "Check the name, title and colours" : error.message,
+      variant: "destructive"
+    });
+  };
+
+  const selectTemplate = (template?: ReportTemplate) => {
+    setSelectedId(template?.id);
+    setDraft(template ? draftFrom(template) : newTemplate);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateDraft) => {
+      return selectedId
+        ? apiRequest("PUT", `/api/organizations/${organizationId}/templates/${selectedId}`, data)
+        : apiRequest("POST", `/api/organizations/${organizationId}/templates`, data);
+    },
+    onSuccess: (template: any) => {
+      invalidateTemplates();
+      setSelectedId(template.id);
+      toast({ title: "Template saved", description: `${template.name} has been saved` });
+    },
+    onError: showError("Error saving template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await fetch(`/api/organizations/${organizationId}/templates/${templateId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+      selectTemplate(undefined);
+    },
+    onError: showError("Error deleting template"),
+  });
+
+  // The logo is stored on the template, so a new template is saved before it gets one
+  const handleLogoUpload = async (file: File | undefined) => {
+    if (!file || !selectedId) return;
+    setUploadingLogo(true);
+    const body = new FormData();
+    body.append("file", file);
+    const response = await fetch(`/api/organizations/${organizationId}/templates/${selectedId}/logo`, { method: "PUT", body });
+    setUploadingLogo(false);
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      toast({ title: "Could not upload logo", description: error, variant: "destructive" });
+      return;
+    }
+    const template: ReportTemplate = await response.json();
+    setDraft({ ...draft, logoUrl: template.logoUrl });
+    invalidateTemplates();
+  };
+
+  const removeLogoMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/organizations/${organizationId}/templates/${selectedId}/logo`);
+    },
+    onSuccess: () => {
+      setDraft({ ...draft, logoUrl: null });
+      invalidateTemplates();
+    },
+    onError: showError("Error removing logo"),
+  });
+
+  const toggleSection = (section: ReportSectionId, included: boolean) => {
+    setDraft({
+      ...draft,
+      sections: included ? [...draft.sections, section] : draft.sections.filter((id) => id !== section),
+    });
+  };
+
+  const boilerplateFor = (section: ReportSectionId) =>
+    draft.boilerplate.find((entry) => entry.section === section)?.text ?? "";
+
+  const setBoilerplate = (section: ReportSectionId, text: string) => {
+    const others = draft.boilerplate.filter((entry) => entry.section !== section);
+    setDraft({ ...draft, boilerplate: text ? [...others, { section, text }] : others });
+  };
+
+  const handleSave = () => {
+    if (!draft.name || !draft.title) {
+      toast({
+        title: "Missing required fields",
+        description: "Template name and report title are required",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Link href="/organizations">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Report Templates</h1>
+            <p className="text-sm text-gray-600">
+              Branding, wording and sections of the reports {organization?.name || "this organization"} exports
+            </p>
+          </div>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => selectTemplate(undefined)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-gray-900">Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="animate-pulse bg-gray-200 h-24 rounded-lg"></div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No templates yet. Reports export with the standard layout until one is saved.
+              </p>
+            ) : (
+              templates.map((template) => (
+                <Button
+                  key={template.id}
+                  variant={template.id === selectedId ? 'default' : 'outline'}
+                  className="w-full justify-between"
+                  onClick={() => selectTemplate(template)}
+                >
+                  <span>{template.name}</span>
+                  {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                </Button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold text-gray-900">
+                {selectedId ? draft.name || "Template" : "New Template"}
+              </CardTitle>
+              {isAdmin && (
+                <div className="flex space-x-2">
+                  {selectedId && (
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(selectedId)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : "Save Template"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <fieldset disabled={!isAdmin} className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="templateName">Template Name <span className="text-red-500">*</span></Label>
+                  <Input
+                    id="templateName"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="templateTitle">Report Title <span className="text-red-500">*</span></Label>
+                  <Input
+                    id="templateTitle"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Cover Layout</Label>
+                  <Select
+                    value={draft.coverLayout}
+                    onValueChange={(coverLayout) => setDraft({ ...draft, coverLayout: coverLayout as CoverLayout })}
+                    disabled={!isAdmin}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {coverLayouts.map((layout) => (
+                        <SelectItem key={layout} value={layout}>{coverLayoutLabels[layout]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Font</Label>
+                  <Select
+                    value={draft.fontFamily}
+                    onValueChange={(fontFamily) => setDraft({ ...draft, fontFamily: fontFamily as TemplateFont })}
+                    disabled={!isAdmin}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templateFonts.map((font) => (
+                        <SelectItem key={font} value={font}>{templateFontLabels[font]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="primaryColor">Title Colour</Label>
+                  <Input
+                    id="primaryColor"
+                    type="color"
+                    value={draft.primaryColor}
+                    onChange={(e) => setDraft({ ...draft, primaryColor: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="secondaryColor">Table Heading Colour</Label>
+                  <Input
+                    id="secondaryColor"
+                    type="color"
+                    value={draft.secondaryColor}
+                    onChange={(e) => setDraft({ ...draft, secondaryColor: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label>Logo</Label>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {selectedId
+                      ? "Replaces the logo uploaded on the report"
+                      : "Save the template to add a logo"}
+                  </p>
+                  <div className="flex items-center space-x-3">
+                    {draft.logoUrl && (
+                      <img src={draft.logoUrl} alt="Template logo" className="h-12 max-w-[200px] object-contain border rounded" />
+                    )}
+                    <Button variant="outline" asChild disabled={!selectedId || uploadingLogo}>
+                      <label className="cursor-pointer">
+                        <Upload className="h-4 w-4 mr-2" />
+                        {uploadingLogo ? "Uploading..." : draft.logoUrl ? "Replace Logo" : "Upload Logo"}
+                        <input
+                          type="file"
+                          className="hidden"
+                          accept="image/png,image/jpeg,image/webp,image/tiff"
+                          disabled={!selectedId || uploadingLogo}
+                          onChange={(e) => {
+                            handleLogoUpload(e.target.files?.[0]);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </Button>
+                    {draft.logoUrl && (
+                      <Button
+                        variant="outline"
+                        onClick={() => removeLogoMutation.mutate()}
+                        disabled={removeLogoMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="col-span-2 flex items-center space-x-2">
+                  <Checkbox
+                    id="isDefault"
+                    checked={draft.isDefault}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked === true })}
+                  />
+                  <Label htmlFor="isDefault">Use for reports that do not choose a template</Label>
+                </div>
+              </div>
+
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <h4 className="font-semibold text-blue-900 mb-2">Merge Fields</h4>
+                <p className="text-sm text-blue-800 mb-2">
+                  The disclaimer, limitations and section wording can include these fields; each export fills them in.
+                </p>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-blue-800">
+                  {(Object.keys(templateMergeFields) as TemplateMergeField[]).map((field) => (
+                    <div key={field}>
+                      <code className="font-mono">{`{{${field}}}`}</code> {templateMergeFields[field]}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="disclaimer">Cover Disclaimer</Label>
+                <Textarea
+                  id="disclaimer"
+                  rows={3}
+                  value={draft.disclaimer ?? ""}
+                  onChange={(e) => setDraft({ ...draft, disclaimer: e.target.value || null })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="limitations">Limitations</Label>
+                <Textarea
+                  id="limitations"
+                  rows={4}
+                  placeholder="Printed as the Limitations section; leave a blank line between paragraphs"
+                  value={draft.limitations ?? ""}
+                  onChange={(e) => setDraft({ ...draft, limitations: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div>
+                  <h4 className="font-semibold text-gray-900">Sections</h4>
+                  <p className="text-sm text-gray-600">
+                    Sections print in the standard order. Wording entered here opens the section when the report has data for it.
+                  </p>
+                </div>
+                {reportSectionIds.map((section) => {
+                  const included = draft.sections.includes(section);
+                  return (
+                    <div key={section} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`section-${section}`}
+                          checked={included}
+                          onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                        />
+                        <Label htmlFor={`section-${section}`}>{reportSectionTitles[section]}</Label>
+                      </div>
+                      {included && section !== "limitations" && (
+                        <Textarea
+                          rows={2}
+                          placeholder="Standard wording for this section (optional)"
+                          value={boilerplateFor(section)}
+                          onChange={(e) => setBoilerplate(section, e.target.value)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!isAdmin && organization && (
+        <div className="flex items-center text-sm text-gray-600 mt-4">
+          <FileText className="h-4 w-4 mr-2" />
+          Only organization admins can change report templates.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ArrowLeft, Plus, Save, Trash2 } from "lucide-react";
+import { reportStatus, reportStatusLabels } from "@shared/workflow";
+
+const tankSchema = z.object({
+  tag: z.string().min(1, "Tank tag is required"),
+  site: z.string().optional(),
+  owner: z.string().optional(),
+  namePlateInfo: z.string().optional(),
+  originalManufacturer: z.string().optional(),
+  yearOfConstruction: z.string().optional(),
+  tankDiameter: z.string().optional(),
+  tankHeight: z.string().optional(),
+  maxLiquidLevel: z.string().optional(),
+  specificGravity: z.string().optional(),
+  internalPressure: z.string().optional(),
+  operatingTemp: z.string().optional(),
+  designMetalTemp: z.string().optional(),
+  shellMaterialSpec: z.string().optional(),
+  constructionStandard: z.string().optional(),
+  shellType: z.string().optional(),
+  isAnchored: z.boolean().optional(),
+  hasStiffeningRing: z.boolean().optional(),
+});
+
+type TankFormData = z.infer<typeof tankSchema>;
+
+const textFields: { name: Exclude<keyof TankFormData, "isAnchored" | "hasStiffeningRing">; label: string }[] = [
+  { name: "tag", label: "Tank Tag" },
+  { name: "site", label: "Site" },
+  { name: "owner", label: "Owner" },
+  { name: "namePlateInfo", label: "Nameplate" },
+  { name: "originalManufacturer", label: "Original Manufacturer" },
+  { name: "yearOfConstruction", label: "Year of Construction" },
+  { name: "tankDiameter", label: "Diameter (ft)" },
+  { name: "tankHeight", label: "Height (ft)" },
+  { name: "maxLiquidLevel", label: "Max Liquid Level (ft)" },
+  { name: "specificGravity", label: "Specific Gravity" },
+  { name: "internalPressure", label: "Internal Pressure" },
+  { name: "operatingTemp", label: "Operating Temp (°F)" },
+  { name: "designMetalTemp", label: "Design Metal Temp (°F)" },
+  { name: "shellMaterialSpec", label: "Shell Material" },
+  { name: "constructionStandard", label: "Construction Standard" },
+  { name: "shellType", label: "Shell Type" },
+];
+
+export default function TankDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [showNewReportModal, setShowNewReportModal] = useState(false);
+  const [newReportData, setNewReportData] = useState({ reportNumber: '', inspectionDate: '' });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tank, isLoading } = useQuery<any>({
+    queryKey: [`/api/tanks/${id}`],
+  });
+
+  const form = useForm<TankFormData>({
+    resolver: zodResolver(tankSchema),
+    defaultValues: { tag: '' },
+  });
+
+  useEffect(() => {
+    if (tank) {
+      form.reset(Object.fromEntries(
+        Object.keys(tankSchema.shape).map((key) => [key, tank[key] ?? undefined])
+      ) as TankFormData);
+    }
+  }, [tank, form]);
+
+  const updateTankMutation = useMutation({
+    mutationFn: async (data: TankFormData) => {
+      return apiRequest("PUT", `/api/tanks/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tanks/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
+      toast({ title: "Tank saved successfully" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving tank",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const deleteTankMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/tanks/${id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
+      setLocation("/tanks");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting tank",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const createReportMutation = useMutation({
+    mutationFn: async (data: typeof newReportData) => {
+      return apiRequest("POST", `/api/tanks/${id}/reports`, data);
+    },
+    onSuccess: (newReport: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
+      setShowNewReportModal(false);
+      setLocation(`/report-builder?id=${newReport.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error creating report",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleSubmitNewReport = () => {
+    if (!newReportData.reportNumber) {
+      toast({
+        title: "Missing required fields",
+        description: "Report number is required",
+        variant: "destructive"
+      });
+      return;
+    }
+    createReportMutation.mutate(newReportData);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Remove ${tank.tag} from the registry? Its reports are kept.`)) {
+      deleteTankMutation.mutate();
+    }
+  };
+
+  if (isLoading) {
+    return <div className="max-w-7xl mx-auto p-8"><div className="animate-pulse bg-gray-200 h-96 rounded-lg"></div></div>;
+  }
+
+  if (!tank) {
+    return <div className="max-w-7xl mx-auto p-8 text-gray-600">Tank not found</div>;
+  }
+
+  const reports: any[] = tank.reports || [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/tanks">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{tank.tag}</h1>
+            <p className="text-sm text-gray-600">{[tank.site, tank.owner].filter(Boolean).join(" - ") || "No site recorded"}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove
+          </Button>
+          <Button onClick={() => setShowNewReportModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Inspection
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">Inspection History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reports.length === 0 ? (
+            <p className="text-gray-600 text-center py-6">No inspections recorded for this tank yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Inspection Date</TableHead>
+                  <TableHead>Report No.</TableHead>
+                  <TableHead>Inspector</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map((report) => (
+                  <TableRow key={report.id}>
+                    <TableCell>{report.inspectionDate ? new Date(report.inspectionDate).toLocaleDateString() : "No date"}</TableCell>
+                    <TableCell className="font-medium">{report.reportNumber}</TableCell>
+                    <TableCell>{report.inspectorName || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={reportStatus(report.status) === 'issued' ? 'default' : 'secondary'}>
+                        {reportStatusLabels[reportStatus(report.status)]} · Rev {report.revisionLetter || 'A'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Link href={`/report-builder?id=${report.id}`}>
+                        <Button variant="outline" size="sm">Open</Button>
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">Tank Data</CardTitle>
+          <p className="text-sm text-gray-600">Carried into the tank history of each new inspection</p>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => updateTankMutation.mutate(data))} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                {textFields.map(({ name, label }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center space-x-6">
+                <FormField
+                  control={form.control}
+                  name="isAnchored"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel>Anchored</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hasStiffeningRing"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel>Stiffening Ring</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={updateTankMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {updateTankMutation.isPending ? "Saving..." : "Save Tank Data"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showNewReportModal} onOpenChange={setShowNewReportModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Inspection</DialogTitle>
+            <DialogDescription>
+              {reports.length > 0
+                ? `Starts from ${reports[reports.length - 1].reportNumber}, with its current readings moved to previous readings`
+                : `Starts a report for ${tank.tag} with its nameplate and design data filled in`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="reportNumber">Report Number <span className="text-red-500">*</span></Label>
+              <Input
+                id="reportNumber"
+                placeholder={`RPT-${new Date().getFullYear()}-001`}
+                value={newReportData.reportNumber}
+                onChange={(e) => setNewReportData({ ...newReportData, reportNumber: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="inspectionDate">Inspection Date</Label>
+              <Input
+                id="inspectionDate"
+                type="date"
+                value={newReportData.inspectionDate}
+                onChange={(e) => setNewReportData({ ...newReportData, inspectionDate: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowNewReportModal(false)}>Cancel</Button>
+              <Button onClick={handleSubmitNewReport} disabled={createReportMutation.isPending}>
+                {createReportMutation.isPending ? "Creating..." : "Create Report"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ArrowLeft, Database, Plus } from "lucide-react";
+
+export default function Tanks() {
+  const [, setLocation] = useLocation();
+  const [showNewTankModal, setShowNewTankModal] = useState(false);
+  const [newTankData, setNewTankData] = useState({ tag: '', site: '', owner: '' });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tanks = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/tanks"],
+  });
+
+  const createTankMutation = useMutation({
+    mutationFn: async (data: typeof newTankData) => {
+      return apiRequest("POST", "/api/tanks", data);
+    },
+    onSuccess: (tank: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
+      setShowNewTankModal(false);
+      setNewTankData({ tag: '', site: '', owner: '' });
+      setLocation(`/tanks/${tank.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error registering tank",
+        description: error.status === 409 ? "A tank with this tag is already registered" : error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleSubmitNewTank = () => {
+    if (!newTankData.tag) {
+      toast({
+        title: "Missing required fields",
+        description: "Tank tag is required",
+        variant: "destructive"
+      });
+      return;
+    }
+    createTankMutation.mutate(newTankData);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Tank Registry</h1>
+            <p className="text-sm text-gray-600">Every tank you inspect, with its inspection history</p>
+          </div>
+        </div>
+        <Button onClick={() => setShowNewTankModal(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Tank
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">Tanks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse bg-gray-200 h-48 rounded-lg"></div>
+          ) : tanks.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4">
+                <Database className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No tanks registered</h3>
+              <p className="text-gray-600">Tanks are added here when you create a report or register one directly.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Diameter (ft)</TableHead>
+                  <TableHead>Inspections</TableHead>
+                  <TableHead>Last Inspection</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tanks.map((tank) => (
+                  <TableRow key={tank.id}>
+                    <TableCell className="font-medium">{tank.tag}</TableCell>
+                    <TableCell>{tank.site || "-"}</TableCell>
+                    <TableCell>{tank.owner || "-"}</TableCell>
+                    <TableCell>{tank.tankDiameter || "-"}</TableCell>
+                    <TableCell>{tank.inspectionCount}</TableCell>
+                    <TableCell>
+                      {tank.lastInspectionDate ? new Date(tank.lastInspectionDate).toLocaleDateString() : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Link href={`/tanks/${tank.id}`}>
+                        <Button variant="outline" size="sm">View</Button>
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showNewTankModal} onOpenChange={setShowNewTankModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Tank</DialogTitle>
+            <DialogDescription>Register a tank so its inspections can be followed across reports</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="tag">Tank Tag <span className="text-red-500">*</span></Label>
+              <Input
+                id="tag"
+                placeholder="TK-101"
+                value={newTankData.tag}
+                onChange={(e) => setNewTankData({ ...newTankData, tag: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="site">Site</Label>
+              <Input
+                id="site"
+                value={newTankData.site}
+                onChange={(e) => setNewTankData({ ...newTankData, site: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="owner">Owner</Label>
+              <Input
+                id="owner"
+                value={newTankData.owner}
+                onChange={(e) => setNewTankData({ ...newTankData, owner: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowNewTankModal(false)}>Cancel</Button>
+              <Button onClick={handleSubmitNewTank} disabled={createTankMutation.isPending}>
+                {createTankMutation.isPending ? "Adding..." : "Add Tank"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,3 +1,7 @@
+import type { OrganizationType, ReportPermission, UserRole } from "@shared/access";
+import type { ReportTemplateSettings } from "@shared/report-templates";
+import type { AttachmentKind, AttachmentLinkType, PhotoAnnotation } from "@shared/attachments";
+
 export interface ReportFormData {
   reportNumber: string;
   tankId: string;
@@ -38,10 +42,23 @@ export interface CMLRecord {
   reading6?: number;
   currentReading?: number;
   previousReading?: number;
+  tMin?: number;
+  longTermRate?: number;
+  shortTermRate?: number;
+  regressionRate?: number;
+  rateBasis?: string;
   corrosionRate?: number;
   remainingLife?: number;
 }
 
+export interface CMLReading {
+  id?: string;
+  cmlRecordId: string;
+  readingDate: string;
+  thickness: string;
+  source?: string;
+}
+
 export interface NozzleCMLRecord {
   id?: string;
   cmlId: string;
@@ -82,6 +99,97 @@ export interface Writeup {
   conclusions?: string;
 }
 
+export interface ReportRevision {
+  id: string;
+  reportId: string;
+  revision: number;
+  section: string;
+  action: string;
+  note?: string;
+  changedBy?: string;
+  changedByName?: string;
+  createdAt: string;
+}
+
+export interface ReportAccess {
+  role?: UserRole;
+  isOwner: boolean;
+  permissions: ReportPermission[];
+}
+
+export interface ReportGrant {
+  id: string;
+  reportId: string;
+  userId: string;
+  role: UserRole;
+  name?: string;
+  email?: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  type: OrganizationType;
+  role: UserRole;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: UserRole;
+  name?: string;
+  email?: string;
+}
+
+export interface ReportTemplate extends ReportTemplateSettings {
+  id: string;
+  organizationId: string;
+  name: string;
+  isDefault: boolean;
+}
+
+export interface ReportAttachment {
+  id: string;
+  reportId: string;
+  kind: AttachmentKind;
+  fileName: string;
+  contentType: string;
+  size: number;
+  thumbnailKey: string | null;
+  width: number | null;
+  height: number | null;
+  caption: string | null;
+  photoNumber: number | null;
+  takenAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  linkType: AttachmentLinkType | null;
+  linkRef: string | null;
+  annotations: PhotoAnnotation[];
+  createdAt: string;
+}
+
+export interface ReportStatusChange {
+  id: string;
+  reportId: string;
+  action: string;
+  fromStatus: string;
+  toStatus: string;
+  revisionLetter: string;
+  comment: string;
+  changedBy: string;
+  changedByName?: string;
+  createdAt: string;
+}
+
+export interface RevisionChange {
+  section: string;
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
 export const MATERIAL_OPTIONS = [
   'A516 Grade 70',
   'A36',
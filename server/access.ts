@@ -0,0 +1,92 @@
+// Report authorization. Every route that reads or changes a report goes through
+// authorizeReport, which works out the caller's role on the report (shared/access.ts)
+// and leaves it in res.locals.reportAccess for the handler.
+import type { RequestHandler } from "express";
+import type { Report, Tank } from "@shared/schema";
+import {
+  grantableRoles, reportPermissions, reportPermits, strongestRole, type ReportPermission, type UserRole
+} from "@shared/access";
+import { reportStatus } from "@shared/workflow";
+import { storage } from "./storage";
+import { sessionUserId } from "./auth";
+import { reportFromParams, type ReportResolver } from "./revisions";
+
+export interface ReportAccess {
+  report: Report;
+  role: UserRole | undefined;
+  isOwner: boolean;
+  permissions: ReportPermission[];
+}
+
+export async function getReportAccess(report: Report, userId: string): Promise<ReportAccess> {
+  const roles = await storage.getReportAccessRoles(report, userId);
+  const isOwner = report.ownerId === userId;
+  // Members of the client organization only ever view, whatever their role there; the
+  // author of a report outside any organization works on it as an inspector. Grants made
+  // before admin stopped being grantable count for nothing.
+  const grantRole = grantableRoles.find((role) => role === roles.grantRole);
+  const role = strongestRole([
+    roles.organizationRole,
+    grantRole,
+    roles.clientRole ? "client_viewer" : undefined,
+    isOwner ? "inspector" : undefined,
+  ]);
+  const issued = reportStatus(report.status) === "issued";
+  return {
+    report,
+    role,
+    isOwner,
+    permissions: reportPermissions.filter((permission) => reportPermits(permission, role, isOwner, issued)),
+  };
+}
+
+export function authorizeReport(permission: ReportPermission, resolveReport: ReportResolver = reportFromParams): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      // Handlers can rely on res.locals.reportAccess, so an unknown report or row stops here
+      const reportId = await resolveReport(req);
+      if (!reportId) {
+        return res.status(404).json({ error: "Not found" });
+      }
+      const report = await storage.getReport(reportId);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      const access = await getReportAccess(report, sessionUserId(req));
+      if (!access.role) {
+        return res.status(403).json({ error: "You do not have access to this report" });
+      }
+      if (!access.permissions.includes(permission)) {
+        // Issued reports are read-only until they are reissued
+        const issued = reportStatus(report.status) === "issued";
+        if (issued && reportPermits(permission, access.role, access.isOwner, false)) {
+          return res.status(409).json({ error: `Report ${report.reportNumber} rev ${report.revisionLetter} is issued and read-only` });
+        }
+        return res.status(403).json({ error: `Your role on this report does not allow you to ${permission} it` });
+      }
+
+      res.locals.reportAccess = access;
+      next();
+    } catch (error) {
+      console.error("Error checking report access:", error);
+      res.status(500).json({ error: "Failed to check report access" });
+    }
+  };
+}
+
+// Tanks belong to the user who registered them. Anyone else gets the same 404 as for a
+// tank that does not exist, so tank ids cannot be probed.
+export const authorizeTank: RequestHandler = async (req, res, next) => {
+  try {
+    const tank = await storage.getTank(req.params.id);
+    if (!tank || tank.ownerId !== sessionUserId(req)) {
+      return res.status(404).json({ error: "Tank not found" });
+    }
+    res.locals.tank = tank as Tank;
+    next();
+  } catch (error) {
+    console.error("Error checking tank access:", error);
+    res.status(500).json({ error: "Failed to check tank access" });
+  }
+};
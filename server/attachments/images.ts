@@ -0,0 +1,90 @@
+import sharp from "sharp";
+import exifr from "exifr";
+import type { PhotoAnnotation } from "@shared/attachments";
+
+const THUMBNAIL_SIZE = 320;
+const EXPORT_SIZE = 1600;
+const LOGO_SIZE = 800;
+
+export interface PhotoMetadata {
+  width?: number;
+  height?: number;
+  takenAt?: Date;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Size as displayed, after the EXIF orientation is applied; orientations 5 to 8 are turned
+// a quarter and swap width and height
+export async function readPhotoMetadata(data: Buffer): Promise<PhotoMetadata> {
+  const metadata: PhotoMetadata = {};
+  const image = await sharp(data).metadata();
+  const turned = (image.orientation ?? 1) >= 5;
+  metadata.width = turned ? image.height : image.width;
+  metadata.height = turned ? image.width : image.height;
+
+  // Photos without EXIF (screenshots, scans) have no date or position
+  try {
+    const exif = await exifr.parse(data, { pick: ["DateTimeOriginal", "CreateDate"], gps: true });
+    const taken = exif?.DateTimeOriginal ?? exif?.CreateDate;
+    if (taken instanceof Date && !isNaN(taken.getTime())) metadata.takenAt = taken;
+    if (Number.isFinite(exif?.latitude) && Number.isFinite(exif?.longitude)) {
+      metadata.latitude = exif.latitude;
+      metadata.longitude = exif.longitude;
+    }
+  } catch (error) {
+    console.warn("Could not read photo EXIF data:", error);
+  }
+  return metadata;
+}
+
+export async function createThumbnail(data: Buffer): Promise<Buffer> {
+  return await sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+// Template logos are redrawn as a PNG no larger than the cover needs, keeping transparency
+export async function logoImage(data: Buffer): Promise<Buffer> {
+  return await sharp(data)
+    .rotate()
+    .resize(LOGO_SIZE, LOGO_SIZE, { fit: "inside", withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+function annotationSvg(width: number, height: number, annotations: PhotoAnnotation[]): string {
+  const stroke = Math.max(3, Math.round(Math.min(width, height) / 100));
+  const shapes = annotations.map(({ shape, x1, y1, x2, y2, color }) => {
+    const [ax, ay, bx, by] = [x1 * width, y1 * height, x2 * width, y2 * height];
+    if (shape === "circle") {
+      return `<ellipse cx="${(ax + bx) / 2}" cy="${(ay + by) / 2}" rx="${Math.abs(bx - ax) / 2}" ry="${Math.abs(by - ay) / 2}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`;
+    }
+    // Arrowhead at the second point, sized to the line width
+    const angle = Math.atan2(by - ay, bx - ax);
+    const head = stroke * 5;
+    const left = [bx - head * Math.cos(angle - Math.PI / 7), by - head * Math.sin(angle - Math.PI / 7)];
+    const right = [bx - head * Math.cos(angle + Math.PI / 7), by - head * Math.sin(angle + Math.PI / 7)];
+    return `<line x1="${ax}" y1="${ay}" x2="${bx}" y2="${by}" stroke="${color}" stroke-width="${stroke}" stroke-linecap="round"/>`
+      + `<polygon points="${bx},${by} ${left.join(",")} ${right.join(",")}" fill="${color}"/>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join("")}</svg>`;
+}
+
+// Small enough to embed in an export, upright and with the annotations drawn on. Photos
+// become JPEGs; logos and signatures stay PNGs so they keep their transparency.
+export async function exportImage(data: Buffer, annotations: PhotoAnnotation[], format: "jpeg" | "png"): Promise<Buffer> {
+  const { data: resized, info } = await sharp(data)
+    .rotate()
+    .resize(EXPORT_SIZE, EXPORT_SIZE, { fit: "inside", withoutEnlargement: true })
+    .toBuffer({ resolveWithObject: true });
+  const image = sharp(resized);
+  if (annotations.length > 0) {
+    image.composite([{ input: Buffer.from(annotationSvg(info.width, info.height, annotations)) }]);
+  }
+  return format === "png"
+    ? await image.png().toBuffer()
+    : await image.flatten({ background: "#ffffff" }).jpeg({ quality: 85 }).toBuffer();
+}
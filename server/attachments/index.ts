@@ -0,0 +1,111 @@
+// Report attachments. ATTACHMENT_STORAGE picks where the files are kept (local or s3; local
+// by default); the attachments table holds their details and the keys to find them by.
+import { randomUUID } from "crypto";
+import path from "path";
+import type { Attachment, InsertAttachment } from "@shared/schema";
+import { isImageType, type AttachmentKind } from "@shared/attachments";
+import { fileStores, type FileStore, type FileStoreName } from "./store";
+import { localStore } from "./local";
+import { s3Store } from "./s3";
+import { readPhotoMetadata, createThumbnail, exportImage, logoImage } from "./images";
+
+export { fileStores, type FileStore, type FileStoreName } from "./store";
+
+let store: FileStore | undefined;
+
+export function fileStoreName(): FileStoreName {
+  const name = process.env.ATTACHMENT_STORAGE || "local";
+  if (!fileStores.includes(name as FileStoreName)) {
+    throw new Error(`ATTACHMENT_STORAGE must be one of: ${fileStores.join(", ")}`);
+  }
+  return name as FileStoreName;
+}
+
+export function fileStore(): FileStore {
+  if (!store) {
+    store = fileStoreName() === "s3" ? s3Store() : localStore();
+  }
+  return store;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Stores the file, and for images a thumbnail, and reads the photo's size, date and position.
+// An image the server cannot decode is still kept, as a plain file without a thumbnail.
+export async function storeUpload(
+  reportId: string,
+  file: UploadedFile,
+  kind: AttachmentKind,
+  uploadedBy: string,
+): Promise<InsertAttachment> {
+  const id = randomUUID();
+  const folder = `reports/${reportId}/${id}`;
+  const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const attachment: InsertAttachment = {
+    id,
+    reportId,
+    kind,
+    fileName: path.basename(file.originalname),
+    contentType: file.mimetype,
+    size: file.size,
+    storageKey: `${folder}/original${extension}`,
+    uploadedBy,
+  };
+
+  let thumbnail: Buffer | undefined;
+  if (isImageType(file.mimetype)) {
+    try {
+      Object.assign(attachment, await readPhotoMetadata(file.buffer));
+      thumbnail = await createThumbnail(file.buffer);
+    } catch (error) {
+      console.warn(`Could not process image ${file.originalname}:`, error);
+    }
+  }
+
+  await fileStore().put(attachment.storageKey, file.buffer, file.mimetype);
+  if (thumbnail) {
+    attachment.thumbnailKey = `${folder}/thumbnail.jpg`;
+    await fileStore().put(attachment.thumbnailKey, thumbnail, "image/jpeg");
+  }
+  return attachment;
+}
+
+export async function removeAttachmentFiles(attachment: Attachment): Promise<void> {
+  await fileStore().delete(attachment.storageKey);
+  if (attachment.thumbnailKey) {
+    await fileStore().delete(attachment.thumbnailKey);
+  }
+}
+
+// A template's logo is kept on the template itself, as a data URL. Undefined when the file
+// is not an image the server can read.
+export async function templateLogo(file: UploadedFile): Promise<string | undefined> {
+  if (!isImageType(file.mimetype)) return undefined;
+  try {
+    return `data:image/png;base64,${(await logoImage(file.buffer)).toString("base64")}`;
+  } catch (error) {
+    console.warn(`Could not read logo ${file.originalname}:`, error);
+    return undefined;
+  }
+}
+
+// Data URL of the photo as it goes into an export; undefined when the file is gone or
+// cannot be read, so one bad photo does not fail the export
+export async function attachmentImage(attachment: Attachment): Promise<string | undefined> {
+  if (!attachment.thumbnailKey) return undefined;
+  try {
+    const data = await fileStore().get(attachment.storageKey);
+    if (!data) return undefined;
+    const format = attachment.kind === "photo" ? "jpeg" : "png";
+    const image = await exportImage(data, attachment.annotations, format);
+    return `data:image/${format};base64,${image.toString("base64")}`;
+  } catch (error) {
+    console.warn(`Could not load attachment ${attachment.id} for export:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { FileStore } from "./store";
+
+// ATTACHMENT_DIR, default ./uploads under the working directory
+export function localStore(): FileStore {
+  const root = path.resolve(process.env.ATTACHMENT_DIR || "uploads");
+
+  // Keys come from the server, but keep them inside the root all the same
+  function filePath(key: string): string {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return file;
+  }
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const file = filePath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    },
+  };
+}
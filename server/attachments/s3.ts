@@ -0,0 +1,40 @@
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, NoSuchKey } from "@aws-sdk/client-s3";
+import type { FileStore } from "./store";
+
+// Any S3-compatible service. S3_ENDPOINT and S3_FORCE_PATH_STYLE=true are for MinIO,
+// R2 and the like; without credentials the SDK's usual chain (environment, profile,
+// instance role) applies.
+export function s3Store(): FileStore {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("Environment variable S3_BUCKET not provided");
+  }
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+      : undefined,
+  });
+  const prefix = process.env.S3_PREFIX || "";
+
+  return {
+    name: "s3",
+    async put(key, data, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: prefix + key, Body: data, ContentType: contentType }));
+    },
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: prefix + key }));
+        return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+      } catch (error) {
+        if (error instanceof NoSuchKey) return undefined;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: prefix + key }));
+    },
+  };
+}
@@ -0,0 +1,11 @@
+export const fileStores = ["local", "s3"] as const;
+export type FileStoreName = (typeof fileStores)[number];
+
+// Where attachment files live. Keys are relative paths such as
+// "reports/<reportId>/<attachmentId>/original.jpg"; a missing key reads as undefined.
+export interface FileStore {
+  name: FileStoreName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import type { Express } from "express";
+import { upsertUser, cookieSessionUser, type AuthProvider } from "./provider";
+
+// Signs in without any identity provider, for local development and automated tests.
+// GET /api/login?user=alice signs in as dev-alice, so a test can act as several people
+// (an author and a second reviewer, say); without ?user it uses DEV_AUTH_USER or "inspector".
+export function devProvider(): AuthProvider {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The dev auth provider cannot be used in production");
+  }
+
+  return {
+    name: "dev",
+    loginMethod: "redirect",
+    allowSignup: false,
+
+    async setup(app: Express) {
+      app.get("/api/login", async (req, res, next) => {
+        try {
+          const requested = typeof req.query.user === "string" ? req.query.user : process.env.DEV_AUTH_USER;
+          const name = (requested || "inspector").toLowerCase().replace(/[^a-z0-9_-]/g, "") || "inspector";
+          const claims = {
+            sub: `dev-${name}`,
+            email: `${name}@example.test`,
+            first_name: name.charAt(0).toUpperCase() + name.slice(1),
+            last_name: "(dev)",
+          };
+          await upsertUser(claims);
+          req.login(cookieSessionUser(claims), (error) => {
+            if (error) return next(error);
+            res.redirect("/");
+          });
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,131 @@
+// Authentication. AUTH_PROVIDER picks how people sign in (replit, oidc, local or dev; Replit
+// when REPLIT_DOMAINS is set, local otherwise). Every provider leaves the same SessionUser in
+// the session, so isAuthenticated and req.user.claims.sub work the same whichever is used.
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import {
+  authProviders, sessionTtl, type AuthProvider, type AuthProviderName, type SessionUser
+} from "./provider";
+import { replitProvider, oidcProvider } from "./oidc";
+import { localProvider } from "./local";
+import { devProvider } from "./dev";
+
+export { upsertUser, type SessionUser, type UserClaims } from "./provider";
+
+let provider: AuthProvider | undefined;
+
+export function authProviderName(): AuthProviderName {
+  const name = process.env.AUTH_PROVIDER || (process.env.REPLIT_DOMAINS ? "replit" : "local");
+  if (!authProviders.includes(name as AuthProviderName)) {
+    throw new Error(`AUTH_PROVIDER must be one of: ${authProviders.join(", ")}`);
+  }
+  return name as AuthProviderName;
+}
+
+function createProvider(name: AuthProviderName): AuthProvider {
+  switch (name) {
+    case "replit":
+      return replitProvider();
+    case "oidc":
+      return oidcProvider();
+    case "local":
+      return localProvider();
+    case "dev":
+      return devProvider();
+  }
+}
+
+// SESSION_STORE=memory keeps sessions in the process, for tests and machines without the sessions table
+export function getSession() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("Environment variable SESSION_SECRET not provided");
+  }
+  let sessionStore: session.Store;
+  if (process.env.SESSION_STORE === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  }
+  return session({
+    secret: process.env.SESSION_SECRET,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      maxAge: sessionTtl,
+      sameSite: 'lax',
+    },
+  });
+}
+
+export async function setupAuth(app: Express) {
+  provider = createProvider(authProviderName());
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await provider.setup(app);
+
+  // Tells the sign-in page whether to redirect to /api/login or show the password form
+  app.get("/api/auth/config", (req, res) => {
+    res.json({
+      provider: provider!.name,
+      loginMethod: provider!.loginMethod,
+      allowSignup: provider!.allowSignup,
+    });
+  });
+
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => {
+      res.redirect(provider!.logoutUrl?.(req) ?? "/");
+    });
+  });
+}
+
+// The signed-in user's id, for handlers behind isAuthenticated
+export function sessionUserId(req: Request): string {
+  return req.user!.claims.sub;
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  if (!provider?.refresh) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  try {
+    await provider.refresh(user);
+    return next();
+  } catch (error) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+};
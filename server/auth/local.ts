@@ -0,0 +1,181 @@
+import { randomBytes, randomUUID, scrypt, createHash, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { storage } from "../storage";
+import { appUrl, mailConfigured, sendMail } from "../mail";
+import { upsertUser, cookieSessionUser, type AuthProvider, type SessionUser } from "./provider";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const resetTokenTtl = 60 * 60 * 1000; // 1 hour
+
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+const registerSchema = z.object({
+  email: z.string().email(),
+  password: passwordSchema,
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+const resetSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+// Stored as scrypt:<salt>:<hash>, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function sessionUserFor(user: User) {
+  return cookieSessionUser({
+    sub: user.id,
+    email: user.email,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    profile_image_url: user.profileImageUrl,
+  });
+}
+
+export function localProvider(): AuthProvider {
+  // Email addresses are not verified and grants and memberships find people by email, so
+  // self sign-up is off unless an administrator turns it on
+  const allowSignup = process.env.LOCAL_AUTH_SIGNUP === "true";
+
+  return {
+    name: "local",
+    loginMethod: "password",
+    allowSignup,
+
+    async setup(app: Express) {
+      if (!mailConfigured()) {
+        console.warn("Password reset emails cannot be sent until SMTP_URL, MAIL_FROM and APP_BASE_URL are set");
+      }
+
+      passport.use("local", new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+        try {
+          const user = await storage.getUserByEmail(email);
+          const credential = user && await storage.getUserCredential(user.id);
+          if (!user || !credential || !await verifyPassword(password, credential.passwordHash)) {
+            return done(null, false);
+          }
+          done(null, sessionUserFor(user));
+        } catch (error) {
+          done(error);
+        }
+      }));
+
+      // Pages that send signed-out users to /api/login land on the sign-in form instead
+      app.get("/api/login", (req, res) => res.redirect("/"));
+
+      app.post("/api/auth/local/login", (req, res, next) => {
+        passport.authenticate("local", (error: unknown, sessionUser: SessionUser | false) => {
+          if (error) return next(error);
+          if (!sessionUser) {
+            return res.status(401).json({ error: "Incorrect email or password" });
+          }
+          req.login(sessionUser, (loginError) => {
+            if (loginError) return next(loginError);
+            res.json({ success: true });
+          });
+        })(req, res, next);
+      });
+
+      app.post("/api/auth/local/register", async (req, res) => {
+        if (!allowSignup) {
+          return res.status(403).json({ error: "Sign-up is disabled; ask an administrator for an account" });
+        }
+        try {
+          const { email, password, firstName, lastName } = registerSchema.parse(req.body);
+          if (await storage.getUserByEmail(email)) {
+            return res.status(409).json({ error: "An account with that email already exists" });
+          }
+          const user = await upsertUser({ sub: randomUUID(), email, first_name: firstName, last_name: lastName });
+          await storage.setUserPassword(user.id, await hashPassword(password));
+          req.login(sessionUserFor(user), (error) => {
+            if (error) {
+              console.error("Error signing in new user:", error);
+              return res.status(500).json({ error: "Failed to sign in" });
+            }
+            res.status(201).json({ success: true });
+          });
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            res.status(400).json({ error: "Invalid data", details: error.errors });
+          } else {
+            console.error("Error registering user:", error);
+            res.status(500).json({ error: "Failed to create account" });
+          }
+        }
+      });
+
+      // Always answers the same way so the form cannot be used to find out who has an account;
+      // a failed send is logged without the link
+      app.post("/api/auth/local/forgot", async (req, res) => {
+        try {
+          const { email } = z.object({ email: z.string().email() }).parse(req.body);
+          const user = await storage.getUserByEmail(email);
+          if (user) {
+            const token = randomBytes(32).toString("hex");
+            await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + resetTokenTtl));
+            try {
+              await sendMail({
+                to: user.email!,
+                subject: "Reset your password",
+                text: `Use this link within an hour to choose a new password:\n\n${appUrl(`/?resetToken=${token}`)}\n\n`
+                  + "If you did not ask for a password reset, you can ignore this email.",
+              });
+            } catch (error) {
+              console.error(`Error sending password reset email to user ${user.id}:`, error);
+            }
+          }
+          res.json({ success: true });
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            res.status(400).json({ error: "Invalid data", details: error.errors });
+          } else {
+            console.error("Error creating password reset token:", error);
+            res.status(500).json({ error: "Failed to start password reset" });
+          }
+        }
+      });
+
+      app.post("/api/auth/local/reset", async (req, res) => {
+        try {
+          const { token, password } = resetSchema.parse(req.body);
+          const user = await storage.resetPassword(hashToken(token), await hashPassword(password));
+          if (!user) {
+            return res.status(400).json({ error: "The reset link is invalid or has expired" });
+          }
+          res.json({ success: true });
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            res.status(400).json({ error: "Invalid data", details: error.errors });
+          } else {
+            console.error("Error resetting password:", error);
+            res.status(500).json({ error: "Failed to reset password" });
+          }
+        }
+      });
+    },
+  };
+}
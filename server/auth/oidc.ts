@@ -0,0 +1,128 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import type { Express, Request } from "express";
+import memoize from "memoizee";
+import { upsertUser, type AuthProvider, type SessionUser, type UserClaims } from "./provider";
+
+interface OidcOptions {
+  name: "replit" | "oidc";
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  callbackUrl(req: Request): string;
+  // Maps the ID token claims onto the Replit-shaped claims upsertUser expects
+  mapClaims(claims: client.IDToken): UserClaims;
+}
+
+function createOidcProvider(options: OidcOptions): AuthProvider {
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(new URL(options.issuer), options.clientId, options.clientSecret);
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  function updateUserSession(
+    user: Partial<SessionUser>,
+    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+  ) {
+    const claims = tokens.claims()!;
+    user.claims = options.mapClaims(claims);
+    user.access_token = tokens.access_token;
+    user.refresh_token = tokens.refresh_token ?? user.refresh_token;
+    user.expires_at = claims.exp;
+  }
+
+  let config: client.Configuration;
+
+  return {
+    name: options.name,
+    loginMethod: "redirect",
+    allowSignup: false,
+
+    async setup(app: Express) {
+      config = await getOidcConfig();
+
+      const verify: VerifyFunction = async (tokens, verified) => {
+        const user: Partial<SessionUser> = {};
+        updateUserSession(user, tokens);
+        await upsertUser(user.claims!);
+        verified(null, user as SessionUser);
+      };
+      passport.use(options.name, new Strategy({ config, scope: options.scope }, verify));
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(options.name, {
+          prompt: "login consent",
+          scope: options.scope.split(" "),
+          callbackURL: options.callbackUrl(req),
+        } as passport.AuthenticateOptions)(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(options.name, {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+          callbackURL: options.callbackUrl(req),
+        } as passport.AuthenticateOptions)(req, res, next);
+      });
+    },
+
+    async refresh(user: SessionUser) {
+      if (!user.refresh_token) {
+        throw new Error("Session has no refresh token");
+      }
+      const tokenResponse = await client.refreshTokenGrant(await getOidcConfig(), user.refresh_token);
+      updateUserSession(user, tokenResponse);
+    },
+
+    logoutUrl(req: Request) {
+      return client.buildEndSessionUrl(config, {
+        client_id: options.clientId,
+        post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+      }).href;
+    },
+  };
+}
+
+export function replitProvider(): AuthProvider {
+  if (!process.env.REPLIT_DOMAINS) {
+    throw new Error("Environment variable REPLIT_DOMAINS not provided");
+  }
+  const domains = process.env.REPLIT_DOMAINS.split(",");
+
+  return createOidcProvider({
+    name: "replit",
+    issuer: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+    clientId: process.env.REPL_ID!,
+    scope: "openid email profile offline_access",
+    callbackUrl: (req) => `https://${domains.includes(req.hostname) ? req.hostname : domains[0]}/api/callback`,
+    mapClaims: (claims) => claims as UserClaims,
+  });
+}
+
+// Any standards-compliant identity provider (Azure AD, Okta, Keycloak, Google, ...)
+export function oidcProvider(): AuthProvider {
+  const { OIDC_ISSUER_URL, OIDC_CLIENT_ID } = process.env;
+  if (!OIDC_ISSUER_URL || !OIDC_CLIENT_ID) {
+    throw new Error("OIDC_ISSUER_URL and OIDC_CLIENT_ID must be set for the oidc auth provider");
+  }
+
+  return createOidcProvider({
+    name: "oidc",
+    issuer: OIDC_ISSUER_URL,
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scope: process.env.OIDC_SCOPE ?? "openid email profile offline_access",
+    callbackUrl: (req) => process.env.OIDC_CALLBACK_URL ?? `${req.protocol}://${req.get("host")}/api/callback`,
+    mapClaims: (claims) => ({
+      sub: claims.sub,
+      email: claims.email as string | undefined,
+      first_name: claims.given_name as string | undefined,
+      last_name: claims.family_name as string | undefined,
+      profile_image_url: claims.picture as string | undefined,
+    }),
+  });
+}
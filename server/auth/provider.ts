@@ -0,0 +1,59 @@
+import type { Express, Request } from "express";
+import { storage } from "../storage";
+
+export const authProviders = ["replit", "oidc", "local", "dev"] as const;
+export type AuthProviderName = (typeof authProviders)[number];
+
+export const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Claims in the shape the Replit provider issues them; other providers map theirs onto it
+export interface UserClaims {
+  sub: string;
+  email?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  profile_image_url?: string | null;
+  [claim: string]: unknown;
+}
+
+// What every provider leaves in the session. Routes read claims.sub and isAuthenticated
+// checks expires_at (seconds since the epoch).
+export interface SessionUser {
+  claims: UserClaims;
+  expires_at: number;
+  access_token?: string;
+  refresh_token?: string;
+}
+
+// Passport's req.user is always a SessionUser here
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+export interface AuthProvider {
+  name: AuthProviderName;
+  // "redirect" providers sign in through GET /api/login, "password" ones through the sign-in form
+  loginMethod: "redirect" | "password";
+  allowSignup: boolean;
+  setup(app: Express): Promise<void>;
+  // Renews an expired session in place; without it the user signs in again
+  refresh?(user: SessionUser): Promise<void>;
+  logoutUrl?(req: Request): string;
+}
+
+export async function upsertUser(claims: UserClaims) {
+  return await storage.upsertUser({
+    id: claims.sub,
+    email: claims.email,
+    firstName: claims.first_name,
+    lastName: claims.last_name,
+    profileImageUrl: claims.profile_image_url,
+  });
+}
+
+// Providers without tokens of their own keep the user signed in for the life of the cookie
+export function cookieSessionUser(claims: UserClaims): SessionUser {
+  return { claims, expires_at: Math.floor((Date.now() + sessionTtl) / 1000) };
+}
@@ -0,0 +1,43 @@
+// Creates a local (email and password) account, or sets a new password on an existing one.
+// Sign-up is off by default, so this is how the first accounts on a deployment are made:
+//   npm run auth:create-user -- admin@example.com [first name] [last name]
+// The password is read from standard input so it stays out of the shell history.
+import { randomUUID } from "crypto";
+import { createInterface } from "readline/promises";
+import { z } from "zod";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { upsertUser } from "./auth/provider";
+import { hashPassword, passwordSchema } from "./auth/local";
+
+async function readPassword(): Promise<string> {
+  const input = createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+  try {
+    return await input.question("Password: ");
+  } finally {
+    input.close();
+  }
+}
+
+async function createUser() {
+  const [email, firstName, lastName] = process.argv.slice(2);
+  if (!z.string().email().safeParse(email).success) {
+    console.error("Usage: npm run auth:create-user -- <email> [first name] [last name]");
+    process.exitCode = 1;
+    return;
+  }
+  const password = passwordSchema.parse(await readPassword());
+
+  const existing = await storage.getUserByEmail(email);
+  const user = existing ?? await upsertUser({ sub: randomUUID(), email, first_name: firstName, last_name: lastName });
+  await storage.setUserPassword(user.id, await hashPassword(password));
+
+  console.log(`[create-user] ${existing ? "Password updated for" : "Created"} ${email} (${user.id})`);
+}
+
+createUser()
+  .catch((error) => {
+    console.error("[create-user] Failed:", error instanceof z.ZodError ? error.errors[0].message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,5 +1,7 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonQueryResultHKT } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -13,3 +15,17 @@ if (!process.env.DATABASE_URL) {
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
+
+export type Database = PgDatabase<NeonQueryResultHKT, typeof schema>;
+
+const transactionContext = new AsyncLocalStorage<Database>();
+
+// Storage queries made inside withTransaction, however deep in the call, run on its
+// transaction; a nested withTransaction becomes a savepoint
+export function database(): Database {
+  return transactionContext.getStore() ?? db;
+}
+
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  return await database().transaction((tx) => transactionContext.run(tx, work));
+}
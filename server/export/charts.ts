@@ -0,0 +1,275 @@
+// Report charts drawn as SVG and rasterised to PNG with resvg, so they render the same on a
+// headless server as anywhere else and both exporters can embed them as images.
+import { deflateSync, crc32 } from "zlib";
+import { Resvg } from "@resvg/resvg-js";
+import {
+  calculateStatistics, toNumber, MAX_REMAINING_LIFE,
+  type SettlementSurveyData, type ShellCourseData, type FloorScanData
+} from "@shared/calculations";
+
+const WIDTH = 800;
+const HEIGHT = 400;
+// Sharp enough at the printed width of about 170 mm
+const SCALE = 1.5;
+const PLOT = { left: 80, right: WIDTH - 30, top: 50, bottom: HEIGHT - 60 };
+const FONT = "Helvetica, Arial, 'DejaVu Sans', sans-serif";
+const GRID = "#d1d5db";
+const MUTED = "#6b7280";
+const WARNING = "#dc2626";
+
+interface Tick {
+  value: number;
+  label: string;
+}
+
+type ChartLayer =
+  | { type: "line"; label: string; color: string; points: [number, number][]; dashed?: boolean; markers?: boolean }
+  // Bars span x0 to x1 on the x axis
+  | { type: "bars"; label: string; color: string; bars: { x0: number; x1: number; y: number }[] }
+  | { type: "marker"; label: string; color: string; x: number };
+
+interface ChartOptions {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  x: { min: number; max: number; ticks?: Tick[] };
+  layers: ChartLayer[];
+  yMin?: number;
+}
+
+function escape(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function label(value: number): string {
+  return Number(value.toPrecision(6)).toString();
+}
+
+// Round steps of 1, 2 or 5 times a power of ten
+function niceTicks(min: number, max: number, count = 5): Tick[] {
+  const span = max - min || Math.abs(max) || 1;
+  const rough = span / count;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((factor) => factor * power).find((candidate) => candidate >= rough) ?? 10 * power;
+  const ticks: Tick[] = [];
+  for (let value = Math.floor(min / step) * step; value <= max + step * 1e-9; value += step) {
+    ticks.push({ value, label: label(value) });
+  }
+  if (ticks[ticks.length - 1].value < max) {
+    const value = ticks[ticks.length - 1].value + step;
+    ticks.push({ value, label: label(value) });
+  }
+  return ticks;
+}
+
+function chartSvg({ title, xLabel, yLabel, x, layers, yMin }: ChartOptions): string {
+  const values = layers.flatMap((layer) =>
+    layer.type === "line" ? layer.points.map(([, y]) => y) : layer.type === "bars" ? layer.bars.map((bar) => bar.y) : []
+  );
+  const yTicks = niceTicks(Math.min(yMin ?? Infinity, ...values), Math.max(...values));
+  const y0 = yTicks[0].value;
+  const y1 = yTicks[yTicks.length - 1].value;
+  const sx = (value: number) => PLOT.left + (value - x.min) / (x.max - x.min || 1) * (PLOT.right - PLOT.left);
+  const sy = (value: number) => PLOT.bottom - (value - y0) / (y1 - y0 || 1) * (PLOT.bottom - PLOT.top);
+  const xTicks = x.ticks ?? niceTicks(x.min, x.max, 8).filter((tick) => tick.value <= x.max + (x.max - x.min) * 1e-6);
+
+  const parts: string[] = [
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>`,
+    `<text x="${WIDTH / 2}" y="24" text-anchor="middle" font-size="18" font-weight="bold">${escape(title)}</text>`,
+  ];
+  for (const tick of yTicks) {
+    parts.push(
+      `<line x1="${PLOT.left}" x2="${PLOT.right}" y1="${sy(tick.value)}" y2="${sy(tick.value)}" stroke="${GRID}"/>`,
+      `<text x="${PLOT.left - 8}" y="${sy(tick.value) + 4}" text-anchor="end" font-size="12" fill="${MUTED}">${escape(tick.label)}</text>`,
+    );
+  }
+  for (const tick of xTicks) {
+    parts.push(`<text x="${sx(tick.value)}" y="${PLOT.bottom + 18}" text-anchor="middle" font-size="12" fill="${MUTED}">${escape(tick.label)}</text>`);
+  }
+
+  for (const layer of layers) {
+    if (layer.type === "bars") {
+      for (const bar of layer.bars) {
+        const top = sy(Math.max(bar.y, y0));
+        parts.push(`<rect x="${sx(bar.x0) + 1}" y="${top}" width="${Math.max(sx(bar.x1) - sx(bar.x0) - 2, 1)}" height="${sy(y0) - top}" fill="${layer.color}"/>`);
+      }
+    } else if (layer.type === "line") {
+      const path = layer.points.map(([px, py]) => `${sx(px)},${sy(py)}`).join(" ");
+      parts.push(`<polyline points="${path}" fill="none" stroke="${layer.color}" stroke-width="2.5"${layer.dashed ? ` stroke-dasharray="8 5"` : ""}/>`);
+      if (layer.markers) {
+        for (const [px, py] of layer.points) {
+          parts.push(`<circle cx="${sx(px)}" cy="${sy(py)}" r="4" fill="${layer.color}"/>`);
+        }
+      }
+    } else {
+      parts.push(`<line x1="${sx(layer.x)}" x2="${sx(layer.x)}" y1="${PLOT.top}" y2="${PLOT.bottom}" stroke="${layer.color}" stroke-width="2" stroke-dasharray="6 4"/>`);
+    }
+  }
+
+  parts.push(
+    `<line x1="${PLOT.left}" x2="${PLOT.right}" y1="${PLOT.bottom}" y2="${PLOT.bottom}" stroke="#374151"/>`,
+    `<line x1="${PLOT.left}" x2="${PLOT.left}" y1="${PLOT.top}" y2="${PLOT.bottom}" stroke="#374151"/>`,
+    `<text x="${(PLOT.left + PLOT.right) / 2}" y="${HEIGHT - 16}" text-anchor="middle" font-size="14">${escape(xLabel)}</text>`,
+    `<text transform="translate(22 ${(PLOT.top + PLOT.bottom) / 2}) rotate(-90)" text-anchor="middle" font-size="14">${escape(yLabel)}</text>`,
+  );
+
+  // Legend along the top right of the plot
+  let legendX = PLOT.right;
+  for (const layer of [...layers].reverse()) {
+    const width = layer.label.length * 7 + 26;
+    legendX -= width;
+    parts.push(
+      `<rect x="${legendX}" y="${PLOT.top - 16}" width="14" height="10" fill="${layer.color}"/>`,
+      `<text x="${legendX + 18}" y="${PLOT.top - 7}" font-size="12">${escape(layer.label)}</text>`,
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${FONT}">${parts.join("")}</svg>`;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// resvg only writes RGBA, and jsPDF stores the alpha channel of an RGBA PNG as a separate,
+// uncompressed mask. The charts are drawn on white, so the alpha is dropped and the PNG
+// written as plain RGB.
+function rgbPng(rgba: Buffer, width: number, height: number): Buffer {
+  const rows = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0, out = 0; y < height; y++) {
+    rows[out++] = 0; // no filter
+    for (let x = 0, pixel = y * width * 4; x < width; x++, pixel += 4) {
+      rows[out++] = rgba[pixel];
+      rows[out++] = rgba[pixel + 1];
+      rows[out++] = rgba[pixel + 2];
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(rows, { level: 9 })),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// A chart that cannot be drawn is left out of the export rather than failing it
+function chartPng(options: ChartOptions): string | undefined {
+  try {
+    const image = new Resvg(chartSvg(options), {
+      fitTo: { mode: "width", value: WIDTH * SCALE },
+      background: "#ffffff",
+      font: { loadSystemFonts: true, defaultFontFamily: "DejaVu Sans" },
+    }).render();
+    const png = rgbPng(image.pixels, image.width, image.height);
+    return `data:image/png;base64,${png.toString("base64")}`;
+  } catch (error) {
+    console.warn(`Could not draw the chart "${options.title}":`, error);
+    return undefined;
+  }
+}
+
+function histogram(values: number[], binCount: number): { x0: number; x1: number; y: number }[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / binCount || 1;
+  const bars = Array.from({ length: binCount }, (_, index) => ({ x0: min + index * width, x1: min + (index + 1) * width, y: 0 }));
+  for (const value of values) {
+    bars[Math.min(Math.floor((value - min) / width), binCount - 1)].y++;
+  }
+  return bars;
+}
+
+function binCount(values: number[]): number {
+  return Math.min(12, Math.max(4, Math.ceil(Math.sqrt(values.length))));
+}
+
+// Measured elevations against the optimum cosine curve (API 653 Annex B)
+export function settlementChart(survey: SettlementSurveyData, color: string): string | undefined {
+  const points = [...survey.elevationPoints].sort((a, b) => a.position - b.position);
+  if (points.length < 2) return undefined;
+  const layers: ChartLayer[] = [
+    { type: "line", label: "Measured", color, markers: true, points: points.map((point) => [point.position, point.currentElevation]) },
+  ];
+  const fitted = points.filter((point) => point.cosineElevation !== undefined);
+  if (fitted.length > 1) {
+    layers.push({ type: "line", label: "Cosine fit", color: WARNING, dashed: true, points: fitted.map((point) => [point.position, point.cosineElevation!]) });
+  }
+  return chartPng({
+    title: "Shell Settlement Survey",
+    xLabel: "Position around the shell (°)",
+    yLabel: "Elevation (ft)",
+    x: { min: 0, max: 360, ticks: [0, 45, 90, 135, 180, 225, 270, 315, 360].map((value) => ({ value, label: String(value) })) },
+    layers,
+  });
+}
+
+// Spread of the governing CML corrosion rates, with the statistics the calculations tab shows
+export function corrosionRateChart(rates: number[], color: string): string | undefined {
+  if (rates.length < 2) return undefined;
+  const stats = calculateStatistics(rates);
+  const bars = histogram(rates, binCount(rates));
+  return chartPng({
+    title: "Corrosion Rate Distribution",
+    xLabel: "Corrosion rate (mpy)",
+    yLabel: "CMLs",
+    x: { min: bars[0].x0, max: bars[bars.length - 1].x1 },
+    yMin: 0,
+    layers: [
+      { type: "bars", label: "CMLs", color, bars },
+      { type: "marker", label: `Average ${stats.average}`, color: "#059669", x: stats.average },
+      { type: "marker", label: `95th percentile ${stats.percentile95}`, color: "#d97706", x: stats.percentile95 },
+      { type: "marker", label: `Maximum ${stats.maximum}`, color: WARNING, x: stats.maximum },
+    ],
+  });
+}
+
+// Courses with no measurable corrosion show the capped remaining life
+export function remainingLifeChart(courses: ShellCourseData[], color: string): string | undefined {
+  const lives = courses
+    .filter((course) => course.remainingLife !== undefined && course.remainingLife !== "")
+    .map((course) => ({ course: course.courseNumber, life: Math.min(toNumber(course.remainingLife), MAX_REMAINING_LIFE) }));
+  if (lives.length === 0) return undefined;
+  return chartPng({
+    title: "Remaining Life by Shell Course",
+    xLabel: "Shell course",
+    yLabel: "Remaining life (yrs)",
+    x: { min: 0, max: lives.length, ticks: lives.map((entry, index) => ({ value: index + 0.5, label: String(entry.course) })) },
+    yMin: 0,
+    layers: [{
+      type: "bars",
+      label: "Remaining life",
+      color,
+      bars: lives.map((entry, index) => ({ x0: index + 0.1, x1: index + 0.9, y: entry.life })),
+    }],
+  });
+}
+
+export function floorScanChart(scans: FloorScanData[], minimumThickness: number | undefined, color: string): string | undefined {
+  const thicknesses = scans.map((scan) => toNumber(scan.thickness)).filter((value) => value > 0);
+  if (thicknesses.length < 2) return undefined;
+  const bars = histogram(thicknesses, binCount(thicknesses));
+  const layers: ChartLayer[] = [{ type: "bars", label: "Scans", color, bars }];
+  const x = { min: bars[0].x0, max: bars[bars.length - 1].x1 };
+  if (minimumThickness) {
+    layers.push({ type: "marker", label: `MRT minimum ${minimumThickness}`, color: WARNING, x: minimumThickness });
+    // Keep the minimum clear of the axis when it lies below every scan
+    x.min = Math.min(x.min, minimumThickness - (bars[0].x1 - bars[0].x0));
+  }
+  return chartPng({
+    title: "Floor Scan Thickness Distribution",
+    xLabel: "Remaining thickness (in)",
+    yLabel: "Scans",
+    x,
+    yMin: 0,
+    layers,
+  });
+}
@@ -0,0 +1,102 @@
+// Format-neutral report content. Each section module turns the report into blocks and
+// the exporters lay the blocks out, so a section is written once for every format.
+import type {
+  Report, Tank, Appendix, CmlRecord, NozzleCmlRecord, PracticalTmin, Writeup
+} from "@shared/schema";
+import type {
+  ShellCalculationData, RoofCalculationData, FloorMRTCalculationData, TankHistoryData,
+  NozzleCMLData, SettlementSurveyData
+} from "@shared/calculations";
+import type { ReportSectionId } from "@shared/report-outline";
+import type { ReportTemplateSettings, TemplateMergeValues } from "@shared/report-templates";
+
+export type ReportBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "fields"; rows: [string, string][] }
+  | { type: "table"; head: string[]; rows: string[][] }
+  // Data URL; the height follows the image's aspect ratio. Width in mm.
+  | { type: "image"; data: string; width: number; caption?: string }
+  | { type: "pageBreak" };
+
+// One entry in the table of contents. A section module may contribute several, as the
+// appendices do, or none when the report has no data for it.
+export interface SectionContent {
+  title: string;
+  blocks: ReportBlock[];
+  appendix?: string; // letter, for entries that are report appendices
+}
+
+export interface ReportDetails extends Report {
+  appendices: Appendix[];
+  cmlRecords: CmlRecord[];
+  nozzleCmlRecords: NozzleCmlRecord[];
+  practicalTmins: PracticalTmin[];
+  writeup?: Writeup;
+  shellCalculations?: ShellCalculationData;
+  roofCalculations?: RoofCalculationData;
+  floorMRTCalculations?: FloorMRTCalculationData;
+  tankHistory?: TankHistoryData;
+  nozzleCML?: NozzleCMLData;
+  settlementSurvey?: SettlementSurveyData;
+}
+
+export interface ExportStamp {
+  revision: string;
+  status: string;
+  approvedBy: string;
+  text: string;
+}
+
+// A photo as it prints: annotated JPEG data URL and its caption
+export interface ExportPhoto {
+  data: string;
+  caption: string;
+}
+
+export interface ExportContext {
+  report: ReportDetails;
+  tank?: Tank;
+  stamp: ExportStamp;
+  logo?: string;
+  signature?: string;
+  photos: ExportPhoto[]; // in photo number order
+  template: ReportTemplateSettings;
+  mergeValues: TemplateMergeValues;
+}
+
+export interface ReportSection {
+  id: ReportSectionId;
+  render(context: ExportContext): SectionContent[];
+}
+
+export function text(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+}
+
+export function yesNo(value: boolean | null | undefined): string {
+  return value === undefined || value === null ? "-" : value ? "Yes" : "No";
+}
+
+export function passFail(value: boolean | null | undefined): string {
+  return value === undefined || value === null ? "-" : value ? "PASS" : "FAIL";
+}
+
+export function fixed(value: number | null | undefined, digits: number): string {
+  return value === undefined || value === null || !Number.isFinite(value) ? "-" : value.toFixed(digits);
+}
+
+// Drops rows without a value so a half-filled section does not print a column of dashes
+export function filledFields(rows: [string, unknown][]): [string, string][] {
+  return rows
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([label, value]) => [label, typeof value === "boolean" ? yesNo(value) : text(value)]);
+}
+
+export function paragraphs(...values: (string | null | undefined)[]): ReportBlock[] {
+  return values
+    .filter((value): value is string => !!value?.trim())
+    .map((value) => ({ type: "paragraph", text: value.trim() }));
+}
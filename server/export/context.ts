@@ -0,0 +1,126 @@
+import type { Attachment, Report, ReportTemplate, Tank } from "@shared/schema";
+import type { InspectionIntervals } from "@shared/calculations";
+import { reportStatus, reportStatusLabels } from "@shared/workflow";
+import { reportSectionIds } from "@shared/report-outline";
+import {
+  coverLayouts, templateFonts, defaultReportTemplate,
+  type CoverLayout, type TemplateFont, type ReportTemplateSettings, type TemplateMergeValues
+} from "@shared/report-templates";
+import { photoCaption } from "@shared/attachments";
+import { storage } from "../storage";
+import { attachmentImage } from "../attachments";
+import { text, type ExportContext, type ExportPhoto, type ExportStamp, type ReportDetails } from "./content";
+
+// Exports carry the revision, status and approver so a printed copy can be traced to its sign-off
+export async function exportStamp(report: Report): Promise<ExportStamp> {
+  const approver = report.approvedBy ? await storage.getUser(report.approvedBy) : undefined;
+  const approverName = approver
+    ? [approver.firstName, approver.lastName].filter(Boolean).join(" ") || approver.email || approver.id
+    : "";
+  const approvedBy = approverName
+    ? `${approverName}${report.approvedAt ? ` (${report.approvedAt.toLocaleDateString()})` : ""}`
+    : "Not approved";
+  const revision = `Rev ${report.revisionLetter}`;
+  const status = reportStatusLabels[reportStatus(report.status)];
+  return { revision, status, approvedBy, text: `${report.reportNumber} ${revision} | ${status} | Approved by: ${approvedBy}` };
+}
+
+// Only images stored with the report or template are used. Links are not fetched, since
+// the server would request whatever address a report gave it, internal ones included.
+export function inlineImage(url: string | null | undefined): string | undefined {
+  return url && /^data:image\/(png|jpe?g);base64,/.test(url) ? url : undefined;
+}
+
+function templateSettings(template: ReportTemplate): ReportTemplateSettings {
+  return {
+    title: template.title,
+    coverLayout: coverLayouts.includes(template.coverLayout as CoverLayout)
+      ? template.coverLayout as CoverLayout
+      : defaultReportTemplate.coverLayout,
+    fontFamily: templateFonts.includes(template.fontFamily as TemplateFont)
+      ? template.fontFamily as TemplateFont
+      : defaultReportTemplate.fontFamily,
+    primaryColor: template.primaryColor,
+    secondaryColor: template.secondaryColor,
+    logoUrl: template.logoUrl,
+    disclaimer: template.disclaimer,
+    limitations: template.limitations,
+    boilerplate: template.boilerplate,
+    sections: template.sections.filter((id) => reportSectionIds.includes(id)),
+  };
+}
+
+// The template asked for, else the one chosen on the report, else the organization's
+// default. Undefined only when the requested template is not one of the organization's.
+export async function resolveReportTemplate(report: Report, templateId?: string): Promise<ReportTemplateSettings | undefined> {
+  const organizationId = report.organizationId;
+  if (templateId) {
+    const template = organizationId ? await storage.getReportTemplate(organizationId, templateId) : undefined;
+    return template && templateSettings(template);
+  }
+  if (!organizationId) return defaultReportTemplate;
+
+  const template = (report.templateId && await storage.getReportTemplate(organizationId, report.templateId))
+    || await storage.getDefaultReportTemplate(organizationId);
+  return template ? templateSettings(template) : defaultReportTemplate;
+}
+
+async function mergeValues(report: Report, tank: Tank | undefined, stamp: ExportStamp): Promise<TemplateMergeValues> {
+  const [organization, client] = await Promise.all([
+    report.organizationId ? storage.getOrganization(report.organizationId) : undefined,
+    report.clientOrganizationId ? storage.getOrganization(report.clientOrganizationId) : undefined,
+  ]);
+  const intervals: InspectionIntervals | undefined = report.customFields?.inspectionIntervals;
+  return {
+    reportNumber: text(report.reportNumber),
+    tankId: text(tank?.tag || report.tankId),
+    site: text(tank?.site),
+    owner: text(tank?.owner),
+    service: text(report.service),
+    inspectionDate: text(report.inspectionDate),
+    inspectorName: text(report.inspectorName),
+    inspectorCertification: text(report.inspectorCertification),
+    revision: stamp.revision,
+    status: stamp.status,
+    approvedBy: stamp.approvedBy,
+    nextExternalDate: text(intervals?.external?.dueDate),
+    nextUtDate: text(intervals?.ut?.dueDate),
+    nextInternalDate: text(intervals?.internal?.dueDate),
+    organizationName: text(organization?.name),
+    clientName: text(client?.name),
+  };
+}
+
+// Photos are converted one at a time to keep the memory of large exports down
+async function loadPhotos(attachments: Attachment[]): Promise<ExportPhoto[]> {
+  const photos: ExportPhoto[] = [];
+  for (const attachment of attachments.filter((entry) => entry.kind === "photo")) {
+    const data = await attachmentImage(attachment);
+    if (data) photos.push({ data, caption: photoCaption(attachment) });
+  }
+  return photos;
+}
+
+// The most recent upload of the kind, else the image stored on the report
+async function uploadedImage(attachments: Attachment[], kind: "logo" | "signature", url: string | null | undefined) {
+  const latest = attachments
+    .filter((entry) => entry.kind === kind)
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+  return (latest && await attachmentImage(latest)) || inlineImage(url);
+}
+
+// A logo set on the template takes precedence over the report's own
+export async function loadExportContext(reportId: string, template: ReportTemplateSettings): Promise<ExportContext | undefined> {
+  const report: ReportDetails | undefined = await storage.getReportWithDetails(reportId);
+  if (!report) return undefined;
+
+  const attachments = await storage.getReportAttachments(reportId);
+  const [tank, stamp, logo, signature, photos] = await Promise.all([
+    report.tankAssetId ? storage.getTank(report.tankAssetId) : undefined,
+    exportStamp(report),
+    inlineImage(template.logoUrl) ?? uploadedImage(attachments, "logo", report.logoUrl),
+    uploadedImage(attachments, "signature", report.signatureUrl),
+    loadPhotos(attachments),
+  ]);
+  return { report, tank, stamp, logo, signature, photos, template, mergeValues: await mergeValues(report, tank, stamp) };
+}
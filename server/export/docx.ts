@@ -0,0 +1,291 @@
+import {
+  Document, Packer, Paragraph, TextRun, Table, TableRow, TableCell, ImageRun, Header, Footer, TableOfContents,
+  SequentialIdentifier, Tab, PageNumber, HeadingLevel, AlignmentType, ShadingType, WidthType, TabStopType,
+  type FileChild, type ISectionOptions
+} from "docx";
+import { reportSectionTitles } from "@shared/report-outline";
+import { fillMergeFields, type ReportTemplateSettings } from "@shared/report-templates";
+import type { ExportContext, ReportBlock, SectionContent } from "./content";
+import { text } from "./content";
+
+// A4 portrait with the same 20 mm side margins as the PDF, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const MARGIN = 1134;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_WIDTH_MM = 170;
+const PIXELS_PER_MM = 96 / 25.4;
+
+const wordFonts: Record<ReportTemplateSettings["fontFamily"], string> = {
+  helvetica: "Arial",
+  times: "Times New Roman",
+};
+
+const headingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3] as const;
+
+function color(hex: string): string {
+  return hex.replace("#", "");
+}
+
+// Pixel size from the PNG header or the JPEG frame header; undefined for anything else
+function imageSize(data: Buffer): { width: number; height: number; type: "png" | "jpg" } | undefined {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20), type: "png" };
+  }
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5), type: "jpg" };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+// Captions use Word's Caption style and a Figure sequence field, so Word can build a
+// table of figures from them
+function image(dataUrl: string, width: number, caption?: string): FileChild[] {
+  const data = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+  const size = imageSize(data);
+  if (!size || !size.width || !size.height) {
+    console.warn("Skipping an image that could not be read");
+    return [];
+  }
+  const imageWidth = Math.min(width, CONTENT_WIDTH_MM) * PIXELS_PER_MM;
+  const children: FileChild[] = [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      keepNext: !!caption,
+      children: [new ImageRun({
+        type: size.type,
+        data,
+        transformation: { width: imageWidth, height: imageWidth * size.height / size.width },
+      })],
+    }),
+  ];
+  if (caption) {
+    children.push(new Paragraph({
+      style: "Caption",
+      children: [new TextRun("Figure "), new SequentialIdentifier("Figure"), new TextRun(`: ${caption}`)],
+    }));
+  }
+  return children;
+}
+
+function table(template: ReportTemplateSettings, head: string[] | undefined, rows: string[][], fields = false): FileChild[] {
+  if (rows.length === 0) return [];
+  const size = head && head.length > 8 ? 13 : 18;
+  const columns = head?.length ?? rows[0].length;
+  const columnWidths = fields
+    ? [Math.round(CONTENT_WIDTH * 0.4), Math.round(CONTENT_WIDTH * 0.6)]
+    : Array.from({ length: columns }, () => Math.floor(CONTENT_WIDTH / columns));
+  const row = (cells: string[], isHead: boolean) => new TableRow({
+    tableHeader: isHead,
+    cantSplit: true,
+    children: cells.map((cell, index) => new TableCell({
+      width: { size: columnWidths[index] ?? columnWidths[0], type: WidthType.DXA },
+      shading: isHead ? { type: ShadingType.CLEAR, color: "auto", fill: color(template.secondaryColor) } : undefined,
+      children: [new Paragraph({
+        children: [new TextRun({
+          text: cell,
+          size,
+          bold: isHead || (fields && index === 0),
+          color: isHead ? "FFFFFF" : undefined,
+        })],
+      })],
+    })),
+  });
+  return [
+    new Table({
+      width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+      columnWidths,
+      rows: [...(head ? [row(head, true)] : []), ...rows.map((cells) => row(cells, false))],
+    }),
+    new Paragraph({ spacing: { after: 120 } }),
+  ];
+}
+
+// Headings inside a section sit one level below its title
+function block(template: ReportTemplateSettings, block: ReportBlock, level: number): FileChild[] {
+  switch (block.type) {
+    case "heading":
+      return [new Paragraph({ text: block.text, heading: headingLevels[Math.min(level + 1, 2)], keepNext: true })];
+    case "paragraph":
+      return [new Paragraph({ text: block.text, spacing: { after: 120 } })];
+    case "fields":
+      return table(template, undefined, block.rows, true);
+    case "table":
+      return table(template, block.head, block.rows);
+    case "image":
+      return image(block.data, block.width, block.caption);
+    case "pageBreak":
+      return [new Paragraph({ pageBreakBefore: true })];
+  }
+}
+
+function sectionContent(template: ReportTemplateSettings, section: SectionContent, level: number, pageBreak: boolean): FileChild[] {
+  return [
+    new Paragraph({ text: section.title, heading: headingLevels[level], pageBreakBefore: pageBreak }),
+    ...section.blocks.flatMap((entry) => block(template, entry, level)),
+  ];
+}
+
+// Follows the PDF cover layouts: logo above the title, title on a coloured band, or no logo
+function cover({ report, tank, stamp, logo, template, mergeValues }: ExportContext): FileChild[] {
+  const banner = template.coverLayout === "banner";
+  const titleShading = banner ? { type: ShadingType.CLEAR, color: "auto", fill: color(template.primaryColor) } : undefined;
+  const titleColor = banner ? "FFFFFF" : color(template.primaryColor);
+  const tankName = [tank?.tag || report.tankId, tank?.site].filter(Boolean).join(" - ");
+
+  const children: FileChild[] = [];
+  if (logo && template.coverLayout !== "minimal") {
+    children.push(...image(logo, banner ? 40 : 60));
+  }
+  children.push(
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      shading: titleShading,
+      spacing: { before: banner ? 0 : 1200, after: 120 },
+      children: [new TextRun({ text: template.title, size: 44, bold: true, color: titleColor })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      shading: titleShading,
+      spacing: { after: 480 },
+      children: [new TextRun({ text: tankName, size: 28, color: banner ? "FFFFFF" : undefined })],
+    }),
+    ...table(template, undefined, [
+      ["Report Number", text(report.reportNumber)],
+      ["Tank", text(report.tankId)],
+      ["Owner", text(tank?.owner)],
+      ["Inspection Date", text(report.inspectionDate)],
+      ["Inspector", text(report.inspectorName)],
+      ["Revision", stamp.revision],
+      ["Status", stamp.status],
+      ["Approved By", stamp.approvedBy],
+    ], true),
+  );
+
+  if (report.coverText?.trim()) {
+    children.push(new Paragraph({ text: report.coverText.trim(), spacing: { after: 120 } }));
+  }
+  if (template.disclaimer?.trim()) {
+    children.push(new Paragraph({
+      spacing: { before: 480 },
+      children: [new TextRun({ text: fillMergeFields(template.disclaimer.trim(), mergeValues), italics: true, size: 16 })],
+    }));
+  }
+  return children;
+}
+
+// Word fills the contents in when the document is opened and its fields are updated
+function tableOfContents(): FileChild[] {
+  return [
+    new Paragraph({
+      pageBreakBefore: true,
+      spacing: { after: 240 },
+      children: [new TextRun({ text: "Table of Contents", size: 32, bold: true })],
+    }),
+    new TableOfContents("Table of Contents", { hyperlink: true, headingStyleRange: "1-3" }),
+  ];
+}
+
+// Report number and tank on the left and right of the header; the appendix letter is
+// added inside the appendices
+function header({ report, template }: ExportContext, appendix?: string): Header {
+  const right = [`Tank ${report.tankId}`, appendix && `Appendix ${appendix}`].filter(Boolean).join(" | ");
+  return new Header({
+    children: [new Paragraph({
+      tabStops: [{ type: TabStopType.RIGHT, position: CONTENT_WIDTH }],
+      border: { bottom: { style: "single", size: 4, color: "999999", space: 4 } },
+      children: [
+        new TextRun({ text: `${template.title} - ${report.reportNumber}`, size: 16 }),
+        new TextRun({ children: [new Tab(), right], size: 16 }),
+      ],
+    })],
+  });
+}
+
+function footer({ stamp }: ExportContext): Footer {
+  return new Footer({
+    children: [new Paragraph({
+      tabStops: [{ type: TabStopType.RIGHT, position: CONTENT_WIDTH }],
+      border: { top: { style: "single", size: 4, color: "999999", space: 4 } },
+      children: [
+        new TextRun({ text: stamp.text, size: 14 }),
+        new TextRun({ children: [new Tab(), "Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16 }),
+      ],
+    })],
+  });
+}
+
+// The body is one Word section behind the cover and contents. Each appendix starts a
+// section of its own, so it begins on a new page and can carry its own header.
+export async function renderReportDocx(context: ExportContext, sections: SectionContent[]): Promise<Buffer> {
+  const { template } = context;
+  const page = {
+    size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+    margin: { top: MARGIN, bottom: MARGIN, left: MARGIN, right: MARGIN, header: 567, footer: 567 },
+  };
+  const body = sections.filter((section) => !section.appendix);
+  const appendices = sections.filter((section) => section.appendix);
+
+  const wordSections: ISectionOptions[] = [{
+    properties: { page, titlePage: true },
+    headers: { default: header(context), first: new Header({ children: [] }) },
+    footers: { default: footer(context), first: footer(context) },
+    children: [
+      ...cover(context),
+      ...tableOfContents(),
+      ...body.flatMap((section) => sectionContent(template, section, 0, true)),
+    ],
+  }];
+  appendices.forEach((section, index) => {
+    const children: FileChild[] = index === 0
+      ? [new Paragraph({ text: reportSectionTitles.appendices, heading: HeadingLevel.HEADING_1 })]
+      : [];
+    children.push(...sectionContent(template, section, 1, false));
+    wordSections.push({
+      properties: { page },
+      headers: { default: header(context, section.appendix) },
+      footers: { default: footer(context) },
+      children,
+    });
+  });
+
+  const doc = new Document({
+    features: { updateFields: true },
+    styles: {
+      default: {
+        document: { run: { font: wordFonts[template.fontFamily], size: 20 } },
+        heading1: {
+          run: { size: 32, bold: true, color: color(template.primaryColor) },
+          paragraph: { spacing: { after: 240 } },
+        },
+        heading2: {
+          run: { size: 24, bold: true, color: color(template.primaryColor) },
+          paragraph: { spacing: { before: 240, after: 120 } },
+        },
+        heading3: {
+          run: { size: 22, bold: true },
+          paragraph: { spacing: { before: 200, after: 100 } },
+        },
+      },
+      paragraphStyles: [{
+        id: "Caption",
+        name: "caption",
+        basedOn: "Normal",
+        next: "Normal",
+        quickFormat: true,
+        run: { italics: true, size: 18 },
+        paragraph: { alignment: AlignmentType.CENTER, spacing: { after: 200 } },
+      }],
+    },
+    sections: wordSections,
+  });
+  return await Packer.toBuffer(doc);
+}
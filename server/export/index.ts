@@ -0,0 +1,59 @@
+// Report export. Section modules (./sections) turn the report into format-neutral blocks
+// in the order of shared/report-outline.ts, and each exporter lays those blocks out.
+import { reportSectionIds, type ReportSectionId } from "@shared/report-outline";
+import { fillMergeFields } from "@shared/report-templates";
+import { paragraphs, type ExportContext, type ReportSection, type SectionContent } from "./content";
+import { executiveSummarySection, findingsSection } from "./sections/summary";
+import { inspectionIntervalsSection } from "./sections/intervals";
+import { tankDataSection } from "./sections/tank-data";
+import { tankHistorySection } from "./sections/tank-history";
+import { shellSection, localizedCorrosionSection, brittleFractureSection } from "./sections/shell";
+import { roofSection, floatingRoofSection } from "./sections/roof";
+import { floorSection } from "./sections/floor";
+import { settlementSection } from "./sections/settlement";
+import { nozzlesSection } from "./sections/nozzles";
+import { thicknessDataSection } from "./sections/thickness-data";
+import { certificationSection } from "./sections/certification";
+import { limitationsSection } from "./sections/limitations";
+import { appendicesSection } from "./sections/appendices";
+
+export { exportStamp, loadExportContext, resolveReportTemplate } from "./context";
+export { renderReportPdf } from "./pdf";
+export { renderReportDocx } from "./docx";
+export type { ExportContext, ExportStamp } from "./content";
+
+const reportSections: Record<ReportSectionId, ReportSection> = {
+  "executive-summary": executiveSummarySection,
+  findings: findingsSection,
+  "inspection-intervals": inspectionIntervalsSection,
+  "tank-data": tankDataSection,
+  "tank-history": tankHistorySection,
+  shell: shellSection,
+  "localized-corrosion": localizedCorrosionSection,
+  "brittle-fracture": brittleFractureSection,
+  roof: roofSection,
+  "floating-roof": floatingRoofSection,
+  floor: floorSection,
+  settlement: settlementSection,
+  nozzles: nozzlesSection,
+  "thickness-data": thicknessDataSection,
+  certification: certificationSection,
+  limitations: limitationsSection,
+  appendices: appendicesSection,
+};
+
+// The template picks the sections, which keep the outline order, and its boilerplate opens
+// a section's first entry only when the report has content for that section
+export function reportContent(context: ExportContext): SectionContent[] {
+  const { template, mergeValues } = context;
+  const sectionIds = reportSectionIds.filter((id) => template.sections.includes(id));
+  return sectionIds.flatMap((id) => {
+    const content = reportSections[id].render(context);
+    const boilerplate = template.boilerplate
+      .filter((entry) => entry.section === id)
+      .flatMap((entry) => paragraphs(fillMergeFields(entry.text, mergeValues)));
+    if (content.length === 0 || boilerplate.length === 0) return content;
+    const [first, ...rest] = content;
+    return [{ ...first, blocks: [...boilerplate, ...first.blocks] }, ...rest];
+  });
+}
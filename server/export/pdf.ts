@@ -0,0 +1,289 @@
+import { jsPDF } from "jspdf";
+import { autoTable, type Table } from "jspdf-autotable";
+import { fillMergeFields, hexToRgb, type ReportTemplateSettings } from "@shared/report-templates";
+import type { ExportContext, ReportBlock, SectionContent } from "./content";
+import { text } from "./content";
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN_X = 20;
+const CONTENT_TOP = 28;
+const CONTENT_BOTTOM = 275;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN_X;
+const LINE_HEIGHT = 5;
+const TOC_ENTRY_HEIGHT = 8;
+const TOC_ENTRIES_PER_PAGE = Math.floor((CONTENT_BOTTOM - CONTENT_TOP - 16) / TOC_ENTRY_HEIGHT);
+
+// autoTable() returns nothing; the table it drew is left on the document
+type AutoTableDocument = jsPDF & { lastAutoTable: Table };
+
+interface TocEntry {
+  title: string;
+  page: number;
+}
+
+// Lays blocks out top to bottom, starting a new page whenever the next one does not fit
+class PdfWriter {
+  doc = new jsPDF({ unit: "mm", format: "a4" });
+  y = CONTENT_TOP;
+  primary: [number, number, number];
+  secondary: [number, number, number];
+
+  constructor(public template: ReportTemplateSettings) {
+    this.primary = hexToRgb(template.primaryColor);
+    this.secondary = hexToRgb(template.secondaryColor);
+  }
+
+  get page(): number {
+    return this.doc.getNumberOfPages();
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) this.newPage();
+  }
+
+  font(size: number, style: "normal" | "bold" | "italic" = "normal") {
+    this.doc.setFont(this.template.fontFamily, style);
+    this.doc.setFontSize(size);
+  }
+
+  sectionTitle(title: string) {
+    this.font(16, "bold");
+    this.doc.setTextColor(...this.primary);
+    this.doc.text(title, MARGIN_X, this.y + 6);
+    this.doc.setTextColor(0);
+    this.doc.setDrawColor(...this.primary);
+    this.doc.line(MARGIN_X, this.y + 9, PAGE_WIDTH - MARGIN_X, this.y + 9);
+    this.doc.setDrawColor(0);
+    this.y += 16;
+  }
+
+  // Kept with at least a few lines of what follows it
+  heading(title: string) {
+    this.ensureSpace(25);
+    this.font(12, "bold");
+    this.doc.text(title, MARGIN_X, this.y + 5);
+    this.y += 9;
+  }
+
+  paragraph(value: string) {
+    this.font(10);
+    const lines: string[] = this.doc.splitTextToSize(value, CONTENT_WIDTH);
+    for (const line of lines) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN_X, this.y + 4);
+      this.y += LINE_HEIGHT;
+    }
+    this.y += 3;
+  }
+
+  table(head: string[] | undefined, rows: string[][], fields = false) {
+    if (rows.length === 0) return;
+    this.ensureSpace(15);
+    autoTable(this.doc, {
+      head: head ? [head] : undefined,
+      body: rows,
+      startY: this.y,
+      margin: { top: CONTENT_TOP, bottom: PAGE_HEIGHT - CONTENT_BOTTOM, left: MARGIN_X, right: MARGIN_X },
+      theme: fields ? "plain" : "grid",
+      styles: {
+        font: this.template.fontFamily,
+        ...(head && head.length > 8 ? { fontSize: 6.5, cellPadding: 1 } : { fontSize: 9, cellPadding: 1.5 }),
+      },
+      headStyles: { fillColor: this.secondary, textColor: 255 },
+      columnStyles: fields ? { 0: { fontStyle: "bold", cellWidth: 65 } } : {},
+    });
+    this.y = ((this.doc as AutoTableDocument).lastAutoTable.finalY ?? this.y) + 6;
+  }
+
+  image(data: string, width: number, caption?: string) {
+    let properties;
+    try {
+      properties = this.doc.getImageProperties(data);
+    } catch (error) {
+      console.warn("Skipping an image that could not be read:", error);
+      return;
+    }
+    let imageWidth = Math.min(width, CONTENT_WIDTH);
+    let imageHeight = imageWidth * properties.height / properties.width;
+    const maxHeight = CONTENT_BOTTOM - CONTENT_TOP - 12;
+    if (imageHeight > maxHeight) {
+      imageWidth = imageWidth * maxHeight / imageHeight;
+      imageHeight = maxHeight;
+    }
+
+    this.ensureSpace(imageHeight + (caption ? 10 : 4));
+    this.doc.addImage(data, properties.fileType, MARGIN_X + (CONTENT_WIDTH - imageWidth) / 2, this.y, imageWidth, imageHeight, undefined, "FAST");
+    this.y += imageHeight + 4;
+    if (caption) {
+      this.font(9, "italic");
+      this.doc.text(caption, PAGE_WIDTH / 2, this.y + 2, { align: "center" });
+      this.y += 7;
+    }
+  }
+
+  block(block: ReportBlock) {
+    switch (block.type) {
+      case "heading":
+        return this.heading(block.text);
+      case "paragraph":
+        return this.paragraph(block.text);
+      case "fields":
+        return this.table(undefined, block.rows, true);
+      case "table":
+        return this.table(block.head, block.rows);
+      case "image":
+        return this.image(block.data, block.width, block.caption);
+      case "pageBreak":
+        return this.newPage();
+    }
+  }
+}
+
+function drawCoverTitle(writer: PdfWriter, { report, tank, template }: ExportContext, color: [number, number, number]) {
+  const { doc } = writer;
+  writer.font(22, "bold");
+  doc.setTextColor(...color);
+  const lines: string[] = doc.splitTextToSize(template.title, CONTENT_WIDTH);
+  doc.text(lines, PAGE_WIDTH / 2, writer.y, { align: "center" });
+  writer.y += (lines.length - 1) * 9;
+  writer.font(14);
+  const tankName = [tank?.tag || report.tankId, tank?.site].filter(Boolean).join(" - ");
+  doc.text(tankName, PAGE_WIDTH / 2, writer.y + 10, { align: "center" });
+  doc.setTextColor(0);
+  writer.y += 24;
+}
+
+// Standard: logo above a centred title. Banner: the title on a band of the primary colour
+// with the logo beside it. Minimal: no logo.
+function drawCover(writer: PdfWriter, context: ExportContext) {
+  const { doc } = writer;
+  const { report, tank, stamp, logo, template, mergeValues } = context;
+  if (template.coverLayout === "banner") {
+    doc.setFillColor(...writer.primary);
+    doc.rect(0, 0, PAGE_WIDTH, 70, "F");
+    if (logo) {
+      writer.y = 12;
+      writer.image(logo, 40);
+    }
+    writer.y = 40;
+    drawCoverTitle(writer, context, [255, 255, 255]);
+    writer.y = 85;
+  } else {
+    writer.y = 30;
+    if (logo && template.coverLayout === "standard") {
+      writer.image(logo, 60);
+    }
+    writer.y = Math.max(writer.y, 80);
+    drawCoverTitle(writer, context, writer.primary);
+  }
+
+  writer.table(undefined, [
+    ["Report Number", text(report.reportNumber)],
+    ["Tank", text(report.tankId)],
+    ["Owner", text(tank?.owner)],
+    ["Inspection Date", text(report.inspectionDate)],
+    ["Inspector", text(report.inspectorName)],
+    ["Revision", stamp.revision],
+    ["Status", stamp.status],
+    ["Approved By", stamp.approvedBy],
+  ], true);
+
+  if (report.coverText?.trim()) {
+    writer.y += 4;
+    writer.paragraph(report.coverText.trim());
+  }
+
+  // The disclaimer sits at the foot of the cover unless the cover is already full
+  const disclaimer = template.disclaimer?.trim() && fillMergeFields(template.disclaimer.trim(), mergeValues);
+  if (disclaimer) {
+    writer.font(8, "italic");
+    const lines: string[] = doc.splitTextToSize(disclaimer, CONTENT_WIDTH);
+    const top = CONTENT_BOTTOM - lines.length * 3.5;
+    if (top > writer.y) {
+      doc.text(lines, MARGIN_X, top);
+    } else {
+      writer.paragraph(disclaimer);
+    }
+  }
+}
+
+function drawTableOfContents(writer: PdfWriter, entries: TocEntry[], firstPage: number) {
+  const { doc } = writer;
+  entries.forEach((entry, index) => {
+    const onPage = index % TOC_ENTRIES_PER_PAGE;
+    if (onPage === 0) {
+      doc.setPage(firstPage + index / TOC_ENTRIES_PER_PAGE);
+      writer.y = CONTENT_TOP;
+      writer.sectionTitle("Table of Contents");
+    }
+    const y = writer.y + onPage * TOC_ENTRY_HEIGHT + 4;
+    writer.font(11);
+    doc.textWithLink(entry.title, MARGIN_X, y, { pageNumber: entry.page });
+    const pageLabel = String(entry.page);
+    doc.text(pageLabel, PAGE_WIDTH - MARGIN_X, y, { align: "right" });
+
+    // Dotted leader between the title and its page number
+    const from = MARGIN_X + doc.getTextWidth(entry.title) + 2;
+    const to = PAGE_WIDTH - MARGIN_X - doc.getTextWidth(pageLabel) - 2;
+    if (to > from) {
+      doc.setLineDashPattern([0.5, 1], 0);
+      doc.line(from, y, to, y);
+      doc.setLineDashPattern([], 0);
+    }
+  });
+}
+
+// Running header from page 2 on, and the sign-off stamp and page X of Y on every page
+function drawHeadersAndFooters(writer: PdfWriter, { report, stamp, template }: ExportContext) {
+  const { doc } = writer;
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(150);
+    if (page > 1) {
+      writer.font(8);
+      doc.text(`${template.title} - ${report.reportNumber}`, MARGIN_X, 14);
+      doc.text(`Tank ${report.tankId}`, PAGE_WIDTH - MARGIN_X, 14, { align: "right" });
+      doc.line(MARGIN_X, 17, PAGE_WIDTH - MARGIN_X, 17);
+    }
+    doc.line(MARGIN_X, 283, PAGE_WIDTH - MARGIN_X, 283);
+    writer.font(7);
+    doc.text(stamp.text, MARGIN_X, 288);
+    writer.font(8);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN_X, 288, { align: "right" });
+    doc.setDrawColor(0);
+  }
+}
+
+export function renderReportPdf(context: ExportContext, sections: SectionContent[]): Buffer {
+  const writer = new PdfWriter(context.template);
+  drawCover(writer, context);
+
+  // The contents pages are reserved up front and filled in once the page numbers are known
+  const tocFirstPage = writer.page + 1;
+  const tocPages = Math.max(1, Math.ceil(sections.length / TOC_ENTRIES_PER_PAGE));
+  for (let page = 0; page < tocPages; page++) {
+    writer.newPage();
+  }
+
+  const entries: TocEntry[] = [];
+  for (const section of sections) {
+    writer.newPage();
+    entries.push({ title: section.title, page: writer.page });
+    writer.sectionTitle(section.title);
+    for (const block of section.blocks) {
+      writer.block(block);
+    }
+  }
+
+  drawTableOfContents(writer, entries, tocFirstPage);
+  drawHeadersAndFooters(writer, context);
+  return Buffer.from(writer.doc.output("arraybuffer"));
+}
@@ -0,0 +1,37 @@
+import { PHOTO_APPENDIX } from "@shared/attachments";
+import { paragraphs, type ReportBlock, type ReportSection } from "../content";
+
+interface AppendixEntry {
+  appendixLetter: string;
+  subject: string | null;
+  content: string | null;
+}
+
+// Each applicable appendix is its own entry in the table of contents. Uploaded photos print
+// in the photographs appendix, which is added when the report has photos but no such
+// appendix; one marked not applicable stays out along with its photos.
+export const appendicesSection: ReportSection = {
+  id: "appendices",
+  render({ report, photos }) {
+    const entries: AppendixEntry[] = [...report.appendices]
+      .filter((appendix) => appendix.isApplicable !== false)
+      .sort((a, b) => a.order - b.order);
+    const hasPhotoAppendix = report.appendices.some((appendix) => appendix.appendixLetter === PHOTO_APPENDIX);
+    if (photos.length > 0 && !hasPhotoAppendix) {
+      const next = entries.findIndex((appendix) => appendix.appendixLetter > PHOTO_APPENDIX);
+      entries.splice(next === -1 ? entries.length : next, 0, { appendixLetter: PHOTO_APPENDIX, subject: "Photographs", content: null });
+    }
+
+    return entries.map((appendix) => {
+      const blocks: ReportBlock[] = paragraphs(appendix.content);
+      if (appendix.appendixLetter === PHOTO_APPENDIX) {
+        blocks.push(...photos.map((photo): ReportBlock => ({ type: "image", data: photo.data, width: 150, caption: photo.caption })));
+      }
+      return {
+        title: `Appendix ${appendix.appendixLetter}${appendix.subject ? ` - ${appendix.subject}` : ""}`,
+        blocks,
+        appendix: appendix.appendixLetter,
+      };
+    });
+  },
+};
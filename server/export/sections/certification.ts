@@ -0,0 +1,30 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, type ReportBlock, type ReportSection } from "../content";
+
+export const certificationSection: ReportSection = {
+  id: "certification",
+  render({ report, stamp, signature }) {
+    const blocks: ReportBlock[] = [
+      {
+        type: "paragraph",
+        text: "This inspection was performed and the report prepared in accordance with API Standard 653, Tank Inspection, Repair, Alteration, and Reconstruction.",
+      },
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Inspector", report.inspectorName],
+          ["API 653 Certification No.", report.inspectorCertification],
+          ["Inspector Record", report.inspectorRecord],
+          ["Inspection Date", report.inspectionDate],
+          ["Revision", stamp.revision],
+          ["Status", stamp.status],
+          ["Approved By", stamp.approvedBy],
+        ]),
+      },
+    ];
+    if (signature) {
+      blocks.push({ type: "image", data: signature, width: 60, caption: report.inspectorName || "Inspector signature" });
+    }
+    return [{ title: reportSectionTitles.certification, blocks }];
+  },
+};
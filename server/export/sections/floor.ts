@@ -0,0 +1,80 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { toNumber } from "@shared/calculations";
+import { filledFields, paragraphs, passFail, text, type ReportBlock, type ReportSection } from "../content";
+import { floorScanChart } from "../charts";
+
+export const floorSection: ReportSection = {
+  id: "floor",
+  render({ report, template }) {
+    const floor = report.floorMRTCalculations;
+    if (!floor) return [];
+
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Floor Type", floor.floorType],
+          ["Original Thickness (in)", floor.originalThickness],
+          ["Minimum Thickness (in)", floor.minimumThickness],
+          ["Corrosion Allowance (in)", floor.corrosionAllowance],
+          ["Age (yrs)", floor.age],
+          ["Examination Method", floor.examMethod],
+          ["Scan Coverage", floor.scanCoverage],
+          ["Critical Zone", floor.criticalZone],
+          ["Leak Detection", floor.hasLeakDetection],
+          ["Release Prevention Barrier", floor.hasReleasePreventionBarrier],
+          ["Reinforced Lining", floor.hasReinforcedLining],
+          ["Product Side Coated", floor.productSideCoated],
+          ["Annular Ring", floor.hasAnnularRing],
+        ]),
+      },
+      { type: "heading", text: "Minimum Remaining Thickness (API 653 §4.4.7)" },
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Average Thickness (in)", floor.averageThickness],
+          ["Minimum Recorded (in)", floor.minimumRecorded],
+          ["RTip, product side (in)", floor.rtip],
+          ["RTbc, soil side (in)", floor.rtbc],
+          ["MRT (in)", floor.mrt],
+          ["MRT Minimum (in)", floor.mrtMinimum],
+          ["Bottom Plate", floor.mrt ? passFail(floor.mrtAcceptable) : undefined],
+          ["Annular MRT (in)", floor.annularMrt],
+          ["Annular Minimum (in)", floor.annularMinimum],
+          ["Annular Plate", floor.annularMrt ? passFail(floor.annularAcceptable) : undefined],
+          ["Next Internal Interval (yrs)", floor.nextInternalInterval],
+          ["Max Internal Interval (yrs)", floor.maxInternalInterval],
+          ["Average Corrosion Rate (mpy)", floor.averageCorrosionRate],
+          ["Maximum Corrosion Rate (mpy)", floor.maximumCorrosionRate],
+          ["Minimum Remaining Life (yrs)", floor.minimumRemainingLife],
+        ]),
+      },
+    ];
+    if (floor.scans.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Floor Scans" },
+        {
+          type: "table",
+          head: ["Scan", "Component", "Location", "Type", "Thickness (in)", "Top Side (in)", "Underside (in)", "CR (mpy)", "RL (yrs)"],
+          rows: floor.scans.map((scan) => [
+            scan.scanId,
+            scan.component,
+            scan.location,
+            scan.scanType,
+            scan.thickness,
+            text(scan.topSide),
+            text(scan.underside),
+            text(scan.corrosionRate),
+            text(scan.remainingLife),
+          ]),
+        },
+      );
+      const chart = floorScanChart(floor.scans, toNumber(floor.mrtMinimum) || undefined, template.primaryColor);
+      if (chart) {
+        blocks.push({ type: "image", data: chart, width: 160, caption: "Distribution of floor scan thicknesses" });
+      }
+    }
+    blocks.push(...paragraphs(floor.notes));
+    return [{ title: reportSectionTitles.floor, blocks }];
+  },
+};
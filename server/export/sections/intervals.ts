@@ -0,0 +1,30 @@
+import type { InspectionIntervals } from "@shared/calculations";
+import { reportSectionTitles } from "@shared/report-outline";
+import { text, type ReportSection } from "../content";
+
+export const inspectionIntervalsSection: ReportSection = {
+  id: "inspection-intervals",
+  render({ report }) {
+    const intervals: InspectionIntervals | undefined = report.customFields?.inspectionIntervals;
+    if (!intervals?.external) return [];
+
+    const row = (label: string, interval: InspectionIntervals["external"]) => [
+      label, text(interval?.years), text(interval?.dueDate), text(interval?.reason),
+    ];
+    return [{
+      title: reportSectionTitles["inspection-intervals"],
+      blocks: [
+        { type: "paragraph", text: `Intervals are counted from ${text(intervals.baseDate)} (API 653 §6).` },
+        {
+          type: "table",
+          head: ["Inspection", "Interval (yrs)", "Due Date", "Basis"],
+          rows: [
+            row("External", intervals.external),
+            row("UT Thickness", intervals.ut),
+            row("Internal", intervals.internal),
+          ],
+        },
+      ],
+    }];
+  },
+};
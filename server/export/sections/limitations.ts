@@ -0,0 +1,13 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { fillMergeFields } from "@shared/report-templates";
+import { paragraphs, type ReportSection } from "../content";
+
+// Company limitation wording from the report template; one paragraph per blank-line block
+export const limitationsSection: ReportSection = {
+  id: "limitations",
+  render({ template, mergeValues }) {
+    if (!template.limitations?.trim()) return [];
+    const blocks = paragraphs(...fillMergeFields(template.limitations, mergeValues).split(/\n\s*\n/));
+    return [{ title: reportSectionTitles.limitations, blocks }];
+  },
+};
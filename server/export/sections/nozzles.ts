@@ -0,0 +1,67 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, fixed, text, type ReportBlock, type ReportSection } from "../content";
+
+export const nozzlesSection: ReportSection = {
+  id: "nozzles",
+  render({ report }) {
+    const survey = report.nozzleCML;
+    const blocks: ReportBlock[] = [];
+
+    if (survey?.records.length) {
+      blocks.push(
+        {
+          type: "fields",
+          rows: filledFields([
+            ["Inspection Date", survey.inspectionDate],
+            ["Previous Inspection", survey.previousInspectionDate],
+            ["Inspector", survey.inspectorName],
+            ["NDE Company", survey.ndeCompany],
+          ]),
+        },
+        {
+          type: "table",
+          head: ["Nozzle", "Description", "Size", "Sch", "Service", "Nominal (in)", "Previous (in)", "Current (in)", "t-min (in)", "Basis", "CR (mpy)", "RL (yrs)"],
+          rows: survey.records.map((record) => [
+            text(record.nozzleId),
+            text(record.nozzleDescription),
+            text(record.nozzleSize),
+            text(record.nozzleSchedule),
+            text(record.service),
+            fixed(record.nominalThickness, 3),
+            fixed(record.previousThickness, 3),
+            fixed(record.currentThickness, 3),
+            fixed(record.tMin, 3),
+            text(record.tMinBasis),
+            fixed(record.corrosionRate, 1),
+            fixed(record.remainingLife, 1),
+          ]),
+        },
+      );
+    }
+
+    if (report.nozzleCmlRecords.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Nozzle CML Readings" },
+        {
+          type: "table",
+          head: ["CML", "Component", "Size", "Location", "Nominal (in)", "R1", "R2", "R3", "R4", "Current (in)", "CR (mpy)", "RL (yrs)"],
+          rows: report.nozzleCmlRecords.map((cml) => [
+            cml.cmlId,
+            cml.compId,
+            text(cml.size),
+            cml.location,
+            text(cml.nominalThickness),
+            text(cml.reading1),
+            text(cml.reading2),
+            text(cml.reading3),
+            text(cml.reading4),
+            text(cml.currentReading),
+            text(cml.corrosionRate),
+            text(cml.remainingLife),
+          ]),
+        },
+      );
+    }
+    return blocks.length > 0 ? [{ title: reportSectionTitles.nozzles, blocks }] : [];
+  },
+};
@@ -0,0 +1,147 @@
+import type { FloatingRoofData, SealCompliance } from "@shared/calculations";
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, paragraphs, passFail, text, type ReportBlock, type ReportSection } from "../content";
+
+export const roofSection: ReportSection = {
+  id: "roof",
+  render({ report }) {
+    const roof = report.roofCalculations;
+    if (!roof) return [];
+
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Roof Type", roof.roofType],
+          ["Roof Plate Nominal (in)", roof.roofPlateThickness],
+          ["Roof Plate Actual (in)", roof.roofPlateActual],
+          ["Deck Plate Nominal (in)", roof.deckPlateThickness],
+          ["Deck Plate Actual (in)", roof.deckPlateActual],
+          ["Roof Age (yrs)", roof.roofAge],
+          ["Corrosion Allowance (in)", roof.roofCorrosionAllowance],
+          ["Supported by Rafters", roof.supportedByRafters],
+          ["Rafter Spacing", roof.rafterSpacing],
+          ["Supported by Columns", roof.supportedByColumns],
+          ["Column Spacing", roof.columnSpacing],
+          ["Design Load (psf)", roof.designLoad],
+          ["Design Pressure", roof.designPressure],
+          ["Design Vacuum", roof.designVacuum],
+          ["t-min Roof (in)", roof.tMinRoof],
+          ["t-min Deck (in)", roof.tMinDeck],
+          ["Corrosion Rate Roof (mpy)", roof.corrosionRateRoof],
+          ["Corrosion Rate Deck (mpy)", roof.corrosionRateDeck],
+          ["Remaining Life Roof (yrs)", roof.remainingLifeRoof],
+          ["Remaining Life Deck (yrs)", roof.remainingLifeDeck],
+          ["Frangible Joint", roof.frangible],
+          ["Governing Check", roof.governingCheck],
+        ]),
+      },
+    ];
+    if (roof.roofChecks?.length) {
+      blocks.push(
+        { type: "heading", text: "Roof Checks" },
+        {
+          type: "table",
+          head: ["Check", "Reference", "Required", "Actual", "Result"],
+          rows: roof.roofChecks.map((check) => [
+            check.check,
+            check.reference,
+            text(check.required),
+            text(check.actual),
+            passFail(check.acceptable),
+          ]),
+        },
+      );
+    }
+    blocks.push(...paragraphs(roof.notes));
+    return [{ title: reportSectionTitles.roof, blocks }];
+  },
+};
+
+export const floatingRoofSection: ReportSection = {
+  id: "floating-roof",
+  render({ report }) {
+    const floatingRoof: FloatingRoofData | undefined = report.customFields?.floatingRoof;
+    if (!floatingRoof?.primarySeal) return [];
+
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Roof Type", floatingRoof.roofType],
+          ["Primary Seal", `${text(floatingRoof.primarySealType)} (${text(floatingRoof.primarySealCondition)})`],
+          ["Secondary Seal", `${text(floatingRoof.secondarySealType)} (${text(floatingRoof.secondarySealCondition)})`],
+          ["Pontoons", passFail(floatingRoof.pontoonsAcceptable)],
+          ["Drains", passFail(floatingRoof.drainsAcceptable)],
+        ]),
+      },
+    ];
+
+    const seals: [string, SealCompliance][] = [["Primary", floatingRoof.primarySeal]];
+    if (floatingRoof.secondarySeal) seals.push(["Secondary", floatingRoof.secondarySeal]);
+    blocks.push(
+      { type: "heading", text: "Seal Gaps (API 653 §C.1.4)" },
+      {
+        type: "table",
+        head: ["Seal", "Gap Area (in²)", "Allowable (in²)", "Max Width (in)", "Allowable (in)", "Result"],
+        rows: seals.map(([seal, compliance]) => [
+          seal,
+          compliance.totalArea,
+          compliance.allowableArea,
+          compliance.maxWidth,
+          compliance.allowableWidth,
+          passFail(compliance.compliant),
+        ]),
+      },
+    );
+    if (floatingRoof.pontoons.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Pontoons" },
+        {
+          type: "table",
+          head: ["Pontoon", "Liquid Present", "Leak", "Result"],
+          rows: floatingRoof.pontoons.map((pontoon) => [
+            pontoon.compartmentId,
+            pontoon.liquidPresent ? "Yes" : "No",
+            pontoon.leakDetected ? "Yes" : "No",
+            passFail(pontoon.acceptable),
+          ]),
+        },
+      );
+    }
+    if (floatingRoof.legs.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Roof Legs" },
+        {
+          type: "table",
+          head: ["Leg", "Leg Condition", "Sleeve Condition", "Low (ft)", "High (ft)"],
+          rows: floatingRoof.legs.map((leg) => [
+            leg.legId,
+            text(leg.legCondition),
+            text(leg.sleeveCondition),
+            text(leg.lowSetting),
+            text(leg.highSetting),
+          ]),
+        },
+      );
+    }
+    if (floatingRoof.drains.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Roof Drains" },
+        {
+          type: "table",
+          head: ["Drain", "Type", "Test (psig)", "Duration (min)", "Result"],
+          rows: floatingRoof.drains.map((drain) => [
+            drain.drainId,
+            text(drain.drainType),
+            text(drain.testPressure),
+            text(drain.testDuration),
+            text(drain.result).toUpperCase(),
+          ]),
+        },
+      );
+    }
+    blocks.push(...paragraphs(floatingRoof.notes));
+    return [{ title: reportSectionTitles["floating-roof"], blocks }];
+  },
+};
@@ -0,0 +1,72 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, fixed, passFail, text, type ReportBlock, type ReportSection } from "../content";
+import { settlementChart } from "../charts";
+
+const inches = (feet: number | undefined) => fixed(feet === undefined ? undefined : feet * 12, 3);
+
+export const settlementSection: ReportSection = {
+  id: "settlement",
+  render({ report, template }) {
+    const settlement = report.settlementSurvey;
+    if (!settlement?.elevationPoints?.length) return [];
+
+    const outOfPlane = settlement.outOfPlaneAcceptable === undefined
+      ? "Not evaluated"
+      : settlement.outOfPlaneAcceptable ? "Acceptable" : "Exceeds allowable";
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Survey Date", settlement.surveyDate],
+          ["Previous Survey", settlement.previousSurveyDate],
+          ["Datum", settlement.datum],
+          ["Points", `${settlement.numberOfPoints}${settlement.requiredPoints ? ` (${settlement.requiredPoints} required)` : ""}`],
+          ["Planar Tilt", `${fixed(settlement.tiltPercentage, 3)}% (${fixed(settlement.planarTilt, 3)}°)`],
+          ["Uniform Settlement (in)", inches(settlement.uniformSettlement)],
+          ["Max Out-of-Plane Settlement (in)", inches(settlement.outOfPlaneSettlement)],
+          ["Allowable S_max (in)", inches(settlement.allowableOutOfPlane)],
+          ["Out-of-Plane Settlement", outOfPlane],
+          ["Edge Settlement", settlement.edgeSettlements?.length ? passFail(settlement.edgeSettlementAcceptable) : undefined],
+        ]),
+      },
+    ];
+    // Drawn from the survey data; the image saved from the browser covers surveys the server cannot chart
+    const chart = settlementChart(settlement, template.primaryColor) ?? settlement.chartImage;
+    if (chart) {
+      blocks.push({ type: "image", data: chart, width: 170, caption: "Measured elevations and optimum cosine curve" });
+    }
+    blocks.push(
+      { type: "heading", text: "Elevation Points (API 653 Annex B)" },
+      {
+        type: "table",
+        head: ["Position (°)", "Previous (ft)", "Elevation (ft)", "Cosine Fit (ft)", "Si (in)", "Result"],
+        rows: settlement.elevationPoints.map((point) => [
+          text(point.position),
+          fixed(point.previousElevation, 3),
+          fixed(point.currentElevation, 3),
+          fixed(point.cosineElevation, 3),
+          inches(point.outOfPlane),
+          passFail(point.acceptable),
+        ]),
+      },
+    );
+    if (settlement.edgeSettlements?.length) {
+      blocks.push(
+        { type: "heading", text: "Edge Settlement" },
+        {
+          type: "table",
+          head: ["Area", "R (ft)", "B (in)", "Lap Welds", "Allowable (in)", "Result"],
+          rows: settlement.edgeSettlements.map((area) => [
+            area.areaId,
+            text(area.radialWidth),
+            text(area.measuredSettlement),
+            area.weldOrientation,
+            text(area.allowableSettlement),
+            passFail(area.acceptable),
+          ]),
+        },
+      );
+    }
+    return [{ title: reportSectionTitles.settlement, blocks }];
+  },
+};
@@ -0,0 +1,133 @@
+import type { BrittleFractureAssessment, CorrodedAreaData, LocalizedCorrosionData } from "@shared/calculations";
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, paragraphs, passFail, text, type ReportBlock, type ReportSection } from "../content";
+import { remainingLifeChart } from "../charts";
+
+export const shellSection: ReportSection = {
+  id: "shell",
+  render({ report, template }) {
+    const shell = report.shellCalculations;
+    if (!shell?.courses?.length) return [];
+
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Calculation Mode", shell.mode],
+          ["Design Method", shell.appliedDesignMethod || shell.designMethod],
+          ["Construction Standard", shell.constructionStandard],
+          ["Fill Height (ft)", shell.fillHeight],
+          ["Specific Gravity", shell.specificGravity],
+          ["Joint Efficiency", shell.jointEfficiency],
+          ["Weld Type", shell.weldType],
+          ["Next Inspection Interval (yrs)", shell.nextInspectionInterval],
+          ["Max Fill Height (ft)", shell.maxFillHeight],
+          ["Max Hydrotest Height (ft)", shell.maxHydrotestHeight],
+          ["Governing Course", shell.governingCourse],
+        ]),
+      },
+      { type: "heading", text: "Shell Courses" },
+      {
+        type: "table",
+        head: ["Course", "Height (ft)", "Material", "Orig (in)", "Actual (in)", "t-min Product", "t-min Hydro", "Governs", "t-min (in)", "CR (mpy)", "RL (yrs)"],
+        rows: shell.courses.map((course) => [
+          text(course.courseNumber),
+          text(course.courseHeight),
+          text(course.material),
+          text(course.originalThickness),
+          text(course.actualThickness),
+          text(course.tMinProduct),
+          text(course.tMinHydrotest),
+          text(course.governingCase),
+          text(course.tMin),
+          text(course.corrosionRate),
+          text(course.remainingLife),
+        ]),
+      },
+    ];
+    const chart = remainingLifeChart(shell.courses, template.primaryColor);
+    if (chart) {
+      blocks.push({ type: "image", data: chart, width: 160, caption: "Remaining life of each shell course" });
+    }
+    blocks.push(...paragraphs(shell.notes));
+    return [{ title: reportSectionTitles.shell, blocks }];
+  },
+};
+
+export const localizedCorrosionSection: ReportSection = {
+  id: "localized-corrosion",
+  render({ report }) {
+    const localized: LocalizedCorrosionData | undefined = report.customFields?.localizedCorrosion;
+    if (!localized?.areas?.length) return [];
+
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Next Inspection Interval (yrs)", localized.nextInspectionInterval],
+          ["Governing Remaining Life (yrs)", localized.governingRemainingLife],
+        ]),
+      },
+      {
+        type: "table",
+        head: ["Area", "Course", "Location", "t2 (in)", "L (in)", "t1 (in)", "t-min (in)", "Governs", "RL (yrs)", "Result"],
+        rows: localized.areas.map((area: CorrodedAreaData) => [
+          area.areaId,
+          area.courseNumber,
+          text(area.location),
+          text(area.t2),
+          text(area.criticalLength),
+          text(area.t1),
+          text(area.tMin),
+          text(area.governingThickness),
+          text(area.remainingLife),
+          passFail(area.acceptable),
+        ]),
+      },
+    ];
+
+    const pits = localized.areas.flatMap((area: CorrodedAreaData) =>
+      area.pits.map((pit) => [area.areaId, pit.pitId, text(pit.location), text(pit.depth)])
+    );
+    if (pits.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Pitting (API 653 §4.3.2.2)" },
+        { type: "table", head: ["Area", "Pit", "Location", "Depth (in)"], rows: pits },
+      );
+    }
+    blocks.push(...paragraphs(localized.notes));
+    return [{ title: reportSectionTitles["localized-corrosion"], blocks }];
+  },
+};
+
+export const brittleFractureSection: ReportSection = {
+  id: "brittle-fracture",
+  render({ report }) {
+    const brittleFracture: BrittleFractureAssessment | undefined = report.customFields?.brittleFracture;
+    if (!brittleFracture?.steps) return [];
+
+    return [{
+      title: reportSectionTitles["brittle-fracture"],
+      blocks: [
+        {
+          type: "fields",
+          rows: filledFields([
+            ["Risk of Failure", brittleFracture.risk === "low" ? "Low" : "Requires evaluation"],
+            ["Exemption Curve Temperature (°F)", brittleFracture.exemptionTemperature],
+          ]),
+        },
+        {
+          type: "table",
+          head: ["Step", "Question", "Answer", "Detail"],
+          rows: brittleFracture.steps.map((step) => [
+            step.step,
+            step.question,
+            step.answer.toUpperCase(),
+            text(step.detail),
+          ]),
+        },
+        ...paragraphs(brittleFracture.conclusion),
+      ],
+    }];
+  },
+};
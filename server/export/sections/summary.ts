@@ -0,0 +1,27 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { paragraphs, type ReportBlock, type ReportSection } from "../content";
+
+export const executiveSummarySection: ReportSection = {
+  id: "executive-summary",
+  render({ report }) {
+    const blocks = paragraphs(report.writeup?.summary, report.reportWriteUp);
+    if (report.writeup?.conclusions?.trim()) {
+      blocks.push({ type: "heading", text: "Conclusions" }, ...paragraphs(report.writeup.conclusions));
+    }
+    return blocks.length > 0 ? [{ title: reportSectionTitles["executive-summary"], blocks }] : [];
+  },
+};
+
+export const findingsSection: ReportSection = {
+  id: "findings",
+  render({ report }) {
+    const blocks: ReportBlock[] = [];
+    const findings = paragraphs(report.writeup?.findings || report.findings);
+    const recommendations = paragraphs(report.writeup?.recommendations || report.recommendations);
+    const notes = paragraphs(report.notes);
+    if (findings.length > 0) blocks.push({ type: "heading", text: "Findings" }, ...findings);
+    if (recommendations.length > 0) blocks.push({ type: "heading", text: "Recommendations" }, ...recommendations);
+    if (notes.length > 0) blocks.push({ type: "heading", text: "Notes" }, ...notes);
+    return blocks.length > 0 ? [{ title: reportSectionTitles.findings, blocks }] : [];
+  },
+};
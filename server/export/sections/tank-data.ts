@@ -0,0 +1,37 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, type ReportBlock, type ReportSection } from "../content";
+
+export const tankDataSection: ReportSection = {
+  id: "tank-data",
+  render({ report, tank }) {
+    const blocks: ReportBlock[] = [
+      {
+        type: "fields",
+        rows: filledFields([
+          ["Report Number", report.reportNumber],
+          ["Tank ID", report.tankId],
+          ["Site", tank?.site],
+          ["Owner", tank?.owner],
+          ["Inspection Date", report.inspectionDate],
+          ["Nominal Diameter (ft)", report.nominalDiameter],
+          ["Shell Height (ft)", report.shellHeight],
+          ["Design Pressure", report.designPressure],
+          ["Original Thickness (in)", report.originalThickness],
+          ["Plate Specification", report.plateSpec],
+          ["Service", report.service],
+          ["Age (yrs)", report.age],
+          ["Unit Set", report.unitSet],
+        ]),
+      },
+    ];
+
+    // Base data fields are the plain strings in customFields; the rest are calculated sections
+    const additional = Object.entries(report.customFields || {})
+      .filter(([, value]) => typeof value === "string" && value.trim())
+      .map(([key, value]): [string, string] => [key.replace(/^field(\d+)$/, "Custom Field $1"), value]);
+    if (additional.length > 0) {
+      blocks.push({ type: "heading", text: "Additional Data" }, { type: "fields", rows: additional });
+    }
+    return [{ title: reportSectionTitles["tank-data"], blocks }];
+  },
+};
@@ -0,0 +1,103 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { filledFields, type ReportBlock, type ReportSection } from "../content";
+
+export const tankHistorySection: ReportSection = {
+  id: "tank-history",
+  render({ report }) {
+    const history = report.tankHistory;
+    if (!history) return [];
+
+    const groups: [string, [string, unknown][]][] = [
+      ["A. General Information", [
+        ["Inspection Date", history.inspectionDate],
+        ["Owner", history.owner],
+        ["Location", history.location],
+        ["Contact", history.contact],
+        ["Tank No.", history.tankNo],
+        ["Inspector", history.oilProInspector],
+        ["Region", history.region],
+        ["Inspection Type", history.inspectionType],
+        ["MSDS Available", history.hasMSDS],
+        ["Entry Permit Required", history.entryPermitRequired],
+        ["Hot Work Permit Required", history.hotWorkPermitRequired],
+        ["Photographs Allowed", history.photographsAllowed],
+        ["Lead Paint", history.hasLeadPaint],
+        ["Tank Cleaned", history.tankCleaned],
+      ]],
+      ["B. Tank History", [
+        ["Nameplate", history.namePlateInfo],
+        ["Original Manufacturer", history.originalManufacturer],
+        ["Year of Construction", history.yearOfConstruction],
+        ["Current Product", history.currentProduct],
+        ["Previous Products", history.previousProducts],
+        ["Previous Inspections", history.hasPreviousInspections],
+        ["Previous Inspection Year", history.previousInspectionYear],
+        ["Previous Reports Available", history.previousReportsAvailable],
+        ["Unusual Events", history.unusualEvents],
+        ["Unusual Events Description", history.unusualEventsDescription],
+        ["Repairs", history.hasRepairs],
+        ["Repairs Description", history.repairsDescription],
+        ["Drawings Available", history.drawingsAvailable],
+        ["Relocated", history.hasBeenRelocated],
+        ["Relocation Details", history.relocationDetails],
+        ["Major Modifications", history.hasMajorModifications],
+        ["Elevation Readings Available", history.elevationReadingsAvailable],
+        ["Hot Tapped", history.hasBeenHotTapped],
+      ]],
+      ["C. Design", [
+        ["Tank Diameter (ft)", history.tankDiameter],
+        ["Tank Height (ft)", history.tankHeight],
+        ["Max Liquid Level (ft)", history.maxLiquidLevel],
+        ["Specific Gravity", history.specificGravity],
+        ["Internal Pressure", history.internalPressure],
+        ["Operating Temperature", history.operatingTemp],
+        ["Design Metal Temperature", history.designMetalTemp],
+        ["Shell Material", history.shellMaterialSpec],
+        ["Anchored", history.isAnchored],
+        ["Stiffening Ring", history.hasStiffeningRing],
+        ["Construction Standard", history.constructionStandard],
+        ["Requires Rerate", history.requiresRerate],
+        ["Rerate Details", history.rerateDetails],
+        ["Hydrotested", history.hasBeenHydrotested],
+        ["Change of Service", history.hasChangeOfService],
+        ["Shell Type", history.shellType],
+        ["Rivets Sealed", history.rivetsSealed],
+        ["Seal Method", history.sealMethod],
+      ]],
+      ["D. Foundation", [
+        ["Base Kept Dry", history.baseKeptDry],
+        ["Foundation Type", history.foundationType === "other" ? history.foundationOther : history.foundationType],
+        ["Unusual Settlement", history.unusualSettlement],
+        ["Foundation Problems", history.foundationProblems],
+        ["Excessive Vegetation", history.excessiveVegetation],
+      ]],
+      ["E. Details", [
+        ["Cathodically Protected", history.cathodicallyProtected],
+        ["Leak Detection", history.hasLeakDetection],
+        ["Internally Lined", history.internallyLined],
+        ["Externally Insulated", history.externallyInsulated],
+        ["Bottom Type", history.bottomType],
+        ["Original Bottom Thickness (in)", history.originalBottomThickness],
+        ["Annular Ring", history.hasAnnularRing],
+        ["Annular Ring Size", history.annularRingSize],
+        ["Annular Ring Thickness (in)", history.annularRingThickness],
+        ["Bottom Plate Size", history.bottomPlateSize],
+        ["Bottom Coating", history.bottomCoatingType],
+        ["Bottom Design", history.bottomDesignType],
+      ]],
+      ["Roof", [
+        ["Tank Type", history.tankType],
+        ["Fixed Roof Type", history.fixedRoofType],
+        ["Floating Roof Type", history.floatingRoofType],
+        ["Roof Material", history.roofMaterial],
+      ]],
+    ];
+
+    const blocks: ReportBlock[] = [];
+    for (const [heading, rows] of groups) {
+      const fields = filledFields(rows);
+      if (fields.length > 0) blocks.push({ type: "heading", text: heading }, { type: "fields", rows: fields });
+    }
+    return blocks.length > 0 ? [{ title: reportSectionTitles["tank-history"], blocks }] : [];
+  },
+};
@@ -0,0 +1,53 @@
+import { reportSectionTitles } from "@shared/report-outline";
+import { text, type ReportBlock, type ReportSection } from "../content";
+import { corrosionRateChart } from "../charts";
+
+export const thicknessDataSection: ReportSection = {
+  id: "thickness-data",
+  render({ report, template }) {
+    const blocks: ReportBlock[] = [];
+
+    if (report.cmlRecords.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Component CML Records" },
+        {
+          type: "table",
+          head: ["CML", "Component", "Location", "Current (in)", "Previous (in)", "t-min (in)", "LT CR", "ST CR", "Reg CR", "Gov CR (mpy)", "Basis", "RL (yrs)"],
+          rows: report.cmlRecords.map((cml) => [
+            cml.cmlId,
+            cml.component,
+            cml.location,
+            text(cml.currentReading),
+            text(cml.previousReading),
+            text(cml.tMin),
+            text(cml.longTermRate),
+            text(cml.shortTermRate),
+            text(cml.regressionRate),
+            text(cml.corrosionRate),
+            text(cml.rateBasis),
+            text(cml.remainingLife),
+          ]),
+        },
+      );
+      const rates = report.cmlRecords
+        .filter((cml) => cml.corrosionRate !== null)
+        .map((cml) => Number(cml.corrosionRate));
+      const chart = corrosionRateChart(rates, template.primaryColor);
+      if (chart) {
+        blocks.push({ type: "image", data: chart, width: 160, caption: "Distribution of governing CML corrosion rates" });
+      }
+    }
+
+    if (report.practicalTmins.length > 0) {
+      blocks.push(
+        { type: "heading", text: "Practical Minimum Thickness" },
+        {
+          type: "table",
+          head: ["Component", "Size", "Practical t-min (in)"],
+          rows: report.practicalTmins.map((tmin) => [tmin.component, text(tmin.size), text(tmin.practicalTmin)]),
+        },
+      );
+    }
+    return blocks.length > 0 ? [{ title: reportSectionTitles["thickness-data"], blocks }] : [];
+  },
+};
@@ -0,0 +1,125 @@
+// One-time migration: moves calculation sections stored as JSON in reports.customFields
+// into their own tables and links existing reports to the tank registry.
+// Safe to run again; sections already in a table and linked reports are left alone.
+import { reports } from "@shared/schema";
+import {
+  shellCalculationSchema, roofCalculationSchema, floorMRTCalculationSchema, tankHistorySchema,
+  nozzleCmlDataSchema, settlementSurveySchema, tankDesignFromHistory
+} from "@shared/calculations";
+import type { z } from "zod";
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { storage } from "./storage";
+
+interface SectionMigration {
+  key: string;
+  schema: z.ZodTypeAny;
+  exists: (reportId: string) => Promise<unknown>;
+  save: (reportId: string, data: any) => Promise<unknown>;
+}
+
+const sections: SectionMigration[] = [
+  {
+    key: "shellCalculations",
+    schema: shellCalculationSchema,
+    exists: (reportId) => storage.getShellCalculation(reportId),
+    save: (reportId, data) => storage.saveShellCalculation(reportId, data),
+  },
+  {
+    key: "roofCalculations",
+    schema: roofCalculationSchema,
+    exists: (reportId) => storage.getRoofCalculation(reportId),
+    save: (reportId, data) => storage.saveRoofCalculation(reportId, data),
+  },
+  {
+    key: "floorMRTCalculations",
+    schema: floorMRTCalculationSchema,
+    exists: (reportId) => storage.getFloorCalculation(reportId),
+    save: (reportId, data) => storage.saveFloorCalculation(reportId, data),
+  },
+  {
+    key: "tankHistory",
+    schema: tankHistorySchema,
+    exists: (reportId) => storage.getTankHistory(reportId),
+    save: (reportId, data) => storage.saveTankHistory(reportId, data),
+  },
+  {
+    key: "nozzleCML",
+    schema: nozzleCmlDataSchema,
+    exists: (reportId) => storage.getNozzleCml(reportId),
+    save: (reportId, data) => storage.saveNozzleCml(reportId, data),
+  },
+  {
+    key: "settlementSurvey",
+    schema: settlementSurveySchema,
+    exists: (reportId) => storage.getSettlementSurvey(reportId),
+    save: (reportId, data) => storage.saveSettlementSurvey(reportId, data),
+  },
+];
+
+async function migrateSections() {
+  const allReports = await db.select().from(reports);
+  let moved = 0;
+  let skipped = 0;
+
+  for (const report of allReports) {
+    const customFields: Record<string, any> = { ...(report.customFields || {}) };
+    let changed = false;
+
+    for (const section of sections) {
+      const data = customFields[section.key];
+      if (data === undefined || data === null) continue;
+
+      if (!(await section.exists(report.id))) {
+        // Older saves predate the report id on nested sections
+        const parsed = section.schema.safeParse(
+          typeof data === "object" ? { reportId: report.id, ...data } : data
+        );
+        if (!parsed.success) {
+          console.warn(`[migrate] ${report.reportNumber}: ${section.key} left in customFields:`, parsed.error.errors[0]?.message);
+          skipped++;
+          continue;
+        }
+        await section.save(report.id, parsed.data);
+        moved++;
+      }
+
+      delete customFields[section.key];
+      changed = true;
+    }
+
+    if (changed) {
+      await storage.replaceReportCustomFields(report.id, customFields);
+    }
+  }
+
+  console.log(`[migrate] ${moved} sections moved, ${skipped} skipped across ${allReports.length} reports`);
+}
+
+async function linkReportsToTanks() {
+  // Oldest first, so the most recent tank history sets the tank's design data
+  const allReports = await db.select().from(reports).orderBy(sql`${reports.inspectionDate} asc nulls first`);
+  let linked = 0;
+
+  for (const report of allReports) {
+    if (report.tankAssetId) continue;
+    const tank = await storage.getOrCreateTank(report.ownerId, report.tankId);
+    await storage.moveReportToTank(report.id, tank.id);
+
+    const tankHistory = await storage.getTankHistory(report.id);
+    if (tankHistory) {
+      await storage.updateTank(tank.id, tankDesignFromHistory(tankHistory));
+    }
+    linked++;
+  }
+
+  console.log(`[migrate] ${linked} reports linked to tanks`);
+}
+
+migrateSections()
+  .then(linkReportsToTanks)
+  .catch((error) => {
+    console.error("[migrate] Failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
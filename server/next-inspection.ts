@@ -0,0 +1,233 @@
+// Starts a tank's next inspection from its previous report. The layout of the tank is
+// copied (base data, tank history, shell courses, CML and nozzle locations, settlement
+// points, appendices); last time's current readings become this time's previous readings
+// and everything measured is cleared for the new survey.
+import { insertReportSchema, type Report } from "@shared/schema";
+import {
+  tankDesignFromHistory, yearsBetweenDates, addYears, toNumber,
+  type ShellCalculationData, type NozzleCMLData, type SettlementSurveyData, type TankHistoryData
+} from "@shared/calculations";
+import { storage } from "./storage";
+import { withTransaction } from "./db";
+
+export interface NextInspectionData {
+  reportNumber: string;
+  inspectionDate?: Date;
+  ownerId: string;
+}
+
+function isoDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().split("T")[0] : "";
+}
+
+// A course's age is the years since its original thickness, so it grows by the time between inspections
+function nextShellCalculation(previous: ShellCalculationData, elapsedYears: number): ShellCalculationData {
+  return {
+    fillHeight: previous.fillHeight,
+    specificGravity: previous.specificGravity,
+    jointEfficiency: previous.jointEfficiency,
+    constructionStandard: previous.constructionStandard,
+    weldType: previous.weldType,
+    designMethod: previous.designMethod,
+    mode: previous.mode,
+    nextInspectionInterval: previous.nextInspectionInterval,
+    courses: previous.courses.map((course) => ({
+      courseNumber: course.courseNumber,
+      courseHeight: course.courseHeight,
+      material: course.material,
+      stressValue: course.stressValue,
+      hydrotestStress: course.hydrotestStress,
+      alternateStress: course.alternateStress,
+      originalThickness: course.originalThickness,
+      alternateTmin: course.alternateTmin,
+      age: course.age ? String(toNumber(course.age) + elapsedYears) : course.age,
+    })),
+  };
+}
+
+function nextNozzleCml(previous: NozzleCMLData, reportId: string, inspectionDate: string): NozzleCMLData {
+  return {
+    reportId,
+    inspectionDate,
+    previousInspectionDate: previous.inspectionDate,
+    inspectorName: "",
+    ndeCompany: previous.ndeCompany,
+    records: previous.records.map((record) => ({
+      ...record,
+      previousThickness: record.currentThickness || record.previousThickness,
+      currentThickness: 0,
+      corrosionRate: 0,
+      remainingLife: 0,
+      nextInspectionDate: "",
+      notes: "",
+    })),
+  };
+}
+
+function nextSettlementSurvey(previous: SettlementSurveyData, reportId: string, surveyDate: string): SettlementSurveyData {
+  return {
+    reportId,
+    surveyDate,
+    previousSurveyDate: previous.surveyDate,
+    datum: previous.datum,
+    numberOfPoints: previous.numberOfPoints,
+    elevationPoints: previous.elevationPoints.map((point) => ({
+      id: point.id,
+      position: point.position,
+      previousElevation: point.currentElevation,
+      currentElevation: 0,
+      settlement: 0,
+    })),
+    edgeSettlements: [],
+    maxSettlement: 0,
+    minSettlement: 0,
+    differentialSettlement: 0,
+    tiltPercentage: 0,
+    planarTilt: 0,
+    uniformSettlement: 0,
+    outOfPlaneSettlement: 0,
+    notes: "",
+  };
+}
+
+function nextTankHistory(previous: TankHistoryData, previousReport: Report, inspectionDate: string): TankHistoryData {
+  return {
+    ...previous,
+    inspectionDate,
+    hasPreviousInspections: "yes",
+    previousInspectionYear: previousReport.inspectionDate
+      ? String(previousReport.inspectionDate.getFullYear())
+      : previous.previousInspectionYear,
+    previousReportsAvailable: true,
+  };
+}
+
+// Built in one transaction, so a failure partway leaves no half-copied report behind
+export async function createNextInspection(previous: Report, data: NextInspectionData): Promise<Report> {
+  return await withTransaction(() => copyReport(previous, data));
+}
+
+async function copyReport(previous: Report, data: NextInspectionData): Promise<Report> {
+  const elapsedYears = previous.inspectionDate && data.inspectionDate
+    ? Math.round(yearsBetweenDates(previous.inspectionDate, data.inspectionDate))
+    : 0;
+  const inspectionDate = isoDate(data.inspectionDate);
+
+  // Base data fields are the only plain strings in customFields; the rest are calculated sections
+  const customFields = Object.fromEntries(
+    Object.entries(previous.customFields || {}).filter(([, value]) => typeof value === "string")
+  );
+
+  const report = await storage.createReport(insertReportSchema.parse({
+    reportNumber: data.reportNumber,
+    inspectionDate: data.inspectionDate,
+    ownerId: data.ownerId,
+    tankId: previous.tankId,
+    tankAssetId: previous.tankAssetId,
+    organizationId: previous.organizationId,
+    clientOrganizationId: previous.clientOrganizationId,
+    unitSet: previous.unitSet,
+    nominalDiameter: previous.nominalDiameter,
+    shellHeight: previous.shellHeight,
+    designPressure: previous.designPressure,
+    originalThickness: previous.originalThickness,
+    plateSpec: previous.plateSpec,
+    service: previous.service,
+    age: previous.age !== null ? previous.age + elapsedYears : null,
+    inspectorName: previous.inspectorName,
+    inspectorRecord: previous.inspectorRecord,
+    inspectorCertification: previous.inspectorCertification,
+    coverText: previous.coverText,
+    customFields,
+    logoUrl: previous.logoUrl,
+    signatureUrl: previous.signatureUrl,
+  }));
+
+  const [tank, tankHistory, shellCalcs, nozzleCml, settlement, appendices, practicalTmins, cmlRecords] = await Promise.all([
+    previous.tankAssetId ? storage.getTank(previous.tankAssetId) : undefined,
+    storage.getTankHistory(previous.id),
+    storage.getShellCalculation(previous.id),
+    storage.getNozzleCml(previous.id),
+    storage.getSettlementSurvey(previous.id),
+    storage.getReportAppendices(previous.id),
+    storage.getReportPracticalTmins(previous.id),
+    storage.getReportCmlRecords(previous.id),
+  ]);
+
+  if (tankHistory || tank) {
+    // The registry holds the latest design data, which may have been edited since the last report
+    await storage.saveTankHistory(report.id, {
+      ...(tankHistory ? nextTankHistory(tankHistory, previous, inspectionDate) : { inspectionDate, tankNo: previous.tankId }),
+      ...(tank ? tankDesignFromHistory(tank) : {}),
+    });
+  }
+  if (shellCalcs) {
+    await storage.saveShellCalculation(report.id, nextShellCalculation(shellCalcs, elapsedYears));
+  }
+  if (nozzleCml) {
+    await storage.saveNozzleCml(report.id, nextNozzleCml(nozzleCml, report.id, inspectionDate));
+  }
+  if (settlement) {
+    await storage.saveSettlementSurvey(report.id, nextSettlementSurvey(settlement, report.id, inspectionDate));
+  }
+
+  for (const appendix of appendices) {
+    await storage.createAppendix({
+      reportId: report.id,
+      appendixLetter: appendix.appendixLetter,
+      isApplicable: appendix.isApplicable,
+      subject: appendix.subject,
+      content: appendix.content,
+      order: appendix.order,
+    });
+  }
+  for (const practicalTmin of practicalTmins) {
+    await storage.createPracticalTmin({
+      reportId: report.id,
+      component: practicalTmin.component,
+      size: practicalTmin.size,
+      practicalTmin: practicalTmin.practicalTmin,
+    });
+  }
+
+  for (const cml of cmlRecords) {
+    const previousReading = cml.currentReading ?? cml.previousReading;
+    const created = await storage.createCmlRecord({
+      reportId: report.id,
+      cmlId: cml.cmlId,
+      component: cml.component,
+      location: cml.location,
+      tMin: cml.tMin,
+      previousReading,
+    });
+
+    // The reading history moves forward with the CML, gaining last time's current reading
+    const readings = await storage.getCmlReadings(cml.id);
+    if (readings.length === 0 && previous.inspectionDate && previous.originalThickness && previous.age) {
+      await storage.createCmlReading({
+        cmlRecordId: created.id,
+        readingDate: new Date(addYears(previous.inspectionDate, -previous.age)),
+        thickness: toNumber(previous.originalThickness).toFixed(3),
+        source: "Nominal",
+      });
+    }
+    for (const reading of readings) {
+      await storage.createCmlReading({
+        cmlRecordId: created.id,
+        readingDate: reading.readingDate,
+        thickness: reading.thickness,
+        source: reading.source,
+      });
+    }
+    if (cml.currentReading && previous.inspectionDate) {
+      await storage.createCmlReading({
+        cmlRecordId: created.id,
+        readingDate: previous.inspectionDate,
+        thickness: cml.currentReading,
+        source: previous.reportNumber,
+      });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,320 @@
+// Report revision log. Routes that change a report are wrapped with trackRevisions, which
+// snapshots the sections the route touches before it runs and records every section that
+// changed in the same transaction as the change itself. A report's state at any revision can be rebuilt from the
+// log, which is what the diff and restore endpoints work from.
+import type { Request, RequestHandler } from "express";
+import type { ReportRevision } from "@shared/schema";
+import { reportWorkflowFields } from "@shared/workflow";
+import { storage, type CmlRecordSnapshot } from "./storage";
+import { withTransaction } from "./db";
+
+export const revisionSections = [
+  "report",
+  "tankHistory",
+  "shellCalculations",
+  "localizedCorrosion",
+  "roofCalculations",
+  "floatingRoof",
+  "floorMRTCalculations",
+  "settlementSurvey",
+  "nozzleCML",
+  "nozzleCmlRecords",
+  "cmlRecords",
+  "practicalTmins",
+  "appendices",
+  "writeup",
+  "inspectionIntervals",
+  "brittleFracture",
+  "attachments",
+] as const;
+
+export type RevisionSection = (typeof revisionSections)[number];
+
+export interface RevisionChange {
+  section: RevisionSection;
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface SectionAccess {
+  read: (reportId: string) => Promise<unknown>;
+  restore: (reportId: string, data: any) => Promise<unknown>;
+}
+
+// Row ids, owners and timestamps change on every save and are not part of what the report says
+function rowFields<T extends Record<string, any>>(row: T, ...omit: string[]): Record<string, any> {
+  const skipped = ["id", "reportId", "createdAt", "updatedAt", ...omit];
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !skipped.includes(key)));
+}
+
+function customFieldSection(key: RevisionSection): SectionAccess {
+  return {
+    read: async (reportId) => (await storage.getReport(reportId))?.customFields?.[key] ?? null,
+    restore: (reportId, data) => storage.saveReportSection(reportId, key, data),
+  };
+}
+
+const sectionAccess: Record<RevisionSection, SectionAccess> = {
+  report: {
+    read: async (reportId) => {
+      const report = await storage.getReport(reportId);
+      if (!report) return null;
+      // Status and sign-off belong to the workflow and are not restored with the report
+      const { customFields, ...fields } = rowFields(report, "ownerId", ...reportWorkflowFields);
+      // Base data fields are the plain strings in customFields; the rest are tracked as their own sections
+      return {
+        ...fields,
+        customFields: Object.fromEntries(
+          Object.entries(customFields || {}).filter(([, value]) => typeof value === "string")
+        ),
+      };
+    },
+    restore: async (reportId, data) => {
+      const report = await storage.getReport(reportId);
+      const sections = Object.fromEntries(
+        Object.entries(report?.customFields || {}).filter(([, value]) => typeof value !== "string")
+      );
+      const { customFields, ...fields } = data;
+      await storage.updateReport(reportId, fields);
+      return storage.replaceReportCustomFields(reportId, { ...customFields, ...sections });
+    },
+  },
+  tankHistory: {
+    read: async (reportId) => (await storage.getTankHistory(reportId)) ?? null,
+    restore: (reportId, data) => storage.saveTankHistory(reportId, data),
+  },
+  shellCalculations: {
+    read: async (reportId) => (await storage.getShellCalculation(reportId)) ?? null,
+    restore: (reportId, data) => storage.saveShellCalculation(reportId, data),
+  },
+  roofCalculations: {
+    read: async (reportId) => (await storage.getRoofCalculation(reportId)) ?? null,
+    restore: (reportId, data) => storage.saveRoofCalculation(reportId, data),
+  },
+  floorMRTCalculations: {
+    read: async (reportId) => (await storage.getFloorCalculation(reportId)) ?? null,
+    restore: (reportId, data) => storage.saveFloorCalculation(reportId, data),
+  },
+  settlementSurvey: {
+    read: async (reportId) => {
+      const survey = await storage.getSettlementSurvey(reportId);
+      return survey ? rowFields(survey) : null;
+    },
+    restore: (reportId, data) => storage.saveSettlementSurvey(reportId, { ...data, reportId }),
+  },
+  nozzleCML: {
+    read: async (reportId) => {
+      const nozzleCml = await storage.getNozzleCml(reportId);
+      return nozzleCml ? rowFields(nozzleCml) : null;
+    },
+    restore: (reportId, data) => storage.saveNozzleCml(reportId, { ...data, reportId }),
+  },
+  nozzleCmlRecords: {
+    read: async (reportId) => (await storage.getReportNozzleCmlRecords(reportId)).map((row) => rowFields(row)),
+    restore: (reportId, rows) => storage.replaceNozzleCmlRecords(reportId, rows),
+  },
+  cmlRecords: {
+    read: async (reportId) => {
+      const records = await storage.getReportCmlRecords(reportId);
+      return Promise.all(records
+        .sort((a, b) => a.cmlId.localeCompare(b.cmlId))
+        .map(async (record) => ({
+          ...rowFields(record),
+          readings: (await storage.getCmlReadings(record.id)).map((reading) => rowFields(reading, "cmlRecordId")),
+        })));
+    },
+    restore: (reportId, records: CmlRecordSnapshot[]) => storage.replaceCmlRecords(reportId, records.map((record) => ({
+      ...record,
+      readings: record.readings.map((reading) => ({ ...reading, readingDate: new Date(reading.readingDate) })),
+    }))),
+  },
+  practicalTmins: {
+    read: async (reportId) => (await storage.getReportPracticalTmins(reportId)).map((row) => rowFields(row)),
+    restore: (reportId, rows) => storage.replacePracticalTmins(reportId, rows),
+  },
+  appendices: {
+    read: async (reportId) => (await storage.getReportAppendices(reportId))
+      .map((row) => rowFields(row))
+      .sort((a, b) => a.order - b.order),
+    restore: (reportId, rows) => storage.replaceAppendices(reportId, rows),
+  },
+  writeup: {
+    read: async (reportId) => {
+      const writeup = await storage.getReportWriteup(reportId);
+      return writeup ? rowFields(writeup) : null;
+    },
+    restore: (reportId, data) => storage.createOrUpdateWriteup({ ...data, reportId }),
+  },
+  // Captions, numbering, links and annotations; the files themselves are not versioned
+  attachments: {
+    read: async (reportId) => (await storage.getReportAttachments(reportId))
+      .map(({ id, fileName, kind, caption, photoNumber, linkType, linkRef, annotations }) =>
+        ({ id, fileName, kind, caption, photoNumber, linkType, linkRef, annotations })),
+    restore: (reportId, rows) => storage.restoreAttachmentDetails(reportId, rows.map(
+      ({ id, kind, caption, photoNumber, linkType, linkRef, annotations }: any) =>
+        ({ id, kind, caption, photoNumber, linkType, linkRef, annotations })
+    )),
+  },
+  localizedCorrosion: customFieldSection("localizedCorrosion"),
+  floatingRoof: customFieldSection("floatingRoof"),
+  inspectionIntervals: customFieldSection("inspectionIntervals"),
+  brittleFracture: customFieldSection("brittleFracture"),
+};
+
+// Snapshots are compared and stored as JSON, so dates become strings on both sides
+async function readSection(reportId: string, section: RevisionSection): Promise<any> {
+  return JSON.parse(JSON.stringify(await sectionAccess[section].read(reportId)));
+}
+
+async function recordChanges(
+  reportId: string,
+  changedBy: string | undefined,
+  before: Map<RevisionSection, any>,
+  details: { action?: string; note?: string } = {},
+): Promise<void> {
+  // One revision per changed section, written in order so the numbers follow the changes
+  for (const [section, previous] of Array.from(before)) {
+    const current = await readSection(reportId, section);
+    if (JSON.stringify(previous) === JSON.stringify(current)) continue;
+    await storage.createReportRevision({
+      reportId,
+      section,
+      action: details.action ?? "update",
+      note: details.note,
+      changedBy,
+      before: previous,
+      after: current,
+    });
+  }
+}
+
+export type ReportResolver = (req: Request) => Promise<string | undefined> | string | undefined;
+
+export const reportFromParams: ReportResolver = (req) => req.params.reportId ?? req.params.id;
+export const reportFromBody: ReportResolver = (req) => req.body?.reportId;
+
+// Thrown to roll back the change of a route that answered with an error
+class RouteFailed extends Error {}
+
+// The route runs inside a transaction that holds the report's revision lock. Its response is
+// held back until the revisions are written and the transaction has committed, so a change is
+// never kept without its revisions; one that answers with an error is rolled back.
+export function trackRevisions(sections: RevisionSection[], resolveReport: ReportResolver = reportFromParams): RequestHandler {
+  return async (req, res, next) => {
+    const send = res.send.bind(res);
+    let body: unknown;
+    try {
+      const reportId = await resolveReport(req);
+      if (!reportId) return next();
+
+      await withTransaction(async () => {
+        await storage.lockReportRevisions(reportId);
+        const before = new Map<RevisionSection, any>();
+        for (const section of sections) {
+          before.set(section, await readSection(reportId, section));
+        }
+
+        await new Promise<void>((resolve) => {
+          res.send = (data?: unknown) => {
+            body = data;
+            resolve();
+            return res;
+          };
+          next();
+        });
+        if (res.statusCode >= 400) throw new RouteFailed();
+        await recordChanges(reportId, req.user?.claims.sub, before);
+      });
+    } catch (error) {
+      if (!(error instanceof RouteFailed)) {
+        console.error("Error recording report revision:", error);
+        res.send = send;
+        return res.status(500).json({ error: "Failed to record report revision" });
+      }
+    }
+    res.send = send;
+    send(body);
+  };
+}
+
+// A section's state at revision n is the result of its last change up to n, or, if it
+// was first changed after n, what it held before that change
+function sectionStateAt(log: ReportRevision[], section: string, revision: number): unknown {
+  const changes = log.filter((entry) => entry.section === section);
+  const last = changes.filter((entry) => entry.revision <= revision).at(-1);
+  if (last) return last.after;
+  return changes.find((entry) => entry.revision > revision)?.before ?? null;
+}
+
+function loggedSections(log: ReportRevision[]): RevisionSection[] {
+  return revisionSections.filter((section) => log.some((entry) => entry.section === section));
+}
+
+// Rows are keyed by their identifying field where they have one, so a diff follows a CML or
+// shell course rather than its position in the list
+const rowKeys = ["cmlId", "courseNumber", "appendixLetter", "id"];
+
+function flatten(value: unknown, path: string, fields: Map<string, unknown>): Map<string, unknown> {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const key = item && typeof item === "object"
+        ? rowKeys.find((field) => item[field] !== undefined && item[field] !== null)
+        : undefined;
+      flatten(item, `${path}[${key ? `${key}=${item[key]}` : index}]`, fields);
+    });
+  } else if (value && typeof value === "object") {
+    for (const [key, field] of Object.entries(value)) {
+      flatten(field, path ? `${path}.${key}` : key, fields);
+    }
+  } else {
+    fields.set(path, value);
+  }
+  return fields;
+}
+
+export function diffSection(section: RevisionSection, before: unknown, after: unknown): RevisionChange[] {
+  const beforeFields = flatten(before, "", new Map());
+  const afterFields = flatten(after, "", new Map());
+  const paths = Array.from(new Set([...Array.from(beforeFields.keys()), ...Array.from(afterFields.keys())]));
+  return paths
+    .filter((path) => (beforeFields.get(path) ?? null) !== (afterFields.get(path) ?? null))
+    .map((path) => ({
+      section,
+      path,
+      before: beforeFields.get(path) ?? null,
+      after: afterFields.get(path) ?? null,
+    }));
+}
+
+// Revision 0 is the report as it was before the first logged change
+export async function diffRevisions(reportId: string, from: number, to: number): Promise<RevisionChange[]> {
+  const log = await storage.getReportRevisionLog(reportId);
+  return loggedSections(log).flatMap((section) =>
+    diffSection(section, sectionStateAt(log, section, from), sectionStateAt(log, section, to))
+  );
+}
+
+// Restoring is itself logged, so the log stays append-only. Sections that did not exist
+// yet at the chosen revision are left as they are.
+export async function restoreRevision(reportId: string, revision: number, changedBy: string | undefined): Promise<void> {
+  await withTransaction(async () => {
+    await storage.lockReportRevisions(reportId);
+    await restoreSections(reportId, revision, changedBy);
+  });
+}
+
+async function restoreSections(reportId: string, revision: number, changedBy: string | undefined): Promise<void> {
+  const log = await storage.getReportRevisionLog(reportId);
+  const before = new Map<RevisionSection, any>();
+
+  for (const section of loggedSections(log)) {
+    const target = sectionStateAt(log, section, revision);
+    const current = await readSection(reportId, section);
+    if (target === null || JSON.stringify(target) === JSON.stringify(current)) continue;
+    before.set(section, current);
+    await sectionAccess[section].restore(reportId, target);
+  }
+
+  await recordChanges(reportId, changedBy, before, { action: "restore", note: `Restored revision ${revision}` });
+}
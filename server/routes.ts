@@ -1,13 +1,174 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { createNextInspection } from "./next-inspection";
+import { trackRevisions, reportFromBody, diffRevisions, restoreRevision } from "./revisions";
+import { transitionReport } from "./workflow";
+import { authorizeReport, authorizeTank, getReportAccess, type ReportAccess } from "./access";
+import { setupAuth, isAuthenticated, authProviderName, sessionUserId } from "./auth";
+import { loadExportContext, reportContent, renderReportPdf, renderReportDocx, resolveReportTemplate } from "./export";
+import { fileStore, storeUpload, removeAttachmentFiles, templateLogo } from "./attachments";
 import { 
   insertReportSchema, insertAppendixSchema, insertCmlRecordSchema, 
-  insertNozzleCmlRecordSchema, insertPracticalTminSchema, insertWriteupSchema 
+  insertNozzleCmlRecordSchema, insertPracticalTminSchema, insertWriteupSchema, insertTankSchema,
+  insertCmlReadingSchema, insertOrganizationSchema, insertReportTemplateSchema, updateAttachmentSchema, updateReportSchema,
+  updateAppendixSchema, updateCmlRecordSchema, updatePracticalTminSchema,
+  type Report, type CmlRecord, type Tank
 } from "@shared/schema";
+import {
+  shellCalculationSchema, roofCalculationSchema, floorMRTCalculationSchema, nozzleCmlDataSchema,
+  calculateShellCourses, calculateRoof, calculateFloorMRT, calculateNozzleMetrics, nozzleTminContext, DEFAULT_TANK_DIAMETER,
+  exceedsAllowedFillHeight, localizedCorrosionSchema, calculateLocalizedCorrosion, calculateInspectionIntervals,
+  assessBrittleFracture, shellInputsForBrittleFracture, toNumber, settlementSurveySchema,
+  calculateSettlementSurvey, settlementTankParams, type SettlementSurveyData, floatingRoofSchema,
+  calculateFloatingRoof, tankHistorySchema, tankDesignFromHistory, type InspectionIntervals,
+  calculateCmlRates, componentCmlTmin, addYears, applyLocalizedCorrosion, type DatedThickness,
+  type ShellCalculationData, type LocalizedCorrosionData
+} from "@shared/calculations";
+import { transitionActions } from "@shared/workflow";
+import { userRoles, grantableRoles, organizationTypes, reportPermits } from "@shared/access";
+import { attachmentKinds, isImageType, MAX_ATTACHMENT_SIZE } from "@shared/attachments";
 import { z } from "zod";
 
+// Inspection intervals depend on the shell, localized corrosion, bottom and tank history
+// sections, so they are recalculated whenever one of those is saved
+async function refreshInspectionIntervals(report: Report): Promise<InspectionIntervals> {
+  const [current, shellCalcs, floor, tankHistory] = await Promise.all([
+    storage.getReport(report.id),
+    storage.getShellCalculation(report.id),
+    storage.getFloorCalculation(report.id),
+    storage.getTankHistory(report.id),
+  ]);
+  const inspectionIntervals = calculateInspectionIntervals({
+    inspectionDate: report.inspectionDate,
+    shellCourses: shellCalcs?.courses || [],
+    floor,
+    localizedCorrosion: current?.customFields?.localizedCorrosion,
+    tankHistory,
+  });
+  await storage.saveReportSection(report.id, "inspectionIntervals", inspectionIntervals);
+  return inspectionIntervals;
+}
+
+// Corroded areas are judged against their course's tMin and corrosion rate, and the worst
+// area in turn limits the course's remaining life, so both are recalculated together.
+// Browser-posted tMin, corrosion rates and remaining lives are never trusted.
+async function saveShellAndLocalizedCorrosion(
+  report: Report,
+  shell: ShellCalculationData | undefined,
+  localized: LocalizedCorrosionData | undefined,
+): Promise<{ shellCalcs?: ShellCalculationData; localizedData?: LocalizedCorrosionData }> {
+  const tankDiameter = report.nominalDiameter ? parseFloat(report.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+  const calculated = shell ? calculateShellCourses(shell, tankDiameter) : undefined;
+  const localizedData = localized?.areas
+    ? calculateLocalizedCorrosion(localized, calculated?.courses || [], tankDiameter)
+    : undefined;
+  if (localizedData) {
+    await storage.saveReportSection(report.id, "localizedCorrosion", localizedData);
+  }
+  const shellCalcs = calculated && { ...calculated, courses: applyLocalizedCorrosion(calculated.courses, localizedData) };
+  if (shellCalcs) {
+    await storage.saveShellCalculation(report.id, shellCalcs);
+  }
+  return { shellCalcs, localizedData };
+}
+
+// Settlement is judged against the report's real diameter, height and shell material
+async function evaluateSettlementSurvey(report: Report, body: unknown): Promise<SettlementSurveyData> {
+  const shellCalcs = await storage.getShellCalculation(report.id);
+  return calculateSettlementSurvey(
+    settlementSurveySchema.parse(body),
+    settlementTankParams(report, shellCalcs?.courses || [])
+  );
+}
+
+// Routes addressed by a row id find the report the row belongs to before recording a revision
+const cmlRecordReport = async (req: Request) => (await storage.getCmlRecord(req.params.id))?.reportId;
+const appendixReport = async (req: Request) => (await storage.getAppendix(req.params.id))?.reportId;
+const practicalTminReport = async (req: Request) => (await storage.getPracticalTmin(req.params.id))?.reportId;
+
+// One file per request, in the "file" field of a multipart form, held in memory until stored
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ATTACHMENT_SIZE } });
+const uploadFile: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Files can be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`
+        : error.message;
+      return res.status(400).json({ error: message });
+    }
+    next(error);
+  });
+};
+
+// A report's inspection company must be one the user works for, not one they are a client viewer of
+async function canAssignOrganization(organizationId: string | null | undefined, userId: string): Promise<boolean> {
+  if (!organizationId) return true;
+  const [organization, membership] = await Promise.all([
+    storage.getOrganization(organizationId),
+    storage.getOrganizationMember(organizationId, userId),
+  ]);
+  return organization?.type === "inspection_company" && !!membership && membership.role !== "client_viewer";
+}
+
+// Starting the next inspection makes a new draft in the previous report's organizations, so
+// the caller's role must allow editing the report (issued or not) and preparing reports there
+async function nextInspectionRefusal(previous: Report, userId: string): Promise<string | undefined> {
+  const access = await getReportAccess(previous, userId);
+  if (!reportPermits("edit", access.role, access.isOwner, false)) {
+    return "Your role on the previous report does not allow you to start the next inspection";
+  }
+  if (!(await canAssignOrganization(previous.organizationId, userId))) {
+    return "Reports can only be prepared for an inspection company you work for";
+  }
+  return undefined;
+}
+
+// Component CML rates come from the dated reading history plus the current reading,
+// so they are recalculated whenever either one changes
+async function refreshCmlRates(cml: CmlRecord): Promise<CmlRecord> {
+  const [report, readings, practicalTmins] = await Promise.all([
+    storage.getReport(cml.reportId),
+    storage.getCmlReadings(cml.id),
+    storage.getReportPracticalTmins(cml.reportId),
+  ]);
+  const history: DatedThickness[] = readings.map((reading) => ({ date: reading.readingDate, thickness: toNumber(reading.thickness) }));
+  const inspectionDate = report?.inspectionDate ?? new Date();
+  // Without a recorded history the report's original thickness and age stand in as the baseline
+  if (history.length === 0 && report?.originalThickness && report.age) {
+    history.push({ date: addYears(inspectionDate, -report.age), thickness: toNumber(report.originalThickness) });
+  }
+  const currentReading = toNumber(cml.currentReading);
+  const previousReading = readings.length > 0 ? readings[readings.length - 1].thickness : cml.previousReading;
+
+  if (currentReading <= 0) {
+    return storage.updateCmlRecord(cml.id, {
+      previousReading,
+      longTermRate: null,
+      shortTermRate: null,
+      regressionRate: null,
+      rateBasis: null,
+      corrosionRate: null,
+      remainingLife: null,
+    });
+  }
+
+  const rates = calculateCmlRates(
+    [...history, { date: inspectionDate, thickness: currentReading }],
+    componentCmlTmin(cml, practicalTmins)
+  );
+  return storage.updateCmlRecord(cml.id, {
+    previousReading,
+    longTermRate: rates.longTermRate?.toString() ?? null,
+    shortTermRate: rates.shortTermRate?.toString() ?? null,
+    regressionRate: rates.regressionRate?.toString() ?? null,
+    rateBasis: rates.rateBasis ?? null,
+    corrosionRate: rates.corrosionRate.toString(),
+    remainingLife: rates.remainingLife.toString(),
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint
   app.get('/api/health', (req, res) => {
@@ -17,8 +178,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       environment: process.env.NODE_ENV || 'unknown',
       hasDatabase: !!process.env.DATABASE_URL,
       hasSessionSecret: !!process.env.SESSION_SECRET,
-      hasReplId: !!process.env.REPL_ID,
-      hasDomains: !!process.env.REPLIT_DOMAINS,
+      authProvider: authProviderName(),
     });
   });
 
@@ -26,9 +186,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await setupAuth(app);
 
   // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+  app.get('/api/auth/user', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = sessionUserId(req);
       const user = await storage.getUser(userId);
       res.json(user);
     } catch (error) {
@@ -37,10 +197,354 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organization routes; members with the admin role manage the membership
+  app.get("/api/organizations", isAuthenticated, async (req, res) => {
+    try {
+      const organizations = await storage.getUserOrganizations(sessionUserId(req));
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ error: "Failed to fetch organizations" });
+    }
+  });
+
+  app.post("/api/organizations", isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertOrganizationSchema.extend({ type: z.enum(organizationTypes) }).parse(req.body);
+      const organization = await storage.createOrganization(validatedData, sessionUserId(req));
+      res.status(201).json(organization);
+    } catch (error) {
+      console.error("Error creating organization:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create organization" });
+    }
+  });
+
+  app.get("/api/organizations/:id/members", isAuthenticated, async (req, res) => {
+    try {
+      const membership = await storage.getOrganizationMember(req.params.id, sessionUserId(req));
+      if (!membership) {
+        return res.status(403).json({ error: "You are not a member of this organization" });
+      }
+      const members = await storage.getOrganizationMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching organization members:", error);
+      res.status(500).json({ error: "Failed to fetch organization members" });
+    }
+  });
+
+  app.post("/api/organizations/:id/members", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage members" });
+      }
+      const { email, role } = z.object({ email: z.string().email(), role: z.enum(userRoles) }).parse(req.body);
+      // Members must have signed in once so that their account exists
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ error: `No user has signed in as ${email}` });
+      }
+      const member = await storage.addOrganizationMember({ organizationId: id, userId: user.id, role });
+      res.status(201).json(member);
+    } catch (error) {
+      console.error("Error adding organization member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add organization member" });
+    }
+  });
+
+  app.put("/api/organizations/:id/members/:userId", isAuthenticated, async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage members" });
+      }
+      const { role } = z.object({ role: z.enum(userRoles) }).parse(req.body);
+      const member = await storage.updateOrganizationMemberRole(id, userId, role);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error updating organization member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update organization member" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/members/:userId", isAuthenticated, async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage members" });
+      }
+      await storage.removeOrganizationMember(id, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing organization member:", error);
+      res.status(500).json({ error: "Failed to remove organization member" });
+    }
+  });
+
+  // Report template routes; any member may list them for export, admins edit them
+  app.get("/api/organizations/:id/templates", isAuthenticated, async (req, res) => {
+    try {
+      const membership = await storage.getOrganizationMember(req.params.id, sessionUserId(req));
+      if (!membership) {
+        return res.status(403).json({ error: "You are not a member of this organization" });
+      }
+      const templates = await storage.getOrganizationTemplates(req.params.id);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching report templates:", error);
+      res.status(500).json({ error: "Failed to fetch report templates" });
+    }
+  });
+
+  app.post("/api/organizations/:id/templates", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = sessionUserId(req);
+      const membership = await storage.getOrganizationMember(id, userId);
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage report templates" });
+      }
+      const templateData = insertReportTemplateSchema.parse(req.body);
+      const template = await storage.createReportTemplate(id, templateData, userId);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating report template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create report template" });
+    }
+  });
+
+  app.put("/api/organizations/:id/templates/:templateId", isAuthenticated, async (req, res) => {
+    try {
+      const { id, templateId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage report templates" });
+      }
+      const templateData = insertReportTemplateSchema.partial().parse(req.body);
+      const template = await storage.updateReportTemplate(id, templateId, templateData);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating report template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update report template" });
+    }
+  });
+
+  app.put("/api/organizations/:id/templates/:templateId/logo", isAuthenticated, uploadFile, async (req, res) => {
+    try {
+      const { id, templateId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage report templates" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      const logoUrl = await templateLogo(req.file);
+      if (!logoUrl) {
+        return res.status(400).json({ error: "Logos must be PNG, JPEG, WebP or TIFF images" });
+      }
+      const template = await storage.setReportTemplateLogo(id, templateId, logoUrl);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error uploading template logo:", error);
+      res.status(500).json({ error: "Failed to upload template logo" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/templates/:templateId/logo", isAuthenticated, async (req, res) => {
+    try {
+      const { id, templateId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage report templates" });
+      }
+      const template = await storage.setReportTemplateLogo(id, templateId, null);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error removing template logo:", error);
+      res.status(500).json({ error: "Failed to remove template logo" });
+    }
+  });
+
+  app.delete("/api/organizations/:id/templates/:templateId", isAuthenticated, async (req, res) => {
+    try {
+      const { id, templateId } = req.params;
+      const membership = await storage.getOrganizationMember(id, sessionUserId(req));
+      if (membership?.role !== "admin") {
+        return res.status(403).json({ error: "Only organization admins can manage report templates" });
+      }
+      await storage.deleteReportTemplate(id, templateId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting report template:", error);
+      res.status(500).json({ error: "Failed to delete report template" });
+    }
+  });
+
+  // Tank registry routes
+  app.get("/api/tanks", isAuthenticated, async (req, res) => {
+    try {
+      const userId = sessionUserId(req);
+      const tanks = await storage.getUserTanks(userId);
+      res.json(tanks);
+    } catch (error) {
+      console.error("Error fetching tanks:", error);
+      res.status(500).json({ error: "Failed to fetch tanks" });
+    }
+  });
+
+  // The tank's history lists only the reports the caller may open
+  app.get("/api/tanks/:id", isAuthenticated, authorizeTank, async (req, res) => {
+    try {
+      const tank = res.locals.tank as Tank;
+      const reports = [];
+      for (const report of await storage.getTankReports(tank.id)) {
+        if ((await getReportAccess(report, sessionUserId(req))).permissions.includes("view")) {
+          reports.push(report);
+        }
+      }
+      res.json({ ...tank, reports });
+    } catch (error) {
+      console.error("Error fetching tank:", error);
+      res.status(500).json({ error: "Failed to fetch tank" });
+    }
+  });
+
+  app.post("/api/tanks", isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertTankSchema.parse({
+        ...req.body,
+        ownerId: sessionUserId(req)
+      });
+      const existing = await storage.getUserTanks(validatedData.ownerId);
+      if (existing.some((tank) => tank.tag === validatedData.tag)) {
+        return res.status(409).json({ error: `Tank ${validatedData.tag} is already registered` });
+      }
+      const tank = await storage.createTank(validatedData);
+      res.status(201).json(tank);
+    } catch (error) {
+      console.error("Error creating tank:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create tank" });
+    }
+  });
+
+  app.put("/api/tanks/:id", isAuthenticated, authorizeTank, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertTankSchema.omit({ ownerId: true }).partial().parse(req.body);
+      const tank = await storage.updateTank(id, validatedData);
+      if (!tank) {
+        return res.status(404).json({ error: "Tank not found" });
+      }
+      res.json(tank);
+    } catch (error) {
+      console.error("Error updating tank:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update tank" });
+    }
+  });
+
+  app.delete("/api/tanks/:id", isAuthenticated, authorizeTank, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteTank(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tank:", error);
+      res.status(500).json({ error: "Failed to delete tank" });
+    }
+  });
+
+  // Starts the tank's next inspection from its latest report, or from the tank's
+  // nameplate and design data for its first one
+  app.post("/api/tanks/:id/reports", isAuthenticated, authorizeTank, async (req, res) => {
+    try {
+      const tank = res.locals.tank as Tank;
+      
+      // The new report copies the previous one's data and organizations
+      const previousReport = (await storage.getTankReports(tank.id)).at(-1);
+      if (previousReport) {
+        const refusal = await nextInspectionRefusal(previousReport, sessionUserId(req));
+        if (refusal) {
+          return res.status(403).json({ error: refusal });
+        }
+        const report = await createNextInspection(previousReport, {
+          reportNumber: req.body.reportNumber,
+          inspectionDate: req.body.inspectionDate ? new Date(req.body.inspectionDate) : undefined,
+          ownerId: sessionUserId(req),
+        });
+        return res.status(201).json(report);
+      }
+      
+      const validatedData = insertReportSchema.parse({
+        reportNumber: req.body.reportNumber,
+        inspectionDate: req.body.inspectionDate ? new Date(req.body.inspectionDate) : undefined,
+        ownerId: sessionUserId(req),
+        tankId: tank.tag,
+        tankAssetId: tank.id,
+        nominalDiameter: tank.tankDiameter,
+        shellHeight: tank.tankHeight,
+        plateSpec: tank.shellMaterialSpec,
+      });
+      const report = await storage.createReport(validatedData);
+      
+      await storage.saveTankHistory(report.id, tankHistorySchema.parse({
+        ...tankDesignFromHistory(tank),
+        owner: tank.owner ?? undefined,
+        location: tank.site ?? undefined,
+        tankNo: tank.tag,
+      }));
+      
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error creating tank report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create report" });
+    }
+  });
+
   // Report routes - all protected with authentication
-  app.get("/api/reports", isAuthenticated, async (req: any, res) => {
+  app.get("/api/reports", isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = sessionUserId(req);
       const reports = await storage.getUserReports(userId);
       res.json(reports);
     } catch (error) {
@@ -49,7 +553,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:id", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { id } = req.params;
       const report = await storage.getReportWithDetails(id);
@@ -63,13 +567,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports", isAuthenticated, async (req: any, res) => {
+  app.post("/api/reports", isAuthenticated, async (req, res) => {
     try {
       const validatedData = insertReportSchema.parse({
         ...req.body,
-        ownerId: req.user.claims.sub // Get user ID from authentication
+        ownerId: sessionUserId(req) // Get user ID from authentication
       });
-      const report = await storage.createReport(validatedData);
+      if (!(await canAssignOrganization(validatedData.organizationId, validatedData.ownerId))) {
+        return res.status(403).json({ error: "Reports can only be prepared for an inspection company you work for" });
+      }
+      // Register the tank on first use so its inspections can be followed across reports
+      const tank = await storage.getOrCreateTank(validatedData.ownerId, validatedData.tankId);
+      const report = await storage.createReport({ ...validatedData, tankAssetId: tank.id });
       res.status(201).json(report);
     } catch (error) {
       console.error("Error creating report:", error);
@@ -80,31 +589,247 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/reports/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:id", isAuthenticated, authorizeReport("edit"), trackRevisions(["report"]), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const { report: existing } = res.locals.reportAccess as ReportAccess;
+      const updateData = updateReportSchema.parse(req.body);
+      
+      // Renaming the tank moves the report to that tank's history, in its owner's registry
+      if (updateData.tankId?.trim() && existing.tankId !== updateData.tankId) {
+        const tank = await storage.getOrCreateTank(existing.ownerId, updateData.tankId);
+        await storage.moveReportToTank(id, tank.id);
+      }
+      
       const report = await storage.updateReport(id, updateData);
       res.json(report);
     } catch (error) {
-      console.error("Error updating report:", error);
-      res.status(500).json({ error: "Failed to update report" });
+      console.error("Error updating report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update report" });
+    }
+  });
+
+  app.post("/api/reports/:id/next-inspection", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { report: previousReport } = res.locals.reportAccess as ReportAccess;
+      const refusal = await nextInspectionRefusal(previousReport, sessionUserId(req));
+      if (refusal) {
+        return res.status(403).json({ error: refusal });
+      }
+      const report = await createNextInspection(previousReport, {
+        reportNumber: req.body.reportNumber,
+        inspectionDate: req.body.inspectionDate ? new Date(req.body.inspectionDate) : undefined,
+        ownerId: sessionUserId(req),
+      });
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error creating next inspection:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create report" });
+    }
+  });
+
+  app.delete("/api/reports/:id", isAuthenticated, authorizeReport("delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const removed = await storage.deleteReport(id);
+      // A file that cannot be removed is only logged; the report is already gone
+      for (const attachment of removed) {
+        await removeAttachmentFiles(attachment).catch((error) => {
+          console.error(`Error removing files of attachment ${attachment.id}:`, error);
+        });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting report:", error);
+      res.status(500).json({ error: "Failed to delete report" });
+    }
+  });
+
+  // Access and sharing
+  app.get("/api/reports/:id/access", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { role, isOwner, permissions } = res.locals.reportAccess as ReportAccess;
+      res.json({ role, isOwner, permissions });
+    } catch (error) {
+      console.error("Error fetching report access:", error);
+      res.status(500).json({ error: "Failed to fetch report access" });
+    }
+  });
+
+  app.get("/api/reports/:id/sharing", isAuthenticated, authorizeReport("share"), async (req, res) => {
+    try {
+      const { report } = res.locals.reportAccess as ReportAccess;
+      const grants = await storage.getReportGrants(report.id);
+      res.json({
+        organizationId: report.organizationId,
+        clientOrganizationId: report.clientOrganizationId,
+        grants,
+      });
+    } catch (error) {
+      console.error("Error fetching report sharing:", error);
+      res.status(500).json({ error: "Failed to fetch report sharing" });
+    }
+  });
+
+  app.put("/api/reports/:id/sharing", isAuthenticated, authorizeReport("share"), async (req, res) => {
+    try {
+      const sharing = z.object({
+        organizationId: z.string().nullable(),
+        clientOrganizationId: z.string().nullable(),
+      }).parse(req.body);
+      if (!(await canAssignOrganization(sharing.organizationId, sessionUserId(req)))) {
+        return res.status(403).json({ error: "Reports can only be prepared for an inspection company you work for" });
+      }
+      const client = sharing.clientOrganizationId ? await storage.getOrganization(sharing.clientOrganizationId) : undefined;
+      if (sharing.clientOrganizationId && client?.type !== "client") {
+        return res.status(400).json({ error: "Client organization not found" });
+      }
+      const report = await storage.updateReportSharing(req.params.id, sharing);
+      res.json(report);
+    } catch (error) {
+      console.error("Error updating report sharing:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update report sharing" });
+    }
+  });
+
+  app.post("/api/reports/:id/grants", isAuthenticated, authorizeReport("share"), async (req, res) => {
+    try {
+      const { report } = res.locals.reportAccess as ReportAccess;
+      const { email, role } = z.object({ email: z.string().email(), role: z.enum(grantableRoles) }).parse(req.body);
+      if (role === "reviewer") {
+        const { organizationRole } = await storage.getReportAccessRoles(report, sessionUserId(req));
+        if (organizationRole !== "admin") {
+          return res.status(403).json({ error: "Only an admin of the report's organization can add a reviewer" });
+        }
+      }
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ error: `No user has signed in as ${email}` });
+      }
+      // A grant must not raise the role of someone who already works on the report
+      if (user.id === sessionUserId(req) || user.id === report.ownerId) {
+        return res.status(400).json({ error: "The report cannot be shared with yourself or its owner" });
+      }
+      const grant = await storage.saveReportGrant({
+        reportId: req.params.id,
+        userId: user.id,
+        role,
+        grantedBy: sessionUserId(req),
+      });
+      res.status(201).json(grant);
+    } catch (error) {
+      console.error("Error sharing report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to share report" });
+    }
+  });
+
+  app.delete("/api/reports/:id/grants/:grantId", isAuthenticated, authorizeReport("share"), async (req, res) => {
+    try {
+      await storage.deleteReportGrant(req.params.id, req.params.grantId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing report access:", error);
+      res.status(500).json({ error: "Failed to remove report access" });
+    }
+  });
+
+  // Review and approval workflow
+  app.get("/api/reports/:id/transitions", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const statusChanges = await storage.getReportStatusChanges(req.params.id);
+      res.json(statusChanges);
+    } catch (error) {
+      console.error("Error fetching report status changes:", error);
+      res.status(500).json({ error: "Failed to fetch report status changes" });
+    }
+  });
+
+  app.post("/api/reports/:id/transitions", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { action, comment } = z.object({
+        action: z.enum(transitionActions),
+        comment: z.string().trim().min(1, "A comment is required"),
+      }).parse(req.body);
+      
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      
+      const { role } = res.locals.reportAccess as ReportAccess;
+      const result = await transitionReport(report, action, sessionUserId(req), role, comment);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.report);
+    } catch (error) {
+      console.error("Error changing report status:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to change report status" });
+    }
+  });
+
+  // Revision history
+  app.get("/api/reports/:id/revisions", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const revisions = await storage.getReportRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching report revisions:", error);
+      res.status(500).json({ error: "Failed to fetch report revisions" });
+    }
+  });
+
+  app.get("/api/reports/:id/revisions/diff", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.number().int().min(0),
+        to: z.coerce.number().int().min(0),
+      }).parse(req.query);
+      const changes = await diffRevisions(req.params.id, from, to);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error comparing report revisions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to compare report revisions" });
     }
   });
 
-  app.delete("/api/reports/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:id/revisions/:revision/restore", isAuthenticated, authorizeReport("edit"), async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteReport(id);
-      res.status(204).send();
+      const revision = parseInt(req.params.revision, 10);
+      const revisions = await storage.getReportRevisions(id);
+      if (!revisions.some((entry) => entry.revision === revision)) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      await restoreRevision(id, revision, sessionUserId(req));
+      const report = await storage.getReportWithDetails(id);
+      res.json(report);
     } catch (error) {
-      console.error("Error deleting report:", error);
-      res.status(500).json({ error: "Failed to delete report" });
+      console.error("Error restoring report revision:", error);
+      res.status(500).json({ error: "Failed to restore report revision" });
     }
   });
 
   // Save report endpoint
-  app.post("/api/reports/:id/save", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:id/save", isAuthenticated, authorizeReport("edit"), trackRevisions(["report", "cmlRecords"]), async (req, res) => {
     try {
       const { id } = req.params;
       const updateData = req.body;
@@ -139,9 +864,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Actually update the report with the data from the request body
       console.log("[BASE DATA SAVE] Calling storage.updateReport with processed data");
-      const updatedReport = await storage.updateReport(id, updateData);
+      const updatedReport = await storage.updateReport(id, updateReportSchema.parse(updateData));
       console.log("[BASE DATA SAVE] Update successful, report updated");
       
+      // Inspection date, original thickness and age feed the CML corrosion rates
+      const cmlRecords = await storage.getReportCmlRecords(id);
+      await Promise.all(cmlRecords.map(refreshCmlRates));
+      
       // Then fetch the complete report with details
       const report = await storage.getReportWithDetails(id);
       console.log("[BASE DATA SAVE] Successfully saved base data for report:", id);
@@ -149,12 +878,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error: any) {
       console.error("[BASE DATA SAVE] Error saving report:", error);
       console.error("[BASE DATA SAVE] Error stack:", error.stack);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to save report", details: error.message });
     }
   });
 
   // Appendix routes
-  app.get("/api/reports/:reportId/appendices", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/appendices", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
       const appendices = await storage.getReportAppendices(reportId);
@@ -165,7 +897,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports/:reportId/appendices", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:reportId/appendices", isAuthenticated, authorizeReport("edit"), trackRevisions(["appendices"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const validatedData = insertAppendixSchema.parse({
@@ -183,20 +915,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/appendices/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/appendices/:id", isAuthenticated, authorizeReport("edit", appendixReport), trackRevisions(["appendices"], appendixReport), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const updateData = updateAppendixSchema.parse(req.body);
       const appendix = await storage.updateAppendix(id, updateData);
       res.json(appendix);
     } catch (error) {
       console.error("Error updating appendix:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update appendix" });
     }
   });
 
   // CML Record routes
-  app.get("/api/reports/:reportId/cml-records", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/cml-records", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
       const cmlRecords = await storage.getReportCmlRecords(reportId);
@@ -207,7 +942,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports/:reportId/cml-records", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:reportId/cml-records", isAuthenticated, authorizeReport("edit"), trackRevisions(["cmlRecords"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const validatedData = insertCmlRecordSchema.parse({
@@ -215,7 +950,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reportId
       });
       const cmlRecord = await storage.createCmlRecord(validatedData);
-      res.status(201).json(cmlRecord);
+      res.status(201).json(await refreshCmlRates(cmlRecord));
     } catch (error) {
       console.error("Error creating CML record:", error);
       if (error instanceof z.ZodError) {
@@ -225,19 +960,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cml-records/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/cml-records/:id", isAuthenticated, authorizeReport("edit", cmlRecordReport), trackRevisions(["cmlRecords"], cmlRecordReport), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const updateData = updateCmlRecordSchema.parse(req.body);
       const cmlRecord = await storage.updateCmlRecord(id, updateData);
-      res.json(cmlRecord);
+      res.json(await refreshCmlRates(cmlRecord));
     } catch (error) {
       console.error("Error updating CML record:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update CML record" });
     }
   });
 
-  app.delete("/api/cml-records/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/cml-records/:id", isAuthenticated, authorizeReport("edit", cmlRecordReport), trackRevisions(["cmlRecords"], cmlRecordReport), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteCmlRecord(id);
@@ -248,8 +986,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/cml-records/:id/readings", isAuthenticated, authorizeReport("view", cmlRecordReport), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const readings = await storage.getCmlReadings(id);
+      res.json(readings);
+    } catch (error) {
+      console.error("Error fetching CML readings:", error);
+      res.status(500).json({ error: "Failed to fetch CML readings" });
+    }
+  });
+
+  app.post("/api/cml-records/:id/readings", isAuthenticated, authorizeReport("edit", cmlRecordReport), trackRevisions(["cmlRecords"], cmlRecordReport), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const cmlRecord = await storage.getCmlRecord(id);
+      if (!cmlRecord) {
+        return res.status(404).json({ error: "CML record not found" });
+      }
+      const validatedData = insertCmlReadingSchema.parse({
+        ...req.body,
+        readingDate: req.body.readingDate ? new Date(req.body.readingDate) : undefined,
+        cmlRecordId: id
+      });
+      const reading = await storage.createCmlReading(validatedData);
+      await refreshCmlRates(cmlRecord);
+      res.status(201).json(reading);
+    } catch (error) {
+      console.error("Error creating CML reading:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create CML reading" });
+    }
+  });
+
+  app.delete("/api/cml-records/:id/readings/:readingId", isAuthenticated, authorizeReport("edit", cmlRecordReport), trackRevisions(["cmlRecords"], cmlRecordReport), async (req, res) => {
+    try {
+      const { id, readingId } = req.params;
+      if (!await storage.deleteCmlReading(id, readingId)) {
+        return res.status(404).json({ error: "CML reading not found" });
+      }
+      const cmlRecord = await storage.getCmlRecord(id);
+      if (cmlRecord) {
+        await refreshCmlRates(cmlRecord);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting CML reading:", error);
+      res.status(500).json({ error: "Failed to delete CML reading" });
+    }
+  });
+
   // Nozzle CML Record routes
-  app.get("/api/reports/:reportId/nozzle-cml-records", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/nozzle-cml-records", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
       const nozzleCmlRecords = await storage.getReportNozzleCmlRecords(reportId);
@@ -260,7 +1050,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports/:reportId/nozzle-cml-records", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:reportId/nozzle-cml-records", isAuthenticated, authorizeReport("edit"), trackRevisions(["nozzleCmlRecords"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const validatedData = insertNozzleCmlRecordSchema.parse({
@@ -279,7 +1069,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Practical Tmin routes
-  app.get("/api/reports/:reportId/practical-tmins", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/practical-tmins", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
       const practicalTmins = await storage.getReportPracticalTmins(reportId);
@@ -290,7 +1080,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports/:reportId/practical-tmins", isAuthenticated, async (req, res) => {
+  app.post("/api/reports/:reportId/practical-tmins", isAuthenticated, authorizeReport("edit"), trackRevisions(["practicalTmins"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const validatedData = insertPracticalTminSchema.parse({
@@ -308,19 +1098,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/practical-tmins/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/practical-tmins/:id", isAuthenticated, authorizeReport("edit", practicalTminReport), trackRevisions(["practicalTmins"], practicalTminReport), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const updateData = updatePracticalTminSchema.parse(req.body);
       const practicalTmin = await storage.updatePracticalTmin(id, updateData);
       res.json(practicalTmin);
     } catch (error) {
       console.error("Error updating practical tmin:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update practical tmin" });
     }
   });
 
-  app.delete("/api/practical-tmins/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/practical-tmins/:id", isAuthenticated, authorizeReport("edit", practicalTminReport), trackRevisions(["practicalTmins"], practicalTminReport), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deletePracticalTmin(id);
@@ -332,25 +1125,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Shell Calculations routes
-  app.get("/api/reports/:reportId/shell-calculations", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/shell-calculations", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const report = await storage.getReport(reportId);
-      const shellCalcs = report?.customFields?.shellCalculations || {};
-      res.json(shellCalcs);
+      const shellCalcs = await storage.getShellCalculation(reportId);
+      res.json(shellCalcs || {});
     } catch (error) {
       console.error("Error fetching shell calculations:", error);
       res.status(500).json({ error: "Failed to fetch shell calculations" });
     }
   });
 
-  app.put("/api/reports/:reportId/shell-calculations", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:reportId/shell-calculations", isAuthenticated, authorizeReport("edit"), trackRevisions(["shellCalculations", "localizedCorrosion", "inspectionIntervals"]), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const shellCalcsData = req.body;
       
       console.log("[SHELL CALC] Saving shell calculations for report:", reportId);
-      console.log("[SHELL CALC] Data to save:", JSON.stringify(shellCalcsData, null, 2));
       
       const report = await storage.getReport(reportId);
       if (!report) {
@@ -358,127 +1148,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      // Ensure customFields is an object
-      const currentCustomFields = typeof report.customFields === 'object' && report.customFields !== null 
-        ? report.customFields 
-        : {};
+      const { shellCalcs } = await saveShellAndLocalizedCorrosion(
+        report,
+        shellCalculationSchema.parse(req.body),
+        report.customFields?.localizedCorrosion
+      );
+      const shellCalcsData = shellCalcs!;
       
-      const updatedCustomFields = {
-        ...currentCustomFields,
-        shellCalculations: shellCalcsData
-      };
+      console.log("[SHELL CALC] Recalculated data to save:", JSON.stringify(shellCalcsData, null, 2));
       
-      console.log("[SHELL CALC] Updating customFields with:", JSON.stringify(updatedCustomFields, null, 2));
+      // Flag the tank for rerating when it is operated above the allowed fill height
+      const tankHistory = await storage.getTankHistory(reportId);
+      if (tankHistory && exceedsAllowedFillHeight(tankHistory.maxLiquidLevel, shellCalcsData.maxFillHeight)) {
+        await storage.saveTankHistory(reportId, { ...tankHistory, requiresRerate: true });
+      }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: updatedCustomFields
-      });
+      await refreshInspectionIntervals(report);
       
       console.log("[SHELL CALC] Successfully saved shell calculations");
       
-      // Verify the save by fetching again
-      const verifyReport = await storage.getReport(reportId);
-      console.log("[SHELL CALC] Verification - saved data:", verifyReport?.customFields?.shellCalculations ? "Present" : "Missing");
-      
       res.json(shellCalcsData);
     } catch (error) {
       console.error("[SHELL CALC] Error updating shell calculations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update shell calculations" });
     }
   });
 
-  // Roof Calculations routes
-  app.get("/api/reports/:reportId/roof-calculations", isAuthenticated, async (req, res) => {
+  // Localized Corrosion routes
+  app.get("/api/reports/:reportId/localized-corrosion", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const report = await storage.getReport(reportId);
+      const localizedCorrosion = report?.customFields?.localizedCorrosion || {};
+      res.json(localizedCorrosion);
+    } catch (error) {
+      console.error("Error fetching localized corrosion:", error);
+      res.status(500).json({ error: "Failed to fetch localized corrosion" });
+    }
+  });
+
+  app.put("/api/reports/:reportId/localized-corrosion", isAuthenticated, authorizeReport("edit"), trackRevisions(["localizedCorrosion", "shellCalculations", "inspectionIntervals"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const report = await storage.getReport(reportId);
-      const roofCalcs = report?.customFields?.roofCalculations || {};
-      res.json(roofCalcs);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      
+      const { localizedData } = await saveShellAndLocalizedCorrosion(
+        report,
+        await storage.getShellCalculation(reportId),
+        localizedCorrosionSchema.parse(req.body)
+      );
+      await refreshInspectionIntervals(report);
+      
+      res.json(localizedData);
+    } catch (error) {
+      console.error("Error updating localized corrosion:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update localized corrosion" });
+    }
+  });
+
+  // Roof Calculations routes
+  app.get("/api/reports/:reportId/roof-calculations", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const roofCalcs = await storage.getRoofCalculation(reportId);
+      res.json(roofCalcs || {});
     } catch (error) {
       console.error("Error fetching roof calculations:", error);
       res.status(500).json({ error: "Failed to fetch roof calculations" });
     }
   });
 
-  app.put("/api/reports/:reportId/roof-calculations", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:reportId/roof-calculations", isAuthenticated, authorizeReport("edit"), trackRevisions(["roofCalculations"]), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const roofCalcsData = req.body;
-      
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          roofCalculations: roofCalcsData
-        }
-      });
+      // Self-supporting roof and frangibility checks need the tank diameter
+      const tankDiameter = report.nominalDiameter ? parseFloat(report.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+      const roofCalcsData = calculateRoof(roofCalculationSchema.parse(req.body), tankDiameter);
+      
+      await storage.saveRoofCalculation(reportId, roofCalcsData);
       
       res.json(roofCalcsData);
     } catch (error) {
       console.error("Error updating roof calculations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update roof calculations" });
     }
   });
 
-  // Floor MRT Calculations routes
-  app.get("/api/reports/:reportId/floor-mrt-calculations", isAuthenticated, async (req, res) => {
+  // Floating Roof routes
+  app.get("/api/reports/:reportId/floating-roof", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const report = await storage.getReport(reportId);
+      const floatingRoof = report?.customFields?.floatingRoof || {};
+      res.json(floatingRoof);
+    } catch (error) {
+      console.error("Error fetching floating roof:", error);
+      res.status(500).json({ error: "Failed to fetch floating roof" });
+    }
+  });
+
+  app.put("/api/reports/:reportId/floating-roof", isAuthenticated, authorizeReport("edit"), trackRevisions(["floatingRoof"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const report = await storage.getReport(reportId);
-      const floorCalcs = report?.customFields?.floorMRTCalculations || {};
-      res.json(floorCalcs);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      
+      // Seal gap allowables scale with the tank diameter
+      const tankDiameter = report.nominalDiameter ? parseFloat(report.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+      const floatingRoofData = calculateFloatingRoof(floatingRoofSchema.parse(req.body), tankDiameter);
+      
+      await storage.saveReportSection(reportId, "floatingRoof", floatingRoofData);
+      
+      res.json(floatingRoofData);
+    } catch (error) {
+      console.error("Error updating floating roof:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update floating roof" });
+    }
+  });
+
+  // Floor MRT Calculations routes
+  app.get("/api/reports/:reportId/floor-mrt-calculations", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const floorCalcs = await storage.getFloorCalculation(reportId);
+      res.json(floorCalcs || {});
     } catch (error) {
       console.error("Error fetching floor MRT calculations:", error);
       res.status(500).json({ error: "Failed to fetch floor MRT calculations" });
     }
   });
 
-  app.put("/api/reports/:reportId/floor-mrt-calculations", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:reportId/floor-mrt-calculations", isAuthenticated, authorizeReport("edit"), trackRevisions(["floorMRTCalculations", "inspectionIntervals"]), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const floorCalcsData = req.body;
-      
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          floorMRTCalculations: floorCalcsData
-        }
-      });
+      const floorCalcsData = calculateFloorMRT(floorMRTCalculationSchema.parse(req.body));
+      
+      await storage.saveFloorCalculation(reportId, floorCalcsData);
+      await refreshInspectionIntervals(report);
       
       res.json(floorCalcsData);
     } catch (error) {
       console.error("Error updating floor MRT calculations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update floor MRT calculations" });
     }
   });
 
-  // Tank History routes
-  app.get("/api/reports/:reportId/tank-history", isAuthenticated, async (req, res) => {
+  // Inspection Interval routes
+  app.get("/api/reports/:reportId/inspection-intervals", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const report = await storage.getReport(reportId);
+      const inspectionIntervals = report?.customFields?.inspectionIntervals || {};
+      res.json(inspectionIntervals);
+    } catch (error) {
+      console.error("Error fetching inspection intervals:", error);
+      res.status(500).json({ error: "Failed to fetch inspection intervals" });
+    }
+  });
+
+  app.post("/api/reports/:reportId/inspection-intervals", isAuthenticated, authorizeReport("edit"), trackRevisions(["inspectionIntervals"]), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const report = await storage.getReport(reportId);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      
+      const inspectionIntervals = await refreshInspectionIntervals(report);
+      res.json(inspectionIntervals);
+    } catch (error) {
+      console.error("Error calculating inspection intervals:", error);
+      res.status(500).json({ error: "Failed to calculate inspection intervals" });
+    }
+  });
+
+  // Brittle Fracture routes
+  app.get("/api/reports/:reportId/brittle-fracture", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const report = await storage.getReport(reportId);
+      const brittleFracture = report?.customFields?.brittleFracture || {};
+      res.json(brittleFracture);
+    } catch (error) {
+      console.error("Error fetching brittle fracture assessment:", error);
+      res.status(500).json({ error: "Failed to fetch brittle fracture assessment" });
+    }
+  });
+
+  app.post("/api/reports/:reportId/brittle-fracture", isAuthenticated, authorizeReport("edit"), trackRevisions(["brittleFracture"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const report = await storage.getReport(reportId);
-      // Return tank history data from report's customFields field
-      const tankHistory = report?.customFields?.tankHistory || {};
-      res.json(tankHistory);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      
+      // Assessed from the saved tank history and shell calculations
+      const tankHistory = (await storage.getTankHistory(reportId)) || {};
+      const shellCalcs = (await storage.getShellCalculation(reportId)) || { courses: [] };
+      const tankDiameter = report.nominalDiameter ? parseFloat(report.nominalDiameter) : DEFAULT_TANK_DIAMETER;
+      const shellInputs = shellInputsForBrittleFracture(
+        shellCalcs.courses || [],
+        toNumber(shellCalcs.fillHeight, toNumber(tankHistory.maxLiquidLevel, 0)),
+        tankDiameter,
+        toNumber(shellCalcs.specificGravity, toNumber(tankHistory.specificGravity, 1.0))
+      );
+      
+      const assessment = assessBrittleFracture({
+        constructionStandard: shellCalcs.constructionStandard || tankHistory.constructionStandard,
+        yearOfConstruction: tankHistory.yearOfConstruction,
+        designMetalTemp: tankHistory.designMetalTemp,
+        shellMaterialSpec: tankHistory.shellMaterialSpec,
+        hasBeenHydrotested: tankHistory.hasBeenHydrotested,
+        hasChangeOfService: tankHistory.hasChangeOfService,
+        ...shellInputs
+      });
+      
+      await storage.saveReportSection(reportId, "brittleFracture", assessment);
+      
+      res.json(assessment);
+    } catch (error) {
+      console.error("Error assessing brittle fracture:", error);
+      res.status(500).json({ error: "Failed to assess brittle fracture" });
+    }
+  });
+
+  // Tank History routes
+  app.get("/api/reports/:reportId/tank-history", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const tankHistory = await storage.getTankHistory(reportId);
+      res.json(tankHistory || {});
     } catch (error) {
       console.error("Error fetching tank history:", error);
       res.status(500).json({ error: "Failed to fetch tank history" });
     }
   });
 
-  app.put("/api/reports/:reportId/tank-history", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:reportId/tank-history", isAuthenticated, authorizeReport("edit"), trackRevisions(["tankHistory", "inspectionIntervals"]), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const tankHistoryData = req.body;
+      const tankHistoryData = tankHistorySchema.parse(req.body);
       
       // Get existing report
       const report = await storage.getReport(reportId);
@@ -486,23 +1426,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      // Update customFields with tank history
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          tankHistory: tankHistoryData
-        }
-      });
+      const shellCalcs = await storage.getShellCalculation(reportId);
+      if (exceedsAllowedFillHeight(tankHistoryData.maxLiquidLevel, shellCalcs?.maxFillHeight)) {
+        tankHistoryData.requiresRerate = true;
+      }
+      
+      await storage.saveTankHistory(reportId, tankHistoryData);
+      await refreshInspectionIntervals(report);
+      
+      // Keep the registry's design data current with the latest answers
+      const tankDesign = tankDesignFromHistory(tankHistoryData);
+      if (report.tankAssetId && Object.keys(tankDesign).length > 0) {
+        await storage.updateTank(report.tankAssetId, tankDesign);
+      }
       
       res.json(tankHistoryData);
     } catch (error) {
       console.error("Error updating tank history:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update tank history" });
     }
   });
 
   // Writeup routes
-  app.get("/api/reports/:reportId/writeup", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/writeup", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
       const writeup = await storage.getReportWriteup(reportId);
@@ -513,7 +1462,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/reports/:reportId/writeup", isAuthenticated, async (req, res) => {
+  app.put("/api/reports/:reportId/writeup", isAuthenticated, authorizeReport("edit"), trackRevisions(["writeup"]), async (req, res) => {
     try {
       const { reportId } = req.params;
       const validatedData = insertWriteupSchema.parse({
@@ -532,228 +1481,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Settlement Survey routes
-  app.get("/api/settlement-survey/:reportId", isAuthenticated, async (req, res) => {
+  app.get("/api/settlement-survey/:reportId", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const report = await storage.getReport(reportId);
-      const settlementData = report?.customFields?.settlementSurvey || null;
-      res.json(settlementData);
+      const settlementData = await storage.getSettlementSurvey(reportId);
+      res.json(settlementData || null);
     } catch (error) {
       console.error("Error fetching settlement survey:", error);
       res.status(500).json({ error: "Failed to fetch settlement survey" });
     }
   });
 
-  app.post("/api/settlement-survey", isAuthenticated, async (req, res) => {
+  app.post("/api/settlement-survey", isAuthenticated, authorizeReport("edit", reportFromBody), trackRevisions(["settlementSurvey"], reportFromBody), async (req, res) => {
     try {
-      const settlementData = req.body;
-      const { reportId } = settlementData;
+      const { reportId } = req.body;
       
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          settlementSurvey: settlementData
-        }
-      });
+      const settlementData = await evaluateSettlementSurvey(report, req.body);
+      const savedSurvey = await storage.saveSettlementSurvey(reportId, settlementData);
       
-      res.json(settlementData);
+      res.json(savedSurvey);
     } catch (error) {
       console.error("Error saving settlement survey:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to save settlement survey" });
     }
   });
 
-  app.patch("/api/settlement-survey/:id", async (req, res) => {
+  app.patch("/api/settlement-survey/:id", isAuthenticated, authorizeReport("edit", reportFromBody), trackRevisions(["settlementSurvey"], reportFromBody), async (req, res) => {
     try {
-      const settlementData = req.body;
-      const { reportId } = settlementData;
+      const { reportId } = req.body;
       
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          settlementSurvey: settlementData
-        }
-      });
+      const settlementData = await evaluateSettlementSurvey(report, req.body);
+      const savedSurvey = await storage.saveSettlementSurvey(reportId, settlementData);
       
-      res.json(settlementData);
+      res.json(savedSurvey);
     } catch (error) {
       console.error("Error updating settlement survey:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update settlement survey" });
     }
   });
 
   // Nozzle CML routes
-  app.get("/api/nozzle-cml/:reportId", async (req, res) => {
+  app.get("/api/nozzle-cml/:reportId", isAuthenticated, authorizeReport("view"), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const report = await storage.getReport(reportId);
-      const nozzleCMLData = report?.customFields?.nozzleCML || null;
-      res.json(nozzleCMLData);
+      const nozzleCMLData = await storage.getNozzleCml(reportId);
+      res.json(nozzleCMLData || null);
     } catch (error) {
       console.error("Error fetching nozzle CML:", error);
       res.status(500).json({ error: "Failed to fetch nozzle CML data" });
     }
   });
 
-  app.post("/api/nozzle-cml", async (req, res) => {
+  app.post("/api/nozzle-cml", isAuthenticated, authorizeReport("edit", reportFromBody), trackRevisions(["nozzleCML"], reportFromBody), async (req, res) => {
     try {
-      const nozzleData = req.body;
-      const { reportId } = nozzleData;
+      const parsed = nozzleCmlDataSchema.parse(req.body);
+      const { reportId } = parsed;
       
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          nozzleCML: nozzleData
-        }
-      });
+      // Pressure tMin uses the head at each nozzle; practical tmins override the calculated value
+      const [shellCalcs, tankHistory, practicalTmins] = await Promise.all([
+        storage.getShellCalculation(reportId),
+        storage.getTankHistory(reportId),
+        storage.getReportPracticalTmins(reportId),
+      ]);
+      const nozzleData = calculateNozzleMetrics(parsed, nozzleTminContext(shellCalcs, tankHistory, practicalTmins));
+      const savedNozzleData = await storage.saveNozzleCml(reportId, nozzleData);
       
-      res.json(nozzleData);
+      res.json(savedNozzleData);
     } catch (error) {
       console.error("Error saving nozzle CML:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to save nozzle CML data" });
     }
   });
 
-  app.patch("/api/nozzle-cml/:id", async (req, res) => {
+  app.patch("/api/nozzle-cml/:id", isAuthenticated, authorizeReport("edit", reportFromBody), trackRevisions(["nozzleCML"], reportFromBody), async (req, res) => {
     try {
-      const nozzleData = req.body;
-      const { reportId } = nozzleData;
+      const parsed = nozzleCmlDataSchema.parse(req.body);
+      const { reportId } = parsed;
       
       const report = await storage.getReport(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      const updatedReport = await storage.updateReport(reportId, {
-        customFields: {
-          ...(report.customFields || {}),
-          nozzleCML: nozzleData
-        }
-      });
+      // Pressure tMin uses the head at each nozzle; practical tmins override the calculated value
+      const [shellCalcs, tankHistory, practicalTmins] = await Promise.all([
+        storage.getShellCalculation(reportId),
+        storage.getTankHistory(reportId),
+        storage.getReportPracticalTmins(reportId),
+      ]);
+      const nozzleData = calculateNozzleMetrics(parsed, nozzleTminContext(shellCalcs, tankHistory, practicalTmins));
+      const savedNozzleData = await storage.saveNozzleCml(reportId, nozzleData);
       
-      res.json(nozzleData);
+      res.json(savedNozzleData);
     } catch (error) {
       console.error("Error updating nozzle CML:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update nozzle CML data" });
     }
   });
 
 
-  // PDF Export endpoint
-  app.get("/api/reports/:reportId/export/pdf", isAuthenticated, async (req, res) => {
+  // Attachment routes. Photos come back in photo number order, then other files by upload time.
+  app.get("/api/reports/:reportId/attachments", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const attachments = await storage.getReportAttachments(req.params.reportId);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ error: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/reports/:reportId/attachments", isAuthenticated, authorizeReport("edit"), uploadFile, trackRevisions(["attachments"]), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const report = await storage.getReportWithDetails(reportId);
-      
-      if (!report) {
-        return res.status(404).json({ error: "Report not found" });
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
       }
-      
-      // Generate PDF using jsPDF
-      const { jsPDF } = await import("jspdf");
-      await import("jspdf-autotable");
-      
-      const doc = new jsPDF();
-      
-      // Title Page
-      doc.setFontSize(20);
-      doc.text("API 653 Tank Inspection Report", 105, 30, { align: "center" });
-      doc.setFontSize(14);
-      doc.text(`Report Number: ${report.reportNumber || "N/A"}`, 20, 50);
-      doc.text(`Tank ID: ${report.tankId || "N/A"}`, 20, 60);
-      doc.text(`Inspection Date: ${report.inspectionDate ? new Date(report.inspectionDate).toLocaleDateString() : "N/A"}`, 20, 70);
-      
-      // Tank Information
-      doc.setFontSize(16);
-      doc.text("Tank Information", 20, 90);
-      doc.setFontSize(12);
-      doc.text(`Nominal Diameter: ${report.nominalDiameter || "N/A"} ft`, 20, 100);
-      doc.text(`Shell Height: ${report.shellHeight || "N/A"} ft`, 20, 110);
-      doc.text(`Service: ${report.service || "N/A"}`, 20, 120);
-      doc.text(`Plate Specification: ${report.plateSpec || "N/A"}`, 20, 130);
-      
-      // Shell Calculations
-      if (report.customFields?.shellCalculations?.courses) {
-        doc.addPage();
-        doc.setFontSize(16);
-        doc.text("Shell Calculations", 20, 20);
-        
-        const shellData = report.customFields.shellCalculations.courses.map((course: any) => [
-          course.courseNumber,
-          course.actualThickness || "-",
-          course.tMin || "-",
-          course.corrosionRate || "-",
-          course.remainingLife || "-"
-        ]);
-        
-        (doc as any).autoTable({
-          head: [["Course", "Actual (in)", "t-min (in)", "CR (mpy)", "RL (yrs)"]],
-          body: shellData,
-          startY: 30
-        });
+      const kind = z.enum(attachmentKinds).parse(req.body.kind || (isImageType(req.file.mimetype) ? "photo" : "document"));
+      if (kind !== "document" && !isImageType(req.file.mimetype)) {
+        return res.status(400).json({ error: "Photos, logos and signatures must be PNG, JPEG, WebP or TIFF images" });
       }
-      
-      // CML Records
-      if (report.cmlRecords && report.cmlRecords.length > 0) {
-        doc.addPage();
-        doc.setFontSize(16);
-        doc.text("CML Records", 20, 20);
-        
-        const cmlData = report.cmlRecords.map((cml: any) => [
-          cml.cmlId || "-",
-          cml.component || "-",
-          cml.readingAvg || ((parseFloat(cml.reading1 || "0") + parseFloat(cml.reading2 || "0") + parseFloat(cml.reading3 || "0") + parseFloat(cml.reading4 || "0")) / 4).toFixed(3),
-          cml.corrosionRate || "-",
-          cml.remainingLife || "-"
-        ]);
-        
-        (doc as any).autoTable({
-          head: [["CML ID", "Component", "Avg Reading", "CR (mpy)", "RL (yrs)"]],
-          body: cmlData,
-          startY: 30
-        });
+      const stored = await storeUpload(reportId, req.file, kind, sessionUserId(req));
+      const attachment = await storage.createAttachment({ ...stored, caption: req.body.caption || null });
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Error uploading attachment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to upload attachment" });
+    }
+  });
+
+  app.put("/api/reports/:reportId/attachments/:attachmentId", isAuthenticated, authorizeReport("edit"), trackRevisions(["attachments"]), async (req, res) => {
+    try {
+      const { reportId, attachmentId } = req.params;
+      const attachment = await storage.updateAttachment(reportId, attachmentId, updateAttachmentSchema.parse(req.body));
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      res.json(attachment);
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update attachment" });
+    }
+  });
+
+  app.delete("/api/reports/:reportId/attachments/:attachmentId", isAuthenticated, authorizeReport("edit"), trackRevisions(["attachments"]), async (req, res) => {
+    try {
+      const { reportId, attachmentId } = req.params;
+      const attachment = await storage.getAttachment(reportId, attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
       }
+      await storage.deleteAttachment(reportId, attachmentId);
+      await removeAttachmentFiles(attachment);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ error: "Failed to delete attachment" });
+    }
+  });
+
+  // Images open in the browser; other files download under their original name
+  app.get("/api/reports/:reportId/attachments/:attachmentId/file", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId, attachmentId } = req.params;
+      const attachment = await storage.getAttachment(reportId, attachmentId);
+      const data = attachment && await fileStore().get(attachment.storageKey);
+      if (!attachment || !data) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      const disposition = isImageType(attachment.contentType) ? "inline" : "attachment";
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Disposition", `${disposition}; filename="${attachment.fileName.replace(/["\\\r\n]/g, "_")}"`);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(data);
+    } catch (error) {
+      console.error("Error fetching attachment file:", error);
+      res.status(500).json({ error: "Failed to fetch attachment file" });
+    }
+  });
+
+  app.get("/api/reports/:reportId/attachments/:attachmentId/thumbnail", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { reportId, attachmentId } = req.params;
+      const attachment = await storage.getAttachment(reportId, attachmentId);
+      const data = attachment?.thumbnailKey && await fileStore().get(attachment.thumbnailKey);
+      if (!data) {
+        return res.status(404).json({ error: "Thumbnail not found" });
+      }
+      res.setHeader("Content-Type", "image/jpeg");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(data);
+    } catch (error) {
+      console.error("Error fetching attachment thumbnail:", error);
+      res.status(500).json({ error: "Failed to fetch attachment thumbnail" });
+    }
+  });
+
+  // Templates a report can be exported with: those of the organization preparing it
+  app.get("/api/reports/:reportId/templates", isAuthenticated, authorizeReport("view"), async (req, res) => {
+    try {
+      const { report } = res.locals.reportAccess as ReportAccess;
+      const templates = report.organizationId ? await storage.getOrganizationTemplates(report.organizationId) : [];
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching report templates:", error);
+      res.status(500).json({ error: "Failed to fetch report templates" });
+    }
+  });
+
+  // PDF Export endpoint. ?templateId= overrides the report's template, and ?inline=1 opens
+  // the PDF in the browser for the preview on the report generation tab.
+  app.get("/api/reports/:reportId/export/pdf", isAuthenticated, authorizeReport("export"), async (req, res) => {
+    try {
+      const { reportId } = req.params;
+      const { report } = res.locals.reportAccess as ReportAccess;
+      const template = await resolveReportTemplate(report, req.query.templateId as string | undefined);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const context = await loadExportContext(reportId, template);
       
-      // Findings and Recommendations
-      if (report.findings || report.recommendations) {
-        doc.addPage();
-        doc.setFontSize(16);
-        doc.text("Findings and Recommendations", 20, 20);
-        doc.setFontSize(12);
-        
-        if (report.findings) {
-          doc.text("Findings:", 20, 35);
-          const findings = doc.splitTextToSize(report.findings, 170);
-          doc.text(findings, 20, 45);
-        }
-        
-        if (report.recommendations) {
-          doc.text("Recommendations:", 20, 90);
-          const recommendations = doc.splitTextToSize(report.recommendations, 170);
-          doc.text(recommendations, 20, 100);
-        }
+      if (!context) {
+        return res.status(404).json({ error: "Report not found" });
       }
       
-      // Generate PDF buffer
-      const pdfBuffer = Buffer.from(doc.output("arraybuffer"));
+      const pdfBuffer = renderReportPdf(context, reportContent(context));
+      const disposition = req.query.inline === "1" ? "inline" : "attachment";
       
       res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename="API653-Report-${report.reportNumber || reportId}.pdf"`);
+      res.setHeader("Content-Disposition", `${disposition}; filename="API653-Report-${report.reportNumber || reportId}.pdf"`);
       res.send(pdfBuffer);
       
     } catch (error) {
@@ -763,72 +1752,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Word Export endpoint  
-  app.get("/api/reports/:reportId/export/word", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/:reportId/export/word", isAuthenticated, authorizeReport("export"), async (req, res) => {
     try {
       const { reportId } = req.params;
-      const report = await storage.getReportWithDetails(reportId);
+      const { report } = res.locals.reportAccess as ReportAccess;
+      const template = await resolveReportTemplate(report, req.query.templateId as string | undefined);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const context = await loadExportContext(reportId, template);
       
-      if (!report) {
+      if (!context) {
         return res.status(404).json({ error: "Report not found" });
       }
       
-      // Generate Word document using docx
-      const { Document, Paragraph, TextRun, Table, TableRow, TableCell, HeadingLevel, AlignmentType } = await import("docx");
-      
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: "API 653 Tank Inspection Report", size: 32, bold: true })],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 400 }
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Report Number: ${report.reportNumber || "N/A"}`, size: 24 })]
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Tank ID: ${report.tankId || "N/A"}`, size: 24 })]
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Inspection Date: ${report.inspectionDate ? new Date(report.inspectionDate).toLocaleDateString() : "N/A"}`, size: 24 })]
-            }),
-            new Paragraph({
-              text: "Tank Information",
-              heading: HeadingLevel.HEADING_1,
-              spacing: { before: 400, after: 200 }
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Nominal Diameter: ${report.nominalDiameter || "N/A"} ft` })]
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Shell Height: ${report.shellHeight || "N/A"} ft` })]
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: `Service: ${report.service || "N/A"}` })]
-            }),
-            new Paragraph({
-              text: "Findings",
-              heading: HeadingLevel.HEADING_1,
-              spacing: { before: 400, after: 200 }
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: report.findings || "No findings recorded." })]
-            }),
-            new Paragraph({
-              text: "Recommendations",
-              heading: HeadingLevel.HEADING_1,
-              spacing: { before: 400, after: 200 }
-            }),
-            new Paragraph({
-              children: [new TextRun({ text: report.recommendations || "No recommendations recorded." })]
-            })
-          ]
-        }]
-      });
-      
-      const { Packer } = await import("docx");
-      const buffer = await Packer.toBuffer(doc);
+      const buffer = await renderReportDocx(context, reportContent(context));
       
       res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
       res.setHeader("Content-Disposition", `attachment; filename="API653-Report-${report.reportNumber || reportId}.docx"`);
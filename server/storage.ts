@@ -1,36 +1,143 @@
 import { 
-  users, reports, appendices, cmlRecords, nozzleCmlRecords, practicalTmins, writeups,
-  type User, type UpsertUser, type Report, type InsertReport, type InsertAppendix,
-  type InsertCmlRecord, type InsertNozzleCmlRecord, type InsertPracticalTmin, type InsertWriteup,
-  type Appendix, type CmlRecord, type NozzleCmlRecord, type PracticalTmin, type Writeup
+  users, userCredentials, passwordResetTokens, organizations, organizationMembers, reportGrants, reportTemplates, tanks, reports, appendices, cmlRecords, cmlReadings, nozzleCmlRecords, practicalTmins, writeups,
+  shellCalculations, shellCourses, roofCalculations, floorCalculations, floorScans, tankHistories,
+  nozzleCmlSurveys, nozzleCmlRows, settlementSurveys, reportRevisions, reportStatusChanges, attachments,
+  type User, type UpsertUser, type UserCredential, type Organization, type InsertOrganization, type OrganizationMember,
+  type InsertOrganizationMember, type ReportTemplate, type InsertReportTemplate, type ReportGrant, type InsertReportGrant, type Tank, type InsertTank, type Report, type InsertReport, type UpdateReport, type InsertAppendix,
+  type InsertCmlRecord, type InsertCmlReading, type InsertNozzleCmlRecord, type InsertPracticalTmin, type InsertWriteup,
+  type Appendix, type CmlRecord, type CmlReading, type NozzleCmlRecord, type PracticalTmin, type Writeup,
+  type InsertReportRevision, type ReportRevision, type InsertReportStatusChange, type ReportStatusChange,
+  type Attachment, type InsertAttachment, type UpdateAttachment
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import {
+  shellCalculationSchema, roofCalculationSchema, floorMRTCalculationSchema, tankHistorySchema,
+  nozzleCmlDataSchema, settlementSurveySchema,
+  type ShellCalculationData, type RoofCalculationData, type FloorMRTCalculationData, type TankHistoryData,
+  type NozzleCMLData, type SettlementSurveyData
+} from "@shared/calculations";
+import { reportWorkflowFields } from "@shared/workflow";
+import { reportSharingFields } from "@shared/access";
+import { database } from "./db";
+import { eq, and, desc, asc, gt, isNull, inArray, sql, getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+// Section rows hold null for unset fields, which the section schemas expect to be absent
+function sectionFields(row: Record<string, unknown>, ...omit: string[]): Record<string, unknown> {
+  const skipped = ["id", "reportId", "createdAt", "updatedAt", ...omit];
+  return Object.fromEntries(
+    Object.entries(row).filter(([key, value]) => value !== null && !skipped.includes(key))
+  );
+}
+
+// Every column is written on save so that fields cleared in the form do not keep their old value
+function sectionValues<T extends PgTable>(table: T, data: Record<string, unknown>): T["$inferInsert"] {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(getTableColumns(table))) {
+    if (key === "id" || key === "reportId" || key === "createdAt") continue;
+    values[key] = data[key] ?? null;
+  }
+  values.updatedAt = new Date();
+  return values as T["$inferInsert"];
+}
+
+export type TankSummary = Tank & { inspectionCount: number; lastInspectionDate: Date | null };
+
+export type ReportRevisionSummary = Omit<ReportRevision, "before" | "after"> & { changedByName: string | null };
+
+export type OrganizationSummary = Organization & { role: string };
+export type OrganizationMemberSummary = OrganizationMember & { name: string | null; email: string | null };
+export type ReportGrantSummary = ReportGrant & { name: string | null; email: string | null };
+
+// The organization memberships and grant through which a user may reach a report
+export interface ReportAccessRoles {
+  organizationRole?: string;
+  clientRole?: string;
+  grantRole?: string;
+}
+
+export type ReportStatusChangeSummary = ReportStatusChange & { changedByName: string | null };
+
+// Status and sign-off columns of a report, set together with the status change that records them
+export type ReportWorkflowUpdate = Partial<Pick<Report, (typeof reportWorkflowFields)[number]>>;
+
+// A CML as captured in a revision, with its reading history
+export type CmlRecordSnapshot = Omit<InsertCmlRecord, "reportId"> & {
+  readings: Omit<InsertCmlReading, "cmlRecordId">[];
+};
+
+function isoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
 
 export interface IStorage {
-  // User methods (for Replit Auth)
+  // User methods (for server/auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserCredential(userId: string): Promise<UserCredential | undefined>;
+  setUserPassword(userId: string, passwordHash: string): Promise<void>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  resetPassword(tokenHash: string, passwordHash: string): Promise<User | undefined>;
+
+  // Organization methods
+  getUserOrganizations(userId: string): Promise<OrganizationSummary[]>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization, adminId: string): Promise<Organization>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMemberSummary[]>;
+  getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined>;
+  addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(organizationId: string, userId: string, role: string): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>;
+
+  // Report template methods
+  getOrganizationTemplates(organizationId: string): Promise<ReportTemplate[]>;
+  getReportTemplate(organizationId: string, id: string): Promise<ReportTemplate | undefined>;
+  getDefaultReportTemplate(organizationId: string): Promise<ReportTemplate | undefined>;
+  createReportTemplate(organizationId: string, template: InsertReportTemplate, createdBy: string): Promise<ReportTemplate>;
+  updateReportTemplate(organizationId: string, id: string, template: Partial<InsertReportTemplate>): Promise<ReportTemplate | undefined>;
+  setReportTemplateLogo(organizationId: string, id: string, logoUrl: string | null): Promise<ReportTemplate | undefined>;
+  deleteReportTemplate(organizationId: string, id: string): Promise<void>;
+
+  // Tank methods
+  getUserTanks(userId: string): Promise<TankSummary[]>;
+  getTank(id: string): Promise<Tank | undefined>;
+  getOrCreateTank(ownerId: string, tag: string): Promise<Tank>;
+  createTank(tank: InsertTank): Promise<Tank>;
+  updateTank(id: string, tank: Partial<InsertTank>): Promise<Tank | undefined>;
+  deleteTank(id: string): Promise<void>;
+  getTankReports(tankId: string): Promise<Report[]>;
 
   // Report methods
   getReport(id: string): Promise<Report | undefined>;
   getReportWithDetails(id: string): Promise<any>;
   getUserReports(userId: string): Promise<Report[]>;
+  getReportAccessRoles(report: Report, userId: string): Promise<ReportAccessRoles>;
+  updateReportSharing(id: string, sharing: Pick<InsertReport, "organizationId" | "clientOrganizationId">): Promise<Report>;
+  getReportGrants(reportId: string): Promise<ReportGrantSummary[]>;
+  saveReportGrant(grant: InsertReportGrant): Promise<ReportGrant>;
+  deleteReportGrant(reportId: string, id: string): Promise<void>;
   createReport(report: InsertReport): Promise<Report>;
-  updateReport(id: string, report: Partial<InsertReport>): Promise<Report>;
-  deleteReport(id: string): Promise<void>;
+  updateReport(id: string, report: UpdateReport): Promise<Report>;
+  moveReportToTank(id: string, tankAssetId: string): Promise<Report>;
+  replaceReportCustomFields(id: string, customFields: Record<string, any>): Promise<Report>;
+  deleteReport(id: string): Promise<Attachment[]>;
 
   // Appendix methods
   getReportAppendices(reportId: string): Promise<Appendix[]>;
+  getAppendix(id: string): Promise<Appendix | undefined>;
   createAppendix(appendix: InsertAppendix): Promise<Appendix>;
   updateAppendix(id: string, appendix: Partial<InsertAppendix>): Promise<Appendix>;
   deleteAppendix(id: string): Promise<void>;
 
   // CML methods
   getReportCmlRecords(reportId: string): Promise<CmlRecord[]>;
+  getCmlRecord(id: string): Promise<CmlRecord | undefined>;
   createCmlRecord(cml: InsertCmlRecord): Promise<CmlRecord>;
   updateCmlRecord(id: string, cml: Partial<InsertCmlRecord>): Promise<CmlRecord>;
   deleteCmlRecord(id: string): Promise<void>;
+  getCmlReadings(cmlRecordId: string): Promise<CmlReading[]>;
+  createCmlReading(reading: InsertCmlReading): Promise<CmlReading>;
+  deleteCmlReading(cmlRecordId: string, id: string): Promise<boolean>;
 
   // Nozzle CML methods
   getReportNozzleCmlRecords(reportId: string): Promise<NozzleCmlRecord[]>;
@@ -40,6 +147,7 @@ export interface IStorage {
 
   // Practical Tmin methods
   getReportPracticalTmins(reportId: string): Promise<PracticalTmin[]>;
+  getPracticalTmin(id: string): Promise<PracticalTmin | undefined>;
   createPracticalTmin(practicalTmin: InsertPracticalTmin): Promise<PracticalTmin>;
   updatePracticalTmin(id: string, practicalTmin: Partial<InsertPracticalTmin>): Promise<PracticalTmin>;
   deletePracticalTmin(id: string): Promise<void>;
@@ -47,16 +155,57 @@ export interface IStorage {
   // Writeup methods
   getReportWriteup(reportId: string): Promise<Writeup | undefined>;
   createOrUpdateWriteup(writeup: InsertWriteup): Promise<Writeup>;
+
+  // Attachment methods
+  getReportAttachments(reportId: string): Promise<Attachment[]>;
+  getAttachment(reportId: string, id: string): Promise<Attachment | undefined>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  updateAttachment(reportId: string, id: string, attachment: UpdateAttachment): Promise<Attachment | undefined>;
+  deleteAttachment(reportId: string, id: string): Promise<void>;
+
+  // Calculation section methods
+  getShellCalculation(reportId: string): Promise<ShellCalculationData | undefined>;
+  saveShellCalculation(reportId: string, data: ShellCalculationData): Promise<ShellCalculationData>;
+  getRoofCalculation(reportId: string): Promise<RoofCalculationData | undefined>;
+  saveRoofCalculation(reportId: string, data: RoofCalculationData): Promise<RoofCalculationData>;
+  getFloorCalculation(reportId: string): Promise<FloorMRTCalculationData | undefined>;
+  saveFloorCalculation(reportId: string, data: FloorMRTCalculationData): Promise<FloorMRTCalculationData>;
+  getTankHistory(reportId: string): Promise<TankHistoryData | undefined>;
+  saveTankHistory(reportId: string, data: TankHistoryData): Promise<TankHistoryData>;
+  getNozzleCml(reportId: string): Promise<NozzleCMLData | undefined>;
+  saveNozzleCml(reportId: string, data: NozzleCMLData): Promise<NozzleCMLData>;
+  getSettlementSurvey(reportId: string): Promise<SettlementSurveyData | undefined>;
+  saveSettlementSurvey(reportId: string, data: SettlementSurveyData): Promise<SettlementSurveyData>;
+
+  // Sections kept in customFields are merged in place so concurrent saves of other sections survive
+  saveReportSection(reportId: string, section: string, data: unknown): Promise<void>;
+
+  // Revision methods
+  lockReportRevisions(reportId: string): Promise<void>;
+  createReportRevision(revision: InsertReportRevision): Promise<ReportRevision>;
+  getReportRevisions(reportId: string): Promise<ReportRevisionSummary[]>;
+  getReportRevisionLog(reportId: string): Promise<ReportRevision[]>;
+  // Restoring a revision replaces a report's rows wholesale
+  replaceCmlRecords(reportId: string, records: CmlRecordSnapshot[]): Promise<void>;
+  replaceAppendices(reportId: string, rows: Omit<InsertAppendix, "reportId">[]): Promise<void>;
+  replacePracticalTmins(reportId: string, rows: Omit<InsertPracticalTmin, "reportId">[]): Promise<void>;
+  replaceNozzleCmlRecords(reportId: string, rows: Omit<InsertNozzleCmlRecord, "reportId">[]): Promise<void>;
+  // Files cannot be brought back, so only the details of attachments that still exist are restored
+  restoreAttachmentDetails(reportId: string, rows: (UpdateAttachment & { id: string })[]): Promise<void>;
+
+  // Workflow methods
+  transitionReport(id: string, update: ReportWorkflowUpdate, change: InsertReportStatusChange): Promise<Report>;
+  getReportStatusChanges(reportId: string): Promise<ReportStatusChangeSummary[]>;
 }
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await database().select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await database()
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -70,8 +219,253 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await database().select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+    return user || undefined;
+  }
+
+  async getUserCredential(userId: string): Promise<UserCredential | undefined> {
+    const [credential] = await database().select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await database()
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await database().insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+  }
+
+  // Spends the token and sets the new password together, so a token works exactly once
+  async resetPassword(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return await database().transaction(async (tx) => {
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      await tx
+        .insert(userCredentials)
+        .values({ userId: token.userId, passwordHash })
+        .onConflictDoUpdate({
+          target: userCredentials.userId,
+          set: { passwordHash, updatedAt: new Date() },
+        });
+      const [user] = await tx.select().from(users).where(eq(users.id, token.userId));
+      return user || undefined;
+    });
+  }
+
+  async getUserOrganizations(userId: string): Promise<OrganizationSummary[]> {
+    return await database()
+      .select({ ...getTableColumns(organizations), role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizations.name));
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await database().select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization, adminId: string): Promise<Organization> {
+    return await database().transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values(insertOrganization).returning();
+      await tx.insert(organizationMembers).values({ organizationId: organization.id, userId: adminId, role: "admin" });
+      return organization;
+    });
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMemberSummary[]> {
+    return await database()
+      .select({
+        ...getTableColumns(organizationMembers),
+        name: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+        email: users.email,
+      })
+      .from(organizationMembers)
+      .leftJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(asc(users.email));
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await database()
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async addOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [member] = await database()
+      .insert(organizationMembers)
+      .values(insertMember)
+      .onConflictDoUpdate({
+        target: [organizationMembers.organizationId, organizationMembers.userId],
+        set: { role: insertMember.role },
+      })
+      .returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: string, userId: string, role: string): Promise<OrganizationMember | undefined> {
+    const [member] = await database()
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    await database()
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  }
+
+  async getOrganizationTemplates(organizationId: string): Promise<ReportTemplate[]> {
+    return await database()
+      .select()
+      .from(reportTemplates)
+      .where(eq(reportTemplates.organizationId, organizationId))
+      .orderBy(desc(reportTemplates.isDefault), asc(reportTemplates.name));
+  }
+
+  async getReportTemplate(organizationId: string, id: string): Promise<ReportTemplate | undefined> {
+    const [template] = await database()
+      .select()
+      .from(reportTemplates)
+      .where(and(eq(reportTemplates.organizationId, organizationId), eq(reportTemplates.id, id)));
+    return template || undefined;
+  }
+
+  async getDefaultReportTemplate(organizationId: string): Promise<ReportTemplate | undefined> {
+    const [template] = await database()
+      .select()
+      .from(reportTemplates)
+      .where(and(eq(reportTemplates.organizationId, organizationId), eq(reportTemplates.isDefault, true)));
+    return template || undefined;
+  }
+
+  // An organization has at most one default template
+  async createReportTemplate(organizationId: string, insertTemplate: InsertReportTemplate, createdBy: string): Promise<ReportTemplate> {
+    return await database().transaction(async (tx) => {
+      if (insertTemplate.isDefault) {
+        await tx.update(reportTemplates).set({ isDefault: false }).where(eq(reportTemplates.organizationId, organizationId));
+      }
+      const [template] = await tx
+        .insert(reportTemplates)
+        .values({ ...insertTemplate, organizationId, createdBy })
+        .returning();
+      return template;
+    });
+  }
+
+  async updateReportTemplate(organizationId: string, id: string, updates: Partial<InsertReportTemplate>): Promise<ReportTemplate | undefined> {
+    return await database().transaction(async (tx) => {
+      if (updates.isDefault) {
+        await tx.update(reportTemplates).set({ isDefault: false }).where(eq(reportTemplates.organizationId, organizationId));
+      }
+      const [template] = await tx
+        .update(reportTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(reportTemplates.organizationId, organizationId), eq(reportTemplates.id, id)))
+        .returning();
+      return template || undefined;
+    });
+  }
+
+  async setReportTemplateLogo(organizationId: string, id: string, logoUrl: string | null): Promise<ReportTemplate | undefined> {
+    const [template] = await database()
+      .update(reportTemplates)
+      .set({ logoUrl, updatedAt: new Date() })
+      .where(and(eq(reportTemplates.organizationId, organizationId), eq(reportTemplates.id, id)))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteReportTemplate(organizationId: string, id: string): Promise<void> {
+    await database()
+      .delete(reportTemplates)
+      .where(and(eq(reportTemplates.organizationId, organizationId), eq(reportTemplates.id, id)));
+  }
+
+  async getUserTanks(userId: string): Promise<TankSummary[]> {
+    return await database()
+      .select({
+        ...getTableColumns(tanks),
+        inspectionCount: sql<number>`count(${reports.id})::int`,
+        lastInspectionDate: sql<Date | null>`max(${reports.inspectionDate})`,
+      })
+      .from(tanks)
+      .leftJoin(reports, eq(reports.tankAssetId, tanks.id))
+      .where(eq(tanks.ownerId, userId))
+      .groupBy(tanks.id)
+      .orderBy(asc(tanks.tag));
+  }
+
+  async getTank(id: string): Promise<Tank | undefined> {
+    const [tank] = await database().select().from(tanks).where(eq(tanks.id, id));
+    return tank || undefined;
+  }
+
+  async getOrCreateTank(ownerId: string, tag: string): Promise<Tank> {
+    const [existing] = await database().select().from(tanks).where(and(eq(tanks.ownerId, ownerId), eq(tanks.tag, tag)));
+    if (existing) return existing;
+    return await this.createTank({ ownerId, tag });
+  }
+
+  async createTank(insertTank: InsertTank): Promise<Tank> {
+    const [tank] = await database()
+      .insert(tanks)
+      .values(insertTank)
+      .returning();
+    return tank;
+  }
+
+  async updateTank(id: string, updateData: Partial<InsertTank>): Promise<Tank | undefined> {
+    const [tank] = await database()
+      .update(tanks)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(tanks.id, id))
+      .returning();
+    return tank || undefined;
+  }
+
+  async deleteTank(id: string): Promise<void> {
+    // Reports outlive the registry entry; they keep their tank tag
+    await database().transaction(async (tx) => {
+      await tx.update(reports).set({ tankAssetId: null }).where(eq(reports.tankAssetId, id));
+      await tx.delete(tanks).where(eq(tanks.id, id));
+    });
+  }
+
+  async getTankReports(tankId: string): Promise<Report[]> {
+    return await database()
+      .select()
+      .from(reports)
+      .where(eq(reports.tankAssetId, tankId))
+      .orderBy(sql`${reports.inspectionDate} asc nulls last`, asc(reports.createdAt));
+  }
+
   async getReport(id: string): Promise<Report | undefined> {
-    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    const [report] = await database().select().from(reports).where(eq(reports.id, id));
     return report || undefined;
   }
 
@@ -87,6 +481,15 @@ export class DatabaseStorage implements IStorage {
       this.getReportWriteup(id),
     ]);
 
+    const [shellData, roofData, floorData, tankHistoryData, nozzleCmlSurvey, settlementData] = await Promise.all([
+      this.getShellCalculation(id),
+      this.getRoofCalculation(id),
+      this.getFloorCalculation(id),
+      this.getTankHistory(id),
+      this.getNozzleCml(id),
+      this.getSettlementSurvey(id),
+    ]);
+
     return {
       ...report,
       appendices: appendicesData,
@@ -94,45 +497,170 @@ export class DatabaseStorage implements IStorage {
       nozzleCmlRecords: nozzleCmlData,
       practicalTmins: practicalTminsData,
       writeup: writeupData,
+      shellCalculations: shellData,
+      roofCalculations: roofData,
+      floorMRTCalculations: floorData,
+      tankHistory: tankHistoryData,
+      nozzleCML: nozzleCmlSurvey,
+      settlementSurvey: settlementData,
     };
   }
 
+  // Reports the user owns, was granted, or can reach through an organization; client
+  // organizations only see issued reports
   async getUserReports(userId: string): Promise<Report[]> {
-    return await db.select().from(reports).where(eq(reports.ownerId, userId)).orderBy(desc(reports.updatedAt));
+    const memberOf = (role: "client" | "staff") => sql`(
+      select ${organizationMembers.organizationId} from ${organizationMembers}
+      where ${organizationMembers.userId} = ${userId}
+        and ${organizationMembers.role} ${role === "client" ? sql`=` : sql`<>`} 'client_viewer'
+    )`;
+    return await database()
+      .select()
+      .from(reports)
+      .where(sql`${reports.ownerId} = ${userId}
+        or ${reports.organizationId} in ${memberOf("staff")}
+        or (${reports.status} = 'issued' and ${reports.clientOrganizationId} in ${memberOf("client")})
+        or ${reports.id} in (select ${reportGrants.reportId} from ${reportGrants} where ${reportGrants.userId} = ${userId})`)
+      .orderBy(desc(reports.updatedAt));
+  }
+
+  async getReportAccessRoles(report: Report, userId: string): Promise<ReportAccessRoles> {
+    const [organizationMember, clientMember, [grant]] = await Promise.all([
+      report.organizationId ? this.getOrganizationMember(report.organizationId, userId) : undefined,
+      report.clientOrganizationId ? this.getOrganizationMember(report.clientOrganizationId, userId) : undefined,
+      database().select().from(reportGrants).where(and(eq(reportGrants.reportId, report.id), eq(reportGrants.userId, userId))),
+    ]);
+    return {
+      organizationRole: organizationMember?.role,
+      clientRole: clientMember?.role,
+      grantRole: grant?.role,
+    };
+  }
+
+  async updateReportSharing(id: string, sharing: Pick<InsertReport, "organizationId" | "clientOrganizationId">): Promise<Report> {
+    const [report] = await database()
+      .update(reports)
+      .set({ ...sharing, updatedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return report;
+  }
+
+  async getReportGrants(reportId: string): Promise<ReportGrantSummary[]> {
+    return await database()
+      .select({
+        ...getTableColumns(reportGrants),
+        name: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+        email: users.email,
+      })
+      .from(reportGrants)
+      .leftJoin(users, eq(users.id, reportGrants.userId))
+      .where(eq(reportGrants.reportId, reportId))
+      .orderBy(asc(reportGrants.createdAt));
+  }
+
+  async saveReportGrant(insertGrant: InsertReportGrant): Promise<ReportGrant> {
+    const [grant] = await database()
+      .insert(reportGrants)
+      .values(insertGrant)
+      .onConflictDoUpdate({
+        target: [reportGrants.reportId, reportGrants.userId],
+        set: { role: insertGrant.role, grantedBy: insertGrant.grantedBy },
+      })
+      .returning();
+    return grant;
+  }
+
+  async deleteReportGrant(reportId: string, id: string): Promise<void> {
+    await database().delete(reportGrants).where(and(eq(reportGrants.reportId, reportId), eq(reportGrants.id, id)));
   }
 
   async createReport(insertReport: InsertReport): Promise<Report> {
-    const [report] = await db
+    const [report] = await database()
       .insert(reports)
       .values(insertReport)
       .returning();
     return report;
   }
 
-  async updateReport(id: string, updateData: Partial<InsertReport>): Promise<Report> {
+  async updateReport(id: string, updateData: UpdateReport): Promise<Report> {
     // Handle date conversion - if inspectionDate is a string, convert to Date
     if (updateData.inspectionDate && typeof updateData.inspectionDate === 'string') {
       updateData.inspectionDate = new Date(updateData.inspectionDate);
     }
     
-    const [report] = await db
+    // Status and sign-off change only through transitionReport, sharing through updateReportSharing
+    // and the tank through moveReportToTank; the owner never changes
+    const protectedFields: readonly string[] = [
+      ...reportWorkflowFields, ...reportSharingFields, "id", "ownerId", "tankAssetId", "createdAt",
+    ];
+    const fields: Record<string, unknown> = Object.fromEntries(
+      Object.entries(updateData).filter(([key]) => !protectedFields.includes(key))
+    );
+    // Custom fields are merged key by key, as saveReportSection does, so a form loaded before
+    // another tab saved its section does not overwrite it
+    if (fields.customFields) {
+      fields.customFields = sql`coalesce(${reports.customFields}, '{}'::jsonb) || ${JSON.stringify(fields.customFields)}::jsonb`;
+    }
+    
+    const [report] = await database()
       .update(reports)
-      .set({ ...updateData, updatedAt: new Date() })
+      .set({ ...fields, updatedAt: new Date() })
       .where(eq(reports.id, id))
       .returning();
     return report;
   }
 
-  async deleteReport(id: string): Promise<void> {
-    await db.delete(reports).where(eq(reports.id, id));
+  // For restores and migrations, which set the whole object
+  async replaceReportCustomFields(id: string, customFields: Record<string, any>): Promise<Report> {
+    const [report] = await database()
+      .update(reports)
+      .set({ customFields, updatedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return report;
+  }
+
+  async moveReportToTank(id: string, tankAssetId: string): Promise<Report> {
+    const [report] = await database()
+      .update(reports)
+      .set({ tankAssetId, updatedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return report;
+  }
+
+  // Everything stored under the report goes with it. The attachment rows that were removed
+  // are returned so their files can be deleted once the transaction has committed.
+  async deleteReport(id: string): Promise<Attachment[]> {
+    return await database().transaction(async (tx) => {
+      const reportCmlRecords = tx.select({ id: cmlRecords.id }).from(cmlRecords).where(eq(cmlRecords.reportId, id));
+      await tx.delete(cmlReadings).where(inArray(cmlReadings.cmlRecordId, reportCmlRecords));
+      const reportTables = [
+        appendices, cmlRecords, nozzleCmlRecords, practicalTmins, writeups, shellCalculations, shellCourses,
+        roofCalculations, floorCalculations, floorScans, tankHistories, nozzleCmlSurveys, nozzleCmlRows,
+        settlementSurveys, reportRevisions, reportStatusChanges, reportGrants,
+      ];
+      for (const table of reportTables) {
+        await tx.delete(table).where(eq(table.reportId, id));
+      }
+      const removed = await tx.delete(attachments).where(eq(attachments.reportId, id)).returning();
+      await tx.delete(reports).where(eq(reports.id, id));
+      return removed;
+    });
   }
 
   async getReportAppendices(reportId: string): Promise<Appendix[]> {
-    return await db.select().from(appendices).where(eq(appendices.reportId, reportId));
+    return await database().select().from(appendices).where(eq(appendices.reportId, reportId));
+  }
+
+  async getAppendix(id: string): Promise<Appendix | undefined> {
+    const [appendix] = await database().select().from(appendices).where(eq(appendices.id, id));
+    return appendix || undefined;
   }
 
   async createAppendix(insertAppendix: InsertAppendix): Promise<Appendix> {
-    const [appendix] = await db
+    const [appendix] = await database()
       .insert(appendices)
       .values(insertAppendix)
       .returning();
@@ -140,7 +668,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateAppendix(id: string, updateData: Partial<InsertAppendix>): Promise<Appendix> {
-    const [appendix] = await db
+    const [appendix] = await database()
       .update(appendices)
       .set(updateData)
       .where(eq(appendices.id, id))
@@ -149,15 +677,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAppendix(id: string): Promise<void> {
-    await db.delete(appendices).where(eq(appendices.id, id));
+    await database().delete(appendices).where(eq(appendices.id, id));
   }
 
   async getReportCmlRecords(reportId: string): Promise<CmlRecord[]> {
-    return await db.select().from(cmlRecords).where(eq(cmlRecords.reportId, reportId));
+    return await database().select().from(cmlRecords).where(eq(cmlRecords.reportId, reportId));
+  }
+
+  async getCmlRecord(id: string): Promise<CmlRecord | undefined> {
+    const [cml] = await database().select().from(cmlRecords).where(eq(cmlRecords.id, id));
+    return cml || undefined;
   }
 
   async createCmlRecord(insertCml: InsertCmlRecord): Promise<CmlRecord> {
-    const [cml] = await db
+    const [cml] = await database()
       .insert(cmlRecords)
       .values(insertCml)
       .returning();
@@ -165,7 +698,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateCmlRecord(id: string, updateData: Partial<InsertCmlRecord>): Promise<CmlRecord> {
-    const [cml] = await db
+    const [cml] = await database()
       .update(cmlRecords)
       .set(updateData)
       .where(eq(cmlRecords.id, id))
@@ -174,15 +707,43 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCmlRecord(id: string): Promise<void> {
-    await db.delete(cmlRecords).where(eq(cmlRecords.id, id));
+    await database().transaction(async (tx) => {
+      await tx.delete(cmlReadings).where(eq(cmlReadings.cmlRecordId, id));
+      await tx.delete(cmlRecords).where(eq(cmlRecords.id, id));
+    });
+  }
+
+  async getCmlReadings(cmlRecordId: string): Promise<CmlReading[]> {
+    return await database()
+      .select()
+      .from(cmlReadings)
+      .where(eq(cmlReadings.cmlRecordId, cmlRecordId))
+      .orderBy(asc(cmlReadings.readingDate));
+  }
+
+  async createCmlReading(insertReading: InsertCmlReading): Promise<CmlReading> {
+    const [reading] = await database()
+      .insert(cmlReadings)
+      .values(insertReading)
+      .returning();
+    return reading;
+  }
+
+  // False when the reading does not belong to the CML record
+  async deleteCmlReading(cmlRecordId: string, id: string): Promise<boolean> {
+    const deleted = await database()
+      .delete(cmlReadings)
+      .where(and(eq(cmlReadings.cmlRecordId, cmlRecordId), eq(cmlReadings.id, id)))
+      .returning({ id: cmlReadings.id });
+    return deleted.length > 0;
   }
 
   async getReportNozzleCmlRecords(reportId: string): Promise<NozzleCmlRecord[]> {
-    return await db.select().from(nozzleCmlRecords).where(eq(nozzleCmlRecords.reportId, reportId));
+    return await database().select().from(nozzleCmlRecords).where(eq(nozzleCmlRecords.reportId, reportId));
   }
 
   async createNozzleCmlRecord(insertNozzleCml: InsertNozzleCmlRecord): Promise<NozzleCmlRecord> {
-    const [nozzleCml] = await db
+    const [nozzleCml] = await database()
       .insert(nozzleCmlRecords)
       .values(insertNozzleCml)
       .returning();
@@ -190,7 +751,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateNozzleCmlRecord(id: string, updateData: Partial<InsertNozzleCmlRecord>): Promise<NozzleCmlRecord> {
-    const [nozzleCml] = await db
+    const [nozzleCml] = await database()
       .update(nozzleCmlRecords)
       .set(updateData)
       .where(eq(nozzleCmlRecords.id, id))
@@ -199,15 +760,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteNozzleCmlRecord(id: string): Promise<void> {
-    await db.delete(nozzleCmlRecords).where(eq(nozzleCmlRecords.id, id));
+    await database().delete(nozzleCmlRecords).where(eq(nozzleCmlRecords.id, id));
   }
 
   async getReportPracticalTmins(reportId: string): Promise<PracticalTmin[]> {
-    return await db.select().from(practicalTmins).where(eq(practicalTmins.reportId, reportId));
+    return await database().select().from(practicalTmins).where(eq(practicalTmins.reportId, reportId));
+  }
+
+  async getPracticalTmin(id: string): Promise<PracticalTmin | undefined> {
+    const [practicalTmin] = await database().select().from(practicalTmins).where(eq(practicalTmins.id, id));
+    return practicalTmin || undefined;
   }
 
   async createPracticalTmin(insertPracticalTmin: InsertPracticalTmin): Promise<PracticalTmin> {
-    const [practicalTmin] = await db
+    const [practicalTmin] = await database()
       .insert(practicalTmins)
       .values(insertPracticalTmin)
       .returning();
@@ -215,7 +781,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePracticalTmin(id: string, updateData: Partial<InsertPracticalTmin>): Promise<PracticalTmin> {
-    const [practicalTmin] = await db
+    const [practicalTmin] = await database()
       .update(practicalTmins)
       .set(updateData)
       .where(eq(practicalTmins.id, id))
@@ -224,11 +790,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deletePracticalTmin(id: string): Promise<void> {
-    await db.delete(practicalTmins).where(eq(practicalTmins.id, id));
+    await database().delete(practicalTmins).where(eq(practicalTmins.id, id));
   }
 
   async getReportWriteup(reportId: string): Promise<Writeup | undefined> {
-    const [writeup] = await db.select().from(writeups).where(eq(writeups.reportId, reportId));
+    const [writeup] = await database().select().from(writeups).where(eq(writeups.reportId, reportId));
     return writeup || undefined;
   }
 
@@ -236,20 +802,338 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getReportWriteup(insertWriteup.reportId);
     
     if (existing) {
-      const [writeup] = await db
+      const [writeup] = await database()
         .update(writeups)
         .set({ ...insertWriteup, updatedAt: new Date() })
         .where(eq(writeups.reportId, insertWriteup.reportId))
         .returning();
       return writeup;
     } else {
-      const [writeup] = await db
+      const [writeup] = await database()
         .insert(writeups)
         .values(insertWriteup)
         .returning();
       return writeup;
     }
   }
+
+  async getReportAttachments(reportId: string): Promise<Attachment[]> {
+    return await database()
+      .select()
+      .from(attachments)
+      .where(eq(attachments.reportId, reportId))
+      .orderBy(sql`${attachments.photoNumber} asc nulls last`, asc(attachments.createdAt));
+  }
+
+  async getAttachment(reportId: string, id: string): Promise<Attachment | undefined> {
+    const [attachment] = await database()
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.reportId, reportId), eq(attachments.id, id)));
+    return attachment || undefined;
+  }
+
+  // Photos are numbered on from the report's highest photo number
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    return await database().transaction(async (tx) => {
+      let photoNumber = insertAttachment.photoNumber ?? null;
+      if (insertAttachment.kind === "photo" && photoNumber === null) {
+        const [{ last }] = await tx
+          .select({ last: sql<number>`coalesce(max(${attachments.photoNumber}), 0)::int` })
+          .from(attachments)
+          .where(eq(attachments.reportId, insertAttachment.reportId));
+        photoNumber = last + 1;
+      }
+      const [attachment] = await tx
+        .insert(attachments)
+        .values({ ...insertAttachment, photoNumber })
+        .returning();
+      return attachment;
+    });
+  }
+
+  async updateAttachment(reportId: string, id: string, updates: UpdateAttachment): Promise<Attachment | undefined> {
+    const [attachment] = await database()
+      .update(attachments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(attachments.reportId, reportId), eq(attachments.id, id)))
+      .returning();
+    return attachment || undefined;
+  }
+
+  async deleteAttachment(reportId: string, id: string): Promise<void> {
+    await database()
+      .delete(attachments)
+      .where(and(eq(attachments.reportId, reportId), eq(attachments.id, id)));
+  }
+
+  async getShellCalculation(reportId: string): Promise<ShellCalculationData | undefined> {
+    const [header] = await database().select().from(shellCalculations).where(eq(shellCalculations.reportId, reportId));
+    if (!header) return undefined;
+    const courses = await database().select().from(shellCourses)
+      .where(eq(shellCourses.reportId, reportId))
+      .orderBy(asc(shellCourses.courseNumber));
+    return shellCalculationSchema.parse({
+      ...sectionFields(header),
+      courses: courses.map((course) => sectionFields(course)),
+    });
+  }
+
+  async saveShellCalculation(reportId: string, data: ShellCalculationData): Promise<ShellCalculationData> {
+    const { courses, ...header } = data;
+    const values = sectionValues(shellCalculations, header);
+    await database().transaction(async (tx) => {
+      await tx.insert(shellCalculations)
+        .values({ ...values, reportId })
+        .onConflictDoUpdate({ target: shellCalculations.reportId, set: values });
+      await tx.delete(shellCourses).where(eq(shellCourses.reportId, reportId));
+      if (courses.length > 0) {
+        await tx.insert(shellCourses).values(courses.map((course) => ({ ...course, reportId })));
+      }
+    });
+    return data;
+  }
+
+  async getRoofCalculation(reportId: string): Promise<RoofCalculationData | undefined> {
+    const [row] = await database().select().from(roofCalculations).where(eq(roofCalculations.reportId, reportId));
+    return row ? roofCalculationSchema.parse(sectionFields(row)) : undefined;
+  }
+
+  async saveRoofCalculation(reportId: string, data: RoofCalculationData): Promise<RoofCalculationData> {
+    const values = sectionValues(roofCalculations, data);
+    await database().insert(roofCalculations)
+      .values({ ...values, reportId })
+      .onConflictDoUpdate({ target: roofCalculations.reportId, set: values });
+    return data;
+  }
+
+  async getFloorCalculation(reportId: string): Promise<FloorMRTCalculationData | undefined> {
+    const [header] = await database().select().from(floorCalculations).where(eq(floorCalculations.reportId, reportId));
+    if (!header) return undefined;
+    const scans = await database().select().from(floorScans)
+      .where(eq(floorScans.reportId, reportId))
+      .orderBy(asc(floorScans.position));
+    return floorMRTCalculationSchema.parse({
+      ...sectionFields(header),
+      scans: scans.map((scan) => sectionFields(scan, "position")),
+    });
+  }
+
+  async saveFloorCalculation(reportId: string, data: FloorMRTCalculationData): Promise<FloorMRTCalculationData> {
+    const { scans, ...header } = data;
+    const values = sectionValues(floorCalculations, header);
+    await database().transaction(async (tx) => {
+      await tx.insert(floorCalculations)
+        .values({ ...values, reportId })
+        .onConflictDoUpdate({ target: floorCalculations.reportId, set: values });
+      await tx.delete(floorScans).where(eq(floorScans.reportId, reportId));
+      if (scans.length > 0) {
+        await tx.insert(floorScans).values(scans.map((scan, position) => ({ ...scan, reportId, position })));
+      }
+    });
+    return data;
+  }
+
+  async getTankHistory(reportId: string): Promise<TankHistoryData | undefined> {
+    const [row] = await database().select().from(tankHistories).where(eq(tankHistories.reportId, reportId));
+    return row ? tankHistorySchema.parse(sectionFields(row)) : undefined;
+  }
+
+  async saveTankHistory(reportId: string, data: TankHistoryData): Promise<TankHistoryData> {
+    const values = sectionValues(tankHistories, data);
+    await database().insert(tankHistories)
+      .values({ ...values, reportId })
+      .onConflictDoUpdate({ target: tankHistories.reportId, set: values });
+    return data;
+  }
+
+  async getNozzleCml(reportId: string): Promise<NozzleCMLData | undefined> {
+    const [header] = await database().select().from(nozzleCmlSurveys).where(eq(nozzleCmlSurveys.reportId, reportId));
+    if (!header) return undefined;
+    const rows = await database().select().from(nozzleCmlRows)
+      .where(eq(nozzleCmlRows.reportId, reportId))
+      .orderBy(asc(nozzleCmlRows.position));
+    return nozzleCmlDataSchema.parse({
+      ...sectionFields(header),
+      id: header.id,
+      reportId,
+      records: rows.map((row) => ({ ...sectionFields(row, "recordId", "position"), id: row.recordId })),
+    });
+  }
+
+  async saveNozzleCml(reportId: string, data: NozzleCMLData): Promise<NozzleCMLData> {
+    const { records, ...header } = data;
+    const values = sectionValues(nozzleCmlSurveys, header);
+    const [survey] = await database().transaction(async (tx) => {
+      const saved = await tx.insert(nozzleCmlSurveys)
+        .values({ ...values, reportId })
+        .onConflictDoUpdate({ target: nozzleCmlSurveys.reportId, set: values })
+        .returning();
+      await tx.delete(nozzleCmlRows).where(eq(nozzleCmlRows.reportId, reportId));
+      if (records.length > 0) {
+        await tx.insert(nozzleCmlRows).values(records.map(({ id, ...record }, position) => ({
+          ...record,
+          recordId: id,
+          reportId,
+          position,
+        })));
+      }
+      return saved;
+    });
+    return { ...data, id: survey.id, reportId };
+  }
+
+  async getSettlementSurvey(reportId: string): Promise<SettlementSurveyData | undefined> {
+    const [row] = await database().select().from(settlementSurveys).where(eq(settlementSurveys.reportId, reportId));
+    if (!row) return undefined;
+    return settlementSurveySchema.parse({
+      ...sectionFields(row),
+      id: row.id,
+      reportId,
+      surveyDate: isoDate(row.surveyDate),
+      previousSurveyDate: row.previousSurveyDate ? isoDate(row.previousSurveyDate) : "",
+      notes: row.notes || "",
+    });
+  }
+
+  async saveSettlementSurvey(reportId: string, data: SettlementSurveyData): Promise<SettlementSurveyData> {
+    const values = sectionValues(settlementSurveys, {
+      ...data,
+      surveyDate: data.surveyDate ? new Date(data.surveyDate) : new Date(),
+      previousSurveyDate: data.previousSurveyDate ? new Date(data.previousSurveyDate) : null,
+    });
+    const [survey] = await database().insert(settlementSurveys)
+      .values({ ...values, reportId })
+      .onConflictDoUpdate({ target: settlementSurveys.reportId, set: values })
+      .returning();
+    return { ...data, id: survey.id, reportId };
+  }
+
+  async saveReportSection(reportId: string, section: string, data: unknown): Promise<void> {
+    await database()
+      .update(reports)
+      .set({
+        customFields: sql`coalesce(${reports.customFields}, '{}'::jsonb) || jsonb_build_object(${section}::text, ${JSON.stringify(data)}::jsonb)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(reports.id, reportId));
+  }
+
+  // Held until the surrounding transaction ends, so revision numbers taken under it are
+  // never handed out twice
+  async lockReportRevisions(reportId: string): Promise<void> {
+    await database().execute(sql`select pg_advisory_xact_lock(hashtext(${`report_revisions:${reportId}`}))`);
+  }
+
+  async createReportRevision(insertRevision: InsertReportRevision): Promise<ReportRevision> {
+    const [revision] = await database()
+      .insert(reportRevisions)
+      .values({
+        ...insertRevision,
+        revision: sql`(select coalesce(max(${reportRevisions.revision}), 0) + 1 from ${reportRevisions} where ${reportRevisions.reportId} = ${insertRevision.reportId})`,
+      })
+      .returning();
+    return revision;
+  }
+
+  async getReportRevisions(reportId: string): Promise<ReportRevisionSummary[]> {
+    const { before, after, ...summaryColumns } = getTableColumns(reportRevisions);
+    return await database()
+      .select({
+        ...summaryColumns,
+        changedByName: sql<string | null>`coalesce(nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), ''), ${users.email})`,
+      })
+      .from(reportRevisions)
+      .leftJoin(users, eq(users.id, reportRevisions.changedBy))
+      .where(eq(reportRevisions.reportId, reportId))
+      .orderBy(desc(reportRevisions.revision));
+  }
+
+  async getReportRevisionLog(reportId: string): Promise<ReportRevision[]> {
+    return await database()
+      .select()
+      .from(reportRevisions)
+      .where(eq(reportRevisions.reportId, reportId))
+      .orderBy(asc(reportRevisions.revision));
+  }
+
+  async replaceCmlRecords(reportId: string, records: CmlRecordSnapshot[]): Promise<void> {
+    await database().transaction(async (tx) => {
+      const existing = await tx.select({ id: cmlRecords.id }).from(cmlRecords).where(eq(cmlRecords.reportId, reportId));
+      for (const { id } of existing) {
+        await tx.delete(cmlReadings).where(eq(cmlReadings.cmlRecordId, id));
+      }
+      await tx.delete(cmlRecords).where(eq(cmlRecords.reportId, reportId));
+      for (const { readings, ...record } of records) {
+        const [created] = await tx.insert(cmlRecords).values({ ...record, reportId }).returning();
+        if (readings.length > 0) {
+          await tx.insert(cmlReadings).values(readings.map((reading) => ({ ...reading, cmlRecordId: created.id })));
+        }
+      }
+    });
+  }
+
+  async replaceAppendices(reportId: string, rows: Omit<InsertAppendix, "reportId">[]): Promise<void> {
+    await database().transaction(async (tx) => {
+      await tx.delete(appendices).where(eq(appendices.reportId, reportId));
+      if (rows.length > 0) {
+        await tx.insert(appendices).values(rows.map((row) => ({ ...row, reportId })));
+      }
+    });
+  }
+
+  async replacePracticalTmins(reportId: string, rows: Omit<InsertPracticalTmin, "reportId">[]): Promise<void> {
+    await database().transaction(async (tx) => {
+      await tx.delete(practicalTmins).where(eq(practicalTmins.reportId, reportId));
+      if (rows.length > 0) {
+        await tx.insert(practicalTmins).values(rows.map((row) => ({ ...row, reportId })));
+      }
+    });
+  }
+
+  async replaceNozzleCmlRecords(reportId: string, rows: Omit<InsertNozzleCmlRecord, "reportId">[]): Promise<void> {
+    await database().transaction(async (tx) => {
+      await tx.delete(nozzleCmlRecords).where(eq(nozzleCmlRecords.reportId, reportId));
+      if (rows.length > 0) {
+        await tx.insert(nozzleCmlRecords).values(rows.map((row) => ({ ...row, reportId })));
+      }
+    });
+  }
+
+  async restoreAttachmentDetails(reportId: string, rows: (UpdateAttachment & { id: string })[]): Promise<void> {
+    await database().transaction(async (tx) => {
+      for (const { id, ...details } of rows) {
+        await tx
+          .update(attachments)
+          .set({ ...details, updatedAt: new Date() })
+          .where(and(eq(attachments.reportId, reportId), eq(attachments.id, id)));
+      }
+    });
+  }
+
+  async transitionReport(id: string, update: ReportWorkflowUpdate, change: InsertReportStatusChange): Promise<Report> {
+    return await database().transaction(async (tx) => {
+      const [report] = await tx
+        .update(reports)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(reports.id, id))
+        .returning();
+      await tx.insert(reportStatusChanges).values(change);
+      return report;
+    });
+  }
+
+  async getReportStatusChanges(reportId: string): Promise<ReportStatusChangeSummary[]> {
+    return await database()
+      .select({
+        ...getTableColumns(reportStatusChanges),
+        changedByName: sql<string | null>`coalesce(nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), ''), ${users.email})`,
+      })
+      .from(reportStatusChanges)
+      .leftJoin(users, eq(users.id, reportStatusChanges.changedBy))
+      .where(eq(reportStatusChanges.reportId, reportId))
+      .orderBy(desc(reportStatusChanges.createdAt));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,68 @@
+// Server side of the review and approval workflow (shared/workflow.ts): who may move a
+// report to which status. The lock on issued reports is part of authorizeReport.
+import type { Report } from "@shared/schema";
+import type { UserRole } from "@shared/access";
+import {
+  reportTransitions, reportStatus, nextRevisionLetter, type TransitionAction
+} from "@shared/workflow";
+import { storage, type ReportWorkflowUpdate } from "./storage";
+
+export type TransitionResult = { report: Report } | { status: number; error: string };
+
+function workflowUpdate(report: Report, action: TransitionAction, userId: string): ReportWorkflowUpdate {
+  const now = new Date();
+  const status = reportTransitions[action].to;
+  const clearedSignOff = { reviewedBy: null, reviewedAt: null, approvedBy: null, approvedAt: null };
+  switch (action) {
+    case "review":
+      return { status, reviewedBy: userId, reviewedAt: now };
+    case "approve":
+      return { status, approvedBy: userId, approvedAt: now };
+    case "issue":
+      return { status, issuedAt: now };
+    case "return":
+      return { status, ...clearedSignOff };
+    case "reissue":
+      return { status, revisionLetter: nextRevisionLetter(report.revisionLetter), issuedAt: null, ...clearedSignOff };
+    default:
+      return { status };
+  }
+}
+
+export async function transitionReport(
+  report: Report,
+  action: TransitionAction,
+  userId: string,
+  role: UserRole | undefined,
+  comment: string,
+): Promise<TransitionResult> {
+  const transition = reportTransitions[action];
+  const from = reportStatus(report.status);
+
+  if (!transition.from.includes(from)) {
+    return { status: 409, error: `Cannot ${transition.label.toLowerCase()} a report that is ${from.replace(/_/g, " ")}` };
+  }
+  if (!role || !transition.roles.includes(role)) {
+    return { status: 403, error: `${transition.label} requires one of the roles: ${transition.roles.join(", ")}` };
+  }
+  if (action === "review") {
+    // The review is a second inspector's check, so neither the author nor whoever submitted it may review
+    const changes = await storage.getReportStatusChanges(report.id);
+    const submittedBy = changes.find((change) => change.action === "submit")?.changedBy;
+    if (userId === report.ownerId || userId === submittedBy) {
+      return { status: 403, error: "A report must be reviewed by a second API 653 inspector" };
+    }
+  }
+
+  const update = workflowUpdate(report, action, userId);
+  const updated = await storage.transitionReport(report.id, update, {
+    reportId: report.id,
+    action,
+    fromStatus: from,
+    toStatus: transition.to,
+    revisionLetter: update.revisionLetter ?? report.revisionLetter,
+    comment,
+    changedBy: userId,
+  });
+  return { report: updated };
+}
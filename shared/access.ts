@@ -0,0 +1,62 @@
+// Who may do what with a report. A user's role on a report comes from their membership of
+// the report's inspection company or client organization, or from a grant on the report itself.
+
+export const organizationTypes = ["inspection_company", "client"] as const;
+export type OrganizationType = (typeof organizationTypes)[number];
+
+export const organizationTypeLabels: Record<OrganizationType, string> = {
+  inspection_company: "Inspection Company",
+  client: "Client",
+};
+
+// reviewer is a certified API 653 inspector who checks another inspector's work;
+// admin manages the organization and approves and issues its reports
+export const userRoles = ["admin", "inspector", "reviewer", "client_viewer"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const userRoleLabels: Record<UserRole, string> = {
+  admin: "Administrator",
+  inspector: "Inspector",
+  reviewer: "Reviewer (API 653)",
+  client_viewer: "Client Viewer",
+};
+
+// Roles a report can be shared with. Admin is never granted on a single report, and only an
+// admin of the report's organization may bring in an outside reviewer.
+export const grantableRoles = ["inspector", "reviewer", "client_viewer"] as const satisfies readonly UserRole[];
+export type GrantableRole = (typeof grantableRoles)[number];
+
+export const reportPermissions = ["view", "export", "edit", "share", "delete"] as const;
+export type ReportPermission = (typeof reportPermissions)[number];
+
+// Strongest first; a user with several routes to a report gets the strongest role
+const roleRank: UserRole[] = ["admin", "reviewer", "inspector", "client_viewer"];
+
+export function strongestRole(roles: (string | null | undefined)[]): UserRole | undefined {
+  return roleRank.find((role) => roles.includes(role));
+}
+
+// Client viewers only ever see issued reports and never change anything. Only the
+// report's owner and organization admins share or delete it; issued reports are locked.
+export function reportPermits(
+  permission: ReportPermission,
+  role: UserRole | undefined,
+  isOwner: boolean,
+  issued: boolean,
+): boolean {
+  if (!role) return false;
+  switch (permission) {
+    case "view":
+    case "export":
+      return role !== "client_viewer" || issued;
+    case "edit":
+      return role !== "client_viewer" && !issued;
+    case "share":
+      return isOwner || role === "admin";
+    case "delete":
+      return (isOwner || role === "admin") && !issued;
+  }
+}
+
+// Report columns that decide who can see the report; they change only through sharing
+export const reportSharingFields = ["organizationId", "clientOrganizationId"] as const;
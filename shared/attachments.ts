@@ -0,0 +1,65 @@
+// Files uploaded to a report. Photos are numbered, captioned and printed in the
+// photographs appendix; a logo or signature upload replaces the report's logo or signature link.
+export const attachmentKinds = ["photo", "document", "logo", "signature"] as const;
+export type AttachmentKind = (typeof attachmentKinds)[number];
+
+export const attachmentKindLabels: Record<AttachmentKind, string> = {
+  photo: "Photo",
+  document: "Document",
+  logo: "Logo",
+  signature: "Signature",
+};
+
+// What a photo shows. The reference is the CML ID, nozzle ID, course number or a short
+// description of the finding.
+export const attachmentLinkTypes = ["cml", "nozzle", "course", "finding"] as const;
+export type AttachmentLinkType = (typeof attachmentLinkTypes)[number];
+
+export const attachmentLinkLabels: Record<AttachmentLinkType, string> = {
+  cml: "CML",
+  nozzle: "Nozzle",
+  course: "Shell course",
+  finding: "Finding",
+};
+
+export const annotationShapes = ["arrow", "circle"] as const;
+export type AnnotationShape = (typeof annotationShapes)[number];
+
+// Coordinates are fractions of the image width and height, so an annotation drawn on a
+// thumbnail lands in the same place on the full image. An arrow points from (x1, y1) to
+// (x2, y2); a circle is drawn inside the box between the two points.
+export interface PhotoAnnotation {
+  shape: AnnotationShape;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+}
+
+// The photographs appendix of the default appendix list
+export const PHOTO_APPENDIX = "C";
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+export function isImageType(contentType: string): boolean {
+  return /^image\/(png|jpe?g|webp|tiff)$/.test(contentType);
+}
+
+export function photoCaption(photo: {
+  photoNumber: number | null;
+  caption: string | null;
+  linkType: string | null;
+  linkRef: string | null;
+  takenAt: Date | string | null;
+}): string {
+  const link = photo.linkType && photo.linkRef
+    ? `${attachmentLinkLabels[photo.linkType as AttachmentLinkType] ?? photo.linkType} ${photo.linkRef}`
+    : "";
+  const taken = photo.takenAt ? new Date(photo.takenAt).toLocaleDateString() : "";
+  const details = [link, taken].filter(Boolean).join(", ");
+  return [
+    photo.photoNumber !== null ? `Photo ${photo.photoNumber}` : "Photo",
+    photo.caption?.trim(),
+  ].filter(Boolean).join(": ") + (details ? ` (${details})` : "");
+}
@@ -0,0 +1,172 @@
+import { toNumber } from "./utils";
+import type { ShellCourseData } from "./shell";
+
+// API 653 §5.3.5: shells 1/2 in thick or less are not considered at risk
+export const BRITTLE_FRACTURE_THICKNESS_LIMIT = 0.5;
+// §5.3.6: no risk when the shell metal temperature stays at or above 60 °F
+export const BRITTLE_FRACTURE_SAFE_TEMPERATURE = 60;
+// §5.3.7: no risk when the membrane stress does not exceed 7 ksi
+export const BRITTLE_FRACTURE_STRESS_LIMIT = 7000;
+
+// Figure 5-2 exemption curve for carbon steel of unknown toughness (thickness in, temperature °F)
+const exemptionCurve: [number, number][] = [
+  [0.5, 20],
+  [0.625, 28],
+  [0.75, 35],
+  [0.875, 41],
+  [1.0, 46],
+  [1.25, 53],
+  [1.5, 60],
+];
+
+export type BrittleFractureRisk = "low" | "requires-evaluation";
+
+export interface BrittleFractureStep {
+  step: string;
+  question: string;
+  answer: "yes" | "no" | "unknown";
+  detail?: string;
+}
+
+export interface BrittleFractureInputs {
+  constructionStandard?: string;
+  yearOfConstruction?: string;
+  designMetalTemp?: string; // °F
+  shellMaterialSpec?: string;
+  hasBeenHydrotested?: boolean;
+  hasChangeOfService?: boolean;
+  shellThickness: number; // in, thickest shell course
+  membraneStress: number; // psi, at the bottom of the first course
+}
+
+export interface BrittleFractureAssessment {
+  steps: BrittleFractureStep[];
+  risk: BrittleFractureRisk;
+  conclusion: string;
+  exemptionTemperature?: number;
+}
+
+// Minimum metal temperature on the Figure 5-2 curve for a given shell thickness
+export function exemptionCurveTemperature(thickness: number): number {
+  if (thickness <= exemptionCurve[0][0]) return exemptionCurve[0][1];
+  for (let i = 1; i < exemptionCurve.length; i++) {
+    const [t1, temp1] = exemptionCurve[i - 1];
+    const [t2, temp2] = exemptionCurve[i];
+    if (thickness <= t2) {
+      return temp1 + ((thickness - t1) / (t2 - t1)) * (temp2 - temp1);
+    }
+  }
+  return BRITTLE_FRACTURE_SAFE_TEMPERATURE;
+}
+
+// API 650 7th Edition (1980) and later includes the toughness requirements of §5.3.1
+export function meetsApi650Toughness(constructionStandard?: string, yearOfConstruction?: string): boolean {
+  const standard = (constructionStandard || "").toLowerCase();
+  if (standard.includes("api650-7th-later")) return true;
+  if (standard.includes("650")) {
+    return toNumber(yearOfConstruction, 0) >= 1980;
+  }
+  return false;
+}
+
+// Inputs taken from the shell calculations: thickest course and first-course membrane stress
+export function shellInputsForBrittleFracture(
+  courses: ShellCourseData[],
+  fillHeight: number,
+  tankDiameter: number,
+  specificGravity: number,
+): { shellThickness: number; membraneStress: number } {
+  const thicknesses = courses.map((course) => toNumber(course.actualThickness, toNumber(course.originalThickness, 0)));
+  const shellThickness = thicknesses.length > 0 ? Math.max(...thicknesses) : 0;
+  const firstCourse = thicknesses[0] || 0;
+  // Hoop stress from the one-foot method: S = 2.6 (H − 1) D G / t
+  const membraneStress = firstCourse > 0 && fillHeight > 1
+    ? (2.6 * (fillHeight - 1) * tankDiameter * specificGravity) / firstCourse
+    : 0;
+  return { shellThickness, membraneStress };
+}
+
+// Walk API 653 Figure 5-1, stopping at the first branch that shows a low risk
+export function assessBrittleFracture(inputs: BrittleFractureInputs): BrittleFractureAssessment {
+  const steps: BrittleFractureStep[] = [];
+  const low = (conclusion: string, exemptionTemperature?: number): BrittleFractureAssessment => ({
+    steps,
+    risk: "low",
+    conclusion,
+    exemptionTemperature,
+  });
+
+  const meetsToughness = meetsApi650Toughness(inputs.constructionStandard, inputs.yearOfConstruction);
+  steps.push({
+    step: "1",
+    question: "Does the tank meet API 650 (7th Edition or later) toughness requirements?",
+    answer: meetsToughness ? "yes" : "no",
+    detail: [inputs.constructionStandard, inputs.yearOfConstruction].filter(Boolean).join(", ") || undefined,
+  });
+  if (meetsToughness && !inputs.hasChangeOfService) {
+    return low("Tank was built to current toughness requirements (§5.3.1).");
+  }
+
+  const hydrotestCovers = !!inputs.hasBeenHydrotested && !inputs.hasChangeOfService;
+  steps.push({
+    step: "2",
+    question: "Has the tank been hydrotested with no change of service, repair or alteration since?",
+    answer: inputs.hasBeenHydrotested === undefined ? "unknown" : hydrotestCovers ? "yes" : "no",
+  });
+  if (hydrotestCovers) {
+    return low("A successful hydrotest demonstrates fitness at the tested condition (§5.3.2).");
+  }
+
+  const thin = inputs.shellThickness > 0 && inputs.shellThickness <= BRITTLE_FRACTURE_THICKNESS_LIMIT;
+  steps.push({
+    step: "3",
+    question: "Is the shell 1/2 in thick or less?",
+    answer: inputs.shellThickness > 0 ? (thin ? "yes" : "no") : "unknown",
+    detail: inputs.shellThickness > 0 ? `${inputs.shellThickness.toFixed(3)} in` : undefined,
+  });
+  if (thin) {
+    return low("Shell thickness does not exceed 1/2 in (§5.3.5).");
+  }
+
+  const hasTemperature = inputs.designMetalTemp !== undefined && inputs.designMetalTemp !== "";
+  const metalTemp = toNumber(inputs.designMetalTemp, -Infinity);
+  steps.push({
+    step: "4",
+    question: "Is the design metal temperature 60 °F or higher?",
+    answer: hasTemperature ? (metalTemp >= BRITTLE_FRACTURE_SAFE_TEMPERATURE ? "yes" : "no") : "unknown",
+    detail: hasTemperature ? `${metalTemp} °F` : undefined,
+  });
+  if (metalTemp >= BRITTLE_FRACTURE_SAFE_TEMPERATURE) {
+    return low("Shell metal temperature is at or above 60 °F (§5.3.6).");
+  }
+
+  const lowStress = inputs.membraneStress > 0 && inputs.membraneStress <= BRITTLE_FRACTURE_STRESS_LIMIT;
+  steps.push({
+    step: "5",
+    question: "Is the shell membrane stress 7 ksi or less?",
+    answer: inputs.membraneStress > 0 ? (lowStress ? "yes" : "no") : "unknown",
+    detail: inputs.membraneStress > 0 ? `${Math.round(inputs.membraneStress)} psi` : undefined,
+  });
+  if (lowStress) {
+    return low("Membrane stress does not exceed 7 ksi (§5.3.7).");
+  }
+
+  const exemptionTemperature = exemptionCurveTemperature(inputs.shellThickness);
+  const aboveCurve = hasTemperature && metalTemp >= exemptionTemperature;
+  steps.push({
+    step: "6",
+    question: "Does the metal temperature and thickness fall on or above the Figure 5-2 exemption curve?",
+    answer: hasTemperature && inputs.shellThickness > 0 ? (aboveCurve ? "yes" : "no") : "unknown",
+    detail: `${inputs.shellMaterialSpec || "Unknown toughness"}: curve requires ${exemptionTemperature.toFixed(0)} °F at ${inputs.shellThickness.toFixed(3)} in`,
+  });
+  if (aboveCurve) {
+    return low("Operating point lies on or above the Figure 5-2 exemption curve (§5.3.8).", exemptionTemperature);
+  }
+
+  return {
+    steps,
+    risk: "requires-evaluation",
+    conclusion: "Brittle fracture risk cannot be screened out; a hydrotest or fitness-for-service evaluation is required.",
+    exemptionTemperature,
+  };
+}
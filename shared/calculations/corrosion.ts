@@ -0,0 +1,163 @@
+import { toNumber, roundTo, yearsBetweenDates } from "./utils";
+import type { PracticalTminOverride } from "./nozzle";
+
+// Remaining life reported when no metal loss has been measured
+export const MAX_REMAINING_LIFE = 999;
+
+// tMin for a component CML with neither its own value nor a practical tmin row, in
+export const DEFAULT_CML_TMIN = 0.125;
+
+export interface CorrosionCalculationParams {
+  originalThickness: number;
+  currentThickness: number;
+  serviceYears: number;
+  practicalTmin: number;
+}
+
+export interface CorrosionCalculationResult {
+  metalLoss: number;
+  corrosionRate: number; // mils per year
+  remainingMetal: number;
+  remainingLife: number; // years
+}
+
+// Corrosion rate in mils per year between two thickness readings (inches)
+export function corrosionRateMpy(previousThickness: number, currentThickness: number, years: number): number {
+  return years > 0 ? ((previousThickness - currentThickness) / years) * 1000 : 0;
+}
+
+// Years until the actual thickness reaches tMin at the given rate (mpy)
+export function remainingLifeYears(actualThickness: number, tMin: number, corrosionRate: number): number {
+  return corrosionRate > 0 ? (actualThickness - tMin) / (corrosionRate / 1000) : MAX_REMAINING_LIFE;
+}
+
+export interface DatedThickness {
+  date: string | Date;
+  thickness: number; // in
+}
+
+export type RateBasis = "long-term" | "short-term" | "regression";
+
+export interface CmlRates {
+  longTermRate?: number; // mpy, baseline to current
+  shortTermRate?: number; // mpy, previous survey to current
+  regressionRate?: number; // mpy, least-squares fit of every reading
+  corrosionRate: number; // mpy, governing rate
+  rateBasis?: RateBasis;
+  remainingLife: number; // years at the governing rate
+}
+
+// Least-squares slope of thickness against time, reported as metal loss in mpy
+export function regressionRateMpy(readings: DatedThickness[]): number {
+  const points = readings.map((reading) => ({
+    x: yearsBetweenDates(readings[0].date, reading.date),
+    y: reading.thickness,
+  }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  return sxx > 0 ? (-sxy / sxx) * 1000 : 0;
+}
+
+// Long-term and short-term rates as defined in API 570 §7.1.1, with a regression over three or
+// more readings also considered; the greatest rate governs remaining life.
+export function calculateCmlRates(readings: DatedThickness[], tMin: number): CmlRates {
+  const sorted = readings
+    .filter((reading) => reading.thickness > 0 && !isNaN(new Date(reading.date).getTime()))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const current = sorted[sorted.length - 1];
+  if (sorted.length < 2) {
+    return { corrosionRate: 0, remainingLife: current ? remainingLifeYears(current.thickness, tMin, 0) : MAX_REMAINING_LIFE };
+  }
+
+  const baseline = sorted[0];
+  const previous = sorted[sorted.length - 2];
+  const longTermRate = corrosionRateMpy(baseline.thickness, current.thickness, yearsBetweenDates(baseline.date, current.date));
+  const shortTermRate = corrosionRateMpy(previous.thickness, current.thickness, yearsBetweenDates(previous.date, current.date));
+  const regressionRate = sorted.length > 2 ? regressionRateMpy(sorted) : undefined;
+
+  const candidates: [RateBasis, number | undefined][] = [
+    ["long-term", longTermRate],
+    ["short-term", shortTermRate],
+    ["regression", regressionRate],
+  ];
+  let rateBasis: RateBasis = "long-term";
+  let corrosionRate = longTermRate;
+  for (const [basis, rate] of candidates) {
+    if (rate !== undefined && rate > corrosionRate) {
+      rateBasis = basis;
+      corrosionRate = rate;
+    }
+  }
+  corrosionRate = Math.max(0, corrosionRate);
+
+  return {
+    longTermRate: roundTo(longTermRate, 2),
+    shortTermRate: roundTo(shortTermRate, 2),
+    regressionRate: regressionRate !== undefined ? roundTo(regressionRate, 2) : undefined,
+    corrosionRate: roundTo(corrosionRate, 2),
+    rateBasis,
+    remainingLife: roundTo(Math.max(0, Math.min(remainingLifeYears(current.thickness, tMin, corrosionRate), MAX_REMAINING_LIFE)), 1),
+  };
+}
+
+// A tMin entered on the CML wins, then the report's practical tmin row for the same component
+export function componentCmlTmin(cml: { component: string; tMin?: string | null }, practicalTmins: PracticalTminOverride[]): number {
+  const match = practicalTmins.find(
+    (row) => row.practicalTmin && row.component.toLowerCase() === cml.component.toLowerCase()
+  );
+  return toNumber(cml.tMin, toNumber(match?.practicalTmin, DEFAULT_CML_TMIN));
+}
+
+export function calculateCorrosionRate(params: CorrosionCalculationParams): CorrosionCalculationResult {
+  const { originalThickness, currentThickness, serviceYears, practicalTmin } = params;
+  
+  // Convert inches to mils for calculation
+  const originalMils = originalThickness * 1000;
+  const currentMils = currentThickness * 1000;
+  const practicalTminMils = practicalTmin * 1000;
+  
+  // Calculate metal loss
+  const metalLoss = originalMils - currentMils;
+  
+  // Calculate corrosion rate in mils per year
+  const corrosionRate = serviceYears > 0 ? metalLoss / serviceYears : 0;
+  
+  // Calculate remaining metal above practical tmin
+  const remainingMetal = currentMils - practicalTminMils;
+  
+  // Calculate remaining life in years
+  const remainingLife = corrosionRate > 0 ? remainingMetal / corrosionRate : Infinity;
+  
+  return {
+    metalLoss: metalLoss / 1000, // Convert back to inches
+    corrosionRate,
+    remainingMetal: remainingMetal / 1000, // Convert back to inches
+    remainingLife: Math.max(0, remainingLife),
+  };
+}
+
+export function calculateStatistics(corrosionRates: number[]): {
+  average: number;
+  maximum: number;
+  percentile95: number;
+} {
+  if (corrosionRates.length === 0) {
+    return { average: 0, maximum: 0, percentile95: 0 };
+  }
+  
+  const sorted = [...corrosionRates].sort((a, b) => a - b);
+  const average = corrosionRates.reduce((sum, rate) => sum + rate, 0) / corrosionRates.length;
+  const maximum = Math.max(...corrosionRates);
+  
+  // Calculate 95th percentile
+  const index95 = Math.floor(0.95 * sorted.length);
+  const percentile95 = sorted[Math.min(index95, sorted.length - 1)];
+  
+  return {
+    average: Number(average.toFixed(2)),
+    maximum: Number(maximum.toFixed(2)),
+    percentile95: Number(percentile95.toFixed(2)),
+  };
+}
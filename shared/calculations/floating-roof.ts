@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+
+export const sealTypes = ["mechanical-shoe", "liquid-mounted", "vapor-mounted", "wiper", "none"] as const;
+export const componentConditions = ["good", "fair", "poor", "failed"] as const;
+export const sealPositions = ["primary", "secondary"] as const;
+export type SealPosition = (typeof sealPositions)[number];
+
+export const pontoonSchema = z.object({
+  compartmentId: z.string(),
+  inspected: z.boolean().optional(),
+  liquidPresent: z.boolean().optional(),
+  leakDetected: z.boolean().optional(),
+  coverSecure: z.boolean().optional(),
+  notes: z.string().optional(),
+  acceptable: z.boolean().optional(),
+});
+
+export const sealGapSchema = z.object({
+  gapId: z.string(),
+  seal: z.enum(sealPositions),
+  position: z.string().optional(), // degrees around the shell
+  width: z.string().optional(), // in, widest point
+  length: z.string().optional(), // in, along the circumference
+  area: z.string().optional(), // in²
+});
+
+export const roofLegSchema = z.object({
+  legId: z.string(),
+  legCondition: z.enum(componentConditions).optional(),
+  sleeveCondition: z.enum(componentConditions).optional(),
+  lowSetting: z.string().optional(), // ft, operating position
+  highSetting: z.string().optional(), // ft, maintenance position
+  notes: z.string().optional(),
+});
+
+export const roofDrainSchema = z.object({
+  drainId: z.string(),
+  drainType: z.string().optional(), // articulated joint, flexible hose, ...
+  testPressure: z.string().optional(), // psig
+  testDuration: z.string().optional(), // minutes
+  result: z.enum(["pass", "fail", "not-tested"]).optional(),
+  notes: z.string().optional(),
+});
+
+export const sealComplianceSchema = z.object({
+  totalArea: z.string(), // in²
+  allowableArea: z.string(), // in²
+  maxWidth: z.string(), // in
+  allowableWidth: z.string(), // in
+  compliant: z.boolean(),
+});
+
+export const floatingRoofSchema = z.object({
+  roofType: z.string().optional(), // external, internal, pan, pontoon, double-deck
+  primarySealType: z.enum(sealTypes).optional(),
+  primarySealCondition: z.enum(componentConditions).optional(),
+  secondarySealType: z.enum(sealTypes).optional(),
+  secondarySealCondition: z.enum(componentConditions).optional(),
+  pontoons: z.array(pontoonSchema),
+  sealGaps: z.array(sealGapSchema),
+  legs: z.array(roofLegSchema),
+  drains: z.array(roofDrainSchema),
+  primarySeal: sealComplianceSchema.optional(),
+  secondarySeal: sealComplianceSchema.optional(),
+  pontoonsAcceptable: z.boolean().optional(),
+  drainsAcceptable: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+export type PontoonData = z.infer<typeof pontoonSchema>;
+export type SealGapData = z.infer<typeof sealGapSchema>;
+export type RoofLegData = z.infer<typeof roofLegSchema>;
+export type RoofDrainData = z.infer<typeof roofDrainSchema>;
+export type SealCompliance = z.infer<typeof sealComplianceSchema>;
+export type FloatingRoofData = z.infer<typeof floatingRoofSchema>;
+
+// 40 CFR 60.113b(b)(4), referenced by API 653 §C.1.2: accumulated gap area per foot of
+// tank diameter and the widest single gap allowed for each seal
+export const sealGapLimits: Record<SealPosition, { areaPerFoot: number; maxWidth: number }> = {
+  primary: { areaPerFoot: 10, maxWidth: 1.5 },
+  secondary: { areaPerFoot: 1, maxWidth: 0.5 },
+};
+
+// Gaps are recorded as width and length; an area entered directly takes precedence
+export function sealGapArea(gap: SealGapData): number {
+  return toNumber(gap.area, toNumber(gap.width, 0) * toNumber(gap.length, 0));
+}
+
+export function evaluateSealGaps(gaps: SealGapData[], seal: SealPosition, tankDiameter: number): SealCompliance {
+  const sealGaps = gaps.filter((gap) => gap.seal === seal);
+  const totalArea = sealGaps.reduce((sum, gap) => sum + sealGapArea(gap), 0);
+  const maxWidth = Math.max(0, ...sealGaps.map((gap) => toNumber(gap.width, 0)));
+  const limits = sealGapLimits[seal];
+  const allowableArea = limits.areaPerFoot * tankDiameter;
+  return {
+    totalArea: roundTo(totalArea, 1).toFixed(1),
+    allowableArea: roundTo(allowableArea, 1).toFixed(1),
+    maxWidth: maxWidth.toFixed(2),
+    allowableWidth: limits.maxWidth.toFixed(2),
+    compliant: totalArea <= allowableArea && maxWidth <= limits.maxWidth,
+  };
+}
+
+export function calculateFloatingRoof(data: FloatingRoofData, tankDiameter: number): FloatingRoofData {
+  const sealGaps = data.sealGaps.map((gap) => ({ ...gap, area: roundTo(sealGapArea(gap), 1).toFixed(1) }));
+
+  // A compartment with product in it or a leak has lost buoyancy and must be repaired
+  const pontoons = data.pontoons.map((pontoon) => ({
+    ...pontoon,
+    acceptable: !pontoon.liquidPresent && !pontoon.leakDetected,
+  }));
+
+  const testedDrains = data.drains.filter((drain) => drain.result && drain.result !== "not-tested");
+
+  return {
+    ...data,
+    sealGaps,
+    pontoons,
+    primarySeal: evaluateSealGaps(sealGaps, "primary", tankDiameter),
+    secondarySeal: data.secondarySealType && data.secondarySealType !== "none"
+      ? evaluateSealGaps(sealGaps, "secondary", tankDiameter)
+      : undefined,
+    pontoonsAcceptable: pontoons.length > 0 ? pontoons.every((pontoon) => pontoon.acceptable) : undefined,
+    drainsAcceptable: testedDrains.length > 0 ? testedDrains.every((drain) => drain.result === "pass") : undefined,
+  };
+}
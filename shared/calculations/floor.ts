@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+import { corrosionRateMpy, remainingLifeYears, MAX_REMAINING_LIFE } from "./corrosion";
+import { internalIntervalCap, floorReleasePrevention } from "./intervals";
+
+export const floorScanSchema = z.object({
+  scanId: z.string(),
+  component: z.string(),
+  location: z.string(),
+  scanType: z.string(),
+  thickness: z.string(),
+  topSide: z.string().optional(), // RTip, remaining thickness at product-side pitting (in)
+  underside: z.string().optional(), // RTbc, remaining thickness at soil-side corrosion (in)
+  corrosionRate: z.string().optional(),
+  remainingLife: z.string().optional(),
+});
+
+export const floorMRTCalculationSchema = z.object({
+  floorType: z.string().optional(),
+  originalThickness: z.string().optional(),
+  minimumThickness: z.string().optional(),
+  corrosionAllowance: z.string().optional(),
+  age: z.string().optional(),
+  examMethod: z.string().optional(),
+  threshold: z.string().optional(),
+  scanCoverage: z.string().optional(),
+  soilSide: z.string().optional(),
+  productSide: z.string().optional(),
+  criticalZone: z.string().optional(),
+  nextInternalInterval: z.string().optional(), // Or, years
+  hasLeakDetection: z.boolean().optional(),
+  hasReleasePreventionBarrier: z.boolean().optional(),
+  hasReinforcedLining: z.boolean().optional(),
+  productSideCoated: z.boolean().optional(),
+  hasAnnularRing: z.boolean().optional(),
+  annularThickness: z.string().optional(), // least remaining annular plate thickness (in)
+  firstCourseThickness: z.string().optional(), // in
+  firstCourseStress: z.string().optional(), // product stress in the first course, psi
+  scans: z.array(floorScanSchema),
+  averageThickness: z.string().optional(),
+  minimumRecorded: z.string().optional(),
+  averageCorrosionRate: z.string().optional(),
+  maximumCorrosionRate: z.string().optional(),
+  averageRemainingLife: z.string().optional(),
+  minimumRemainingLife: z.string().optional(),
+  rtip: z.string().optional(),
+  rtbc: z.string().optional(),
+  mrt: z.string().optional(),
+  mrtMinimum: z.string().optional(),
+  mrtAcceptable: z.boolean().optional(),
+  annularMrt: z.string().optional(),
+  annularMinimum: z.string().optional(),
+  annularAcceptable: z.boolean().optional(),
+  maxInternalInterval: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type FloorScanData = z.infer<typeof floorScanSchema>;
+export type FloorMRTCalculationData = z.infer<typeof floorMRTCalculationSchema>;
+
+// API 653 Table 4.4: bottom plate minimum at the next internal inspection
+export const BOTTOM_MINIMUM_THICKNESS = 0.1;
+export const BOTTOM_MINIMUM_WITH_RELEASE_PREVENTION = 0.05;
+
+export function bottomMinimumThickness(data: FloorMRTCalculationData): number {
+  return data.hasLeakDetection || data.hasReleasePreventionBarrier || data.hasReinforcedLining
+    ? BOTTOM_MINIMUM_WITH_RELEASE_PREVENTION
+    : BOTTOM_MINIMUM_THICKNESS;
+}
+
+// API 653 Table 4.5 annular plate minimums (in), by first course thickness and stress
+const annularStressLimits = [24300, 27000, 29700, 32400];
+const annularThicknessTable: { maxCourseThickness: number; minimums: number[] }[] = [
+  { maxCourseThickness: 0.75, minimums: [0.17, 0.2, 0.23, 0.3] },
+  { maxCourseThickness: 1.0, minimums: [0.17, 0.22, 0.31, 0.38] },
+  { maxCourseThickness: 1.25, minimums: [0.17, 0.26, 0.38, 0.48] },
+  { maxCourseThickness: 1.5, minimums: [0.22, 0.34, 0.47, 0.59] },
+  { maxCourseThickness: Infinity, minimums: [0.27, 0.4, 0.53, 0.68] },
+];
+
+export function annularPlateMinimum(firstCourseThickness: number, firstCourseStress: number): number {
+  const row = annularThicknessTable.find((r) => firstCourseThickness <= r.maxCourseThickness)!;
+  const column = annularStressLimits.findIndex((limit) => firstCourseStress <= limit);
+  // Stresses above the table are held to its last column
+  return row.minimums[column === -1 ? row.minimums.length - 1 : column];
+}
+
+// MRT = (minimum of RTbc or RTip) − Or (StPr + UPr)
+export function minimumRemainingThickness(rtbc: number, rtip: number, interval: number, stPr: number, uPr: number): number {
+  return Math.min(rtbc, rtip) - interval * (stPr + uPr);
+}
+
+// Longest Or that keeps MRT at or above the required minimum
+export function maxIntervalForMrt(remaining: number, minimum: number, stPr: number, uPr: number, cap: number): number {
+  const rate = stPr + uPr;
+  if (remaining < minimum) return 0;
+  return rate > 0 ? Math.min(cap, (remaining - minimum) / rate) : cap;
+}
+
+function formatLife(years: number): string {
+  return Math.min(MAX_REMAINING_LIFE, Math.round(years)).toString();
+}
+
+export function calculateFloorMRT(data: FloorMRTCalculationData): FloorMRTCalculationData {
+  const originalThickness = toNumber(data.originalThickness, 0.250);
+  const minimumThickness = toNumber(data.minimumThickness, 0.100);
+  const age = toNumber(data.age, 20);
+
+  const scans = data.scans || [];
+  if (scans.length === 0) return data;
+
+  let totalThickness = 0;
+  let minThickness = 999;
+  let maxCorrosionRate = 0;
+  let rtip = 999;
+  let rtbc = 999;
+
+  const updatedScans = scans.map((scan) => {
+    const thickness = toNumber(scan.thickness, 0);
+    totalThickness += thickness;
+    if (thickness < minThickness) minThickness = thickness;
+
+    // A scan without side readings counts against both sides
+    rtip = Math.min(rtip, toNumber(scan.topSide, thickness));
+    rtbc = Math.min(rtbc, toNumber(scan.underside, thickness));
+
+    const corrosionRate = corrosionRateMpy(originalThickness, thickness, age);
+    if (corrosionRate > maxCorrosionRate) maxCorrosionRate = corrosionRate;
+
+    return {
+      ...scan,
+      corrosionRate: roundTo(corrosionRate, 2).toFixed(2),
+      remainingLife: formatLife(remainingLifeYears(thickness, minimumThickness, corrosionRate)),
+    };
+  });
+
+  const averageThickness = totalThickness / scans.length;
+  const avgCorrosionRate = corrosionRateMpy(originalThickness, averageThickness, age);
+
+  // §4.4.5: StPr is taken as zero while a product-side coating is expected to last
+  const stPr = data.productSideCoated ? 0 : Math.max(0, toNumber(data.productSide, 0));
+  const uPr = Math.max(0, toNumber(data.soilSide, 0));
+  const interval = toNumber(data.nextInternalInterval, 10);
+  const mrtMinimum = bottomMinimumThickness(data);
+  const intervalCap = internalIntervalCap(floorReleasePrevention(data));
+
+  const mrt = minimumRemainingThickness(rtbc, rtip, interval, stPr, uPr);
+  let maxInternalInterval = maxIntervalForMrt(Math.min(rtbc, rtip), mrtMinimum, stPr, uPr, intervalCap);
+
+  let annular: Partial<FloorMRTCalculationData> = {
+    annularMrt: undefined,
+    annularMinimum: undefined,
+    annularAcceptable: undefined,
+  };
+  if (data.hasAnnularRing && data.annularThickness) {
+    const annularThickness = toNumber(data.annularThickness, 0);
+    // A blank first course thickness or stress reads as off the end of the table, which gives
+    // the most conservative minimum rather than the least
+    const annularMinimum = annularPlateMinimum(
+      toNumber(data.firstCourseThickness, Infinity),
+      toNumber(data.firstCourseStress, Infinity),
+    );
+    const annularMrt = annularThickness - interval * (stPr + uPr);
+    maxInternalInterval = Math.min(
+      maxInternalInterval,
+      maxIntervalForMrt(annularThickness, annularMinimum, stPr, uPr, intervalCap),
+    );
+    annular = {
+      annularMrt: annularMrt.toFixed(3),
+      annularMinimum: annularMinimum.toFixed(2),
+      annularAcceptable: annularMrt >= annularMinimum,
+    };
+  }
+
+  return {
+    ...data,
+    scans: updatedScans,
+    averageThickness: averageThickness.toFixed(3),
+    minimumRecorded: minThickness.toFixed(3),
+    averageCorrosionRate: roundTo(avgCorrosionRate, 2).toFixed(2),
+    maximumCorrosionRate: roundTo(maxCorrosionRate, 2).toFixed(2),
+    averageRemainingLife: formatLife(remainingLifeYears(averageThickness, minimumThickness, avgCorrosionRate)),
+    minimumRemainingLife: formatLife(remainingLifeYears(minThickness, minimumThickness, maxCorrosionRate)),
+    rtip: rtip.toFixed(3),
+    rtbc: rtbc.toFixed(3),
+    mrt: mrt.toFixed(3),
+    mrtMinimum: mrtMinimum.toFixed(3),
+    mrtAcceptable: mrt >= mrtMinimum,
+    ...annular,
+    maxInternalInterval: roundTo(maxInternalInterval, 1).toString(),
+  };
+}
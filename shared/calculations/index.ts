@@ -0,0 +1,16 @@
+// API 653 calculation engine shared by the report forms and the server routes.
+// Everything here is pure: no I/O, no React, no database access.
+export * from "./utils";
+export * from "./corrosion";
+export * from "./materials";
+export * from "./shell";
+export * from "./localized-corrosion";
+export * from "./roof";
+export * from "./floating-roof";
+export * from "./floor";
+export * from "./pipe-schedules";
+export * from "./nozzle";
+export * from "./intervals";
+export * from "./brittle-fracture";
+export * from "./settlement";
+export * from "./tank-history";
@@ -0,0 +1,162 @@
+import { toNumber, roundTo } from "./utils";
+import type { ShellCourseData } from "./shell";
+import type { FloorMRTCalculationData } from "./floor";
+import { areaCorrosionAllowance, courseCorrodedAreas, type LocalizedCorrosionData } from "./localized-corrosion";
+
+// API 653 §6.3.2: routine external inspections are never more than 5 years apart
+export const MAX_EXTERNAL_INTERVAL = 5;
+// §6.3.3: UT thickness intervals cap at 15 years, or 5 when the corrosion rate is unknown
+export const MAX_UT_INTERVAL = 15;
+export const UNKNOWN_RATE_UT_INTERVAL = 5;
+export const INITIAL_INTERNAL_INTERVAL = 10;
+
+export interface IntervalResult {
+  years: number;
+  dueDate: string;
+  reason: string;
+}
+
+export interface InspectionIntervals {
+  baseDate: string;
+  external: IntervalResult;
+  ut: IntervalResult;
+  internal: IntervalResult;
+}
+
+export interface ReleasePreventionFeatures {
+  hasLeakDetection?: boolean;
+  hasReleasePreventionBarrier?: boolean;
+  internallyLined?: boolean;
+  cathodicallyProtected?: boolean;
+  inspectionType?: string;
+}
+
+export interface IntervalInputs {
+  inspectionDate?: string | Date | null;
+  shellCourses: ShellCourseData[];
+  floor?: FloorMRTCalculationData;
+  localizedCorrosion?: LocalizedCorrosionData;
+  tankHistory?: ReleasePreventionFeatures;
+}
+
+// Lesser of 5 years or RCA/4N (RCA in in, N in in/yr)
+export function externalIntervalYears(rca: number, rate: number): number {
+  return rate > 0 ? Math.max(0, Math.min(MAX_EXTERNAL_INTERVAL, rca / (4 * rate))) : MAX_EXTERNAL_INTERVAL;
+}
+
+// Lesser of 15 years or RCA/2N (RCA in in, N in in/yr)
+export function utThicknessIntervalYears(rca: number, rate: number): number {
+  return rate > 0 ? Math.max(0, Math.min(MAX_UT_INTERVAL, rca / (2 * rate))) : MAX_UT_INTERVAL;
+}
+
+// §6.4.2: intervals set from bottom MRT are capped at 20 years, 25 with a lined and
+// cathodically protected bottom, and 30 with leak detection behind a release prevention
+// barrier. The tank history's leak detection is recorded as part of such a barrier. This is
+// the one cap used by both the floor tab and the inspection intervals.
+export function internalIntervalCap(features: ReleasePreventionFeatures): number {
+  if (features.hasReleasePreventionBarrier || features.hasLeakDetection) return 30;
+  if (features.internallyLined && features.cathodicallyProtected) return 25;
+  return 20;
+}
+
+// What the floor tab records about the bottom, in the terms of the tank history
+export function floorReleasePrevention(floor: FloorMRTCalculationData): ReleasePreventionFeatures {
+  return {
+    hasReleasePreventionBarrier: floor.hasReleasePreventionBarrier,
+    internallyLined: floor.hasReinforcedLining,
+  };
+}
+
+// Table 6.1: the initial internal interval grows with each release prevention feature, up to 20 years
+export function initialInternalIntervalYears(features: ReleasePreventionFeatures): number {
+  if (features.hasLeakDetection) return 20;
+  let years = INITIAL_INTERNAL_INTERVAL;
+  if (features.internallyLined) years += 2;
+  if (features.cathodicallyProtected) years += 4;
+  return Math.min(20, years);
+}
+
+export function addYears(baseDate: Date, years: number): string {
+  const due = new Date(baseDate);
+  due.setMonth(due.getMonth() + Math.floor(years * 12));
+  return due.toISOString().split("T")[0];
+}
+
+// A corroded area's governing thickness stands in for the course's when it leaves less RCA
+function governingShellCourse(courses: ShellCourseData[], localized: LocalizedCorrosionData | undefined) {
+  let governing: { courseNumber: number; rca: number; rate: number; ratio: number; localized: boolean } | undefined;
+  for (const course of courses) {
+    const rate = toNumber(course.corrosionRate, 0) / 1000;
+    if (!course.tMin || rate <= 0) continue;
+    const courseRca = toNumber(course.actualThickness, 0) - toNumber(course.tMin, 0);
+    const areaRcas = courseCorrodedAreas(localized, course.courseNumber)
+      .map(areaCorrosionAllowance)
+      .filter((rca): rca is number => rca !== undefined);
+    const rca = Math.min(courseRca, ...areaRcas);
+    const ratio = rca / rate;
+    if (!governing || ratio < governing.ratio) {
+      governing = { courseNumber: course.courseNumber, rca, rate, ratio, localized: rca < courseRca };
+    }
+  }
+  return governing;
+}
+
+export function calculateInspectionIntervals(inputs: IntervalInputs): InspectionIntervals {
+  const parsed = inputs.inspectionDate ? new Date(inputs.inspectionDate) : new Date();
+  const baseDate = isNaN(parsed.getTime()) ? new Date() : parsed;
+  const bottom = inputs.floor ? floorReleasePrevention(inputs.floor) : {};
+  const features: ReleasePreventionFeatures = {
+    ...inputs.tankHistory,
+    hasReleasePreventionBarrier: bottom.hasReleasePreventionBarrier,
+    internallyLined: inputs.tankHistory?.internallyLined || bottom.internallyLined,
+  };
+  const courses = inputs.shellCourses.filter((course) => course.tMin);
+
+  const result = (years: number, reason: string): IntervalResult => ({
+    years: roundTo(years, 1),
+    dueDate: addYears(baseDate, years),
+    reason,
+  });
+
+  // Shell intervals are governed by the course with the least RCA/N
+  const shell = governingShellCourse(courses, inputs.localizedCorrosion);
+  let external: IntervalResult;
+  let ut: IntervalResult;
+  if (!shell) {
+    external = result(MAX_EXTERNAL_INTERVAL, "5-year maximum (§6.3.2.1); no measurable shell corrosion");
+    ut = courses.length > 0
+      ? result(MAX_UT_INTERVAL, "15-year maximum (§6.3.3.2); no measurable shell corrosion")
+      : result(UNKNOWN_RATE_UT_INTERVAL, "Shell corrosion rate unknown; 5-year maximum (§6.3.3.2)");
+  } else {
+    const where = shell.localized ? `corroded area in course ${shell.courseNumber}` : `course ${shell.courseNumber}`;
+    const detail = `${where}: RCA ${shell.rca.toFixed(3)} in at ${(shell.rate * 1000).toFixed(2)} mpy`;
+    const externalYears = externalIntervalYears(shell.rca, shell.rate);
+    const utYears = utThicknessIntervalYears(shell.rca, shell.rate);
+    external = result(
+      externalYears,
+      externalYears < MAX_EXTERNAL_INTERVAL ? `RCA/4N governs (${detail})` : "5-year maximum (§6.3.2.1)",
+    );
+    ut = result(
+      utYears,
+      utYears < MAX_UT_INTERVAL ? `RCA/2N governs (${detail})` : "15-year maximum (§6.3.3.2)",
+    );
+  }
+
+  // Internal interval comes from bottom MRT when the bottom has been scanned
+  const cap = internalIntervalCap(features);
+  const mrtLimit = inputs.floor?.maxInternalInterval ? toNumber(inputs.floor.maxInternalInterval, cap) : undefined;
+  let internal: IntervalResult;
+  if (mrtLimit !== undefined) {
+    internal = mrtLimit < cap
+      ? result(mrtLimit, `Bottom MRT (${inputs.floor?.mrt ?? "-"} in) limits the interval (§6.4.2.2)`)
+      : result(cap, `${cap}-year maximum for the installed release prevention features (§6.4.2)`);
+  } else {
+    const years = initialInternalIntervalYears(features);
+    const reason = features.inspectionType === "in-service-external"
+      ? `Bottom not inspected; initial interval per Table 6.1 (${years} years)`
+      : `No bottom MRT data; initial interval per Table 6.1 (${years} years)`;
+    internal = result(years, reason);
+  }
+
+  return { baseDate: baseDate.toISOString().split("T")[0], external, ut, internal };
+}
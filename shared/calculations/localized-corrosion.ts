@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+import { remainingLifeYears, MAX_REMAINING_LIFE } from "./corrosion";
+import { MIN_SHELL_THICKNESS, type ShellCourseData } from "./shell";
+
+export const pitSchema = z.object({
+  pitId: z.string(),
+  location: z.string().optional(),
+  depth: z.string().optional(), // in
+});
+
+export const corrodedAreaSchema = z.object({
+  areaId: z.string(),
+  courseNumber: z.string(),
+  location: z.string().optional(),
+  t2: z.string().optional(), // least thickness in the area, excluding widely scattered pits
+  readings: z.string().optional(), // comma-separated readings along L in the critical vertical plane
+  pits: z.array(pitSchema),
+  pitLengthSum: z.string().optional(), // sum of pit lengths along the worst 8 in vertical line
+  criticalLength: z.string().optional(),
+  t1: z.string().optional(),
+  tMin: z.string().optional(),
+  t1Acceptable: z.boolean().optional(),
+  t2Acceptable: z.boolean().optional(),
+  pitsAcceptable: z.boolean().optional(),
+  acceptable: z.boolean().optional(),
+  governingThickness: z.enum(["t1", "t2"]).optional(),
+  remainingLife: z.string().optional(),
+});
+
+export const localizedCorrosionSchema = z.object({
+  nextInspectionInterval: z.string().optional(), // years, for the corrosion allowance
+  areas: z.array(corrodedAreaSchema),
+  governingRemainingLife: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type PitData = z.infer<typeof pitSchema>;
+export type CorrodedAreaData = z.infer<typeof corrodedAreaSchema>;
+export type LocalizedCorrosionData = z.infer<typeof localizedCorrosionSchema>;
+
+// §4.3.2.2: pit lengths may not add up to more than 2 in within any 8 in vertical line
+export const MAX_PIT_LENGTH_SUM = 2;
+
+// L = 3.7 √(D t2), not to exceed 40 in (D in ft, t2 in in)
+export function criticalLength(tankDiameter: number, t2: number): number {
+  if (tankDiameter <= 0 || t2 <= 0) return 0;
+  return Math.min(40, 3.7 * Math.sqrt(tankDiameter * t2));
+}
+
+export function parseReadings(readings: string | undefined): number[] {
+  return (readings || "")
+    .split(/[,\s]+/)
+    .map((reading) => parseFloat(reading))
+    .filter((reading) => Number.isFinite(reading));
+}
+
+// Evaluate one corroded area against §4.3.2.1 (t1 ≥ tmin, t2 ≥ 0.6 tmin) and §4.3.2.2 (pits).
+// The corrosion allowance to the next inspection is added to each limit.
+export function evaluateCorrodedArea(
+  area: CorrodedAreaData,
+  course: ShellCourseData | undefined,
+  tankDiameter: number,
+  nextInspectionInterval: number,
+): CorrodedAreaData {
+  const readings = parseReadings(area.readings);
+  const t2 = toNumber(area.t2, readings.length > 0 ? Math.min(...readings) : 0);
+  // Without readings along L the area is averaged at its thinnest point
+  const t1 = readings.length > 0 ? readings.reduce((sum, reading) => sum + reading, 0) / readings.length : t2;
+
+  const tMin = Math.max(MIN_SHELL_THICKNESS, toNumber(course?.tMin, MIN_SHELL_THICKNESS));
+  const corrosionRate = Math.max(0, toNumber(course?.corrosionRate, 0)); // mpy
+  const corrosionAllowance = (corrosionRate / 1000) * nextInspectionInterval;
+
+  const t1Acceptable = t1 >= tMin + corrosionAllowance;
+  const t2Acceptable = t2 >= 0.6 * tMin + corrosionAllowance;
+
+  // Pit depth is measured from the surrounding shell, taken as the course's actual thickness
+  const shellThickness = toNumber(course?.actualThickness, t2);
+  const deepestPit = Math.max(0, ...area.pits.map((pit) => toNumber(pit.depth, 0)));
+  const pitsAcceptable =
+    shellThickness - deepestPit >= tMin / 2 + corrosionAllowance &&
+    toNumber(area.pitLengthSum, 0) <= MAX_PIT_LENGTH_SUM;
+
+  const t1Life = remainingLifeYears(t1, tMin, corrosionRate);
+  const t2Life = remainingLifeYears(t2, 0.6 * tMin, corrosionRate);
+  const governingThickness: "t1" | "t2" = t2Life < t1Life ? "t2" : "t1";
+  const remainingLife = Math.max(0, Math.min(MAX_REMAINING_LIFE, t1Life, t2Life));
+
+  return {
+    ...area,
+    t2: t2.toFixed(3),
+    criticalLength: roundTo(criticalLength(tankDiameter, t2), 1).toFixed(1),
+    t1: t1.toFixed(3),
+    tMin: tMin.toFixed(3),
+    t1Acceptable,
+    t2Acceptable,
+    pitsAcceptable,
+    acceptable: t1Acceptable && t2Acceptable && pitsAcceptable,
+    governingThickness,
+    remainingLife: roundTo(remainingLife, 1).toString(),
+  };
+}
+
+export function calculateLocalizedCorrosion(
+  data: LocalizedCorrosionData,
+  shellCourses: ShellCourseData[],
+  tankDiameter: number,
+): LocalizedCorrosionData {
+  const interval = toNumber(data.nextInspectionInterval, 0);
+
+  const areas = data.areas.map((area) => {
+    const course = shellCourses.find((c) => c.courseNumber.toString() === area.courseNumber);
+    return evaluateCorrodedArea(area, course, tankDiameter, interval);
+  });
+
+  const governingRemainingLife = areas.length > 0
+    ? Math.min(...areas.map((area) => toNumber(area.remainingLife, MAX_REMAINING_LIFE))).toString()
+    : undefined;
+
+  return { ...data, areas, governingRemainingLife };
+}
+
+// Thickness left above the limit of the area's governing check: t1 over tmin, or t2 over 0.6 tmin
+export function areaCorrosionAllowance(area: CorrodedAreaData): number | undefined {
+  if (!area.tMin || !area.governingThickness) return undefined;
+  const tMin = toNumber(area.tMin, MIN_SHELL_THICKNESS);
+  return area.governingThickness === "t2" ? toNumber(area.t2, 0) - 0.6 * tMin : toNumber(area.t1, 0) - tMin;
+}
+
+export function courseCorrodedAreas(localized: LocalizedCorrosionData | undefined, courseNumber: number): CorrodedAreaData[] {
+  return (localized?.areas || []).filter((area) => area.courseNumber === courseNumber.toString());
+}
+
+// A course's remaining life is that of its shortest-lived corroded area when one governs
+export function applyLocalizedCorrosion(
+  courses: ShellCourseData[],
+  localized: LocalizedCorrosionData | undefined,
+): ShellCourseData[] {
+  return courses.map((course) => {
+    const lives = courseCorrodedAreas(localized, course.courseNumber)
+      .filter((area) => area.remainingLife)
+      .map((area) => toNumber(area.remainingLife, MAX_REMAINING_LIFE));
+    if (lives.length === 0) return course;
+    const remainingLife = Math.min(toNumber(course.remainingLife, MAX_REMAINING_LIFE), ...lives);
+    return { ...course, remainingLife: Math.max(0, Math.round(remainingLife)).toString() };
+  });
+}
@@ -0,0 +1,149 @@
+import { toNumber } from "./utils";
+
+// API 653 Table 4.1 — minimum yield (Y) and tensile (T) strength, psi.
+// Allowable stresses are derived from these the same way the table is.
+export interface ShellMaterial {
+  value: string;
+  label: string;
+  yieldStrength: number;
+  tensileStrength: number;
+}
+
+export const UNKNOWN_MATERIAL = "UNKNOWN";
+export const OTHER_MATERIAL = "OTHER";
+
+export const shellMaterials: ShellMaterial[] = [
+  { value: "A7", label: "A7 (obsolete)", yieldStrength: 30000, tensileStrength: 60000 },
+  { value: "A10", label: "A10 (obsolete)", yieldStrength: 30000, tensileStrength: 55000 },
+  { value: "A283-C", label: "A283 Grade C", yieldStrength: 30000, tensileStrength: 55000 },
+  { value: "A285-C", label: "A285 Grade C", yieldStrength: 30000, tensileStrength: 55000 },
+  { value: "A36", label: "A36", yieldStrength: 36000, tensileStrength: 58000 },
+  { value: "A131-A", label: "A131 Grade A, B, CS", yieldStrength: 34000, tensileStrength: 58000 },
+  { value: "A131-EH36", label: "A131 Grade EH36", yieldStrength: 51000, tensileStrength: 71000 },
+  { value: "A442-55", label: "A442 Grade 55", yieldStrength: 30000, tensileStrength: 55000 },
+  { value: "A442-60", label: "A442 Grade 60", yieldStrength: 32000, tensileStrength: 60000 },
+  { value: "A516-55", label: "A516 Grade 55", yieldStrength: 30000, tensileStrength: 55000 },
+  { value: "A516-60", label: "A516 Grade 60", yieldStrength: 32000, tensileStrength: 60000 },
+  { value: "A516-65", label: "A516 Grade 65", yieldStrength: 35000, tensileStrength: 65000 },
+  { value: "A516-70", label: "A516 Grade 70", yieldStrength: 38000, tensileStrength: 70000 },
+  { value: "A537-1", label: "A537 Class 1", yieldStrength: 50000, tensileStrength: 70000 },
+  { value: "A537-2", label: "A537 Class 2", yieldStrength: 60000, tensileStrength: 80000 },
+  { value: "A573-58", label: "A573 Grade 58", yieldStrength: 32000, tensileStrength: 58000 },
+  { value: "A573-65", label: "A573 Grade 65", yieldStrength: 35000, tensileStrength: 65000 },
+  { value: "A573-70", label: "A573 Grade 70", yieldStrength: 42000, tensileStrength: 70000 },
+  { value: "A633-C", label: "A633 Grade C, D", yieldStrength: 50000, tensileStrength: 70000 },
+  { value: "A662-B", label: "A662 Grade B", yieldStrength: 40000, tensileStrength: 65000 },
+  { value: "A662-C", label: "A662 Grade C", yieldStrength: 43000, tensileStrength: 70000 },
+  { value: "A678-A", label: "A678 Grade A", yieldStrength: 50000, tensileStrength: 70000 },
+  { value: "A678-B", label: "A678 Grade B", yieldStrength: 60000, tensileStrength: 80000 },
+  { value: "A737-B", label: "A737 Grade B", yieldStrength: 50000, tensileStrength: 70000 },
+  { value: UNKNOWN_MATERIAL, label: "Unknown Material", yieldStrength: 30000, tensileStrength: 55000 },
+];
+
+export function findShellMaterial(value: string | undefined): ShellMaterial | undefined {
+  return shellMaterials.find((material) => material.value === value);
+}
+
+// Match a free-text plate specification such as "A283 Gr. C" against the table
+export function findShellMaterialBySpec(spec: string | null | undefined): ShellMaterial | undefined {
+  const normalize = (text: string) => text.toUpperCase().replace(/GRADE|GR\.?|CLASS|CL\.?/g, "").replace(/[^A-Z0-9]/g, "");
+  const target = normalize(spec || "");
+  if (!target) return undefined;
+  return shellMaterials.find((material) =>
+    material.value !== UNKNOWN_MATERIAL && normalize(material.value) === target,
+  );
+}
+
+export interface AllowableStresses {
+  product: number; // S, psi
+  hydrotest: number; // St, psi
+}
+
+// Table 4.1 splits the lower two courses from the upper courses
+export function isLowerCourse(courseNumber: number): boolean {
+  return courseNumber <= 2;
+}
+
+// Table 4.1 values are rounded to the nearest 100 psi
+const roundStress = (value: number) => Math.round(value / 100) * 100;
+
+export function allowableStresses(material: ShellMaterial, courseNumber: number): AllowableStresses {
+  const { yieldStrength: Y, tensileStrength: T } = material;
+  if (isLowerCourse(courseNumber)) {
+    return {
+      product: roundStress(Math.min(0.8 * Y, 0.429 * T)),
+      hydrotest: roundStress(Math.min(0.88 * Y, 0.472 * T)),
+    };
+  }
+  return {
+    product: roundStress(Math.min(0.88 * Y, 0.472 * T)),
+    hydrotest: roundStress(Math.min(0.9 * Y, 0.519 * T)),
+  };
+}
+
+export interface CourseStressInput {
+  courseNumber: number;
+  material?: string;
+  stressValue?: string;
+  hydrotestStress?: string;
+  alternateStress?: string;
+}
+
+// An inspector override in alternateStress wins, then an entered stress, then Table 4.1.
+// Materials outside the table ("Other") fall back to the old 26,700 psi default.
+export function resolveCourseStresses(course: CourseStressInput): AllowableStresses {
+  const material = findShellMaterial(course.material);
+  const table = material ? allowableStresses(material, course.courseNumber) : undefined;
+
+  const product = toNumber(course.alternateStress, toNumber(course.stressValue, table?.product ?? 26700));
+  // Without a hydrotest stress the product stress is the conservative choice
+  const hydrotest = toNumber(course.hydrotestStress, table?.hydrotest ?? product);
+  return { product, hydrotest };
+}
+
+// API 653 Table 4.2 — joint efficiency for existing tanks by construction standard and weld type
+export interface ConstructionStandard {
+  value: string;
+  label: string;
+}
+
+export interface JointEfficiencyEntry {
+  standard: string;
+  weldType: string;
+  label: string;
+  efficiency: number;
+}
+
+export const UNKNOWN_CONSTRUCTION_STANDARD = "unknown";
+
+export const constructionStandards: ConstructionStandard[] = [
+  { value: "api650-7th-later", label: "API 650 7th Edition & later (1980–present)" },
+  { value: "api650-1st-6th", label: "API 650 1st–6th Edition (1961–1978)" },
+  { value: "api12c-14th-15th", label: "API 12C 14th & 15th Edition (1957–1958)" },
+  { value: "api12c-3rd-13th", label: "API 12C 3rd–13th Edition (1940–1956)" },
+  { value: "api12c-1st-2nd", label: "API 12C 1st & 2nd Edition (1936–1939)" },
+  { value: UNKNOWN_CONSTRUCTION_STANDARD, label: "Unknown" },
+];
+
+export const jointEfficiencyTable: JointEfficiencyEntry[] = [
+  { standard: "api650-7th-later", weldType: "butt-basic", label: "Butt — Basic standard", efficiency: 1.0 },
+  { standard: "api650-7th-later", weldType: "butt-annex-a-spot", label: "Butt — Annex A, spot RT", efficiency: 0.85 },
+  { standard: "api650-7th-later", weldType: "butt-annex-a-none", label: "Butt — Annex A, no RT", efficiency: 0.7 },
+  { standard: "api650-1st-6th", weldType: "butt-basic", label: "Butt — Basic standard", efficiency: 0.85 },
+  { standard: "api650-1st-6th", weldType: "butt-annex-d-g", label: "Butt — Annexes D and G", efficiency: 1.0 },
+  { standard: "api650-1st-6th", weldType: "butt-annex-a-spot", label: "Butt — Annex A, spot RT", efficiency: 0.85 },
+  { standard: "api650-1st-6th", weldType: "butt-annex-a-none", label: "Butt — Annex A, no RT", efficiency: 0.7 },
+  { standard: "api12c-14th-15th", weldType: "butt", label: "Butt", efficiency: 0.85 },
+  { standard: "api12c-3rd-13th", weldType: "butt", label: "Butt", efficiency: 0.85 },
+  { standard: "api12c-1st-2nd", weldType: "butt", label: "Butt", efficiency: 0.85 },
+  { standard: UNKNOWN_CONSTRUCTION_STANDARD, weldType: "butt", label: "Butt", efficiency: 0.7 },
+  { standard: UNKNOWN_CONSTRUCTION_STANDARD, weldType: "lap", label: "Lap — shell t ≤ 3/8 in", efficiency: 0.35 },
+];
+
+export function jointEfficienciesFor(standard: string | undefined): JointEfficiencyEntry[] {
+  return jointEfficiencyTable.filter((entry) => entry.standard === (standard || UNKNOWN_CONSTRUCTION_STANDARD));
+}
+
+export function lookupJointEfficiency(standard: string | undefined, weldType: string | undefined): number | undefined {
+  return jointEfficienciesFor(standard).find((entry) => entry.weldType === weldType)?.efficiency;
+}
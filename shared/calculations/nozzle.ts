@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { toNumber, roundTo, yearsBetweenDates } from "./utils";
+import { corrosionRateMpy, remainingLifeYears } from "./corrosion";
+import { utThicknessIntervalYears, addYears } from "./intervals";
+import type { ShellCalculationData } from "./shell";
+import { findPipeSize, nominalWallThickness, parseNps } from "./pipe-schedules";
+
+// Spreadsheet imports can leave blanks, so numeric fields coerce and default to 0
+const measurement = z.coerce.number().catch(0);
+
+export const nozzleCmlRecordSchema = z.object({
+  id: z.string(),
+  nozzleId: z.string().default(""),
+  nozzleDescription: z.string().default(""),
+  nozzleSize: z.coerce.string().default(""),
+  nozzleSchedule: z.string().default("40"),
+  service: z.string().default(""),
+  orientation: measurement, // degrees from North
+  elevation: measurement, // feet from bottom
+  previousThickness: measurement,
+  currentThickness: measurement,
+  nominalThickness: measurement,
+  tMin: measurement, // minimum required thickness
+  millTolerance: measurement, // 87.5% of nominal
+  structuralTmin: measurement,
+  pressureTmin: measurement,
+  practicalTmin: z.coerce.number().optional(), // override from the report's practical tmin table
+  tMinBasis: z.enum(["pressure", "structural", "practical"]).optional(),
+  corrosionRate: measurement, // calculated mpy
+  remainingLife: measurement, // calculated years
+  nextInspectionDate: z.string().default(""),
+  inspectionMethod: z.string().default("UT"),
+  notes: z.string().default(""),
+});
+
+export const nozzleCmlDataSchema = z.object({
+  id: z.string().optional(),
+  reportId: z.string(),
+  records: z.array(nozzleCmlRecordSchema),
+  inspectionDate: z.string().default(""),
+  previousInspectionDate: z.string().default(""),
+  inspectorName: z.string().default(""),
+  ndeCompany: z.string().default(""),
+});
+
+export type NozzleCMLRecord = z.infer<typeof nozzleCmlRecordSchema>;
+export type NozzleCMLData = z.infer<typeof nozzleCmlDataSchema>;
+
+// Pipe is ordered to nominal wall less the 12.5% mill undertolerance
+export const MILL_TOLERANCE_FACTOR = 0.875;
+// ASME B31.3 allowable for A106 Grade B up to 400 °F, seamless (E = 1), Y = 0.4
+export const NOZZLE_ALLOWABLE_STRESS = 20000;
+export const NOZZLE_Y_COEFFICIENT = 0.4;
+export const WATER_HEAD_PSI_PER_FT = 0.433;
+
+// API 574 Table 6 structural minimum thickness for carbon steel nozzle necks, by NPS up to the size shown
+const structuralMinimums: [number, number][] = [
+  [2, 0.07],
+  [3, 0.08],
+  [4, 0.09],
+  [6, 0.11],
+  [10, 0.12],
+  [18, 0.13],
+  [24, 0.14],
+];
+
+export interface PracticalTminOverride {
+  component: string;
+  size: string | null;
+  practicalTmin: string | null;
+}
+
+export interface NozzleTminContext {
+  fillHeight: number; // ft
+  specificGravity: number;
+  practicalTmins: PracticalTminOverride[];
+}
+
+export interface NozzleTminBreakdown {
+  nominal: number;
+  millTolerance: number;
+  structural: number;
+  pressure: number;
+  practical?: number;
+  tMin: number;
+  basis: "pressure" | "structural" | "practical";
+}
+
+// Fill height and specific gravity come from the shell calculations, falling back to the tank history
+export function nozzleTminContext(
+  shellCalcs: Partial<ShellCalculationData> | undefined,
+  tankHistory: { maxLiquidLevel?: string; specificGravity?: string } | undefined,
+  practicalTmins: PracticalTminOverride[],
+): NozzleTminContext {
+  return {
+    fillHeight: toNumber(shellCalcs?.fillHeight, toNumber(tankHistory?.maxLiquidLevel, 0)),
+    specificGravity: toNumber(shellCalcs?.specificGravity, toNumber(tankHistory?.specificGravity, 1.0)),
+    practicalTmins,
+  };
+}
+
+export function structuralMinimumThickness(nps: number): number {
+  const entry = structuralMinimums.find(([size]) => nps <= size);
+  return entry ? entry[1] : structuralMinimums[structuralMinimums.length - 1][1];
+}
+
+// Static head of product above the nozzle centerline, psi
+export function hydrostaticPressure(fillHeight: number, elevation: number, specificGravity: number): number {
+  return Math.max(0, fillHeight - elevation) * WATER_HEAD_PSI_PER_FT * specificGravity;
+}
+
+// t = P D / (2 (S E + P Y)), with D the pipe outside diameter
+export function pressureDesignThickness(pressure: number, outsideDiameter: number): number {
+  if (pressure <= 0 || outsideDiameter <= 0) return 0;
+  return (pressure * outsideDiameter) / (2 * (NOZZLE_ALLOWABLE_STRESS + pressure * NOZZLE_Y_COEFFICIENT));
+}
+
+// A row matching the nozzle ID, then a generic nozzle row of the same size, overrides the calculated tMin
+export function findPracticalTmin(record: NozzleCMLRecord, overrides: PracticalTminOverride[]): number | undefined {
+  const nps = parseNps(record.nozzleSize);
+  const sameSize = overrides.filter((row) => row.practicalTmin && parseNps(row.size || "") === nps);
+  const match =
+    sameSize.find((row) => record.nozzleId && row.component === record.nozzleId) ||
+    sameSize.find((row) => row.component.toLowerCase().includes("nozzle"));
+  const value = match ? parseFloat(match.practicalTmin || "") : NaN;
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function calculateNozzleTmin(record: NozzleCMLRecord, context: NozzleTminContext): NozzleTminBreakdown {
+  const pipe = findPipeSize(record.nozzleSize);
+  const nps = parseNps(record.nozzleSize);
+  const nominal = record.nominalThickness || nominalWallThickness(record.nozzleSize, record.nozzleSchedule) || 0;
+  const structural = nps > 0 ? structuralMinimumThickness(nps) : 0;
+  const pressure = pressureDesignThickness(
+    hydrostaticPressure(context.fillHeight, record.elevation, context.specificGravity),
+    pipe?.outsideDiameter ?? nps,
+  );
+  const practical = findPracticalTmin(record, context.practicalTmins);
+
+  let tMin = Math.max(structural, pressure);
+  let basis: NozzleTminBreakdown["basis"] = pressure > structural ? "pressure" : "structural";
+  if (practical !== undefined) {
+    tMin = practical;
+    basis = "practical";
+  }
+
+  return {
+    nominal,
+    millTolerance: nominal * MILL_TOLERANCE_FACTOR,
+    structural,
+    pressure,
+    practical,
+    tMin,
+    basis,
+  };
+}
+
+// Recalculate tMin, corrosion rate, remaining life and next inspection date per nozzle
+export function calculateNozzleMetrics(
+  data: NozzleCMLData,
+  context: NozzleTminContext = { fillHeight: 0, specificGravity: 1, practicalTmins: [] },
+): NozzleCMLData {
+  const yearsBetween = yearsBetweenDates(data.previousInspectionDate, data.inspectionDate);
+
+  const records = data.records.map((record) => {
+    const corrosionRate = corrosionRateMpy(record.previousThickness, record.currentThickness, yearsBetween);
+    const { nominal, millTolerance, structural, pressure, practical, tMin, basis } = calculateNozzleTmin(record, context);
+    const remainingLife = remainingLifeYears(record.currentThickness, tMin, corrosionRate);
+
+    // API 653 §6.3.3: UT thickness interval of RCA/2N, at most 15 years
+    const nextInspectionYears = utThicknessIntervalYears(record.currentThickness - tMin, corrosionRate / 1000);
+    let nextInspectionDate = record.nextInspectionDate;
+    const inspectionDate = new Date(data.inspectionDate);
+    if (!isNaN(inspectionDate.getTime())) {
+      nextInspectionDate = addYears(inspectionDate, nextInspectionYears);
+    }
+
+    return {
+      ...record,
+      nominalThickness: roundTo(nominal, 3),
+      millTolerance: roundTo(millTolerance, 3),
+      structuralTmin: roundTo(structural, 3),
+      pressureTmin: roundTo(pressure, 3),
+      practicalTmin: practical,
+      tMinBasis: basis,
+      tMin: roundTo(tMin, 3),
+      corrosionRate: roundTo(corrosionRate, 2),
+      remainingLife: roundTo(remainingLife, 1),
+      nextInspectionDate,
+    };
+  });
+
+  return { ...data, records };
+}
@@ -0,0 +1,67 @@
+// ASME B36.10M welded and seamless wrought steel pipe: outside diameter and
+// nominal wall thickness (in) by NPS and schedule
+export const pipeSchedules = ["10", "20", "30", "STD", "40", "60", "XS", "80", "100", "120", "140", "160", "XXS"] as const;
+export type PipeSchedule = (typeof pipeSchedules)[number];
+
+export interface PipeSize {
+  nps: number;
+  label: string;
+  outsideDiameter: number;
+  walls: Partial<Record<PipeSchedule, number>>;
+}
+
+export const pipeSizes: PipeSize[] = [
+  { nps: 0.5, label: "1/2", outsideDiameter: 0.84, walls: { "10": 0.083, "30": 0.095, STD: 0.109, "40": 0.109, XS: 0.147, "80": 0.147, "160": 0.188, XXS: 0.294 } },
+  { nps: 0.75, label: "3/4", outsideDiameter: 1.05, walls: { "10": 0.083, "30": 0.095, STD: 0.113, "40": 0.113, XS: 0.154, "80": 0.154, "160": 0.219, XXS: 0.308 } },
+  { nps: 1, label: "1", outsideDiameter: 1.315, walls: { "10": 0.109, "30": 0.114, STD: 0.133, "40": 0.133, XS: 0.179, "80": 0.179, "160": 0.25, XXS: 0.358 } },
+  { nps: 1.25, label: "1-1/4", outsideDiameter: 1.66, walls: { "10": 0.109, "30": 0.117, STD: 0.14, "40": 0.14, XS: 0.191, "80": 0.191, "160": 0.25, XXS: 0.382 } },
+  { nps: 1.5, label: "1-1/2", outsideDiameter: 1.9, walls: { "10": 0.109, "30": 0.125, STD: 0.145, "40": 0.145, XS: 0.2, "80": 0.2, "160": 0.281, XXS: 0.4 } },
+  { nps: 2, label: "2", outsideDiameter: 2.375, walls: { "10": 0.109, "30": 0.125, STD: 0.154, "40": 0.154, XS: 0.218, "80": 0.218, "160": 0.344, XXS: 0.436 } },
+  { nps: 2.5, label: "2-1/2", outsideDiameter: 2.875, walls: { "10": 0.12, "30": 0.188, STD: 0.203, "40": 0.203, XS: 0.276, "80": 0.276, "160": 0.375, XXS: 0.552 } },
+  { nps: 3, label: "3", outsideDiameter: 3.5, walls: { "10": 0.12, "30": 0.188, STD: 0.216, "40": 0.216, XS: 0.3, "80": 0.3, "160": 0.438, XXS: 0.6 } },
+  { nps: 3.5, label: "3-1/2", outsideDiameter: 4.0, walls: { "10": 0.12, "30": 0.188, STD: 0.226, "40": 0.226, XS: 0.318, "80": 0.318, XXS: 0.636 } },
+  { nps: 4, label: "4", outsideDiameter: 4.5, walls: { "10": 0.12, "30": 0.188, STD: 0.237, "40": 0.237, XS: 0.337, "80": 0.337, "120": 0.438, "160": 0.531, XXS: 0.674 } },
+  { nps: 5, label: "5", outsideDiameter: 5.563, walls: { "10": 0.134, STD: 0.258, "40": 0.258, XS: 0.375, "80": 0.375, "120": 0.5, "160": 0.625, XXS: 0.75 } },
+  { nps: 6, label: "6", outsideDiameter: 6.625, walls: { "10": 0.134, STD: 0.28, "40": 0.28, XS: 0.432, "80": 0.432, "120": 0.562, "160": 0.719, XXS: 0.864 } },
+  { nps: 8, label: "8", outsideDiameter: 8.625, walls: { "10": 0.148, "20": 0.25, "30": 0.277, STD: 0.322, "40": 0.322, "60": 0.406, XS: 0.5, "80": 0.5, "100": 0.594, "120": 0.719, "140": 0.812, "160": 0.906, XXS: 0.875 } },
+  { nps: 10, label: "10", outsideDiameter: 10.75, walls: { "10": 0.165, "20": 0.25, "30": 0.307, STD: 0.365, "40": 0.365, "60": 0.5, XS: 0.5, "80": 0.594, "100": 0.719, "120": 0.844, "140": 1.0, "160": 1.125, XXS: 1.0 } },
+  { nps: 12, label: "12", outsideDiameter: 12.75, walls: { "10": 0.18, "20": 0.25, "30": 0.33, STD: 0.375, "40": 0.406, XS: 0.5, "60": 0.562, "80": 0.688, "100": 0.844, "120": 1.0, "140": 1.125, "160": 1.312, XXS: 1.0 } },
+  { nps: 14, label: "14", outsideDiameter: 14.0, walls: { "10": 0.25, "20": 0.312, "30": 0.375, STD: 0.375, "40": 0.438, XS: 0.5, "60": 0.594, "80": 0.75, "100": 0.938, "120": 1.094, "140": 1.25, "160": 1.406 } },
+  { nps: 16, label: "16", outsideDiameter: 16.0, walls: { "10": 0.25, "20": 0.312, "30": 0.375, STD: 0.375, "40": 0.5, XS: 0.5, "60": 0.656, "80": 0.844, "100": 1.031, "120": 1.219, "140": 1.438, "160": 1.594 } },
+  { nps: 18, label: "18", outsideDiameter: 18.0, walls: { "10": 0.25, "20": 0.312, STD: 0.375, "30": 0.438, XS: 0.5, "40": 0.562, "60": 0.75, "80": 0.938, "100": 1.156, "120": 1.375, "140": 1.562, "160": 1.781 } },
+  { nps: 20, label: "20", outsideDiameter: 20.0, walls: { "10": 0.25, "20": 0.375, STD: 0.375, "30": 0.5, XS: 0.5, "40": 0.594, "60": 0.812, "80": 1.031, "100": 1.281, "120": 1.5, "140": 1.75, "160": 1.969 } },
+  { nps: 22, label: "22", outsideDiameter: 22.0, walls: { "10": 0.25, "20": 0.375, STD: 0.375, "30": 0.5, XS: 0.5, "60": 0.875, "80": 1.125, "100": 1.375, "120": 1.625, "140": 1.875, "160": 2.125 } },
+  { nps: 24, label: "24", outsideDiameter: 24.0, walls: { "10": 0.25, "20": 0.375, STD: 0.375, XS: 0.5, "30": 0.562, "40": 0.688, "60": 0.969, "80": 1.219, "100": 1.531, "120": 1.812, "140": 2.062, "160": 2.344 } },
+  { nps: 26, label: "26", outsideDiameter: 26.0, walls: { "10": 0.312, STD: 0.375, "20": 0.5, XS: 0.5 } },
+  { nps: 28, label: "28", outsideDiameter: 28.0, walls: { "10": 0.312, STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625 } },
+  { nps: 30, label: "30", outsideDiameter: 30.0, walls: { "10": 0.312, STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625 } },
+  { nps: 32, label: "32", outsideDiameter: 32.0, walls: { "10": 0.312, STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625, "40": 0.688 } },
+  { nps: 34, label: "34", outsideDiameter: 34.0, walls: { "10": 0.344, STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625, "40": 0.688 } },
+  { nps: 36, label: "36", outsideDiameter: 36.0, walls: { "10": 0.312, STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625, "40": 0.75 } },
+  { nps: 38, label: "38", outsideDiameter: 38.0, walls: { STD: 0.375, XS: 0.5 } },
+  { nps: 40, label: "40", outsideDiameter: 40.0, walls: { STD: 0.375, XS: 0.5 } },
+  { nps: 42, label: "42", outsideDiameter: 42.0, walls: { STD: 0.375, "20": 0.5, XS: 0.5, "30": 0.625, "40": 0.75 } },
+  { nps: 44, label: "44", outsideDiameter: 44.0, walls: { STD: 0.375, XS: 0.5 } },
+  { nps: 46, label: "46", outsideDiameter: 46.0, walls: { STD: 0.375, XS: 0.5 } },
+  { nps: 48, label: "48", outsideDiameter: 48.0, walls: { STD: 0.375, XS: 0.5 } },
+];
+
+// Accepts "6", "0.75", "3/4" or "1-1/2" (also "1 1/2")
+export function parseNps(size: string | number | undefined): number {
+  if (typeof size === "number") return size;
+  const text = (size || "").replace(/["″]/g, "").trim();
+  const mixed = text.match(/^(\d+)[-\s]+(\d+)\/(\d+)$/);
+  if (mixed) return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1]) / parseInt(fraction[2]);
+  return parseFloat(text) || 0;
+}
+
+export function findPipeSize(size: string | number | undefined): PipeSize | undefined {
+  const nps = parseNps(size);
+  return pipeSizes.find((pipe) => Math.abs(pipe.nps - nps) < 0.001);
+}
+
+export function nominalWallThickness(size: string | number | undefined, schedule: string): number | undefined {
+  return findPipeSize(size)?.walls[schedule.toUpperCase() as PipeSchedule];
+}
@@ -0,0 +1,270 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+import { corrosionRateMpy, remainingLifeYears, MAX_REMAINING_LIFE } from "./corrosion";
+
+export const roofTypes = [
+  { value: "cone", label: "Cone Roof" },
+  { value: "dome", label: "Dome Roof" },
+  { value: "umbrella", label: "Umbrella Roof" },
+  { value: "floating", label: "Floating Roof" },
+  { value: "open", label: "Open Top" },
+] as const;
+
+export const roofCheckSchema = z.object({
+  check: z.string(),
+  reference: z.string(),
+  required: z.string().optional(), // in, in² or ft depending on the check
+  actual: z.string().optional(),
+  acceptable: z.boolean().optional(),
+});
+
+export const roofCalculationSchema = z.object({
+  roofType: z.string().optional(),
+  roofPlateThickness: z.string().optional(),
+  roofPlateActual: z.string().optional(),
+  roofAge: z.string().optional(),
+  roofCorrosionAllowance: z.string().optional(),
+  deckPlateThickness: z.string().optional(),
+  deckPlateActual: z.string().optional(),
+  supportedByRafters: z.string().optional(),
+  rafterSpacing: z.string().optional(),
+  rafterSpan: z.string().optional(), // ft
+  rafterSectionModulus: z.string().optional(), // in³
+  supportedByColumns: z.string().optional(),
+  columnSpacing: z.string().optional(),
+  roofSlope: z.string().optional(), // in per 12 in, cone roofs
+  roofRadius: z.string().optional(), // ft, dome and umbrella roofs
+  roofYieldStrength: z.string().optional(), // psi, roof plate and rafters
+  shellFramingWeight: z.string().optional(), // lbf, shell and framing supported by the shell (DLS)
+  junctionArea: z.string().optional(), // in², roof-to-shell junction
+  liveLoad: z.string().optional(),
+  snowLoad: z.string().optional(),
+  attachmentLoad: z.string().optional(),
+  designPressure: z.string().optional(),
+  designVacuum: z.string().optional(),
+  tMinDeck: z.string().optional(),
+  tMinRoof: z.string().optional(),
+  designLoad: z.string().optional(), // psf, T
+  roofChecks: z.array(roofCheckSchema).optional(),
+  governingCheck: z.string().optional(),
+  frangible: z.boolean().optional(),
+  corrosionRateDeck: z.string().optional(),
+  corrosionRateRoof: z.string().optional(),
+  remainingLifeDeck: z.string().optional(),
+  remainingLifeRoof: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type RoofCheck = z.infer<typeof roofCheckSchema>;
+export type RoofCalculationData = z.infer<typeof roofCalculationSchema>;
+
+// API 653 §4.2.1.2: roof plates averaging less than 0.09 in over any 100 in² are repaired or replaced
+export const MIN_ROOF_PLATE_THICKNESS = 0.09;
+export const DEFAULT_ROOF_YIELD_STRENGTH = 30000;
+// Steel plate weighs 40.8 psf per inch of thickness
+export const STEEL_PLATE_PSF_PER_IN = 40.8;
+// One inch of water column is 5.2 psf
+export const PSF_PER_IN_WATER = 5.2;
+// API 650 §5.10.4.4: rafter spacing never exceeds 84 in
+export const MAX_RAFTER_SPACING = 84;
+
+// Deck plate tMin for raftered roofs depends on rafter spacing and loading
+export function calculateDeckTmin(supportedByRafters: boolean, totalLoad: number, rafterSpacing: number): number {
+  let tMinDeck = MIN_ROOF_PLATE_THICKNESS;
+  if (supportedByRafters) {
+    tMinDeck = Math.sqrt((totalLoad * Math.pow(rafterSpacing * 12, 2)) / (30000 * 4.8));
+  }
+  return Math.max(MIN_ROOF_PLATE_THICKNESS, roundTo(tMinDeck, 3));
+}
+
+// API 650 §5.10.2.2: plate dead load plus the greater of roof live load and snow, with attachments and external pressure
+export function roofDesignLoad(plateThickness: number, liveLoad: number, snowLoad: number, attachmentLoad: number, vacuum: number): number {
+  return plateThickness * STEEL_PLATE_PSF_PER_IN + Math.max(liveLoad, snowLoad) + attachmentLoad + 0.4 * vacuum * PSF_PER_IN_WATER;
+}
+
+// §5.10.4.4: b = t √(1.5 Fy / p), solved here for t with b the rafter spacing (in) and p the load (psi)
+export function supportedConeTmin(rafterSpacingIn: number, yieldStrength: number, designLoad: number): number {
+  const pressure = designLoad / 144;
+  if (rafterSpacingIn <= 0 || pressure <= 0 || yieldStrength <= 0) return 0;
+  return rafterSpacingIn / Math.sqrt((1.5 * yieldStrength) / pressure);
+}
+
+export function allowableRafterSpacing(thickness: number, yieldStrength: number, designLoad: number): number {
+  const pressure = designLoad / 144;
+  if (thickness <= 0 || pressure <= 0) return MAX_RAFTER_SPACING;
+  return Math.min(MAX_RAFTER_SPACING, thickness * Math.sqrt((1.5 * yieldStrength) / pressure));
+}
+
+// §5.10.5.1: t = D / (400 sin θ) × √(T / 45), D in ft and θ the roof angle from horizontal
+export function selfSupportingConeTmin(tankDiameter: number, slopeAngle: number, designLoad: number): number {
+  const sine = Math.sin(slopeAngle);
+  if (tankDiameter <= 0 || sine <= 0) return 0;
+  return (tankDiameter / (400 * sine)) * Math.sqrt(designLoad / 45);
+}
+
+// §5.10.6.1: t = rr / 200 × √(T / 45), rr the dome or umbrella radius in ft
+export function selfSupportingDomeTmin(roofRadius: number, designLoad: number): number {
+  if (roofRadius <= 0) return 0;
+  return (roofRadius / 200) * Math.sqrt(designLoad / 45);
+}
+
+// §5.10.2.6: a frangible roof-to-shell joint has A ≤ DLS / (1390 tan θ), A in in² and DLS in lbf
+export function maxFrangibleJunctionArea(shellFramingWeight: number, slopeAngle: number): number {
+  const tangent = Math.tan(slopeAngle);
+  if (shellFramingWeight <= 0 || tangent <= 0) return 0;
+  return shellFramingWeight / (1390 * tangent);
+}
+
+// Simply supported rafter under its tributary width of roof load, at 0.6 Fy
+export function requiredRafterSectionModulus(designLoad: number, spacing: number, span: number, yieldStrength: number): number {
+  if (span <= 0 || spacing <= 0 || yieldStrength <= 0) return 0;
+  const moment = (designLoad * spacing * span * span) / 8 * 12; // in-lbf
+  return moment / (0.6 * yieldStrength);
+}
+
+// Roof angle at the shell: cone slope in 12, or the dome tangent where sin θ = D / (2 rr)
+function roofSlopeAngle(roofType: string, roofSlope: number, roofRadius: number, tankDiameter: number): number {
+  if (roofType === "cone") return Math.atan(roofSlope / 12);
+  if (roofRadius > 0 && tankDiameter > 0) return Math.asin(Math.min(1, tankDiameter / (2 * roofRadius)));
+  return 0;
+}
+
+export function evaluateRoofChecks(data: RoofCalculationData, tankDiameter: number, roofPlateActual: number) {
+  const roofType = data.roofType || "cone";
+  const checks: RoofCheck[] = [];
+  if (roofType === "open") {
+    return { checks, governing: { check: "Open top", tMin: 0 }, designLoad: 0, frangible: undefined };
+  }
+  const thickness = (value: number) => roundTo(value, 3).toFixed(3);
+
+  checks.push({
+    check: "Minimum roof plate thickness",
+    reference: "API 653 §4.2.1.2",
+    required: thickness(MIN_ROOF_PLATE_THICKNESS),
+    actual: thickness(roofPlateActual),
+    acceptable: roofPlateActual >= MIN_ROOF_PLATE_THICKNESS,
+  });
+  let governing = { check: checks[0].check, tMin: MIN_ROOF_PLATE_THICKNESS };
+  const consider = (check: string, tMin: number) => {
+    if (tMin > governing.tMin) governing = { check, tMin };
+  };
+
+  const yieldStrength = toNumber(data.roofYieldStrength, DEFAULT_ROOF_YIELD_STRENGTH);
+  const designLoad = roofDesignLoad(
+    toNumber(data.roofPlateThickness, roofPlateActual),
+    toNumber(data.liveLoad, 25),
+    toNumber(data.snowLoad, 0),
+    toNumber(data.attachmentLoad, 0),
+    toNumber(data.designVacuum, 0),
+  );
+  const roofRadius = toNumber(data.roofRadius, tankDiameter);
+  const slopeAngle = roofSlopeAngle(roofType, toNumber(data.roofSlope, 0.75), roofRadius, tankDiameter);
+  const fixedRoof = roofType === "cone" || roofType === "dome" || roofType === "umbrella";
+
+  if (roofType === "cone" && data.supportedByRafters === "yes") {
+    const rafterSpacing = toNumber(data.rafterSpacing, 5);
+    const tMin = supportedConeTmin(rafterSpacing * 12, yieldStrength, designLoad);
+    checks.push({
+      check: "Supported cone plate for rafter spacing",
+      reference: "API 650 §5.10.4.4",
+      required: thickness(tMin),
+      actual: thickness(roofPlateActual),
+      acceptable: roofPlateActual >= tMin,
+    });
+    consider("Supported cone plate for rafter spacing", tMin);
+
+    const allowableSpacing = allowableRafterSpacing(roofPlateActual, yieldStrength, designLoad);
+    checks.push({
+      check: "Rafter spacing (in)",
+      reference: "API 650 §5.10.4.4",
+      required: roundTo(allowableSpacing, 1).toFixed(1),
+      actual: (rafterSpacing * 12).toFixed(1),
+      acceptable: rafterSpacing * 12 <= allowableSpacing,
+    });
+
+    const span = toNumber(data.rafterSpan, 0);
+    const sectionModulus = toNumber(data.rafterSectionModulus, 0);
+    if (span > 0 && sectionModulus > 0) {
+      const required = requiredRafterSectionModulus(designLoad, rafterSpacing, span, yieldStrength);
+      checks.push({
+        check: "Rafter section modulus (in³)",
+        reference: "API 650 §5.10.3",
+        required: roundTo(required, 2).toFixed(2),
+        actual: sectionModulus.toFixed(2),
+        acceptable: sectionModulus >= required,
+      });
+    }
+  } else if (roofType === "cone") {
+    const tMin = selfSupportingConeTmin(tankDiameter, slopeAngle, designLoad);
+    checks.push({
+      check: "Self-supporting cone plate",
+      reference: "API 650 §5.10.5.1",
+      required: thickness(tMin),
+      actual: thickness(roofPlateActual),
+      acceptable: roofPlateActual >= tMin,
+    });
+    consider("Self-supporting cone plate", tMin);
+  } else if (roofType === "dome" || roofType === "umbrella") {
+    const tMin = selfSupportingDomeTmin(roofRadius, designLoad);
+    checks.push({
+      check: "Self-supporting dome/umbrella plate",
+      reference: "API 650 §5.10.6.1",
+      required: thickness(tMin),
+      actual: thickness(roofPlateActual),
+      acceptable: roofPlateActual >= tMin,
+    });
+    consider("Self-supporting dome/umbrella plate", tMin);
+  }
+
+  let frangible: boolean | undefined;
+  const shellFramingWeight = toNumber(data.shellFramingWeight, 0);
+  const junctionArea = toNumber(data.junctionArea, 0);
+  if (fixedRoof && shellFramingWeight > 0 && junctionArea > 0) {
+    const maxArea = maxFrangibleJunctionArea(shellFramingWeight, slopeAngle);
+    frangible = junctionArea <= maxArea;
+    checks.push({
+      check: "Frangible roof-to-shell joint area (in²)",
+      reference: "API 650 §5.10.2.6",
+      required: roundTo(maxArea, 2).toFixed(2),
+      actual: junctionArea.toFixed(2),
+      acceptable: frangible,
+    });
+  }
+
+  return { checks, governing, designLoad, frangible };
+}
+
+export function calculateRoof(data: RoofCalculationData, tankDiameter: number): RoofCalculationData {
+  const roofPlateThickness = toNumber(data.roofPlateThickness, 0.250);
+  const roofPlateActual = toNumber(data.roofPlateActual, 0.225);
+  const deckPlateThickness = toNumber(data.deckPlateThickness, 0.437);
+  const deckPlateActual = toNumber(data.deckPlateActual, 0.400);
+  const roofAge = toNumber(data.roofAge, 20);
+  const liveLoad = toNumber(data.liveLoad, 25);
+  const snowLoad = toNumber(data.snowLoad, 0);
+  const rafterSpacing = toNumber(data.rafterSpacing, 5);
+
+  const tMinDeck = calculateDeckTmin(data.supportedByRafters === "yes", liveLoad + snowLoad, rafterSpacing);
+  const { checks, governing, designLoad, frangible } = evaluateRoofChecks(data, tankDiameter, roofPlateActual);
+  const tMinRoof = roundTo(governing.tMin, 3);
+
+  const corrosionRateDeck = corrosionRateMpy(deckPlateThickness, deckPlateActual, roofAge);
+  const corrosionRateRoof = corrosionRateMpy(roofPlateThickness, roofPlateActual, roofAge);
+
+  const remainingLifeDeck = remainingLifeYears(deckPlateActual, tMinDeck, corrosionRateDeck);
+  const remainingLifeRoof = remainingLifeYears(roofPlateActual, tMinRoof, corrosionRateRoof);
+
+  return {
+    ...data,
+    tMinDeck: tMinDeck.toFixed(3),
+    tMinRoof: tMinRoof.toFixed(3),
+    designLoad: roundTo(designLoad, 1).toFixed(1),
+    roofChecks: checks,
+    governingCheck: governing.check,
+    frangible,
+    corrosionRateDeck: roundTo(corrosionRateDeck, 2).toFixed(2),
+    corrosionRateRoof: roundTo(corrosionRateRoof, 2).toFixed(2),
+    remainingLifeDeck: Math.min(MAX_REMAINING_LIFE, Math.round(remainingLifeDeck)).toString(),
+    remainingLifeRoof: Math.min(MAX_REMAINING_LIFE, Math.round(remainingLifeRoof)).toString(),
+  };
+}
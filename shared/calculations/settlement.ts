@@ -0,0 +1,284 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+import { findShellMaterial, findShellMaterialBySpec, UNKNOWN_MATERIAL } from "./materials";
+import { DEFAULT_TANK_DIAMETER, type ShellCourseData } from "./shell";
+
+export const elevationPointSchema = z.object({
+  id: z.string(),
+  position: z.number(), // degrees around the shell
+  previousElevation: z.number(), // ft
+  currentElevation: z.number(), // ft
+  settlement: z.number(), // ft, previous − current
+  distance: z.number().optional(),
+  cosineElevation: z.number().optional(), // ft, optimum cosine curve at this point
+  outOfPlane: z.number().optional(), // ft, Si
+  acceptable: z.boolean().optional(),
+});
+
+export const weldOrientations = ["parallel", "perpendicular"] as const;
+export type WeldOrientation = (typeof weldOrientations)[number];
+
+export const edgeSettlementSchema = z.object({
+  areaId: z.string(),
+  position: z.number().optional(), // degrees
+  radialWidth: z.number(), // R, ft from the shell to the end of the settled area
+  measuredSettlement: z.number(), // B, in
+  weldOrientation: z.enum(weldOrientations), // bottom lap welds relative to the shell
+  allowableSettlement: z.number().optional(), // in
+  acceptable: z.boolean().optional(),
+});
+
+export const settlementSurveySchema = z.object({
+  id: z.string().optional(),
+  reportId: z.string(),
+  surveyDate: z.string(),
+  previousSurveyDate: z.string().optional(),
+  datum: z.string(),
+  numberOfPoints: z.number(),
+  elevationPoints: z.array(elevationPointSchema),
+  edgeSettlements: z.array(edgeSettlementSchema).optional(),
+  maxSettlement: z.number(),
+  minSettlement: z.number(),
+  differentialSettlement: z.number(),
+  tiltPercentage: z.number(),
+  planarTilt: z.number(),
+  uniformSettlement: z.number(),
+  outOfPlaneSettlement: z.number(), // ft, largest |Si|
+  tiltDirection: z.number().optional(), // degrees, low side of the optimum cosine curve
+  tankDiameter: z.number().optional(),
+  shellHeight: z.number().optional(),
+  yieldStrength: z.number().optional(),
+  arcLength: z.number().optional(), // L, ft
+  allowableOutOfPlane: z.number().optional(), // S_max, ft
+  requiredPoints: z.number().optional(),
+  outOfPlaneAcceptable: z.boolean().optional(),
+  edgeSettlementAcceptable: z.boolean().optional(),
+  chartImage: z.string().optional(), // PNG data URL of the cosine fit, for the report
+  notes: z.string(),
+});
+
+export type ElevationPointData = z.infer<typeof elevationPointSchema>;
+export type EdgeSettlementData = z.infer<typeof edgeSettlementSchema>;
+export type SettlementSurveyData = z.infer<typeof settlementSurveySchema>;
+
+export interface SettlementTankParams {
+  tankDiameter: number; // ft
+  shellHeight: number; // ft
+  yieldStrength: number; // psi
+}
+
+export interface SettlementReportFields {
+  nominalDiameter?: string | null;
+  shellHeight?: string | null;
+  plateSpec?: string | null;
+}
+
+// Diameter and height come from the report; yield from the bottom course material,
+// then the report's plate specification, then the Table 4.1 unknown-material value
+export function settlementTankParams(report: SettlementReportFields, shellCourses: ShellCourseData[]): SettlementTankParams {
+  const courseHeights = shellCourses.reduce((sum, course) => sum + toNumber(course.courseHeight, 0), 0);
+  const material =
+    findShellMaterial(shellCourses[0]?.material) ||
+    findShellMaterialBySpec(report.plateSpec) ||
+    findShellMaterial(UNKNOWN_MATERIAL);
+  return {
+    tankDiameter: toNumber(report.nominalDiameter, DEFAULT_TANK_DIAMETER),
+    shellHeight: toNumber(report.shellHeight, courseHeights),
+    yieldStrength: material?.yieldStrength ?? 30000,
+  };
+}
+
+export const SHELL_ELASTIC_MODULUS = 29_000_000;
+// Annex B.2.2.1: at least 8 points, no more than 32 ft apart around the circumference
+export const MIN_SETTLEMENT_POINTS = 8;
+export const MAX_SETTLEMENT_POINT_SPACING = 32;
+
+// Figures B-10 and B-11, approximate digitization: radial width R (ft) against the
+// allowable edge settlement (in) with bottom lap welds parallel (Bew) and perpendicular (Be) to the shell
+const edgeSettlementCurve: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 0.6, 1.3],
+  [2, 1.2, 2.5],
+  [3, 1.8, 3.5],
+  [4, 2.4, 4.4],
+  [5, 2.9, 5.1],
+  [6, 3.3, 5.7],
+  [7, 3.7, 6.2],
+  [8, 4.0, 6.6],
+];
+
+export interface CosineFit {
+  mean: number;
+  cosine: number;
+  sine: number;
+}
+
+export function requiredSettlementPoints(tankDiameter: number): number {
+  return Math.max(MIN_SETTLEMENT_POINTS, Math.ceil((Math.PI * tankDiameter) / MAX_SETTLEMENT_POINT_SPACING));
+}
+
+// Least-squares fit of U(θ) = mean + cosine·cos θ + sine·sin θ, the rigid-body tilt of the tank
+export function optimumCosineFit(points: { position: number; value: number }[]): CosineFit {
+  let n = 0, sc = 0, ss = 0, scc = 0, sss = 0, scs = 0, su = 0, suc = 0, sus = 0;
+  for (const point of points) {
+    const angle = (point.position * Math.PI) / 180;
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    n += 1;
+    sc += c;
+    ss += s;
+    scc += c * c;
+    sss += s * s;
+    scs += c * s;
+    su += point.value;
+    suc += point.value * c;
+    sus += point.value * s;
+  }
+
+  // Normal equations solved by Cramer's rule
+  const det3 = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+  const matrix = [
+    [n, sc, ss],
+    [sc, scc, scs],
+    [ss, scs, sss],
+  ];
+  const rhs = [su, suc, sus];
+  const det = det3(matrix);
+  if (n < 3 || Math.abs(det) < 1e-12) {
+    return { mean: n > 0 ? su / n : 0, cosine: 0, sine: 0 };
+  }
+  const solve = (column: number) =>
+    det3(matrix.map((row, i) => row.map((value, j) => (j === column ? rhs[i] : value)))) / det;
+  return { mean: solve(0), cosine: solve(1), sine: solve(2) };
+}
+
+export function cosineFitValue(fit: CosineFit, position: number): number {
+  const angle = (position * Math.PI) / 180;
+  return fit.mean + fit.cosine * Math.cos(angle) + fit.sine * Math.sin(angle);
+}
+
+// Annex B.3.2.1: S_max = (L² × Y × 11) / (2 (E × H)), with L and H in ft and S_max in ft
+export function allowableOutOfPlaneSettlement(
+  arcLength: number,
+  yieldStrength: number,
+  shellHeight: number,
+  elasticModulus = SHELL_ELASTIC_MODULUS,
+): number {
+  if (shellHeight <= 0 || elasticModulus <= 0) return 0;
+  return (arcLength * arcLength * yieldStrength * 11) / (2 * elasticModulus * shellHeight);
+}
+
+// B.3.4: edge settlement allowable for the settled width, by lap weld orientation
+export function allowableEdgeSettlement(radialWidth: number, orientation: WeldOrientation): number {
+  const column = orientation === "parallel" ? 1 : 2;
+  if (radialWidth <= 0) return 0;
+  for (let i = 1; i < edgeSettlementCurve.length; i++) {
+    const lower = edgeSettlementCurve[i - 1];
+    const upper = edgeSettlementCurve[i];
+    if (radialWidth <= upper[0]) {
+      return lower[column] + ((radialWidth - lower[0]) / (upper[0] - lower[0])) * (upper[column] - lower[column]);
+    }
+  }
+  // Beyond the figure the allowable is held at its last value
+  return edgeSettlementCurve[edgeSettlementCurve.length - 1][column];
+}
+
+export function calculateSettlementSurvey(
+  data: SettlementSurveyData,
+  tank: SettlementTankParams,
+): SettlementSurveyData {
+  const points = data.elevationPoints.map((point) => ({
+    ...point,
+    settlement: point.previousElevation - point.currentElevation,
+  }));
+  const edgeSettlements = (data.edgeSettlements || []).map((area) => {
+    const allowableSettlement = allowableEdgeSettlement(area.radialWidth, area.weldOrientation);
+    return {
+      ...area,
+      allowableSettlement: roundTo(allowableSettlement, 2),
+      acceptable: area.measuredSettlement <= allowableSettlement,
+    };
+  });
+  const edgeSettlementAcceptable = edgeSettlements.length > 0
+    ? edgeSettlements.every((area) => area.acceptable)
+    : undefined;
+
+  if (points.length === 0) {
+    return { ...data, elevationPoints: points, edgeSettlements, edgeSettlementAcceptable };
+  }
+
+  const settlements = points.map((point) => point.settlement);
+  const maxSettlement = Math.max(...settlements);
+  const minSettlement = Math.min(...settlements);
+  const uniformSettlement = settlements.reduce((sum, settlement) => sum + settlement, 0) / settlements.length;
+
+  // The cosine curve is fitted to the measured shell elevations; its amplitude is the planar tilt
+  const fit = optimumCosineFit(points.map((point) => ({ position: point.position, value: point.currentElevation })));
+  const amplitude = Math.sqrt(fit.cosine * fit.cosine + fit.sine * fit.sine);
+  const tiltRatio = tank.tankDiameter > 0 ? (2 * amplitude) / tank.tankDiameter : 0;
+  const tiltDirection = amplitude > 0
+    ? ((Math.atan2(fit.sine, fit.cosine) * 180) / Math.PI + 180 + 360) % 360
+    : undefined;
+
+  // Si = ui − (ui−1 + ui+1) / 2, where u is the deviation from the cosine curve,
+  // taken with each point's neighbours around the circumference
+  const order = points
+    .map((point, index) => ({ index, position: ((point.position % 360) + 360) % 360 }))
+    .sort((a, b) => a.position - b.position)
+    .map((entry) => entry.index);
+  const deviation = points.map((point) => point.currentElevation - cosineFitValue(fit, point.position));
+  const outOfPlane: number[] = new Array(points.length).fill(0);
+  if (points.length >= 3) {
+    order.forEach((pointIndex, i) => {
+      const previous = order[(i - 1 + order.length) % order.length];
+      const next = order[(i + 1) % order.length];
+      outOfPlane[pointIndex] = deviation[pointIndex] - (deviation[previous] + deviation[next]) / 2;
+    });
+  }
+
+  const arcLength = (Math.PI * tank.tankDiameter) / points.length;
+  const allowableOutOfPlane = allowableOutOfPlaneSettlement(arcLength, tank.yieldStrength, tank.shellHeight);
+  const canEvaluate = allowableOutOfPlane > 0 && points.length >= 3;
+
+  const elevationPoints = points.map((point, index) => ({
+    ...point,
+    cosineElevation: cosineFitValue(fit, point.position),
+    outOfPlane: outOfPlane[index],
+    acceptable: canEvaluate ? Math.abs(outOfPlane[index]) <= allowableOutOfPlane : undefined,
+  }));
+
+  return {
+    ...data,
+    elevationPoints,
+    edgeSettlements,
+    maxSettlement,
+    minSettlement,
+    differentialSettlement: maxSettlement - minSettlement,
+    uniformSettlement,
+    tiltPercentage: tiltRatio * 100,
+    planarTilt: (Math.atan(tiltRatio) * 180) / Math.PI,
+    tiltDirection,
+    outOfPlaneSettlement: Math.max(...outOfPlane.map((value) => Math.abs(value))),
+    tankDiameter: tank.tankDiameter,
+    shellHeight: tank.shellHeight,
+    yieldStrength: tank.yieldStrength,
+    arcLength,
+    allowableOutOfPlane,
+    requiredPoints: requiredSettlementPoints(tank.tankDiameter),
+    outOfPlaneAcceptable: canEvaluate ? elevationPoints.every((point) => point.acceptable) : undefined,
+    edgeSettlementAcceptable,
+  };
+}
+
+// Points on the optimum cosine curve every `step` degrees, for plotting against the measurements
+export function cosineCurvePoints(data: SettlementSurveyData, step = 5): { position: number; elevation: number }[] {
+  const fit = optimumCosineFit(data.elevationPoints.map((point) => ({ position: point.position, value: point.currentElevation })));
+  const curve: { position: number; elevation: number }[] = [];
+  for (let position = 0; position <= 360; position += step) {
+    curve.push({ position, elevation: cosineFitValue(fit, position) });
+  }
+  return curve;
+}
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { toNumber, roundTo } from "./utils";
+import { corrosionRateMpy, remainingLifeYears, MAX_REMAINING_LIFE } from "./corrosion";
+import { resolveCourseStresses, lookupJointEfficiency } from "./materials";
+
+export const shellDesignMethods = ["one-foot", "variable-design-point"] as const;
+export type ShellDesignMethod = (typeof shellDesignMethods)[number];
+
+export const shellCalculationModes = ["tmin", "rerate"] as const;
+export type ShellCalculationMode = (typeof shellCalculationModes)[number];
+
+export const shellCourseSchema = z.object({
+  courseNumber: z.number(),
+  courseHeight: z.string().optional(),
+  material: z.string().optional(),
+  stressValue: z.string().optional(),
+  hydrotestStress: z.string().optional(),
+  alternateStress: z.string().optional(),
+  originalThickness: z.string().optional(),
+  actualThickness: z.string().optional(),
+  alternateTmin: z.string().optional(),
+  age: z.string().optional(),
+  tMin: z.string().optional(),
+  tMinProduct: z.string().optional(),
+  tMinHydrotest: z.string().optional(),
+  governingCase: z.enum(["product", "hydrotest"]).optional(),
+  corrosionRate: z.string().optional(),
+  remainingLife: z.string().optional(),
+  H: z.string().optional(),
+  maxFillHeight: z.string().optional(),
+  maxHydrotestHeight: z.string().optional(),
+});
+
+export const shellCalculationSchema = z.object({
+  fillHeight: z.string().optional(),
+  specificGravity: z.string().optional(),
+  jointEfficiency: z.string().optional(),
+  constructionStandard: z.string().optional(),
+  weldType: z.string().optional(),
+  designMethod: z.enum(shellDesignMethods).optional(),
+  appliedDesignMethod: z.enum(shellDesignMethods).optional(),
+  mode: z.enum(shellCalculationModes).optional(),
+  nextInspectionInterval: z.string().optional(), // years, for corrosion allowance in rerate mode
+  maxFillHeight: z.string().optional(),
+  maxHydrotestHeight: z.string().optional(),
+  governingCourse: z.number().optional(),
+  courses: z.array(shellCourseSchema),
+  notes: z.string().optional(),
+});
+
+export type ShellCourseData = z.infer<typeof shellCourseSchema>;
+export type ShellCalculationData = z.infer<typeof shellCalculationSchema>;
+
+// Used when the report has no nominal diameter yet
+export const DEFAULT_TANK_DIAMETER = 120;
+
+// API 653 §4.3.3.1: no course may be taken below 0.100 in
+export const MIN_SHELL_THICKNESS = 0.1;
+
+// The variable-design-point method is only offered for tanks larger than this (ft)
+export const VARIABLE_DESIGN_POINT_MIN_DIAMETER = 200;
+
+export interface ShellTminParams {
+  liquidHeight: number; // ft, from bottom of course to fill height
+  specificGravity: number; // 1.0 for the hydrotest case
+  tankDiameter: number; // ft
+  stress: number; // psi, S for product or St for hydrotest
+  jointEfficiency: number;
+}
+
+// One-foot method: tmin = 2.6 (H − 1) D G / (S E)
+export function oneFootTmin(params: ShellTminParams): number {
+  const { liquidHeight, specificGravity, tankDiameter, stress, jointEfficiency } = params;
+  const allowable = stress * jointEfficiency;
+  if (allowable <= 0 || liquidHeight <= 1) return 0;
+  return (2.6 * (liquidHeight - 1) * tankDiameter * specificGravity) / allowable;
+}
+
+export interface VariableDesignPointCourse {
+  liquidHeight: number; // ft, from bottom of course to fill height
+  courseHeight: number; // ft
+  stress: number; // psi
+}
+
+// Variable-design-point method (API 650 §5.6.4) with S × E as the allowable stress.
+// Courses are ordered bottom to top; each upper course depends on the one below it.
+export function variableDesignPointTmins(
+  courses: VariableDesignPointCourse[],
+  tankDiameter: number,
+  specificGravity: number,
+  jointEfficiency: number,
+): number[] {
+  const r = tankDiameter * 6; // nominal radius, in
+  const results: number[] = [];
+
+  const upperCourseTmin = (course: VariableDesignPointCourse, tLower: number): number => {
+    const allowable = course.stress * jointEfficiency;
+    const H = course.liquidHeight;
+    let tu = oneFootTmin({ liquidHeight: H, specificGravity, tankDiameter, stress: course.stress, jointEfficiency });
+    if (tu <= 0 || tLower <= 0) return tu;
+
+    // Three trials are enough for the design point to settle
+    for (let i = 0; i < 3; i++) {
+      const K = tLower / tu;
+      const C = (Math.sqrt(K) * (K - 1)) / (1 + Math.pow(K, 1.5));
+      const x = Math.min(
+        0.61 * Math.sqrt(r * tu) + 3.84 * C * H,
+        12 * C * H,
+        1.22 * Math.sqrt(r * tu),
+      );
+      const tdx = (2.6 * tankDiameter * Math.max(0, H - x / 12) * specificGravity) / allowable;
+      if (tdx <= 0) break;
+      tu = tdx;
+    }
+    return tu;
+  };
+
+  courses.forEach((course, index) => {
+    const allowable = course.stress * jointEfficiency;
+    const H = course.liquidHeight;
+    const oneFoot = oneFootTmin({ liquidHeight: H, specificGravity, tankDiameter, stress: course.stress, jointEfficiency });
+
+    if (index === 0) {
+      if (allowable <= 0 || H <= 0) {
+        results.push(0);
+        return;
+      }
+      const t1 =
+        (1.06 - ((0.463 * tankDiameter) / H) * Math.sqrt((H * specificGravity) / allowable)) *
+        ((2.6 * H * tankDiameter * specificGravity) / allowable);
+      // The bottom course never needs to exceed the one-foot result
+      results.push(Math.max(0, Math.min(t1, oneFoot)));
+      return;
+    }
+
+    const tLower = results[index - 1];
+    const tUpper = upperCourseTmin(course, tLower);
+
+    if (index === 1 && tLower > 0) {
+      // Second course transitions between t1 and the upper-course result by h1 / √(r t1)
+      const h1 = courses[0].courseHeight * 12;
+      const ratio = h1 / Math.sqrt(r * tLower);
+      if (ratio <= 1.375) {
+        results.push(tLower);
+      } else if (ratio >= 2.625) {
+        results.push(tUpper);
+      } else {
+        results.push(tUpper + (tLower - tUpper) * (2.1 - h1 / (1.25 * Math.sqrt(r * tLower))));
+      }
+      return;
+    }
+
+    results.push(tUpper);
+  });
+
+  return results;
+}
+
+export interface ShellMaxHeightParams {
+  thickness: number; // in, measured thickness less corrosion to the next inspection
+  specificGravity: number;
+  tankDiameter: number; // ft
+  stress: number; // psi
+  jointEfficiency: number;
+}
+
+// One-foot method solved for liquid height: H = S E t / (2.6 D G) + 1
+export function oneFootMaxHeight(params: ShellMaxHeightParams): number {
+  const { thickness, specificGravity, tankDiameter, stress, jointEfficiency } = params;
+  if (tankDiameter <= 0 || specificGravity <= 0) return 0;
+  return (stress * jointEfficiency * thickness) / (2.6 * tankDiameter * specificGravity) + 1;
+}
+
+// True when the tank is operated above the fill height the shell can support
+export function exceedsAllowedFillHeight(maxLiquidLevel: string | undefined, maxFillHeight: string | undefined): boolean {
+  if (!maxLiquidLevel || !maxFillHeight) return false;
+  return toNumber(maxLiquidLevel) > toNumber(maxFillHeight);
+}
+
+export function resolveDesignMethod(requested: ShellDesignMethod | undefined, tankDiameter: number): ShellDesignMethod {
+  return requested === "variable-design-point" && tankDiameter > VARIABLE_DESIGN_POINT_MIN_DIAMETER
+    ? "variable-design-point"
+    : "one-foot";
+}
+
+// Liquid height above the bottom of each course, measured down from the fill height
+export function liquidHeightAtCourse(fillHeight: number, courseHeights: number[], index: number): number {
+  let H = fillHeight;
+  for (let i = 0; i < index; i++) {
+    H -= courseHeights[i];
+  }
+  return Math.max(0, H);
+}
+
+// Recalculate product and hydrotest tMin, corrosion rate and remaining life for every course.
+// The larger of the two tMin values governs and is what remaining life is measured against.
+export function calculateShellCourses(data: ShellCalculationData, tankDiameter: number): ShellCalculationData {
+  const fillHeight = toNumber(data.fillHeight, 0);
+  const specificGravity = toNumber(data.specificGravity, 1.0);
+  // A Table 4.2 selection takes precedence over a manually entered efficiency
+  const jointEfficiency =
+    lookupJointEfficiency(data.constructionStandard, data.weldType) ?? toNumber(data.jointEfficiency, 0.85);
+  const courseHeights = data.courses.map((course) => toNumber(course.courseHeight, 8));
+  const designMethod = resolveDesignMethod(data.designMethod, tankDiameter);
+
+  const inputs = data.courses.map((course, index) => {
+    const stresses = resolveCourseStresses(course);
+    return {
+      liquidHeight: liquidHeightAtCourse(fillHeight, courseHeights, index),
+      courseHeight: courseHeights[index],
+      stress: stresses.product,
+      hydrotestStress: stresses.hydrotest,
+    };
+  });
+
+  let productTmins: number[];
+  let hydrotestTmins: number[];
+  if (designMethod === "variable-design-point") {
+    productTmins = variableDesignPointTmins(inputs, tankDiameter, specificGravity, jointEfficiency);
+    hydrotestTmins = variableDesignPointTmins(
+      inputs.map((input) => ({ ...input, stress: input.hydrotestStress })),
+      tankDiameter,
+      1.0,
+      jointEfficiency,
+    );
+  } else {
+    productTmins = inputs.map((input) =>
+      oneFootTmin({ liquidHeight: input.liquidHeight, specificGravity, tankDiameter, stress: input.stress, jointEfficiency }),
+    );
+    hydrotestTmins = inputs.map((input) =>
+      oneFootTmin({ liquidHeight: input.liquidHeight, specificGravity: 1.0, tankDiameter, stress: input.hydrotestStress, jointEfficiency }),
+    );
+  }
+
+  // Rerate mode: the liquid level above the tank bottom each course can carry once it has
+  // corroded to the next inspection. A course already below 0.100 in cannot be wetted at all.
+  const interval = toNumber(data.nextInspectionInterval, 0);
+  const maxLevels = data.courses.map((course, index) => {
+    const originalThickness = toNumber(course.originalThickness, 0.5);
+    const actualThickness = toNumber(course.actualThickness, 0.45);
+    const rate = corrosionRateMpy(originalThickness, actualThickness, toNumber(course.age, 10));
+    const available = actualThickness - (Math.max(0, rate) / 1000) * interval;
+    const elevation = courseHeights.slice(0, index).reduce((sum, height) => sum + height, 0);
+
+    if (available < MIN_SHELL_THICKNESS) {
+      return { product: elevation, hydrotest: elevation };
+    }
+    const base = { thickness: available, tankDiameter, jointEfficiency };
+    return {
+      product: elevation + oneFootMaxHeight({ ...base, specificGravity, stress: inputs[index].stress }),
+      hydrotest: elevation + oneFootMaxHeight({ ...base, specificGravity: 1.0, stress: inputs[index].hydrotestStress }),
+    };
+  });
+
+  const courses = data.courses.map((course, index) => {
+    const originalThickness = toNumber(course.originalThickness, 0.5);
+    const actualThickness = toNumber(course.actualThickness, 0.45);
+    const age = toNumber(course.age, 10);
+
+    const tMinProduct = roundTo(productTmins[index], 3);
+    const tMinHydrotest = roundTo(hydrotestTmins[index], 3);
+    const governingCase: "product" | "hydrotest" = tMinHydrotest > tMinProduct ? "hydrotest" : "product";
+    const tMin = Math.max(MIN_SHELL_THICKNESS, tMinProduct, tMinHydrotest);
+
+    const corrosionRate = corrosionRateMpy(originalThickness, actualThickness, age);
+    const remainingLife = remainingLifeYears(actualThickness, tMin, corrosionRate);
+
+    const rerate = data.mode === "rerate"
+      ? {
+          maxFillHeight: maxLevels[index].product.toFixed(1),
+          maxHydrotestHeight: maxLevels[index].hydrotest.toFixed(1),
+        }
+      : { maxFillHeight: undefined, maxHydrotestHeight: undefined };
+
+    return {
+      ...course,
+      H: inputs[index].liquidHeight.toFixed(1),
+      tMinProduct: tMinProduct.toFixed(3),
+      tMinHydrotest: tMinHydrotest.toFixed(3),
+      governingCase,
+      tMin: tMin.toFixed(3),
+      corrosionRate: roundTo(corrosionRate, 2).toFixed(2),
+      remainingLife: Math.max(0, Math.min(MAX_REMAINING_LIFE, Math.round(remainingLife))).toString(),
+      ...rerate,
+    };
+  });
+
+  const result: ShellCalculationData = {
+    ...data,
+    jointEfficiency: jointEfficiency.toString(),
+    appliedDesignMethod: designMethod,
+    courses,
+  };
+
+  if (data.mode !== "rerate" || courses.length === 0) {
+    return { ...result, maxFillHeight: undefined, maxHydrotestHeight: undefined, governingCourse: undefined };
+  }
+
+  let governingIndex = 0;
+  maxLevels.forEach((level, index) => {
+    if (level.product < maxLevels[governingIndex].product) governingIndex = index;
+  });
+  const shellHeight = courseHeights.reduce((sum, height) => sum + height, 0);
+
+  return {
+    ...result,
+    maxFillHeight: Math.min(shellHeight, maxLevels[governingIndex].product).toFixed(1),
+    maxHydrotestHeight: Math.min(shellHeight, ...maxLevels.map((level) => level.hydrotest)).toFixed(1),
+    governingCourse: courses[governingIndex].courseNumber,
+  };
+}
@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+// Tank history questionnaire; stored column for column in the tank_histories table
+export const tankHistorySchema = z.object({
+  // Section A - General Information
+  inspectionDate: z.string().optional(),
+  owner: z.string().optional(),
+  location: z.string().optional(),
+  contact: z.string().optional(),
+  tankNo: z.string().optional(),
+  oilProInspector: z.string().optional(),
+  region: z.string().optional(),
+  inspectionType: z.enum(['in-service-external', 'out-of-service-internal']).optional(),
+  hasMSDS: z.boolean().optional(),
+  canContactCustomer: z.boolean().optional(),
+  requiresFieldReport: z.boolean().optional(),
+  entryPermitRequired: z.boolean().optional(),
+  hotWorkPermitRequired: z.boolean().optional(),
+  photographsAllowed: z.boolean().optional(),
+  hasLeadPaint: z.boolean().optional(),
+  hasLeadDocumentation: z.boolean().optional(),
+  tankCleaned: z.boolean().optional(),
+  
+  // Section B - Tank History
+  namePlateInfo: z.string().optional(),
+  originalManufacturer: z.string().optional(),
+  yearOfConstruction: z.string().optional(),
+  currentProduct: z.string().optional(),
+  previousProducts: z.string().optional(),
+  hasPreviousInspections: z.string().optional(),
+  previousInspectionYear: z.string().optional(),
+  previousReportsAvailable: z.boolean().optional(),
+  unusualEvents: z.boolean().optional(),
+  unusualEventsDescription: z.string().optional(),
+  hasRepairs: z.boolean().optional(),
+  repairsDescription: z.string().optional(),
+  drawingsAvailable: z.boolean().optional(),
+  hasBeenRelocated: z.boolean().optional(),
+  relocationDetails: z.string().optional(),
+  hasMajorModifications: z.boolean().optional(),
+  elevationReadingsAvailable: z.boolean().optional(),
+  hasBeenHotTapped: z.boolean().optional(),
+  
+  // Section C - Design
+  tankDiameter: z.string().optional(),
+  tankHeight: z.string().optional(),
+  maxLiquidLevel: z.string().optional(),
+  specificGravity: z.string().optional(),
+  internalPressure: z.string().optional(),
+  operatingTemp: z.string().optional(),
+  designMetalTemp: z.string().optional(),
+  shellMaterialSpec: z.string().optional(),
+  isAnchored: z.boolean().optional(),
+  hasStiffeningRing: z.boolean().optional(),
+  constructionStandard: z.string().optional(),
+  requiresRerate: z.boolean().optional(),
+  rerateDetails: z.string().optional(),
+  hasBeenHydrotested: z.boolean().optional(),
+  hasChangeOfService: z.boolean().optional(),
+  shellType: z.enum(['butt-welded', 'lap-welded', 'riveted']).optional(),
+  rivetsSealed: z.boolean().optional(),
+  sealMethod: z.enum(['seal-welded', 'epoxy-sealed', 'none']).optional(),
+  
+  // Section D - Foundation
+  baseKeptDry: z.boolean().optional(),
+  foundationType: z.enum(['gravel-berm', 'ringwall', 'sand-berm', 'oiled-sand-pad', 'other']).optional(),
+  foundationOther: z.string().optional(),
+  unusualSettlement: z.boolean().optional(),
+  foundationProblems: z.boolean().optional(),
+  excessiveVegetation: z.boolean().optional(),
+  
+  // Section E - Details
+  cathodicallyProtected: z.boolean().optional(),
+  hasLeakDetection: z.boolean().optional(),
+  internallyLined: z.boolean().optional(),
+  externallyInsulated: z.boolean().optional(),
+  bottomType: z.enum(['welded', 'riveted', 'other']).optional(),
+  originalBottomThickness: z.string().optional(),
+  hasAnnularRing: z.boolean().optional(),
+  annularRingSize: z.string().optional(),
+  annularRingThickness: z.string().optional(),
+  bottomPlateSize: z.string().optional(),
+  bottomCoatingType: z.enum(['thin-film-epoxy', 'thick-film', 'none', 'other']).optional(),
+  bottomDesignType: z.enum(['cone-up', 'cone-down', 'shovel', 'flat', 'drain-dry', 'concrete']).optional(),
+  
+  // Roof Data
+  tankType: z.enum(['fixed-roof', 'open-top', 'floating-roof']).optional(),
+  fixedRoofType: z.string().optional(),
+  floatingRoofType: z.string().optional(),
+  roofMaterial: z.enum(['steel', 'aluminum', 'other']).optional(),
+});
+
+export type TankHistoryData = z.infer<typeof tankHistorySchema>;
+
+// Nameplate and Section C design data describe the tank rather than one inspection,
+// so they are kept on the tank record and carried into its next report
+export const tankDesignFields = [
+  "namePlateInfo",
+  "originalManufacturer",
+  "yearOfConstruction",
+  "tankDiameter",
+  "tankHeight",
+  "maxLiquidLevel",
+  "specificGravity",
+  "internalPressure",
+  "operatingTemp",
+  "designMetalTemp",
+  "shellMaterialSpec",
+  "isAnchored",
+  "hasStiffeningRing",
+  "constructionStandard",
+  "shellType",
+] as const;
+
+export type TankDesignData = Pick<TankHistoryData, (typeof tankDesignFields)[number]>;
+
+// Blank answers never overwrite design data recorded by an earlier inspection
+export function tankDesignFromHistory(history: Partial<Record<keyof TankDesignData, unknown>>): TankDesignData {
+  const design: Record<string, unknown> = {};
+  for (const field of tankDesignFields) {
+    const value = history[field];
+    if (value !== undefined && value !== null && value !== "") {
+      design[field] = value;
+    }
+  }
+  return design as TankDesignData;
+}
@@ -0,0 +1,18 @@
+// Form inputs are kept as strings, so every calculation parses through here.
+// Blank or non-numeric values fall back to the supplied default.
+export function toNumber(value: string | number | null | undefined, fallback = 0): number {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function yearsBetweenDates(from: string | Date, to: string | Date): number {
+  if (!from || !to) return 0;
+  const years = (new Date(to).getTime() - new Date(from).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+  return Number.isFinite(years) ? years : 0;
+}
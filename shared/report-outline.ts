@@ -0,0 +1,43 @@
+// Sections of an exported report, in the order of the usual API 653 report outline:
+// summary and conclusions first, then tank data, the component evaluations from the
+// shell down to the foundation, thickness data, certification, limitations and the appendices.
+export const reportSectionIds = [
+  "executive-summary",
+  "findings",
+  "inspection-intervals",
+  "tank-data",
+  "tank-history",
+  "shell",
+  "localized-corrosion",
+  "brittle-fracture",
+  "roof",
+  "floating-roof",
+  "floor",
+  "settlement",
+  "nozzles",
+  "thickness-data",
+  "certification",
+  "limitations",
+  "appendices",
+] as const;
+export type ReportSectionId = (typeof reportSectionIds)[number];
+
+export const reportSectionTitles: Record<ReportSectionId, string> = {
+  "executive-summary": "Executive Summary",
+  findings: "Findings and Recommendations",
+  "inspection-intervals": "Next Inspection Intervals",
+  "tank-data": "Tank Data",
+  "tank-history": "Tank History",
+  shell: "Shell Evaluation",
+  "localized-corrosion": "Localized Corrosion",
+  "brittle-fracture": "Brittle Fracture Assessment",
+  roof: "Roof Evaluation",
+  "floating-roof": "Floating Roof",
+  floor: "Bottom Evaluation",
+  settlement: "Settlement Survey",
+  nozzles: "Nozzle Evaluation",
+  "thickness-data": "Thickness Data",
+  certification: "Inspector Certification",
+  limitations: "Limitations",
+  appendices: "Appendices",
+};
@@ -0,0 +1,86 @@
+// Company report templates: branding, boilerplate and section selection that both
+// exporters apply. Stored per organization in report_templates.
+import { reportSectionIds, type ReportSectionId } from "./report-outline";
+
+export const coverLayouts = ["standard", "banner", "minimal"] as const;
+export type CoverLayout = (typeof coverLayouts)[number];
+
+export const coverLayoutLabels: Record<CoverLayout, string> = {
+  standard: "Logo above a centred title and report details",
+  banner: "Coloured title banner with the logo beside it",
+  minimal: "Title and report details only",
+};
+
+export const templateFonts = ["helvetica", "times"] as const;
+export type TemplateFont = (typeof templateFonts)[number];
+
+export const templateFontLabels: Record<TemplateFont, string> = {
+  helvetica: "Sans serif (Helvetica / Arial)",
+  times: "Serif (Times New Roman)",
+};
+
+// Placed at the start of a section when the report has content for it
+export interface TemplateBoilerplate {
+  section: ReportSectionId;
+  text: string;
+}
+
+export const templateMergeFields = {
+  reportNumber: "Report number",
+  tankId: "Tank ID",
+  site: "Site",
+  owner: "Tank owner",
+  service: "Service",
+  inspectionDate: "Inspection date",
+  inspectorName: "Inspector name",
+  inspectorCertification: "Inspector API 653 certification",
+  revision: "Revision",
+  status: "Report status",
+  approvedBy: "Approved by",
+  nextExternalDate: "Next external inspection",
+  nextUtDate: "Next UT thickness inspection",
+  nextInternalDate: "Next internal inspection",
+  organizationName: "Inspection company",
+  clientName: "Client",
+} as const;
+export type TemplateMergeField = keyof typeof templateMergeFields;
+export type TemplateMergeValues = Record<TemplateMergeField, string>;
+
+// Unknown {{fields}} are left in place so a typo shows up in the preview
+export function fillMergeFields(text: string, values: TemplateMergeValues): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, field: string) =>
+    field in values ? values[field as TemplateMergeField] : match
+  );
+}
+
+export interface ReportTemplateSettings {
+  title: string;
+  coverLayout: CoverLayout;
+  fontFamily: TemplateFont;
+  primaryColor: string;
+  secondaryColor: string;
+  logoUrl: string | null;
+  disclaimer: string | null;
+  limitations: string | null;
+  boilerplate: TemplateBoilerplate[];
+  sections: ReportSectionId[];
+}
+
+// Used for reports outside an organization and organizations without a template
+export const defaultReportTemplate: ReportTemplateSettings = {
+  title: "API 653 Tank Inspection Report",
+  coverLayout: "standard",
+  fontFamily: "helvetica",
+  primaryColor: "#1e40af",
+  secondaryColor: "#1e40af",
+  logoUrl: null,
+  disclaimer: null,
+  limitations: null,
+  boilerplate: [],
+  sections: [...reportSectionIds],
+};
+
+export function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
@@ -1,8 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, boolean, jsonb, index, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import type { RoofCheck, ElevationPointData, EdgeSettlementData } from "./calculations";
+import { reportSectionIds, type ReportSectionId } from "./report-outline";
+import { coverLayouts, templateFonts, type TemplateBoilerplate } from "./report-templates";
+import { attachmentKinds, attachmentLinkTypes, annotationShapes, type PhotoAnnotation } from "./attachments";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -26,14 +30,113 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password sign-in (server/auth/local.ts). Kept out of users so the hash never travels
+// with a user row.
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey(),
+  passwordHash: text("password_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Only the SHA-256 of a reset token is stored; the token itself goes to the user
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Inspection companies and their clients. Members hold a role (see userRoles in
+// shared/access.ts) that applies to every report of the organization.
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // inspection_company or client
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_organization_members_org_user").on(table.organizationId, table.userId)]);
+
+// Export branding and layout (shared/report-templates.ts). A report exports with the
+// template it names, else its organization's default.
+export const reportTemplates = pgTable("report_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  title: text("title").notNull(),
+  coverLayout: text("cover_layout").notNull().default("standard"),
+  fontFamily: text("font_family").notNull().default("helvetica"),
+  primaryColor: text("primary_color").notNull().default("#1e40af"),
+  secondaryColor: text("secondary_color").notNull().default("#1e40af"),
+  logoUrl: text("logo_url"),
+  disclaimer: text("disclaimer"),
+  limitations: text("limitations"),
+  boilerplate: jsonb("boilerplate").$type<TemplateBoilerplate[]>().notNull().default([]),
+  sections: jsonb("sections").$type<ReportSectionId[]>().notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_report_templates_organization").on(table.organizationId)]);
+
+// Tank asset registry; reports link to the tank they inspect
+export const tanks = pgTable("tanks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull(),
+  tag: text("tag").notNull(), // e.g. TK-101
+  site: text("site"),
+  owner: text("owner"), // operating company
+  
+  // Nameplate
+  namePlateInfo: text("name_plate_info"),
+  originalManufacturer: text("original_manufacturer"),
+  yearOfConstruction: text("year_of_construction"),
+  
+  // Design data, mirrors tank history Section C
+  tankDiameter: text("tank_diameter"),
+  tankHeight: text("tank_height"),
+  maxLiquidLevel: text("max_liquid_level"),
+  specificGravity: text("specific_gravity"),
+  internalPressure: text("internal_pressure"),
+  operatingTemp: text("operating_temp"),
+  designMetalTemp: text("design_metal_temp"),
+  shellMaterialSpec: text("shell_material_spec"),
+  isAnchored: boolean("is_anchored"),
+  hasStiffeningRing: boolean("has_stiffening_ring"),
+  constructionStandard: text("construction_standard"),
+  shellType: text("shell_type"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_tanks_owner_tag").on(table.ownerId, table.tag)]);
+
 export const reports = pgTable("reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   reportNumber: text("report_number").notNull().unique(),
   tankId: text("tank_id").notNull(),
+  tankAssetId: varchar("tank_asset_id"),
   inspectionDate: timestamp("inspection_date"),
   ownerId: varchar("owner_id").notNull(),
+  organizationId: varchar("organization_id"), // inspection company preparing the report
+  clientOrganizationId: varchar("client_organization_id"), // client the report is issued to
+  templateId: varchar("template_id"), // export template, see reportTemplates
   unitSet: text("unit_set").notNull().default("US"),
-  status: text("status").notNull().default("draft"),
+  status: text("status").notNull().default("draft"), // see reportStatuses in shared/workflow.ts
+  revisionLetter: text("revision_letter").notNull().default("A"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  issuedAt: timestamp("issued_at"),
   
   // Tank specifications
   nominalDiameter: decimal("nominal_diameter"),
@@ -53,7 +156,9 @@ export const reports = pgTable("reports", {
   
   // Cover text and additional data
   coverText: text("cover_text"),
-  customFields: jsonb("custom_fields").$type<Record<string, string>>(),
+  // Free-form base data fields and the sections without their own table
+  // (localized corrosion, floating roof, brittle fracture, inspection intervals)
+  customFields: jsonb("custom_fields").$type<Record<string, any>>(),
   
   // Report content fields
   findings: text("findings"),
@@ -97,13 +202,29 @@ export const cmlRecords = pgTable("cml_records", {
   
   // Calculated values
   currentReading: decimal("current_reading", { precision: 6, scale: 3 }),
-  previousReading: decimal("previous_reading", { precision: 6, scale: 3 }),
-  corrosionRate: decimal("corrosion_rate", { precision: 6, scale: 3 }),
+  previousReading: decimal("previous_reading", { precision: 6, scale: 3 }), // latest reading in the history
+  tMin: decimal("t_min", { precision: 6, scale: 3 }), // blank uses the report's practical tmin for the component
+  longTermRate: decimal("long_term_rate", { precision: 6, scale: 3 }),
+  shortTermRate: decimal("short_term_rate", { precision: 6, scale: 3 }),
+  regressionRate: decimal("regression_rate", { precision: 6, scale: 3 }),
+  rateBasis: text("rate_basis"), // long-term, short-term or regression
+  corrosionRate: decimal("corrosion_rate", { precision: 6, scale: 3 }), // governing rate
   remainingLife: decimal("remaining_life", { precision: 6, scale: 1 }),
   
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Dated thickness history behind each CML: the nominal baseline and earlier surveys.
+// The current reading stays on the CML record, dated by the report's inspection date.
+export const cmlReadings = pgTable("cml_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cmlRecordId: varchar("cml_record_id").notNull(),
+  readingDate: timestamp("reading_date").notNull(),
+  thickness: decimal("thickness", { precision: 6, scale: 3 }).notNull(),
+  source: text("source"), // nominal, report number or survey description
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_cml_readings_record").on(table.cmlRecordId)]);
+
 export const nozzleCmlRecords = pgTable("nozzle_cml_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   reportId: varchar("report_id").notNull(),
@@ -144,37 +265,477 @@ export const writeups = pgTable("writeups", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const settlementSurveys = pgTable("settlement_surveys", {
+// Calculation sections: one row per report, with repeating items in child tables.
+// Column keys match the section schemas in @shared/calculations.
+export const shellCalculations = pgTable("shell_calculations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
+  fillHeight: text("fill_height"),
+  specificGravity: text("specific_gravity"),
+  jointEfficiency: text("joint_efficiency"),
+  constructionStandard: text("construction_standard"),
+  weldType: text("weld_type"),
+  designMethod: text("design_method"),
+  appliedDesignMethod: text("applied_design_method"),
+  mode: text("mode"),
+  nextInspectionInterval: text("next_inspection_interval"), // years, for corrosion allowance in rerate mode
+  maxFillHeight: text("max_fill_height"),
+  maxHydrotestHeight: text("max_hydrotest_height"),
+  governingCourse: integer("governing_course"),
+  notes: text("notes"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const shellCourses = pgTable("shell_courses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  courseNumber: integer("course_number").notNull(),
+  courseHeight: text("course_height"),
+  material: text("material"),
+  stressValue: text("stress_value"),
+  hydrotestStress: text("hydrotest_stress"),
+  alternateStress: text("alternate_stress"),
+  originalThickness: text("original_thickness"),
+  actualThickness: text("actual_thickness"),
+  alternateTmin: text("alternate_tmin"),
+  age: text("age"),
+  tMin: text("t_min"),
+  tMinProduct: text("t_min_product"),
+  tMinHydrotest: text("t_min_hydrotest"),
+  governingCase: text("governing_case"),
+  corrosionRate: text("corrosion_rate"),
+  remainingLife: text("remaining_life"),
+  H: text("h"),
+  maxFillHeight: text("max_fill_height"),
+  maxHydrotestHeight: text("max_hydrotest_height"),
+}, (table) => [index("IDX_shell_courses_report").on(table.reportId)]);
+
+export const roofCalculations = pgTable("roof_calculations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
+  roofType: text("roof_type"),
+  roofPlateThickness: text("roof_plate_thickness"),
+  roofPlateActual: text("roof_plate_actual"),
+  roofAge: text("roof_age"),
+  roofCorrosionAllowance: text("roof_corrosion_allowance"),
+  deckPlateThickness: text("deck_plate_thickness"),
+  deckPlateActual: text("deck_plate_actual"),
+  supportedByRafters: text("supported_by_rafters"),
+  rafterSpacing: text("rafter_spacing"),
+  rafterSpan: text("rafter_span"), // ft
+  rafterSectionModulus: text("rafter_section_modulus"), // in³
+  supportedByColumns: text("supported_by_columns"),
+  columnSpacing: text("column_spacing"),
+  roofSlope: text("roof_slope"), // in per 12 in, cone roofs
+  roofRadius: text("roof_radius"), // ft, dome and umbrella roofs
+  roofYieldStrength: text("roof_yield_strength"), // psi, roof plate and rafters
+  shellFramingWeight: text("shell_framing_weight"), // lbf, shell and framing supported by the shell (DLS)
+  junctionArea: text("junction_area"), // in², roof-to-shell junction
+  liveLoad: text("live_load"),
+  snowLoad: text("snow_load"),
+  attachmentLoad: text("attachment_load"),
+  designPressure: text("design_pressure"),
+  designVacuum: text("design_vacuum"),
+  tMinDeck: text("t_min_deck"),
+  tMinRoof: text("t_min_roof"),
+  designLoad: text("design_load"), // psf, T
+  roofChecks: jsonb("roof_checks").$type<RoofCheck[]>(),
+  governingCheck: text("governing_check"),
+  frangible: boolean("frangible"),
+  corrosionRateDeck: text("corrosion_rate_deck"),
+  corrosionRateRoof: text("corrosion_rate_roof"),
+  remainingLifeDeck: text("remaining_life_deck"),
+  remainingLifeRoof: text("remaining_life_roof"),
+  notes: text("notes"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const floorCalculations = pgTable("floor_calculations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
+  floorType: text("floor_type"),
+  originalThickness: text("original_thickness"),
+  minimumThickness: text("minimum_thickness"),
+  corrosionAllowance: text("corrosion_allowance"),
+  age: text("age"),
+  examMethod: text("exam_method"),
+  threshold: text("threshold"),
+  scanCoverage: text("scan_coverage"),
+  soilSide: text("soil_side"),
+  productSide: text("product_side"),
+  criticalZone: text("critical_zone"),
+  nextInternalInterval: text("next_internal_interval"), // Or, years
+  hasLeakDetection: boolean("has_leak_detection"),
+  hasReleasePreventionBarrier: boolean("has_release_prevention_barrier"),
+  hasReinforcedLining: boolean("has_reinforced_lining"),
+  productSideCoated: boolean("product_side_coated"),
+  hasAnnularRing: boolean("has_annular_ring"),
+  annularThickness: text("annular_thickness"), // least remaining annular plate thickness (in)
+  firstCourseThickness: text("first_course_thickness"), // in
+  firstCourseStress: text("first_course_stress"), // product stress in the first course, psi
+  averageThickness: text("average_thickness"),
+  minimumRecorded: text("minimum_recorded"),
+  averageCorrosionRate: text("average_corrosion_rate"),
+  maximumCorrosionRate: text("maximum_corrosion_rate"),
+  averageRemainingLife: text("average_remaining_life"),
+  minimumRemainingLife: text("minimum_remaining_life"),
+  rtip: text("rtip"),
+  rtbc: text("rtbc"),
+  mrt: text("mrt"),
+  mrtMinimum: text("mrt_minimum"),
+  mrtAcceptable: boolean("mrt_acceptable"),
+  annularMrt: text("annular_mrt"),
+  annularMinimum: text("annular_minimum"),
+  annularAcceptable: boolean("annular_acceptable"),
+  maxInternalInterval: text("max_internal_interval"),
+  notes: text("notes"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const floorScans = pgTable("floor_scans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  position: integer("position").notNull(),
+  scanId: text("scan_id").notNull(),
+  component: text("component").notNull(),
+  location: text("location").notNull(),
+  scanType: text("scan_type").notNull(),
+  thickness: text("thickness").notNull(),
+  topSide: text("top_side"), // RTip, remaining thickness at product-side pitting (in)
+  underside: text("underside"), // RTbc, remaining thickness at soil-side corrosion (in)
+  corrosionRate: text("corrosion_rate"),
+  remainingLife: text("remaining_life"),
+}, (table) => [index("IDX_floor_scans_report").on(table.reportId)]);
+
+export const tankHistories = pgTable("tank_histories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
+  // Section A - General Information
+  inspectionDate: text("inspection_date"),
+  owner: text("owner"),
+  location: text("location"),
+  contact: text("contact"),
+  tankNo: text("tank_no"),
+  oilProInspector: text("oil_pro_inspector"),
+  region: text("region"),
+  inspectionType: text("inspection_type"),
+  hasMSDS: boolean("has_msds"),
+  canContactCustomer: boolean("can_contact_customer"),
+  requiresFieldReport: boolean("requires_field_report"),
+  entryPermitRequired: boolean("entry_permit_required"),
+  hotWorkPermitRequired: boolean("hot_work_permit_required"),
+  photographsAllowed: boolean("photographs_allowed"),
+  hasLeadPaint: boolean("has_lead_paint"),
+  hasLeadDocumentation: boolean("has_lead_documentation"),
+  tankCleaned: boolean("tank_cleaned"),
+
+  // Section B - Tank History
+  namePlateInfo: text("name_plate_info"),
+  originalManufacturer: text("original_manufacturer"),
+  yearOfConstruction: text("year_of_construction"),
+  currentProduct: text("current_product"),
+  previousProducts: text("previous_products"),
+  hasPreviousInspections: text("has_previous_inspections"),
+  previousInspectionYear: text("previous_inspection_year"),
+  previousReportsAvailable: boolean("previous_reports_available"),
+  unusualEvents: boolean("unusual_events"),
+  unusualEventsDescription: text("unusual_events_description"),
+  hasRepairs: boolean("has_repairs"),
+  repairsDescription: text("repairs_description"),
+  drawingsAvailable: boolean("drawings_available"),
+  hasBeenRelocated: boolean("has_been_relocated"),
+  relocationDetails: text("relocation_details"),
+  hasMajorModifications: boolean("has_major_modifications"),
+  elevationReadingsAvailable: boolean("elevation_readings_available"),
+  hasBeenHotTapped: boolean("has_been_hot_tapped"),
+
+  // Section C - Design
+  tankDiameter: text("tank_diameter"),
+  tankHeight: text("tank_height"),
+  maxLiquidLevel: text("max_liquid_level"),
+  specificGravity: text("specific_gravity"),
+  internalPressure: text("internal_pressure"),
+  operatingTemp: text("operating_temp"),
+  designMetalTemp: text("design_metal_temp"),
+  shellMaterialSpec: text("shell_material_spec"),
+  isAnchored: boolean("is_anchored"),
+  hasStiffeningRing: boolean("has_stiffening_ring"),
+  constructionStandard: text("construction_standard"),
+  requiresRerate: boolean("requires_rerate"),
+  rerateDetails: text("rerate_details"),
+  hasBeenHydrotested: boolean("has_been_hydrotested"),
+  hasChangeOfService: boolean("has_change_of_service"),
+  shellType: text("shell_type"),
+  rivetsSealed: boolean("rivets_sealed"),
+  sealMethod: text("seal_method"),
+
+  // Section D - Foundation
+  baseKeptDry: boolean("base_kept_dry"),
+  foundationType: text("foundation_type"),
+  foundationOther: text("foundation_other"),
+  unusualSettlement: boolean("unusual_settlement"),
+  foundationProblems: boolean("foundation_problems"),
+  excessiveVegetation: boolean("excessive_vegetation"),
+
+  // Section E - Details
+  cathodicallyProtected: boolean("cathodically_protected"),
+  hasLeakDetection: boolean("has_leak_detection"),
+  internallyLined: boolean("internally_lined"),
+  externallyInsulated: boolean("externally_insulated"),
+  bottomType: text("bottom_type"),
+  originalBottomThickness: text("original_bottom_thickness"),
+  hasAnnularRing: boolean("has_annular_ring"),
+  annularRingSize: text("annular_ring_size"),
+  annularRingThickness: text("annular_ring_thickness"),
+  bottomPlateSize: text("bottom_plate_size"),
+  bottomCoatingType: text("bottom_coating_type"),
+  bottomDesignType: text("bottom_design_type"),
+
+  // Roof Data
+  tankType: text("tank_type"),
+  fixedRoofType: text("fixed_roof_type"),
+  floatingRoofType: text("floating_roof_type"),
+  roofMaterial: text("roof_material"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const nozzleCmlSurveys = pgTable("nozzle_cml_surveys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
+  inspectionDate: text("inspection_date").notNull().default(""),
+  previousInspectionDate: text("previous_inspection_date").notNull().default(""),
+  inspectorName: text("inspector_name").notNull().default(""),
+  ndeCompany: text("nde_company").notNull().default(""),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const nozzleCmlRows = pgTable("nozzle_cml_rows", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   reportId: varchar("report_id").notNull(),
+  position: integer("position").notNull(),
+  recordId: text("record_id").notNull(),
+  nozzleId: text("nozzle_id").notNull().default(""),
+  nozzleDescription: text("nozzle_description").notNull().default(""),
+  nozzleSize: text("nozzle_size").notNull().default(""),
+  nozzleSchedule: text("nozzle_schedule").notNull().default("40"),
+  service: text("service").notNull().default(""),
+  orientation: doublePrecision("orientation").notNull().default(0), // degrees from North
+  elevation: doublePrecision("elevation").notNull().default(0), // feet from bottom
+  previousThickness: doublePrecision("previous_thickness").notNull().default(0),
+  currentThickness: doublePrecision("current_thickness").notNull().default(0),
+  nominalThickness: doublePrecision("nominal_thickness").notNull().default(0),
+  tMin: doublePrecision("t_min").notNull().default(0), // minimum required thickness
+  millTolerance: doublePrecision("mill_tolerance").notNull().default(0), // 87.5% of nominal
+  structuralTmin: doublePrecision("structural_tmin").notNull().default(0),
+  pressureTmin: doublePrecision("pressure_tmin").notNull().default(0),
+  practicalTmin: doublePrecision("practical_tmin"), // override from the report's practical tmin table
+  tMinBasis: text("t_min_basis"),
+  corrosionRate: doublePrecision("corrosion_rate").notNull().default(0), // calculated mpy
+  remainingLife: doublePrecision("remaining_life").notNull().default(0), // calculated years
+  nextInspectionDate: text("next_inspection_date").notNull().default(""),
+  inspectionMethod: text("inspection_method").notNull().default("UT"),
+  notes: text("notes").notNull().default(""),
+}, (table) => [index("IDX_nozzle_cml_rows_report").on(table.reportId)]);
+
+export const settlementSurveys = pgTable("settlement_surveys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().unique(),
   surveyDate: timestamp("survey_date").notNull(),
   previousSurveyDate: timestamp("previous_survey_date"),
   datum: varchar("datum").notNull().default('MSL'),
   numberOfPoints: integer("number_of_points").notNull().default(8),
-  elevationPoints: jsonb("elevation_points").notNull().$type<any[]>().default([]),
-  maxSettlement: decimal("max_settlement", { precision: 8, scale: 4 }).notNull().default('0'),
-  minSettlement: decimal("min_settlement", { precision: 8, scale: 4 }).notNull().default('0'),
-  differentialSettlement: decimal("differential_settlement", { precision: 8, scale: 4 }).notNull().default('0'),
-  tiltPercentage: decimal("tilt_percentage", { precision: 6, scale: 3 }).notNull().default('0'),
-  planarTilt: decimal("planar_tilt", { precision: 6, scale: 3 }).notNull().default('0'),
-  uniformSettlement: decimal("uniform_settlement", { precision: 8, scale: 4 }).notNull().default('0'),
-  outOfPlaneSettlement: decimal("out_of_plane_settlement", { precision: 8, scale: 4 }).notNull().default('0'),
+  elevationPoints: jsonb("elevation_points").notNull().$type<ElevationPointData[]>().default([]),
+  edgeSettlements: jsonb("edge_settlements").$type<EdgeSettlementData[]>(),
+  maxSettlement: doublePrecision("max_settlement").notNull().default(0),
+  minSettlement: doublePrecision("min_settlement").notNull().default(0),
+  differentialSettlement: doublePrecision("differential_settlement").notNull().default(0),
+  tiltPercentage: doublePrecision("tilt_percentage").notNull().default(0),
+  planarTilt: doublePrecision("planar_tilt").notNull().default(0),
+  uniformSettlement: doublePrecision("uniform_settlement").notNull().default(0),
+  outOfPlaneSettlement: doublePrecision("out_of_plane_settlement").notNull().default(0), // ft, largest |Si|
+  tiltDirection: doublePrecision("tilt_direction"), // degrees
+  tankDiameter: doublePrecision("tank_diameter"),
+  shellHeight: doublePrecision("shell_height"),
+  yieldStrength: doublePrecision("yield_strength"),
+  arcLength: doublePrecision("arc_length"), // L, ft
+  allowableOutOfPlane: doublePrecision("allowable_out_of_plane"), // S_max, ft
+  requiredPoints: integer("required_points"),
+  outOfPlaneAcceptable: boolean("out_of_plane_acceptable"),
+  edgeSettlementAcceptable: boolean("edge_settlement_acceptable"),
+  chartImage: text("chart_image"), // PNG data URL of the cosine fit
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Uploaded files (shared/attachments.ts). The file and its thumbnail live in the
+// attachment store under the keys below; the row holds what the report needs to show them.
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  kind: text("kind").notNull().default("photo"), // photo, document, logo, signature
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  width: integer("width"),
+  height: integer("height"),
+  caption: text("caption"),
+  photoNumber: integer("photo_number"), // order in the photographs appendix
+  takenAt: timestamp("taken_at"), // from EXIF
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  linkType: text("link_type"), // cml, nozzle, course or finding
+  linkRef: text("link_ref"),
+  annotations: jsonb("annotations").$type<PhotoAnnotation[]>().notNull().default([]),
+  uploadedBy: varchar("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_attachments_report").on(table.reportId)]);
+
+// Append-only change log for reports. Each row holds one section of the report
+// (base data, a calculation section or a set of rows) before and after the change.
+export const reportRevisions = pgTable("report_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  revision: integer("revision").notNull(), // 1, 2, 3... per report
+  section: text("section").notNull(),
+  action: text("action").notNull().default("update"), // update or restore
+  note: text("note"),
+  changedBy: varchar("changed_by"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_report_revisions_report_revision").on(table.reportId, table.revision)]);
+
+// Access to a single report for a user outside its organizations
+export const reportGrants = pgTable("report_grants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull(),
+  grantedBy: varchar("granted_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_report_grants_report_user").on(table.reportId, table.userId)]);
+
+// Workflow history: every status change of a report with who made it and why
+export const reportStatusChanges = pgTable("report_status_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  action: text("action").notNull(), // submit, review, return, approve, issue, reissue
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  revisionLetter: text("revision_letter").notNull(),
+  comment: text("comment").notNull(),
+  changedBy: varchar("changed_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_report_status_changes_report").on(table.reportId)]);
+
 // Relations
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+  reports: many(reports),
+  templates: many(reportTemplates),
+}));
+
+export const reportTemplatesRelations = relations(reportTemplates, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [reportTemplates.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const reportGrantsRelations = relations(reportGrants, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportGrants.reportId],
+    references: [reports.id],
+  }),
+  user: one(users, {
+    fields: [reportGrants.userId],
+    references: [users.id],
+  }),
+}));
+
+export const tanksRelations = relations(tanks, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [tanks.ownerId],
+    references: [users.id],
+  }),
+  reports: many(reports),
+}));
+
 export const reportsRelations = relations(reports, ({ one, many }) => ({
   owner: one(users, {
     fields: [reports.ownerId],
     references: [users.id],
   }),
+  tank: one(tanks, {
+    fields: [reports.tankAssetId],
+    references: [tanks.id],
+  }),
+  organization: one(organizations, {
+    fields: [reports.organizationId],
+    references: [organizations.id],
+  }),
   appendices: many(appendices),
   cmlRecords: many(cmlRecords),
   nozzleCmlRecords: many(nozzleCmlRecords),
   practicalTmins: many(practicalTmins),
   writeup: one(writeups),
+  shellCalculation: one(shellCalculations),
+  shellCourses: many(shellCourses),
+  roofCalculation: one(roofCalculations),
+  floorCalculation: one(floorCalculations),
+  floorScans: many(floorScans),
+  tankHistory: one(tankHistories),
+  nozzleCmlSurvey: one(nozzleCmlSurveys),
+  nozzleCmlRows: many(nozzleCmlRows),
+  settlementSurvey: one(settlementSurveys),
+  revisions: many(reportRevisions),
+  statusChanges: many(reportStatusChanges),
+  grants: many(reportGrants),
+  attachments: many(attachments),
+}));
+
+export const reportRevisionsRelations = relations(reportRevisions, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportRevisions.reportId],
+    references: [reports.id],
+  }),
+  user: one(users, {
+    fields: [reportRevisions.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  report: one(reports, {
+    fields: [attachments.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const reportStatusChangesRelations = relations(reportStatusChanges, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportStatusChanges.reportId],
+    references: [reports.id],
+  }),
+  user: one(users, {
+    fields: [reportStatusChanges.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const appendicesRelations = relations(appendices, ({ one }) => ({
@@ -184,11 +745,19 @@ export const appendicesRelations = relations(appendices, ({ one }) => ({
   }),
 }));
 
-export const cmlRecordsRelations = relations(cmlRecords, ({ one }) => ({
+export const cmlRecordsRelations = relations(cmlRecords, ({ one, many }) => ({
   report: one(reports, {
     fields: [cmlRecords.reportId],
     references: [reports.id],
   }),
+  readings: many(cmlReadings),
+}));
+
+export const cmlReadingsRelations = relations(cmlReadings, ({ one }) => ({
+  cmlRecord: one(cmlRecords, {
+    fields: [cmlReadings.cmlRecordId],
+    references: [cmlRecords.id],
+  }),
 }));
 
 export const nozzleCmlRecordsRelations = relations(nozzleCmlRecords, ({ one }) => ({
@@ -212,28 +781,134 @@ export const writeupsRelations = relations(writeups, ({ one }) => ({
   }),
 }));
 
+export const shellCalculationsRelations = relations(shellCalculations, ({ one }) => ({
+  report: one(reports, {
+    fields: [shellCalculations.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const shellCoursesRelations = relations(shellCourses, ({ one }) => ({
+  report: one(reports, {
+    fields: [shellCourses.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const roofCalculationsRelations = relations(roofCalculations, ({ one }) => ({
+  report: one(reports, {
+    fields: [roofCalculations.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const floorCalculationsRelations = relations(floorCalculations, ({ one }) => ({
+  report: one(reports, {
+    fields: [floorCalculations.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const floorScansRelations = relations(floorScans, ({ one }) => ({
+  report: one(reports, {
+    fields: [floorScans.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const tankHistoriesRelations = relations(tankHistories, ({ one }) => ({
+  report: one(reports, {
+    fields: [tankHistories.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const nozzleCmlSurveysRelations = relations(nozzleCmlSurveys, ({ one }) => ({
+  report: one(reports, {
+    fields: [nozzleCmlSurveys.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const nozzleCmlRowsRelations = relations(nozzleCmlRows, ({ one }) => ({
+  report: one(reports, {
+    fields: [nozzleCmlRows.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const settlementSurveysRelations = relations(settlementSurveys, ({ one }) => ({
+  report: one(reports, {
+    fields: [settlementSurveys.reportId],
+    references: [reports.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertTankSchema = createInsertSchema(tanks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertReportSchema = createInsertSchema(reports).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  status: true,
+  revisionLetter: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  approvedBy: true,
+  approvedAt: true,
+  issuedAt: true,
 });
 
+// Calculated sections kept in reports.customFields; each is saved through its own route
+export const reportSectionFields = ["localizedCorrosion", "floatingRoof", "inspectionIntervals", "brittleFracture"] as const;
+
+// What an editor may change on a report. Owner and tank change only through their own
+// routes, sharing through updateReportSharing and status through the workflow.
+export const updateReportSchema = insertReportSchema.omit({
+  ownerId: true,
+  tankAssetId: true,
+  organizationId: true,
+  clientOrganizationId: true,
+}).extend({
+  // Sent as "YYYY-MM-DD"; an empty date clears it
+  inspectionDate: z.preprocess((value) => value === "" ? null : value, z.coerce.date().nullable()),
+  // Only the base data's own text fields; they are merged into what the report already holds
+  customFields: z.record(z.string()).refine(
+    (fields) => !Object.keys(fields).some((key) => (reportSectionFields as readonly string[]).includes(key)),
+    "Calculated sections are saved through their own routes",
+  ),
+}).partial();
+
 export const insertAppendixSchema = createInsertSchema(appendices).omit({
   id: true,
   createdAt: true,
 });
 
+// Rows stay in the report they were created in
+export const updateAppendixSchema = insertAppendixSchema.omit({ reportId: true }).partial();
+
 export const insertCmlRecordSchema = createInsertSchema(cmlRecords).omit({
   id: true,
   createdAt: true,
 });
 
+export const updateCmlRecordSchema = insertCmlRecordSchema.omit({ reportId: true }).partial();
+
+export const insertCmlReadingSchema = createInsertSchema(cmlReadings).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNozzleCmlRecordSchema = createInsertSchema(nozzleCmlRecords).omit({
   id: true,
   createdAt: true,
@@ -243,6 +918,8 @@ export const insertPracticalTminSchema = createInsertSchema(practicalTmins).omit
   id: true,
 });
 
+export const updatePracticalTminSchema = insertPracticalTminSchema.omit({ reportId: true }).partial();
+
 export const insertWriteupSchema = createInsertSchema(writeups).omit({
   id: true,
   updatedAt: true,
@@ -254,11 +931,91 @@ export const insertSettlementSurveySchema = createInsertSchema(settlementSurveys
   updatedAt: true,
 });
 
+export const insertReportRevisionSchema = createInsertSchema(reportRevisions).omit({
+  id: true,
+  revision: true,
+  createdAt: true,
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a #rrggbb colour");
+
+// The logo is uploaded through its own route
+export const insertReportTemplateSchema = createInsertSchema(reportTemplates).omit({
+  id: true,
+  organizationId: true,
+  logoUrl: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1),
+  title: z.string().min(1),
+  coverLayout: z.enum(coverLayouts),
+  fontFamily: z.enum(templateFonts),
+  primaryColor: hexColor,
+  secondaryColor: hexColor,
+  boilerplate: z.array(z.object({ section: z.enum(reportSectionIds), text: z.string() })),
+  sections: z.array(z.enum(reportSectionIds)),
+});
+
+// Only the details can be edited; the file itself is replaced by uploading again
+export const updateAttachmentSchema = z.object({
+  kind: z.enum(attachmentKinds),
+  caption: z.string().nullable(),
+  photoNumber: z.number().int().positive().nullable(),
+  linkType: z.enum(attachmentLinkTypes).nullable(),
+  linkRef: z.string().nullable(),
+  annotations: z.array(z.object({
+    shape: z.enum(annotationShapes),
+    x1: z.number().min(0).max(1),
+    y1: z.number().min(0).max(1),
+    x2: z.number().min(0).max(1),
+    y2: z.number().min(0).max(1),
+    color: hexColor,
+  })),
+}).partial();
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReportGrantSchema = createInsertSchema(reportGrants).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReportStatusChangeSchema = createInsertSchema(reportStatusChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+
+export type InsertReportTemplate = z.infer<typeof insertReportTemplateSchema>;
+export type ReportTemplate = typeof reportTemplates.$inferSelect;
+
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+
+export type InsertTank = z.infer<typeof insertTankSchema>;
+export type Tank = typeof tanks.$inferSelect;
 
 export type InsertReport = z.infer<typeof insertReportSchema>;
+export type UpdateReport = z.infer<typeof updateReportSchema>;
 export type Report = typeof reports.$inferSelect;
 
 export type InsertAppendix = z.infer<typeof insertAppendixSchema>;
@@ -267,6 +1024,9 @@ export type Appendix = typeof appendices.$inferSelect;
 export type InsertCmlRecord = z.infer<typeof insertCmlRecordSchema>;
 export type CmlRecord = typeof cmlRecords.$inferSelect;
 
+export type InsertCmlReading = z.infer<typeof insertCmlReadingSchema>;
+export type CmlReading = typeof cmlReadings.$inferSelect;
+
 export type InsertNozzleCmlRecord = z.infer<typeof insertNozzleCmlRecordSchema>;
 export type NozzleCmlRecord = typeof nozzleCmlRecords.$inferSelect;
 
@@ -276,5 +1036,27 @@ export type PracticalTmin = typeof practicalTmins.$inferSelect;
 export type InsertWriteup = z.infer<typeof insertWriteupSchema>;
 export type Writeup = typeof writeups.$inferSelect;
 
+export type InsertReportRevision = z.infer<typeof insertReportRevisionSchema>;
+export type ReportRevision = typeof reportRevisions.$inferSelect;
+
+export type InsertReportGrant = z.infer<typeof insertReportGrantSchema>;
+export type ReportGrant = typeof reportGrants.$inferSelect;
+
+export type InsertReportStatusChange = z.infer<typeof insertReportStatusChangeSchema>;
+export type ReportStatusChange = typeof reportStatusChanges.$inferSelect;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+export type UpdateAttachment = z.infer<typeof updateAttachmentSchema>;
+
 export type InsertSettlementSurvey = z.infer<typeof insertSettlementSurveySchema>;
 export type SettlementSurvey = typeof settlementSurveys.$inferSelect;
+
+export type ShellCalculationRow = typeof shellCalculations.$inferSelect;
+export type ShellCourseRow = typeof shellCourses.$inferSelect;
+export type RoofCalculationRow = typeof roofCalculations.$inferSelect;
+export type FloorCalculationRow = typeof floorCalculations.$inferSelect;
+export type FloorScanRow = typeof floorScans.$inferSelect;
+export type TankHistoryRow = typeof tankHistories.$inferSelect;
+export type NozzleCmlSurveyRow = typeof nozzleCmlSurveys.$inferSelect;
+export type NozzleCmlRow = typeof nozzleCmlRows.$inferSelect;
@@ -0,0 +1,96 @@
+// Report review and approval workflow. A report moves draft → ready for review →
+// reviewed → approved → issued; an issued report is locked and can only be reissued,
+// which reopens it as a draft under the next revision letter.
+import type { UserRole } from "./access";
+
+export const reportStatuses = ["draft", "ready_for_review", "reviewed", "approved", "issued"] as const;
+export type ReportStatus = (typeof reportStatuses)[number];
+
+export const reportStatusLabels: Record<ReportStatus, string> = {
+  draft: "Draft",
+  ready_for_review: "Ready for Review",
+  reviewed: "Reviewed",
+  approved: "Approved",
+  issued: "Issued",
+};
+
+// Report columns written only by status transitions, never by editing the report
+export const reportWorkflowFields = [
+  "status", "revisionLetter", "reviewedBy", "reviewedAt", "approvedBy", "approvedAt", "issuedAt",
+] as const;
+
+export const transitionActions = ["submit", "review", "return", "approve", "issue", "reissue"] as const;
+export type TransitionAction = (typeof transitionActions)[number];
+
+export interface ReportTransition {
+  label: string;
+  from: ReportStatus[];
+  to: ReportStatus;
+  roles: UserRole[];
+}
+
+export const reportTransitions: Record<TransitionAction, ReportTransition> = {
+  submit: {
+    label: "Submit for Review",
+    from: ["draft"],
+    to: "ready_for_review",
+    roles: ["inspector", "reviewer", "admin"],
+  },
+  review: {
+    label: "Mark Reviewed",
+    from: ["ready_for_review"],
+    to: "reviewed",
+    roles: ["reviewer"],
+  },
+  return: {
+    label: "Return to Draft",
+    from: ["ready_for_review", "reviewed", "approved"],
+    to: "draft",
+    roles: ["reviewer", "admin"],
+  },
+  approve: {
+    label: "Approve",
+    from: ["reviewed"],
+    to: "approved",
+    roles: ["admin"],
+  },
+  issue: {
+    label: "Issue",
+    from: ["approved"],
+    to: "issued",
+    roles: ["admin"],
+  },
+  reissue: {
+    label: "Reissue",
+    from: ["issued"],
+    to: "draft",
+    roles: ["admin"],
+  },
+};
+
+// Reports created before the workflow may carry any free-text status; they start as drafts
+export function reportStatus(status: string | null | undefined): ReportStatus {
+  return reportStatuses.find((value) => value === status) ?? "draft";
+}
+
+export function availableTransitions(status: string | null | undefined, role: string | null | undefined): TransitionAction[] {
+  const current = reportStatus(status);
+  return transitionActions.filter((action) => {
+    const transition = reportTransitions[action];
+    return transition.from.includes(current) && transition.roles.some((allowed) => allowed === role);
+  });
+}
+
+// A, B, ... Z, AA, AB, ...
+export function nextRevisionLetter(letter: string | null | undefined): string {
+  if (!letter || !/^[A-Z]+$/.test(letter)) return "A";
+  const letters = letter.split("");
+  let i = letters.length - 1;
+  while (i >= 0 && letters[i] === "Z") {
+    letters[i] = "A";
+    i--;
+  }
+  if (i < 0) return "A" + letters.join("");
+  letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+  return letters.join("");
+}